@@ -0,0 +1,611 @@
+import ts from 'typescript';
+import { importedNames } from './extract.js';
+import { actVersion } from './migrate.js';
+import type { ActNode } from './types.js';
+import type { GeneratedFile } from './workspace.js';
+
+/**
+ * Static accessibility checks for an Abstract Component Tree and the TSX
+ * generated from it. Nothing is rendered: the ACT rules look at components,
+ * props and text, the code rules at the JSX of each file. Findings cite the
+ * WCAG 2.1 success criteria they relate to.
+ */
+
+export type A11yRule =
+  | 'input-label'
+  | 'button-name'
+  | 'dialog-title'
+  | 'image-alt'
+  | 'chart-title'
+  | 'heading-order'
+  | 'click-keyboard'
+  | 'positive-tabindex'
+  | 'aria-hidden-focusable'
+  | 'keyboard-trap';
+
+export interface A11yFinding {
+  severity: 'error' | 'warning';
+  code: A11yRule;
+  /** WCAG success criteria, e.g. `4.1.2`. */
+  wcag: string[];
+  /** JSON path of the ACT node, for findings in the tree. */
+  path?: string;
+  /** Generated file path, for findings in code. */
+  file?: string;
+  line?: number;
+  column?: number;
+  message: string;
+}
+
+export interface A11yReport {
+  passed: boolean;
+  findings: A11yFinding[];
+}
+
+export const WCAG_CRITERIA: Record<string, string> = {
+  '1.1.1': 'Non-text Content (A)',
+  '1.3.1': 'Info and Relationships (A)',
+  '2.1.1': 'Keyboard (A)',
+  '2.1.2': 'No Keyboard Trap (A)',
+  '2.4.3': 'Focus Order (A)',
+  '2.4.6': 'Headings and Labels (AA)',
+  '3.3.2': 'Labels or Instructions (A)',
+  '4.1.2': 'Name, Role, Value (A)'
+};
+
+const RULES: Record<
+  A11yRule,
+  { severity: A11yFinding['severity']; wcag: string[] }
+> = {
+  'input-label': { severity: 'error', wcag: ['1.3.1', '3.3.2', '4.1.2'] },
+  'button-name': { severity: 'error', wcag: ['4.1.2'] },
+  'dialog-title': { severity: 'error', wcag: ['2.4.6', '4.1.2'] },
+  'image-alt': { severity: 'error', wcag: ['1.1.1'] },
+  'chart-title': { severity: 'warning', wcag: ['1.1.1'] },
+  'heading-order': { severity: 'warning', wcag: ['1.3.1', '2.4.6'] },
+  'click-keyboard': { severity: 'warning', wcag: ['2.1.1'] },
+  'positive-tabindex': { severity: 'warning', wcag: ['2.4.3'] },
+  'aria-hidden-focusable': { severity: 'error', wcag: ['4.1.2'] },
+  'keyboard-trap': { severity: 'error', wcag: ['2.1.2'] }
+};
+
+/** Form controls that need an accessible name. */
+const INPUT_COMPONENTS = new Set([
+  'Input',
+  'TextBox',
+  'TextArea',
+  'NumericTextBox',
+  'MaskedTextBox',
+  'DatePicker',
+  'DateTimePicker',
+  'TimePicker',
+  'DateRangePicker',
+  'DropDownList',
+  'ComboBox',
+  'AutoComplete',
+  'MultiSelect',
+  'DropDownTree',
+  'MultiSelectTree',
+  'Slider',
+  'RangeSlider',
+  'Switch',
+  'Checkbox',
+  'RadioGroup',
+  'ColorPicker',
+  'Rating',
+  'Field',
+  'input',
+  'select',
+  'textarea'
+]);
+
+const BUTTON_COMPONENTS = new Set([
+  'Button',
+  'DropDownButton',
+  'SplitButton',
+  'FloatingActionButton',
+  'button'
+]);
+
+const DIALOG_COMPONENTS = new Set(['Dialog', 'Window']);
+
+/** Elements whose content labels the controls inside them. */
+const LABELLING_COMPONENTS = new Set(['label', 'Label', 'FloatingLabel']);
+
+/** Props that give a control or dialog its accessible name. */
+const NAME_PROPS = [
+  'label',
+  'title',
+  'text',
+  'aria-label',
+  'aria-labelledby',
+  'ariaLabel',
+  'ariaLabelledBy'
+];
+
+const HEADING = /^h([1-6])$/;
+
+function finding(
+  code: A11yRule,
+  message: string,
+  at: Pick<A11yFinding, 'path' | 'file' | 'line' | 'column'>,
+  severity = RULES[code].severity
+): A11yFinding {
+  return { severity, code, wcag: RULES[code].wcag, ...at, message };
+}
+
+function hasNameProp(props: Record<string, unknown> | undefined) {
+  return NAME_PROPS.some((name) => {
+    const value = props?.[name];
+    return typeof value === 'string' ? value.trim() !== '' : value != null;
+  });
+}
+
+/**
+ * Audits the planned UI. v1 nodes cannot declare props, so findings that
+ * depend on a missing prop are only warnings for v1 trees: the generator
+ * may still add the label from the description.
+ */
+export function auditAct(act: ActNode): A11yFinding[] {
+  const findings: A11yFinding[] = [];
+  const propSeverity = actVersion(act) === 1 ? ('warning' as const) : undefined;
+  let lastHeading = 0;
+
+  const visit = (node: ActNode, path: string, labelled: boolean) => {
+    const { component, props } = node;
+    const text = typeof node.children === 'string' ? node.children.trim() : '';
+    const children = Array.isArray(node.children) ? node.children : [];
+    const at = { path };
+
+    if (INPUT_COMPONENTS.has(component) && !labelled && !hasNameProp(props)) {
+      findings.push(
+        finding(
+          'input-label',
+          `${component} has no label. Set props.label (or aria-label), or wrap it with a Label.`,
+          at,
+          propSeverity
+        )
+      );
+    }
+    if (
+      BUTTON_COMPONENTS.has(component) &&
+      !text &&
+      children.length === 0 &&
+      !hasNameProp(props)
+    ) {
+      findings.push(
+        finding(
+          'button-name',
+          props?.svgIcon !== undefined || props?.icon !== undefined
+            ? `Icon-only ${component} has no accessible name. Set props["aria-label"] or a title.`
+            : `${component} has no text. Give it text children or props["aria-label"].`,
+          at
+        )
+      );
+    }
+    if (DIALOG_COMPONENTS.has(component) && !hasNameProp(props)) {
+      findings.push(
+        finding(
+          'dialog-title',
+          `${component} has no title. Set props.title so screen readers announce what it is for.`,
+          at,
+          propSeverity
+        )
+      );
+    }
+    if (component === 'img' && typeof props?.alt !== 'string') {
+      findings.push(
+        finding(
+          'image-alt',
+          'img has no alt text. Set props.alt, or alt="" if the image is decorative.',
+          at,
+          propSeverity
+        )
+      );
+    }
+    if (
+      component === 'Chart' &&
+      !hasNameProp(props) &&
+      !children.some((child) => child.component === 'ChartTitle')
+    ) {
+      findings.push(
+        finding(
+          'chart-title',
+          'Chart has no ChartTitle or aria-label describing what it shows.',
+          at
+        )
+      );
+    }
+    const heading = HEADING.exec(component);
+    if (heading) {
+      const level = Number(heading[1]);
+      if (lastHeading > 0 && level > lastHeading + 1) {
+        findings.push(
+          finding(
+            'heading-order',
+            `${component} follows h${lastHeading}, skipping ${level - lastHeading - 1} heading level(s).`,
+            at
+          )
+        );
+      }
+      lastHeading = level;
+    }
+
+    const labelledChildren =
+      LABELLING_COMPONENTS.has(component) ||
+      children.some((child) => LABELLING_COMPONENTS.has(child.component));
+    children.forEach((child, index) =>
+      visit(child, `${path}.children[${index}]`, labelled || labelledChildren)
+    );
+  };
+
+  visit(act, '$', false);
+  return findings;
+}
+
+type Attributes = Map<string, ts.JsxAttributeValue | undefined>;
+
+interface JsxContext {
+  file: ts.SourceFile;
+  path: string;
+  imports: ReturnType<typeof importedNames>;
+  /** Ids referenced by `htmlFor` or `editorId`; undefined marks a dynamic one. */
+  labelTargets: Set<string | undefined>;
+  findings: A11yFinding[];
+  lastHeading: number;
+}
+
+/** Audits the JSX of generated files, reporting file and line numbers. */
+export function auditCode(files: GeneratedFile[]): A11yFinding[] {
+  const findings: A11yFinding[] = [];
+
+  for (const generated of files) {
+    if (!/\.(tsx|jsx)$/.test(generated.path)) continue;
+    const file = ts.createSourceFile(
+      generated.path,
+      generated.content,
+      ts.ScriptTarget.Latest,
+      true,
+      ts.ScriptKind.TSX
+    );
+    const context: JsxContext = {
+      file,
+      path: generated.path,
+      imports: importedNames(file),
+      labelTargets: labelTargets(file),
+      findings,
+      lastHeading: 0
+    };
+    visitJsx(file, context, false);
+  }
+
+  return findings;
+}
+
+export function auditAccessibility(options: {
+  act?: ActNode;
+  files?: GeneratedFile[];
+}): A11yReport {
+  const findings = [
+    ...(options.act ? auditAct(options.act) : []),
+    ...(options.files ? auditCode(options.files) : [])
+  ];
+  return {
+    passed: findings.every((item) => item.severity !== 'error'),
+    findings
+  };
+}
+
+function labelTargets(file: ts.SourceFile) {
+  const targets = new Set<string | undefined>();
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isJsxAttribute(node) &&
+      ['htmlFor', 'editorId'].includes(node.name.getText(file))
+    ) {
+      targets.add(stringValue(node.initializer));
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(file);
+  return targets;
+}
+
+/** The string a JSX attribute is set to, or undefined when it is computed. */
+function stringValue(value: ts.JsxAttributeValue | undefined) {
+  if (value && ts.isStringLiteral(value)) return value.text;
+  if (
+    value &&
+    ts.isJsxExpression(value) &&
+    value.expression &&
+    ts.isStringLiteralLike(value.expression)
+  ) {
+    return value.expression.text;
+  }
+  return undefined;
+}
+
+/** `true` for `disabled` and `disabled={true}`, the value for literals. */
+function literalAttribute(value: ts.JsxAttributeValue | undefined) {
+  if (value === undefined) return true;
+  const string = stringValue(value);
+  if (string !== undefined) return string;
+  const expression = ts.isJsxExpression(value) ? value.expression : undefined;
+  if (!expression) return undefined;
+  if (expression.kind === ts.SyntaxKind.TrueKeyword) return true;
+  if (expression.kind === ts.SyntaxKind.FalseKeyword) return false;
+  if (ts.isNumericLiteral(expression)) return Number(expression.text);
+  if (
+    ts.isPrefixUnaryExpression(expression) &&
+    expression.operator === ts.SyntaxKind.MinusToken &&
+    ts.isNumericLiteral(expression.operand)
+  ) {
+    return -Number(expression.operand.text);
+  }
+  return undefined;
+}
+
+function visitJsx(node: ts.Node, context: JsxContext, labelled: boolean) {
+  if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node)) {
+    const opening = ts.isJsxElement(node) ? node.openingElement : node;
+    const tag = opening.tagName.getText(context.file);
+    const imported = context.imports.get(tag);
+    const component = imported?.module.startsWith('@progress/kendo-')
+      ? imported.name
+      : tag;
+    const attributes: Attributes = new Map();
+    let spread = false;
+    for (const property of opening.attributes.properties) {
+      if (ts.isJsxSpreadAttribute(property)) {
+        spread = true;
+      } else {
+        attributes.set(
+          property.name.getText(context.file),
+          property.initializer
+        );
+      }
+    }
+
+    // Spread props may carry the label or handlers; only flag what is certain.
+    checkElement(
+      component,
+      attributes,
+      ts.isJsxElement(node) ? node.children : undefined,
+      { spread, labelled },
+      opening,
+      context
+    );
+
+    // Attributes are walked too: render props such as Form's hold JSX.
+    const labels = labelled || LABELLING_COMPONENTS.has(component);
+    ts.forEachChild(node, (child) => visitJsx(child, context, labels));
+    return;
+  }
+  ts.forEachChild(node, (child) => visitJsx(child, context, labelled));
+}
+
+const FOCUSABLE_TAGS = new Set([
+  'a',
+  'button',
+  'input',
+  'select',
+  'textarea',
+  'Button'
+]);
+
+const NON_INTERACTIVE_TAGS = new Set([
+  'div',
+  'span',
+  'p',
+  'li',
+  'td',
+  'tr',
+  'img',
+  'section',
+  'article',
+  'header',
+  'footer'
+]);
+
+function checkElement(
+  component: string,
+  attributes: Attributes,
+  children: ts.NodeArray<ts.JsxChild> | undefined,
+  { spread, labelled }: { spread: boolean; labelled: boolean },
+  opening: ts.JsxOpeningLikeElement,
+  context: JsxContext
+) {
+  const { line, character } = context.file.getLineAndCharacterOfPosition(
+    opening.getStart(context.file)
+  );
+  const at = { file: context.path, line: line + 1, column: character + 1 };
+  const report = (code: A11yRule, message: string) =>
+    context.findings.push(finding(code, message, at));
+  const named = NAME_PROPS.some((name) => attributes.has(name));
+  const literal = (name: string) =>
+    attributes.has(name) ? literalAttribute(attributes.get(name)) : undefined;
+
+  if (
+    INPUT_COMPONENTS.has(component) &&
+    !spread &&
+    !labelled &&
+    !named &&
+    !['hidden', 'submit', 'button', 'reset'].includes(String(literal('type')))
+  ) {
+    const id = attributes.has('id') ? stringValue(attributes.get('id')) : null;
+    const referenced =
+      id !== null &&
+      (context.labelTargets.has(id) || context.labelTargets.has(undefined));
+    if (!referenced) {
+      report(
+        'input-label',
+        `<${component}> has no label, aria-label or <Label editorId> pointing at its id.`
+      );
+    }
+  }
+
+  if (
+    BUTTON_COMPONENTS.has(component) &&
+    !spread &&
+    !named &&
+    !hasContent(children)
+  ) {
+    report(
+      'button-name',
+      attributes.has('svgIcon') || attributes.has('icon')
+        ? `Icon-only <${component}> has no accessible name; add aria-label or title.`
+        : `<${component}> has no text content or aria-label.`
+    );
+  }
+
+  if (DIALOG_COMPONENTS.has(component) && !spread && !named) {
+    report(
+      'dialog-title',
+      `<${component}> has no title or aria-label; screen readers announce it without a name.`
+    );
+  }
+
+  if (component === 'img' && !spread && !attributes.has('alt')) {
+    report(
+      'image-alt',
+      '<img> has no alt attribute; use alt="" for decorative images.'
+    );
+  }
+
+  const heading = HEADING.exec(component);
+  if (heading) {
+    const level = Number(heading[1]);
+    if (context.lastHeading > 0 && level > context.lastHeading + 1) {
+      report(
+        'heading-order',
+        `<${component}> follows <h${context.lastHeading}>, skipping ${level - context.lastHeading - 1} heading level(s).`
+      );
+    }
+    context.lastHeading = level;
+  }
+
+  if (
+    NON_INTERACTIVE_TAGS.has(component) &&
+    attributes.has('onClick') &&
+    !attributes.has('role')
+  ) {
+    const keyHandler = ['onKeyDown', 'onKeyUp', 'onKeyPress'].some((name) =>
+      attributes.has(name)
+    );
+    if (!keyHandler || !attributes.has('tabIndex')) {
+      report(
+        'click-keyboard',
+        `<${component} onClick> cannot be reached or used with the keyboard; use a Button, ` +
+          'or add role, tabIndex={0} and an onKeyDown handler.'
+      );
+    }
+  }
+
+  const tabIndex = literal('tabIndex');
+  if (typeof tabIndex === 'number' && tabIndex > 0) {
+    report(
+      'positive-tabindex',
+      `tabIndex={${tabIndex}} moves <${component}> ahead of the page's natural focus order; use 0 or -1.`
+    );
+  }
+
+  const hidden = literal('aria-hidden');
+  if (
+    (hidden === true || hidden === 'true') &&
+    (FOCUSABLE_TAGS.has(component) ||
+      (typeof tabIndex === 'number' && tabIndex >= 0))
+  ) {
+    report(
+      'aria-hidden-focusable',
+      `<${component}> is focusable but aria-hidden, so keyboard focus lands on an element screen readers cannot see.`
+    );
+  }
+
+  for (const name of ['onKeyDown', 'onKeyDownCapture', 'onBlur']) {
+    const handler = handlerText(attributes.get(name), context.file);
+    if (!handler) continue;
+    if (
+      name !== 'onBlur' &&
+      /['"`]Tab['"`]|(?:keyCode|which)\s*===?\s*9\b/.test(handler) &&
+      /\.preventDefault\(\)/.test(handler) &&
+      !/\.focus\(/.test(handler)
+    ) {
+      report(
+        'keyboard-trap',
+        `The ${name} handler of <${component}> prevents Tab without moving focus, trapping keyboard users.`
+      );
+    }
+    if (name === 'onBlur' && /\.focus\(/.test(handler)) {
+      report(
+        'keyboard-trap',
+        `The onBlur handler of <${component}> moves focus back, so keyboard users cannot leave it.`
+      );
+    }
+  }
+}
+
+/** Text, expressions or elements other than icons inside an element. */
+function hasContent(children: ts.NodeArray<ts.JsxChild> | undefined) {
+  return (children ?? []).some((child) => {
+    if (ts.isJsxText(child)) return child.text.trim() !== '';
+    if (ts.isJsxExpression(child)) return child.expression !== undefined;
+    const opening = ts.isJsxElement(child)
+      ? child.openingElement
+      : ts.isJsxSelfClosingElement(child)
+        ? child
+        : undefined;
+    return (
+      !opening || !/^(SvgIcon|Icon|svg|i)$/.test(opening.tagName.getText())
+    );
+  });
+}
+
+/**
+ * The source of an event handler: the inline function, or the declaration
+ * of a handler referenced by name in the same file.
+ */
+function handlerText(
+  value: ts.JsxAttributeValue | undefined,
+  file: ts.SourceFile
+): string | undefined {
+  const expression =
+    value && ts.isJsxExpression(value) ? value.expression : undefined;
+  if (!expression) return undefined;
+  if (!ts.isIdentifier(expression)) return expression.getText(file);
+
+  let declaration: string | undefined;
+  const visit = (node: ts.Node) => {
+    if (declaration) return;
+    if (
+      (ts.isFunctionDeclaration(node) || ts.isVariableDeclaration(node)) &&
+      node.name?.getText(file) === expression.text
+    ) {
+      declaration = node.getText(file);
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(file);
+  return declaration;
+}
+
+function formatLocation(item: A11yFinding) {
+  return item.file
+    ? `${item.file}:${item.line}:${item.column}`
+    : (item.path ?? '$');
+}
+
+/** Renders findings as a markdown list, each with its WCAG criteria. */
+export function formatA11yFindings(findings: A11yFinding[]) {
+  if (findings.length === 0) return '- No issues found';
+
+  return findings
+    .map((item) => {
+      const icon = item.severity === 'error' ? '❌' : '⚠️';
+      const wcag = item.wcag
+        .map((criterion) => `${criterion} ${WCAG_CRITERIA[criterion]}`)
+        .join('; ');
+      return `- ${icon} \`${formatLocation(item)}\` [${item.code}] ${item.message} _(WCAG ${wcag})_`;
+    })
+    .join('\n');
+}
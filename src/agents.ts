@@ -0,0 +1,452 @@
+import { performance } from 'node:perf_hooks';
+import { z } from 'zod';
+import { env } from './env.js';
+import { ACTComponentSchema } from './types.js';
+import { migrateAct } from './migrate.js';
+import { AgentError } from './errors.js';
+import { responseCache } from './cache.js';
+import { ProjectProfileSchema } from './profile.js';
+import type { ProjectProfile } from './profile.js';
+import { formatDataModel, modelPath, modelSource } from './dataModel.js';
+import type { EntityModel } from './dataModel.js';
+import { logger, serializeError } from './logger.js';
+import { metrics } from './metrics.js';
+import { traceEvent } from './trace.js';
+
+export type AgentName = 'planner' | 'structure' | 'merger';
+
+/**
+ * Envelope shared by every agent endpoint. `data` is only validated against
+ * the endpoint's payload schema once the envelope itself checks out.
+ */
+const AgentEnvelopeSchema = z.object({
+  success: z.boolean().optional(),
+  error: z.string().optional(),
+  data: z.unknown().optional()
+});
+
+export const PlannerRequestSchema = z.object({
+  query: z.string().min(1),
+  profile: ProjectProfileSchema.optional()
+});
+
+export const PlannerResponseSchema = z.object({
+  plan: z.string()
+});
+
+export const StructureRequestSchema = z.object({
+  executionPlan: z.object({
+    id: z.string(),
+    userQuery: z.string(),
+    plan: z.string()
+  }),
+  query: z.string().min(1),
+  profile: ProjectProfileSchema.optional()
+});
+
+export const StructureResponseSchema = z.object({
+  structure: ACTComponentSchema
+});
+
+export const MergerRequestSchema = z.object({
+  actStructure: ACTComponentSchema,
+  profile: ProjectProfileSchema.optional(),
+  /** Entity the page is bound to; the model file is generated alongside. */
+  dataModel: z
+    .object({ name: z.string(), path: z.string(), typescript: z.string() })
+    .optional()
+});
+
+export const MergerResponseSchema = z.object({
+  code: z
+    .object({
+      mainComponent: z.string(),
+      /** Suggested file name for the main component, e.g. `UsersPage.tsx`. */
+      fileName: z.string().optional(),
+      /** Auxiliary files (styles, types, mock data) relative to the page. */
+      files: z
+        .array(z.object({ path: z.string(), content: z.string() }))
+        .optional()
+    })
+    .passthrough()
+});
+
+export type PlannerResponse = z.infer<typeof PlannerResponseSchema>;
+export type StructureResponse = z.infer<typeof StructureResponseSchema>;
+export type MergerResponse = z.infer<typeof MergerResponseSchema>;
+
+export interface AgentCallOptions {
+  /** Aborts the upstream request, e.g. when the MCP client cancels the tool call. */
+  signal?: AbortSignal;
+  /** Project design-system context sent along with the request. */
+  profile?: ProjectProfile;
+  /** Skip the cache lookup; a successful response still replaces the entry. */
+  bypassCache?: boolean;
+  /** Entity the page displays or edits, described to every agent. */
+  dataModel?: EntityModel;
+  /** HTTP client making the call; cached responses are kept per client. */
+  owner?: string;
+}
+
+const TIMEOUTS: Record<AgentName, number> = {
+  planner: env.PLANNER_TIMEOUT_MS,
+  structure: env.STRUCTURE_TIMEOUT_MS,
+  merger: env.MERGER_TIMEOUT_MS
+};
+
+/** HTTP statuses worth retrying: throttling and transient gateway failures. */
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+const MAX_RETRY_DELAY_MS = 30_000;
+
+/**
+ * Posts to one KendoAI agent endpoint and validates the response envelope
+ * and payload. Failures are thrown as an AgentError classified by kind.
+ * Transient failures are retried with exponential backoff; timeouts and
+ * cancellations are not, since the upstream job may still be running.
+ * Successful responses are cached by normalized request.
+ */
+async function callAgent<T extends z.ZodTypeAny>(
+  agent: AgentName,
+  body: Record<string, unknown>,
+  responseSchema: T,
+  options: AgentCallOptions = {}
+): Promise<z.infer<T>> {
+  if (!options.bypassCache) {
+    const cached = responseSchema.safeParse(
+      await responseCache
+        .get(agent, body, options.owner)
+        .catch(() => undefined)
+    );
+    if (cached.success) {
+      metrics.recordCacheHit(agent);
+      logger.debug('agent.cache_hit', { agent });
+      traceEvent('agent.cache_hit', { agent, request: body });
+      return cached.data;
+    }
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await attemptCall(
+        agent,
+        body,
+        responseSchema,
+        options.signal,
+        attempt + 1
+      );
+      await responseCache
+        .set(agent, body, response, options.owner)
+        .catch((error) => {
+          logger.warning('cache.write_failed', {
+            agent,
+            error: serializeError(error)
+          });
+        });
+      return response;
+    } catch (error) {
+      if (
+        !isRetryable(error) ||
+        attempt >= env.AGENT_MAX_RETRIES ||
+        options.signal?.aborted
+      ) {
+        throw error;
+      }
+
+      const delay = retryDelay(attempt, error as AgentError);
+      logger.warning('agent.retry', {
+        agent,
+        kind: (error as AgentError).kind,
+        status: (error as AgentError).status,
+        delayMs: delay,
+        nextAttempt: attempt + 2,
+        maxAttempts: env.AGENT_MAX_RETRIES + 1
+      });
+      await sleep(delay, agent, options.signal);
+    }
+  }
+}
+
+async function attemptCall<T extends z.ZodTypeAny>(
+  agent: AgentName,
+  body: Record<string, unknown>,
+  responseSchema: T,
+  signal: AbortSignal | undefined,
+  attempt: number
+): Promise<z.infer<T>> {
+  const timeoutMs = TIMEOUTS[agent];
+  const requestText = JSON.stringify(
+    env.SECRET_TRANSPORT === 'header' ? body : { ...body, secret: env.SECRET }
+  );
+  const started = performance.now();
+  const record = (status: number | string, responseText = '') => {
+    const call = {
+      status,
+      durationMs: performance.now() - started,
+      requestBytes: Buffer.byteLength(requestText),
+      responseBytes: Buffer.byteLength(responseText)
+    };
+    metrics.recordUpstream(agent, call);
+    logger.debug('agent.response', {
+      agent,
+      attempt,
+      ...call,
+      durationMs: Math.round(call.durationMs)
+    });
+    // The trace gets the request without the secret.
+    traceEvent('agent.exchange', {
+      agent,
+      attempt,
+      status,
+      durationMs: Math.round(call.durationMs),
+      request: body,
+      response: parseJson(responseText) ?? snippet(responseText)
+    });
+  };
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  let response: Response;
+  let text: string;
+  try {
+    if (signal?.aborted) controller.abort();
+    response = await fetch(`${env.SERVER_URL}/api/agents/${agent}/generate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(env.SECRET_TRANSPORT !== 'body'
+          ? { Authorization: `Bearer ${env.SECRET}` }
+          : {})
+      },
+      body: requestText,
+      signal: controller.signal
+    });
+    text = await response.text();
+  } catch (error) {
+    record(signal?.aborted ? 'cancelled' : timedOut ? 'timeout' : 'network');
+    if (signal?.aborted) {
+      throw new AgentError('cancelled', agent, 'The tool call was cancelled', {
+        cause: error
+      });
+    }
+    if (timedOut) {
+      throw new AgentError(
+        'timeout',
+        agent,
+        `No response from the ${agent} agent within ${timeoutMs}ms`,
+        { cause: error }
+      );
+    }
+    throw new AgentError('network', agent, describeCause(error), {
+      cause: error
+    });
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+
+  record(response.status, text);
+  const payload = parseJson(text);
+
+  if (!response.ok) {
+    throw AgentError.fromStatus(
+      agent,
+      response,
+      upstreamMessage(payload),
+      payload === undefined ? snippet(text) || undefined : undefined
+    );
+  }
+
+  if (payload === undefined) {
+    throw new AgentError(
+      'malformed',
+      agent,
+      `Expected JSON but received ${
+        response.headers.get('content-type') ?? 'an unknown content type'
+      }`,
+      { status: response.status, details: snippet(text) }
+    );
+  }
+
+  const envelope = AgentEnvelopeSchema.safeParse(payload);
+  if (!envelope.success) {
+    throw new AgentError(
+      'malformed',
+      agent,
+      'Response is not an agent envelope',
+      { status: response.status, details: formatIssues(envelope.error) }
+    );
+  }
+
+  if (!envelope.data.success && envelope.data.data === undefined) {
+    throw new AgentError(
+      'rejected',
+      agent,
+      envelope.data.error || 'The agent reported failure without details',
+      { status: response.status }
+    );
+  }
+
+  const data = responseSchema.safeParse(envelope.data.data);
+  if (!data.success) {
+    throw new AgentError(
+      'malformed',
+      agent,
+      'Response payload does not match the expected schema',
+      { status: response.status, details: formatIssues(data.error) }
+    );
+  }
+
+  return data.data;
+}
+
+function isRetryable(error: unknown) {
+  if (!(error instanceof AgentError)) return false;
+  if (error.kind === 'network') return true;
+  return error.status !== undefined && RETRYABLE_STATUSES.has(error.status);
+}
+
+/**
+ * Exponential backoff with ±20% jitter, honoring Retry-After when the
+ * service sends one with a 429.
+ */
+function retryDelay(attempt: number, error: AgentError) {
+  const exponential = env.AGENT_RETRY_BASE_DELAY_MS * 2 ** attempt;
+  const jittered = exponential * (0.8 + Math.random() * 0.4);
+  const retryAfter = (error.retryAfterSeconds ?? 0) * 1000;
+  return Math.round(
+    Math.min(Math.max(jittered, retryAfter), MAX_RETRY_DELAY_MS)
+  );
+}
+
+function sleep(ms: number, agent: AgentName, signal: AbortSignal | undefined) {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AgentError('cancelled', agent, 'The tool call was cancelled'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function upstreamMessage(payload: unknown) {
+  if (payload && typeof payload === 'object') {
+    const { error, message } = payload as Record<string, unknown>;
+    if (typeof error === 'string' && error) return error;
+    if (typeof message === 'string' && message) return message;
+  }
+  return undefined;
+}
+
+function snippet(text: string) {
+  const trimmed = text.trim().replace(/\s+/g, ' ');
+  return trimmed.length > 200 ? `${trimmed.slice(0, 200)}…` : trimmed;
+}
+
+function formatIssues(error: z.ZodError) {
+  return error.issues
+    .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ');
+}
+
+function describeCause(error: unknown) {
+  if (!(error instanceof Error)) return 'Unknown network error';
+  const cause = (error as Error & { cause?: unknown }).cause;
+  return cause instanceof Error
+    ? `${error.message}: ${cause.message}`
+    : error.message;
+}
+
+function validateRequest<T extends z.ZodTypeAny>(
+  agent: AgentName,
+  schema: T,
+  body: z.input<T>
+): z.infer<T> {
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    throw new AgentError('client', agent, 'Invalid request payload', {
+      details: formatIssues(parsed.error)
+    });
+  }
+  return parsed.data;
+}
+
+function withDataModel(query: string, dataModel?: EntityModel) {
+  return dataModel ? `${query}\n\n${formatDataModel(dataModel)}` : query;
+}
+
+export function generatePlan(
+  query: string,
+  options?: AgentCallOptions
+): Promise<PlannerResponse> {
+  return callAgent(
+    'planner',
+    validateRequest('planner', PlannerRequestSchema, {
+      query: withDataModel(query, options?.dataModel),
+      profile: options?.profile
+    }),
+    PlannerResponseSchema,
+    options
+  );
+}
+
+export function generateStructure(
+  query: string,
+  plan: string,
+  options?: AgentCallOptions
+): Promise<StructureResponse> {
+  return callAgent(
+    'structure',
+    validateRequest('structure', StructureRequestSchema, {
+      executionPlan: {
+        id: `plan-${Date.now()}`,
+        userQuery: query,
+        plan
+      },
+      query: withDataModel(query, options?.dataModel),
+      profile: options?.profile
+    }),
+    StructureResponseSchema,
+    options
+  );
+}
+
+/** Sends the ACT to the merger, migrating v1 trees to the current version. */
+export function generateCode(
+  actStructure: unknown,
+  options?: AgentCallOptions
+): Promise<MergerResponse> {
+  return callAgent(
+    'merger',
+    validateRequest('merger', MergerRequestSchema, {
+      actStructure: migrateAct(actStructure),
+      profile: options?.profile,
+      dataModel: options?.dataModel && {
+        name: options.dataModel.name,
+        path: modelPath(options.dataModel),
+        typescript: modelSource(options.dataModel)
+      }
+    }),
+    MergerResponseSchema,
+    options
+  );
+}
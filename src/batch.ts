@@ -0,0 +1,401 @@
+import { generateCode, generatePlan, generateStructure } from './agents.js';
+import type { AgentCallOptions, MergerResponse } from './agents.js';
+import { bindEntity, withModelFile } from './dataModel.js';
+import type { EntityModel } from './dataModel.js';
+import { sessionStore } from './sessions.js';
+import type { GenerationSession } from './sessions.js';
+import { exportedComponent } from './split.js';
+import { formatDiagnostics, validateAct } from './validation.js';
+import { collectGeneratedFiles } from './workspace.js';
+import type { GeneratedFile } from './workspace.js';
+
+/**
+ * Generates several related pages in one go: a layout shell is planned and
+ * generated once, every page runs through the planner, structure and merger
+ * agents with a bound on how many run at a time, and a React Router route
+ * table wires the pages into the shell.
+ */
+
+export const DEFAULT_LAYOUT =
+  'an AppBar with the application title and a Drawer with one navigation item per page';
+
+export const DEFAULT_CONCURRENCY = 3;
+
+const LAYOUT_NAME = 'AppLayout';
+const LAYOUT_DIR = 'layout';
+const PAGES_DIR = 'pages';
+const ROUTES_FILE = 'routes.tsx';
+const NAVIGATION_FILE = 'navigation.ts';
+
+export class BatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BatchError';
+  }
+}
+
+export interface PageSpec {
+  /** Navigation label, e.g. "Users". */
+  title: string;
+  query: string;
+  /** Route path; defaults to the title in kebab case, e.g. `/user-roles`. */
+  route?: string;
+  /** Page component name; defaults to the title plus `Page`, e.g. `UsersPage`. */
+  name?: string;
+  entity?: EntityModel;
+}
+
+export interface BatchPage extends PageSpec {
+  route: string;
+  name: string;
+  /** Directory of the page's files, e.g. `pages/users`. */
+  dir: string;
+}
+
+export interface BatchPageResult {
+  page: BatchPage;
+  status: 'complete' | 'failed';
+  /** Session holding whatever stages of the page completed. */
+  session?: GenerationSession;
+  error?: unknown;
+  files: GeneratedFile[];
+}
+
+export interface BatchResult {
+  layout: { session: GenerationSession; files: GeneratedFile[] };
+  pages: BatchPageResult[];
+  /** Every generated file: layout, pages, navigation and route table. */
+  files: GeneratedFile[];
+}
+
+function words(text: string) {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+function kebab(text: string) {
+  return words(text)
+    .map((word) => word.toLowerCase())
+    .join('-');
+}
+
+function pascal(text: string) {
+  return words(text)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join('');
+}
+
+function normalizeRoute(route: string) {
+  const trimmed = route.trim().replace(/^\/+|\/+$/g, '');
+  return `/${trimmed}`;
+}
+
+/**
+ * Fills in the route, component name and directory of every page, and
+ * rejects batches where two pages would collide.
+ */
+export function planPages(specs: PageSpec[]): BatchPage[] {
+  const pages = specs.map((spec) => {
+    const base = pascal(spec.title);
+    const name =
+      spec.name ?? (base.endsWith('Page') ? base : `${base || 'Untitled'}Page`);
+    if (!/^[A-Z][A-Za-z0-9]*$/.test(name)) {
+      throw new BatchError(
+        `"${name}" is not a valid component name; use PascalCase, e.g. "UsersPage".`
+      );
+    }
+    return {
+      ...spec,
+      name,
+      route: normalizeRoute(spec.route ?? kebab(spec.title)),
+      dir: `${PAGES_DIR}/${kebab(name.replace(/Page$/, '')) || kebab(name)}`
+    };
+  });
+
+  for (const key of ['name', 'route', 'dir'] as const) {
+    const seen = new Set<string>();
+    for (const page of pages) {
+      if (seen.has(page[key])) {
+        throw new BatchError(
+          `Two pages share the ${key === 'dir' ? 'directory' : key} "${page[key]}". Give them distinct titles, names or routes.`
+        );
+      }
+      seen.add(page[key]);
+    }
+  }
+
+  return pages;
+}
+
+/** The request for the layout shell, listing the pages it navigates to. */
+export function layoutQuery(
+  appName: string,
+  layout: string,
+  pages: BatchPage[]
+) {
+  return [
+    `Shared application layout for "${appName}" with ${layout}.`,
+    `Name the component ${LAYOUT_NAME}. It is a layout shell only: do not implement the pages.`,
+    `Navigation items, imported as \`import { navigation } from '../navigation'\` ` +
+      '(an array of { text, route } objects):',
+    ...pages.map((page) => `- ${page.title} (${page.route})`),
+    "Navigate with React Router's useNavigate when an item is selected, mark the item whose route " +
+      'matches useLocation().pathname as selected, and render the current page with <Outlet /> in the ' +
+      'content area.'
+  ].join('\n');
+}
+
+/** The request for one page, telling the generator the shell exists. */
+export function pageQuery(page: BatchPage, layout: string) {
+  return [
+    page.query,
+    '',
+    `This page is rendered inside a shared application layout that already provides ${layout}. ` +
+      'Do not render an application header, drawer, menu or other navigation; generate only the ' +
+      `page content, as a component named ${page.name}.`
+  ].join('\n');
+}
+
+/**
+ * Runs `task` over `items` with at most `limit` tasks in flight, keeping
+ * the results in input order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker)
+  );
+  return results;
+}
+
+/** Prefixes file paths with `dir`, keeping the files' relative imports valid. */
+function inDirectory(files: GeneratedFile[], dir: string) {
+  return files.map((file) => ({ ...file, path: `${dir}/${file.path}` }));
+}
+
+/**
+ * Plan, structure and code for one request, recorded in a new session
+ * stage by stage. Failures are returned with the session so far.
+ */
+async function runPipeline(
+  query: string,
+  entity: EntityModel | undefined,
+  options: AgentCallOptions,
+  owner: string | undefined
+): Promise<{
+  session?: GenerationSession;
+  code?: MergerResponse['code'];
+  error?: unknown;
+}> {
+  let session: GenerationSession | undefined;
+  const agentOptions = entity ? { ...options, dataModel: entity } : options;
+  try {
+    const { plan } = await generatePlan(query, agentOptions);
+    session = await sessionStore.record(session, owner, {
+      query,
+      plan,
+      ...(entity ? { entity } : {})
+    });
+
+    let { structure } = await generateStructure(query, plan, agentOptions);
+    if (entity) structure = bindEntity(structure, entity).act;
+    session = await sessionStore.record(session, owner, { act: structure });
+
+    const validation = validateAct(structure);
+    if (!validation.valid) {
+      throw new BatchError(
+        [
+          'The Abstract Component Tree has errors and was not sent to the code generator:',
+          formatDiagnostics(validation.diagnostics)
+        ].join('\n')
+      );
+    }
+
+    const generated = (await generateCode(structure, agentOptions)).code;
+    const code = entity ? withModelFile(generated, entity) : generated;
+    session = await sessionStore.record(session, owner, { code });
+    return { session, code };
+  } catch (error) {
+    return { session, error };
+  }
+}
+
+function importStatement(binding: string, file: GeneratedFile, from: string) {
+  const exported = exportedComponent(file.content);
+  const module = `${from}${file.path.replace(/\.tsx?$/, '')}`;
+  if (exported === 'default') return `import ${binding} from '${module}';`;
+  return exported === binding
+    ? `import { ${binding} } from '${module}';`
+    : `import { ${exported} as ${binding} } from '${module}';`;
+}
+
+function quote(text: string) {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/** `navigation.ts`: the Drawer items of the layout, one per generated page. */
+export function navigationFile(pages: BatchPage[]): GeneratedFile {
+  return {
+    path: NAVIGATION_FILE,
+    content: [
+      'export interface NavigationItem {',
+      '  text: string;',
+      '  route: string;',
+      '}',
+      '',
+      '/** Navigation items of the layout, in the order the pages were requested. */',
+      'export const navigation: NavigationItem[] = [',
+      pages
+        .map(
+          (page) =>
+            `  { text: ${quote(page.title)}, route: ${quote(page.route)} }`
+        )
+        .join(',\n'),
+      '];',
+      ''
+    ].join('\n')
+  };
+}
+
+/**
+ * `routes.tsx`: a React Router route table rendering every page inside the
+ * layout. The index route is the page at `/`, else a redirect to the first
+ * page.
+ */
+export function routeTable(
+  layout: GeneratedFile,
+  pages: { page: BatchPage; main: GeneratedFile }[]
+): GeneratedFile {
+  const index = pages.find(({ page }) => page.route === '/');
+  const children = [
+    ...(index
+      ? [`      { index: true, element: <${index.page.name} /> }`]
+      : pages.length > 0
+        ? [
+            `      { index: true, element: <Navigate to=${JSON.stringify(pages[0].page.route)} replace /> }`
+          ]
+        : []),
+    ...pages
+      .filter(({ page }) => page !== index?.page)
+      .map(
+        ({ page }) =>
+          `      { path: ${quote(page.route.slice(1))}, element: <${page.name} /> }`
+      )
+  ];
+
+  return {
+    path: ROUTES_FILE,
+    content: [
+      `import { ${index || pages.length === 0 ? '' : 'Navigate, '}createBrowserRouter } from 'react-router-dom';`,
+      "import type { RouteObject } from 'react-router-dom';",
+      importStatement(LAYOUT_NAME, layout, './'),
+      ...pages.map(({ page, main }) => importStatement(page.name, main, './')),
+      '',
+      'export const routes: RouteObject[] = [',
+      '  {',
+      "    path: '/',",
+      `    element: <${LAYOUT_NAME} />,`,
+      '    children: [',
+      children.join(',\n'),
+      '    ]',
+      '  }',
+      '];',
+      '',
+      'export const router = createBrowserRouter(routes);',
+      ''
+    ].join('\n')
+  };
+}
+
+/**
+ * Generates the layout shell, then every page with at most `concurrency`
+ * pipelines running at once. A failed page is reported and left out of the
+ * navigation and route table; a failed layout fails the batch, since the
+ * pages are generated to fit inside it.
+ */
+export async function generateBatch({
+  appName,
+  layout,
+  pages,
+  concurrency,
+  options,
+  owner,
+  onProgress
+}: {
+  appName: string;
+  layout: string;
+  pages: BatchPage[];
+  concurrency: number;
+  options: AgentCallOptions;
+  owner?: string;
+  onProgress?: (completed: number, message: string) => Promise<void>;
+}): Promise<BatchResult> {
+  const shell = await runPipeline(
+    layoutQuery(appName, layout, pages),
+    undefined,
+    options,
+    owner
+  );
+  if (!shell.code || !shell.session) throw shell.error;
+  const layoutFiles = inDirectory(
+    collectGeneratedFiles(shell.code, `${LAYOUT_NAME}.tsx`),
+    LAYOUT_DIR
+  );
+
+  let completed = 1;
+  await onProgress?.(completed, 'Generated the layout shell');
+
+  const results = await mapWithConcurrency(pages, concurrency, async (page) => {
+    const run = await runPipeline(
+      pageQuery(page, layout),
+      page.entity,
+      options,
+      owner
+    );
+    completed++;
+    await onProgress?.(
+      completed,
+      `${run.code ? 'Generated' : 'Failed to generate'} ${page.name}`
+    );
+    return {
+      page,
+      status: run.code ? ('complete' as const) : ('failed' as const),
+      ...(run.session ? { session: run.session } : {}),
+      ...(run.code ? {} : { error: run.error }),
+      files: run.code
+        ? inDirectory(
+            collectGeneratedFiles(run.code, `${page.name}.tsx`),
+            page.dir
+          )
+        : []
+    };
+  });
+
+  const generated = results
+    .filter((result) => result.status === 'complete')
+    .map((result) => ({ page: result.page, main: result.files[0] }));
+
+  return {
+    layout: { session: shell.session, files: layoutFiles },
+    pages: results,
+    files: [
+      ...layoutFiles,
+      ...results.flatMap((result) => result.files),
+      navigationFile(generated.map(({ page }) => page)),
+      routeTable(layoutFiles[0], generated)
+    ]
+  };
+}
@@ -0,0 +1,272 @@
+import { createHash } from 'node:crypto';
+import {
+  mkdir,
+  readFile,
+  readdir,
+  rename,
+  rm,
+  stat,
+  utimes,
+  writeFile
+} from 'node:fs/promises';
+import path from 'node:path';
+import { env } from './env.js';
+import type { AgentName } from './agents.js';
+
+export const BYPASS_CACHE_DESCRIPTION =
+  'Call the KendoAI service even when a cached response for the same input exists. ' +
+  'The fresh response replaces the cached one.';
+
+interface CacheEntry {
+  key: string;
+  agent: AgentName;
+  /** HTTP client the response was fetched for; absent over stdio. */
+  owner?: string;
+  /** Query or root component of the request, for cache_admin listings. */
+  summary: string;
+  createdAt: string;
+  expiresAt: string;
+  response: unknown;
+}
+
+export interface CacheEntryInfo
+  extends Omit<CacheEntry, 'response' | 'owner'> {
+  size: number;
+  lastUsedAt: string;
+}
+
+export interface CacheFilter {
+  /**
+   * Only entries of this client. When the property is present, an undefined
+   * value selects the entries without an owner, i.e. those of stdio.
+   */
+  owner?: string;
+  agent?: AgentName;
+  /** Full key or a prefix of it. */
+  key?: string;
+  /** Only entries past their TTL. */
+  expiredOnly?: boolean;
+}
+
+const CACHE_KEY = /^[a-f0-9]{64}$/;
+
+/**
+ * Content-addressed cache of successful agent responses, one JSON file per
+ * entry keyed by endpoint, owning client and a hash of the normalized
+ * request, so HTTP clients never share entries. Entries
+ * expire after `ttlMs`; once the directory grows past `maxBytes` the least
+ * recently used entries are evicted. A TTL of 0 disables the cache.
+ */
+export class ResponseCache {
+  constructor(
+    private readonly dir: string,
+    readonly ttlMs: number,
+    readonly maxBytes: number
+  ) {}
+
+  get enabled() {
+    return this.ttlMs > 0;
+  }
+
+  async get(
+    agent: AgentName,
+    body: Record<string, unknown>,
+    owner?: string
+  ) {
+    if (!this.enabled) return undefined;
+
+    const key = cacheKey(agent, body, owner);
+    const entry = await this.read(key);
+    if (!entry) return undefined;
+    if (Date.parse(entry.expiresAt) <= Date.now()) {
+      await rm(this.file(key), { force: true });
+      return undefined;
+    }
+
+    const now = new Date();
+    await utimes(this.file(key), now, now).catch(() => {});
+    return entry.response;
+  }
+
+  async set(
+    agent: AgentName,
+    body: Record<string, unknown>,
+    response: unknown,
+    owner?: string
+  ) {
+    if (!this.enabled) return;
+
+    const key = cacheKey(agent, body, owner);
+    const now = Date.now();
+    const entry: CacheEntry = {
+      key,
+      agent,
+      ...(owner !== undefined ? { owner } : {}),
+      summary: summarize(body),
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.ttlMs).toISOString(),
+      response
+    };
+
+    await mkdir(this.dir, { recursive: true });
+    const temp = `${this.file(key)}.${process.pid}.tmp`;
+    await writeFile(temp, JSON.stringify(entry), 'utf8');
+    await rename(temp, this.file(key));
+    await this.prune();
+  }
+
+  /**
+   * Entries matching every given filter, with their size and last use,
+   * most recently used first.
+   */
+  async list(filter: CacheFilter = {}): Promise<CacheEntryInfo[]> {
+    let names: string[];
+    try {
+      names = await readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const entries = await Promise.all(
+      names
+        .filter((name) => name.endsWith('.json'))
+        .map(async (name) => {
+          const key = path.basename(name, '.json');
+          const [entry, stats] = await Promise.all([
+            this.read(key),
+            stat(this.file(key)).catch(() => undefined)
+          ]);
+          if (!entry || !stats) return undefined;
+          const { response: _response, owner, ...info } = entry;
+          return {
+            owner,
+            info: {
+              ...info,
+              size: stats.size,
+              lastUsedAt: stats.mtime.toISOString()
+            }
+          };
+        })
+    );
+    const now = Date.now();
+    return entries
+      .filter((entry) => entry !== undefined)
+      .filter(({ owner }) => !('owner' in filter) || owner === filter.owner)
+      .map(({ info }) => info)
+      .filter(
+        (entry) =>
+          (!filter.agent || entry.agent === filter.agent) &&
+          (!filter.key || entry.key.startsWith(filter.key)) &&
+          (!filter.expiredOnly || Date.parse(entry.expiresAt) <= now)
+      )
+      .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+  }
+
+  /** Removes the entries matching every given filter; returns how many. */
+  async clear(filter: CacheFilter = {}) {
+    const doomed = await this.list(filter);
+    await Promise.all(
+      doomed.map((entry) => rm(this.file(entry.key), { force: true }))
+    );
+    return doomed.length;
+  }
+
+  /** Drops expired entries, then least recently used ones over maxBytes. */
+  private async prune() {
+    await this.clear({ expiredOnly: true });
+
+    const entries = await this.list();
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    for (const entry of entries.reverse()) {
+      if (total <= this.maxBytes) break;
+      await rm(this.file(entry.key), { force: true });
+      total -= entry.size;
+    }
+  }
+
+  private async read(key: string): Promise<CacheEntry | undefined> {
+    if (!CACHE_KEY.test(key)) return undefined;
+    try {
+      return JSON.parse(await readFile(this.file(key), 'utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  private file(key: string) {
+    return path.join(this.dir, `${key}.json`);
+  }
+}
+
+/**
+ * SHA-256 of the endpoint, the owning client if any and the canonical JSON
+ * of the request: object keys sorted, queries whitespace-normalized, and the
+ * per-call execution plan ID dropped, so equivalent requests of one client
+ * share an entry.
+ */
+export function cacheKey(
+  agent: AgentName,
+  body: Record<string, unknown>,
+  owner?: string
+) {
+  const scope = owner === undefined ? agent : `${agent}\n${owner}`;
+  return createHash('sha256')
+    .update(`${scope}\n${canonicalJson(normalizeRequest(body))}`)
+    .digest('hex');
+}
+
+function normalizeRequest(body: Record<string, unknown>) {
+  const { executionPlan, ...rest } = body;
+  const normalized: Record<string, unknown> = { ...rest };
+
+  if (typeof rest.query === 'string') {
+    normalized.query = normalizeText(rest.query);
+  }
+  if (executionPlan && typeof executionPlan === 'object') {
+    const { id: _id, ...plan } = executionPlan as Record<string, unknown>;
+    normalized.executionPlan = {
+      ...plan,
+      ...(typeof plan.userQuery === 'string'
+        ? { userQuery: normalizeText(plan.userQuery) }
+        : {})
+    };
+  }
+  return normalized;
+}
+
+function normalizeText(text: string) {
+  return text.trim().replace(/\s+/g, ' ');
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`
+      )
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function summarize(body: Record<string, unknown>) {
+  const act = body.actStructure as { component?: unknown } | undefined;
+  const summary =
+    typeof body.query === 'string'
+      ? normalizeText(body.query)
+      : typeof act?.component === 'string'
+        ? `ACT rooted at ${act.component}`
+        : '';
+  return summary.length > 80 ? `${summary.slice(0, 77)}...` : summary;
+}
+
+export const responseCache = new ResponseCache(
+  path.join(env.KENDOAI_DATA_DIR, 'cache'),
+  env.CACHE_TTL_MS,
+  env.CACHE_MAX_BYTES
+);
@@ -0,0 +1,300 @@
+/**
+ * Offline catalog of Kendo React components and generic layout elements that
+ * may appear as `component` names in an Abstract Component Tree.
+ *
+ * `kind` describes what the node may hold:
+ * - `container` nodes hold child components, never text content
+ * - `leaf` nodes are configured through props and hold no child components
+ * - `content` nodes may hold either text or child components
+ *
+ * `ancestors` lists components one of which must appear above the node
+ * somewhere in the tree (e.g. `GridColumn` only makes sense inside `Grid`).
+ */
+export interface CatalogEntry {
+  name: string;
+  /** npm package the component is exported from; undefined for HTML elements. */
+  package?: string;
+  kind: 'container' | 'leaf' | 'content';
+  ancestors?: string[];
+}
+
+type EntrySpec = [
+  name: string,
+  kind: CatalogEntry['kind'],
+  ancestors?: string[]
+];
+
+function fromPackage(pkg: string, specs: EntrySpec[]): CatalogEntry[] {
+  return specs.map(([name, kind, ancestors]) => ({
+    name,
+    package: pkg,
+    kind,
+    ...(ancestors ? { ancestors } : {})
+  }));
+}
+
+const KENDO_COMPONENTS: CatalogEntry[] = [
+  ...fromPackage('@progress/kendo-react-grid', [
+    ['Grid', 'container'],
+    ['GridColumn', 'leaf', ['Grid']],
+    ['GridToolbar', 'container', ['Grid']],
+    ['GridNoRecords', 'content', ['Grid']],
+    ['GridColumnMenuSort', 'leaf', ['Grid']],
+    ['GridColumnMenuFilter', 'leaf', ['Grid']]
+  ]),
+  ...fromPackage('@progress/kendo-react-buttons', [
+    ['Button', 'content'],
+    ['ButtonGroup', 'container'],
+    ['DropDownButton', 'leaf'],
+    ['SplitButton', 'leaf'],
+    ['Chip', 'leaf'],
+    ['ChipList', 'leaf'],
+    ['FloatingActionButton', 'leaf'],
+    ['Toolbar', 'container'],
+    ['ToolbarItem', 'content', ['Toolbar']],
+    ['ToolbarSeparator', 'leaf', ['Toolbar']],
+    ['ToolbarSpacer', 'leaf', ['Toolbar']]
+  ]),
+  ...fromPackage('@progress/kendo-react-inputs', [
+    ['Input', 'leaf'],
+    ['TextBox', 'leaf'],
+    ['TextArea', 'leaf'],
+    ['MaskedTextBox', 'leaf'],
+    ['NumericTextBox', 'leaf'],
+    ['Checkbox', 'leaf'],
+    ['RadioButton', 'leaf'],
+    ['RadioGroup', 'leaf'],
+    ['Switch', 'leaf'],
+    ['Slider', 'leaf'],
+    ['RangeSlider', 'leaf'],
+    ['ColorPicker', 'leaf'],
+    ['ColorPalette', 'leaf'],
+    ['ColorGradient', 'leaf'],
+    ['Rating', 'leaf'],
+    ['Signature', 'leaf']
+  ]),
+  ...fromPackage('@progress/kendo-react-dateinputs', [
+    ['DatePicker', 'leaf'],
+    ['DateTimePicker', 'leaf'],
+    ['TimePicker', 'leaf'],
+    ['DateRangePicker', 'leaf'],
+    ['DateInput', 'leaf'],
+    ['Calendar', 'leaf'],
+    ['MultiViewCalendar', 'leaf']
+  ]),
+  ...fromPackage('@progress/kendo-react-dropdowns', [
+    ['DropDownList', 'leaf'],
+    ['ComboBox', 'leaf'],
+    ['AutoComplete', 'leaf'],
+    ['MultiSelect', 'leaf'],
+    ['MultiColumnComboBox', 'leaf'],
+    ['DropDownTree', 'leaf'],
+    ['MultiSelectTree', 'leaf']
+  ]),
+  ...fromPackage('@progress/kendo-react-layout', [
+    ['Card', 'container'],
+    ['CardHeader', 'content', ['Card']],
+    ['CardTitle', 'content', ['Card']],
+    ['CardSubtitle', 'content', ['Card']],
+    ['CardBody', 'content', ['Card']],
+    ['CardActions', 'container', ['Card']],
+    ['CardFooter', 'content', ['Card']],
+    ['CardImage', 'leaf', ['Card']],
+    ['TabStrip', 'container'],
+    ['TabStripTab', 'content', ['TabStrip']],
+    ['PanelBar', 'container'],
+    ['PanelBarItem', 'content', ['PanelBar']],
+    ['Splitter', 'container'],
+    ['Drawer', 'container'],
+    ['DrawerContent', 'content', ['Drawer']],
+    ['AppBar', 'container'],
+    ['AppBarSection', 'content', ['AppBar']],
+    ['AppBarSpacer', 'leaf', ['AppBar']],
+    ['StackLayout', 'container'],
+    ['GridLayout', 'container'],
+    ['GridLayoutItem', 'content', ['GridLayout']],
+    ['TileLayout', 'leaf'],
+    ['Stepper', 'leaf'],
+    ['Menu', 'container'],
+    ['MenuItem', 'content', ['Menu', 'ContextMenu']],
+    ['ContextMenu', 'container'],
+    ['ExpansionPanel', 'content'],
+    ['Avatar', 'content'],
+    ['BottomNavigation', 'leaf'],
+    ['ActionSheet', 'leaf'],
+    ['Breadcrumb', 'leaf'],
+    ['Timeline', 'leaf']
+  ]),
+  ...fromPackage('@progress/kendo-react-dialogs', [
+    ['Dialog', 'container'],
+    ['DialogActionsBar', 'container', ['Dialog']],
+    ['Window', 'container'],
+    ['WindowActionsBar', 'container', ['Window']]
+  ]),
+  ...fromPackage('@progress/kendo-react-form', [
+    ['Form', 'container'],
+    ['FormElement', 'container', ['Form']],
+    ['Field', 'leaf', ['Form']],
+    ['FieldArray', 'leaf', ['Form']],
+    ['FieldWrapper', 'container']
+  ]),
+  ...fromPackage('@progress/kendo-react-labels', [
+    ['Label', 'content'],
+    ['FloatingLabel', 'content'],
+    ['Hint', 'content'],
+    ['Error', 'content']
+  ]),
+  ...fromPackage('@progress/kendo-react-charts', [
+    ['Chart', 'container'],
+    ['ChartTitle', 'leaf', ['Chart']],
+    ['ChartLegend', 'leaf', ['Chart']],
+    ['ChartTooltip', 'leaf', ['Chart']],
+    ['ChartSeries', 'container', ['Chart']],
+    ['ChartSeriesItem', 'leaf', ['ChartSeries']],
+    ['ChartCategoryAxis', 'container', ['Chart']],
+    ['ChartCategoryAxisItem', 'leaf', ['ChartCategoryAxis']],
+    ['ChartValueAxis', 'container', ['Chart']],
+    ['ChartValueAxisItem', 'leaf', ['ChartValueAxis']],
+    ['Sparkline', 'leaf']
+  ]),
+  ...fromPackage('@progress/kendo-react-gauges', [
+    ['ArcGauge', 'leaf'],
+    ['CircularGauge', 'leaf'],
+    ['LinearGauge', 'leaf'],
+    ['RadialGauge', 'leaf']
+  ]),
+  ...fromPackage('@progress/kendo-react-scheduler', [
+    ['Scheduler', 'container'],
+    ['DayView', 'leaf', ['Scheduler']],
+    ['WeekView', 'leaf', ['Scheduler']],
+    ['WorkWeekView', 'leaf', ['Scheduler']],
+    ['MonthView', 'leaf', ['Scheduler']],
+    ['AgendaView', 'leaf', ['Scheduler']],
+    ['TimelineView', 'leaf', ['Scheduler']]
+  ]),
+  ...fromPackage('@progress/kendo-react-upload', [['Upload', 'leaf']]),
+  ...fromPackage('@progress/kendo-react-treeview', [['TreeView', 'leaf']]),
+  ...fromPackage('@progress/kendo-react-treelist', [['TreeList', 'leaf']]),
+  ...fromPackage('@progress/kendo-react-listview', [
+    ['ListView', 'container'],
+    ['ListViewHeader', 'content', ['ListView']],
+    ['ListViewFooter', 'content', ['ListView']]
+  ]),
+  ...fromPackage('@progress/kendo-react-indicators', [
+    ['Loader', 'leaf'],
+    ['Badge', 'content'],
+    ['BadgeContainer', 'container'],
+    ['Skeleton', 'leaf']
+  ]),
+  ...fromPackage('@progress/kendo-react-notification', [
+    ['Notification', 'content'],
+    ['NotificationGroup', 'container']
+  ]),
+  ...fromPackage('@progress/kendo-react-progressbars', [
+    ['ProgressBar', 'leaf'],
+    ['ChunkProgressBar', 'leaf']
+  ]),
+  ...fromPackage('@progress/kendo-react-tooltip', [
+    ['Tooltip', 'content'],
+    ['Popover', 'content']
+  ]),
+  ...fromPackage('@progress/kendo-react-popup', [['Popup', 'content']]),
+  ...fromPackage('@progress/kendo-react-data-tools', [
+    ['Pager', 'leaf'],
+    ['Filter', 'leaf']
+  ]),
+  ...fromPackage('@progress/kendo-react-editor', [['Editor', 'leaf']]),
+  ...fromPackage('@progress/kendo-react-pdf', [['PDFExport', 'container']]),
+  ...fromPackage('@progress/kendo-react-pivotgrid', [['PivotGrid', 'leaf']]),
+  ...fromPackage('@progress/kendo-react-gantt', [['Gantt', 'leaf']]),
+  ...fromPackage('@progress/kendo-react-conversational-ui', [['Chat', 'leaf']])
+];
+
+const LAYOUT_ELEMENTS: CatalogEntry[] = (
+  [
+    ['container', 'content'],
+    ['header', 'content'],
+    ['section', 'content'],
+    ['footer', 'content'],
+    ['main', 'content'],
+    ['nav', 'content'],
+    ['aside', 'content'],
+    ['article', 'content'],
+    ['div', 'content'],
+    ['span', 'content'],
+    ['p', 'content'],
+    ['h1', 'content'],
+    ['h2', 'content'],
+    ['h3', 'content'],
+    ['h4', 'content'],
+    ['h5', 'content'],
+    ['h6', 'content'],
+    ['label', 'content'],
+    ['form', 'content'],
+    ['ul', 'container'],
+    ['ol', 'container'],
+    ['li', 'content'],
+    ['a', 'content'],
+    ['img', 'leaf'],
+    ['text', 'content']
+  ] as EntrySpec[]
+).map(([name, kind]) => ({ name, kind }));
+
+export const COMPONENT_CATALOG: ReadonlyMap<string, CatalogEntry> = new Map(
+  [...KENDO_COMPONENTS, ...LAYOUT_ELEMENTS].map((entry) => [entry.name, entry])
+);
+
+export function lookupComponent(name: string): CatalogEntry | undefined {
+  return COMPONENT_CATALOG.get(name);
+}
+
+export function isKendoComponent(entry: CatalogEntry) {
+  return entry.package !== undefined;
+}
+
+/**
+ * Finds the catalog entry whose name is closest to `name`, for typo
+ * suggestions. Returns undefined when nothing is reasonably close.
+ */
+export function suggestComponent(name: string): string | undefined {
+  const target = name.toLowerCase();
+  let best: { name: string; distance: number } | undefined;
+
+  for (const candidate of COMPONENT_CATALOG.keys()) {
+    const distance = editDistance(target, candidate.toLowerCase());
+    if (!best || distance < best.distance) {
+      best = { name: candidate, distance };
+    }
+  }
+
+  const threshold = Math.max(1, Math.floor(name.length / 3));
+  return best && best.distance <= threshold ? best.name : undefined;
+}
+
+/**
+ * Optimal string alignment distance: Levenshtein plus adjacent transpositions,
+ * so common typos like "Gird" for "Grid" count as a single edit.
+ */
+function editDistance(a: string, b: string) {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) =>
+      i === 0 ? j : j === 0 ? i : 0
+    )
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+}
@@ -0,0 +1,968 @@
+import ts from 'typescript';
+import { z } from 'zod';
+import type { ActNode } from './types.js';
+
+export type EntityFieldType =
+  | 'string'
+  | 'email'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'date'
+  | 'datetime'
+  | 'enum'
+  | 'array'
+  | 'object';
+
+export interface EntityField {
+  name: string;
+  type: EntityFieldType;
+  /** TypeScript type of the field in the generated model. */
+  tsType: string;
+  required: boolean;
+  readOnly?: boolean;
+  description?: string;
+  enumValues?: string[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+}
+
+/** An entity the page displays or edits, parsed from the caller's definition. */
+export interface EntityModel {
+  name: string;
+  description?: string;
+  fields: EntityField[];
+}
+
+export const DataModelInputSchema = z.object({
+  format: z
+    .enum(['typescript', 'json-schema', 'openapi'])
+    .describe('How the entity is defined'),
+  definition: z
+    .union([z.string(), z.record(z.unknown())])
+    .describe(
+      'TypeScript source with the interface or type alias, a JSON Schema object, or an OpenAPI document ' +
+        '(as an object or a JSON string)'
+    ),
+  name: z
+    .string()
+    .optional()
+    .describe(
+      'Interface, type alias or OpenAPI component schema to use. Defaults to the first one found.'
+    )
+});
+
+export const DATA_MODEL_DESCRIPTION =
+  'Entity the page displays or edits. Grid columns and form fields are generated from its fields, ' +
+  'with editors chosen by type, and the generated code gets a typed model with validators. ' +
+  'Only the main Grid or Form is bound: the nodes whose dataBinding.entity names the entity, ' +
+  'otherwise the shallowest Grid or Form outside a Dialog or Window. ' +
+  'Stored in the session, so later calls with the same sessionId reuse it.';
+
+export type DataModelInput = z.infer<typeof DataModelInputSchema>;
+
+export class DataModelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DataModelError';
+  }
+}
+
+export const MODELS_DIR = 'models';
+
+const EMAIL_PATTERN = '^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$';
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/** Parses an entity definition in any supported format. */
+export function parseDataModel(input: DataModelInput): EntityModel {
+  const entity =
+    input.format === 'typescript'
+      ? parseTypeScript(asText(input.definition), input.name)
+      : input.format === 'openapi'
+        ? parseOpenApi(asObject(input.definition), input.name)
+        : parseJsonSchema(
+            asObject(input.definition),
+            input.name,
+            asObject(input.definition)
+          );
+
+  if (entity.fields.length === 0) {
+    throw new DataModelError(`${entity.name} has no fields.`);
+  }
+  // Labels and validator messages are built from the words of the name.
+  const unnamed = entity.fields.find(
+    (field) => !/[A-Za-z0-9]/.test(field.name)
+  );
+  if (unnamed) {
+    throw new DataModelError(
+      `The field ${JSON.stringify(unnamed.name)} of ${entity.name} has no letters or digits in its name.`
+    );
+  }
+  return entity;
+}
+
+function asText(definition: DataModelInput['definition']) {
+  if (typeof definition !== 'string') {
+    throw new DataModelError(
+      'A TypeScript definition must be passed as source text.'
+    );
+  }
+  return definition;
+}
+
+function asObject(
+  definition: DataModelInput['definition']
+): Record<string, unknown> {
+  if (typeof definition !== 'string') return definition;
+  try {
+    const parsed = JSON.parse(definition);
+    if (parsed && typeof parsed === 'object') return parsed;
+  } catch {
+    // Reported below.
+  }
+  throw new DataModelError('The definition is not a JSON object.');
+}
+
+function parseTypeScript(source: string, name?: string): EntityModel {
+  const file = ts.createSourceFile(
+    'model.ts',
+    source,
+    ts.ScriptTarget.Latest,
+    true
+  );
+  const declaration = file.statements.find(
+    (
+      statement
+    ): statement is ts.InterfaceDeclaration | ts.TypeAliasDeclaration =>
+      (ts.isInterfaceDeclaration(statement) ||
+        (ts.isTypeAliasDeclaration(statement) &&
+          ts.isTypeLiteralNode(statement.type))) &&
+      (!name || statement.name.text === name)
+  );
+  if (!declaration) {
+    throw new DataModelError(
+      name
+        ? `No interface or object type named ${name} was found.`
+        : 'No interface or object type alias was found.'
+    );
+  }
+
+  const aliases = new Map(
+    file.statements
+      .filter(ts.isTypeAliasDeclaration)
+      .map((alias) => [alias.name.text, alias.type])
+  );
+  const members = ts.isInterfaceDeclaration(declaration)
+    ? declaration.members
+    : (declaration.type as ts.TypeLiteralNode).members;
+
+  return {
+    name: declaration.name.text,
+    description: jsDoc(declaration).comment,
+    fields: members.filter(ts.isPropertySignature).map((member) => {
+      const doc = jsDoc(member);
+      const typeNode = member.type;
+      const field: EntityField = {
+        name: member.name.getText(file).replace(/^['"]|['"]$/g, ''),
+        ...typeScriptType(typeNode, aliases, file, doc.tags.format),
+        required: !member.questionToken,
+        ...(member.modifiers?.some(
+          (modifier) => modifier.kind === ts.SyntaxKind.ReadonlyKeyword
+        )
+          ? { readOnly: true }
+          : {}),
+        ...(doc.comment ? { description: doc.comment } : {})
+      };
+      for (const key of [
+        'minimum',
+        'maximum',
+        'minLength',
+        'maxLength'
+      ] as const) {
+        if (
+          doc.tags[key] !== undefined &&
+          !Number.isNaN(Number(doc.tags[key]))
+        ) {
+          field[key] = Number(doc.tags[key]);
+        }
+      }
+      if (doc.tags.pattern) field.pattern = doc.tags.pattern;
+      return field;
+    })
+  };
+}
+
+function typeScriptType(
+  node: ts.TypeNode | undefined,
+  aliases: Map<string, ts.TypeNode>,
+  file: ts.SourceFile,
+  format?: string
+): Pick<EntityField, 'type' | 'tsType' | 'enumValues'> {
+  if (!node) return { type: 'string', tsType: 'string' };
+  const tsType = standaloneType(node, aliases, file);
+
+  const literals = unionLiterals(node, aliases);
+  if (literals) {
+    return {
+      type: 'enum',
+      tsType: literalUnion(literals),
+      enumValues: literals
+    };
+  }
+
+  switch (node.kind) {
+    case ts.SyntaxKind.StringKeyword:
+      return {
+        type:
+          format === 'email'
+            ? 'email'
+            : format === 'date'
+              ? 'date'
+              : format === 'date-time'
+                ? 'datetime'
+                : 'string',
+        tsType
+      };
+    case ts.SyntaxKind.NumberKeyword:
+      return { type: format === 'integer' ? 'integer' : 'number', tsType };
+    case ts.SyntaxKind.BooleanKeyword:
+      return { type: 'boolean', tsType };
+  }
+  if (ts.isArrayTypeNode(node)) return { type: 'array', tsType };
+  if (ts.isTypeReferenceNode(node)) {
+    const referenced = node.typeName.getText(file);
+    if (referenced === 'Date') {
+      return { type: format === 'date' ? 'date' : 'datetime', tsType };
+    }
+    if (referenced === 'Array') return { type: 'array', tsType };
+    const alias = aliases.get(referenced);
+    if (alias && !ts.isTypeLiteralNode(alias)) {
+      return typeScriptType(alias, aliases, file, format);
+    }
+    return { type: 'object', tsType };
+  }
+  if (ts.isUnionTypeNode(node)) {
+    // `T | null` and `T | undefined` are T.
+    const types = node.types.filter(
+      (type) =>
+        type.kind !== ts.SyntaxKind.UndefinedKeyword &&
+        !(
+          ts.isLiteralTypeNode(type) &&
+          type.literal.kind === ts.SyntaxKind.NullKeyword
+        )
+    );
+    if (types.length === 1) {
+      return { ...typeScriptType(types[0], aliases, file, format), tsType };
+    }
+  }
+  return { type: 'object', tsType };
+}
+
+/**
+ * The type as it can be written in the model file, which stands alone:
+ * local aliases are inlined, other named and object types widened to
+ * `Record<string, unknown>`, with arrays and unions rebuilt around them.
+ */
+function standaloneType(
+  node: ts.TypeNode,
+  aliases: Map<string, ts.TypeNode>,
+  file: ts.SourceFile,
+  seen = new Set<string>()
+): string {
+  if (ts.isParenthesizedTypeNode(node)) {
+    return standaloneType(node.type, aliases, file, seen);
+  }
+  if (ts.isLiteralTypeNode(node) || STANDALONE_KEYWORDS.has(node.kind)) {
+    return node.getText(file);
+  }
+  if (ts.isArrayTypeNode(node)) {
+    return arrayOf(standaloneType(node.elementType, aliases, file, seen));
+  }
+  if (ts.isUnionTypeNode(node)) {
+    return [
+      ...new Set(
+        node.types.map((type) => standaloneType(type, aliases, file, seen))
+      )
+    ].join(' | ');
+  }
+  if (ts.isTypeReferenceNode(node)) {
+    const referenced = node.typeName.getText(file);
+    const [argument] = node.typeArguments ?? [];
+    if (referenced === 'Date') return 'Date';
+    if (
+      (referenced === 'Array' || referenced === 'ReadonlyArray') &&
+      argument
+    ) {
+      return arrayOf(standaloneType(argument, aliases, file, seen));
+    }
+    const alias = aliases.get(referenced);
+    if (alias && !ts.isTypeLiteralNode(alias) && !seen.has(referenced)) {
+      return standaloneType(
+        alias,
+        aliases,
+        file,
+        new Set([...seen, referenced])
+      );
+    }
+  }
+  return 'Record<string, unknown>';
+}
+
+const STANDALONE_KEYWORDS = new Set([
+  ts.SyntaxKind.StringKeyword,
+  ts.SyntaxKind.NumberKeyword,
+  ts.SyntaxKind.BooleanKeyword,
+  ts.SyntaxKind.BigIntKeyword,
+  ts.SyntaxKind.UndefinedKeyword,
+  ts.SyntaxKind.UnknownKeyword,
+  ts.SyntaxKind.AnyKeyword
+]);
+
+function arrayOf(element: string) {
+  return element.includes(' | ') ? `(${element})[]` : `${element}[]`;
+}
+
+/** String literal members of a union, following local type aliases. */
+function unionLiterals(
+  node: ts.TypeNode,
+  aliases: Map<string, ts.TypeNode>
+): string[] | undefined {
+  if (ts.isTypeReferenceNode(node) && ts.isIdentifier(node.typeName)) {
+    const alias = aliases.get(node.typeName.text);
+    return alias ? unionLiterals(alias, aliases) : undefined;
+  }
+  const types = ts.isUnionTypeNode(node) ? node.types : [node];
+  const values = types.map((type) =>
+    ts.isLiteralTypeNode(type) && ts.isStringLiteral(type.literal)
+      ? type.literal.text
+      : undefined
+  );
+  return values.every((value) => value !== undefined) && values.length > 1
+    ? (values as string[])
+    : undefined;
+}
+
+/** The JSDoc comment of a node and its `@tag value` pairs. */
+function jsDoc(node: ts.Node) {
+  const tags: Record<string, string> = {};
+  let comment: string | undefined;
+
+  for (const doc of ts.getJSDocCommentsAndTags(node)) {
+    if (ts.isJSDoc(doc)) {
+      comment = ts.getTextOfJSDocComment(doc.comment)?.trim() || comment;
+      for (const tag of doc.tags ?? []) {
+        tags[tag.tagName.text] =
+          ts.getTextOfJSDocComment(tag.comment)?.trim() ?? '';
+      }
+    }
+  }
+  return { comment, tags };
+}
+
+function parseOpenApi(
+  document: Record<string, unknown>,
+  name?: string
+): EntityModel {
+  const schemas = (document.components as { schemas?: unknown } | undefined)
+    ?.schemas as Record<string, Record<string, unknown>> | undefined;
+  if (!schemas || Object.keys(schemas).length === 0) {
+    throw new DataModelError(
+      'The OpenAPI document has no components.schemas entries.'
+    );
+  }
+
+  const schemaName =
+    name ??
+    Object.keys(schemas).find((key) => schemas[key].properties !== undefined);
+  const schema = schemaName ? schemas[schemaName] : undefined;
+  if (!schemaName || !schema) {
+    throw new DataModelError(
+      `No component schema named ${name} was found. Available: ${Object.keys(schemas).join(', ')}.`
+    );
+  }
+  return parseJsonSchema(schema, schemaName, document);
+}
+
+function parseJsonSchema(
+  schema: Record<string, unknown>,
+  name: string | undefined,
+  root: Record<string, unknown>
+): EntityModel {
+  const properties = schema.properties as
+    Record<string, Record<string, unknown>> | undefined;
+  if (!properties || typeof properties !== 'object') {
+    throw new DataModelError(
+      'The schema has no properties; pass an object schema.'
+    );
+  }
+  const required = new Set(
+    Array.isArray(schema.required) ? (schema.required as string[]) : []
+  );
+  const entityName =
+    name ?? (typeof schema.title === 'string' ? schema.title : undefined);
+  if (!entityName) {
+    throw new DataModelError(
+      'Name the entity: pass name, or give the schema a title.'
+    );
+  }
+
+  const typeName = pascalCase(entityName);
+  if (!IDENTIFIER.test(typeName)) {
+    throw new DataModelError(
+      `${JSON.stringify(entityName)} cannot name the entity: it needs a letter before any digits. ` +
+        'Pass name with a valid TypeScript identifier.'
+    );
+  }
+
+  return {
+    name: typeName,
+    ...(typeof schema.description === 'string'
+      ? { description: schema.description }
+      : {}),
+    fields: Object.entries(properties).map(([fieldName, property]) => {
+      const resolved = resolveRef(property, root);
+      const field: EntityField = {
+        name: fieldName,
+        ...jsonSchemaType(resolved, root),
+        required: required.has(fieldName),
+        ...(resolved.readOnly === true ? { readOnly: true } : {}),
+        ...(typeof resolved.description === 'string'
+          ? { description: resolved.description }
+          : {})
+      };
+      for (const key of [
+        'minimum',
+        'maximum',
+        'minLength',
+        'maxLength'
+      ] as const) {
+        if (typeof resolved[key] === 'number') {
+          field[key] = resolved[key] as number;
+        }
+      }
+      if (typeof resolved.pattern === 'string') {
+        field.pattern = resolved.pattern;
+      }
+      return field;
+    })
+  };
+}
+
+/** Follows local `#/...` references, e.g. to an OpenAPI enum component. */
+function resolveRef(
+  schema: Record<string, unknown>,
+  root: Record<string, unknown>,
+  seen = new Set<string>()
+): Record<string, unknown> {
+  const ref = schema.$ref;
+  if (typeof ref !== 'string' || !ref.startsWith('#/') || seen.has(ref)) {
+    return schema;
+  }
+  seen.add(ref);
+
+  let target: unknown = root;
+  for (const segment of ref.slice(2).split('/')) {
+    target = (target as Record<string, unknown> | undefined)?.[segment];
+  }
+  return target && typeof target === 'object'
+    ? resolveRef(target as Record<string, unknown>, root, seen)
+    : schema;
+}
+
+function jsonSchemaType(
+  schema: Record<string, unknown>,
+  root: Record<string, unknown>
+): Pick<EntityField, 'type' | 'tsType' | 'enumValues'> {
+  const type = Array.isArray(schema.type)
+    ? (schema.type as string[]).find((entry) => entry !== 'null')
+    : schema.type;
+
+  if (Array.isArray(schema.enum)) {
+    const values = schema.enum.map(String);
+    return { type: 'enum', tsType: literalUnion(values), enumValues: values };
+  }
+
+  switch (type) {
+    case 'string':
+      if (schema.format === 'date') return { type: 'date', tsType: 'Date' };
+      if (schema.format === 'date-time') {
+        return { type: 'datetime', tsType: 'Date' };
+      }
+      if (schema.format === 'email') return { type: 'email', tsType: 'string' };
+      return { type: 'string', tsType: 'string' };
+    case 'integer':
+      return { type: 'integer', tsType: 'number' };
+    case 'number':
+      return { type: 'number', tsType: 'number' };
+    case 'boolean':
+      return { type: 'boolean', tsType: 'boolean' };
+    case 'array': {
+      const items =
+        schema.items && typeof schema.items === 'object'
+          ? (schema.items as Record<string, unknown>)
+          : {};
+      const item = jsonSchemaType(resolveRef(items, root), root);
+      return {
+        type: 'array',
+        tsType: item.tsType.includes('|')
+          ? `(${item.tsType})[]`
+          : `${item.tsType}[]`
+      };
+    }
+    default:
+      return { type: 'object', tsType: 'Record<string, unknown>' };
+  }
+}
+
+function literalUnion(values: string[]) {
+  return values.map(stringLiteral).join(' | ');
+}
+
+/** A single-quoted TypeScript string literal. */
+function stringLiteral(value: string) {
+  return `'${value
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/\r?\n/g, '\\n')}'`;
+}
+
+/** `name` as an object or interface key, quoted unless it is an identifier. */
+function propertyKey(name: string) {
+  return IDENTIFIER.test(name) ? name : stringLiteral(name);
+}
+
+/** `object.name`, or `object['name']` when the name is not an identifier. */
+function memberAccess(object: string, name: string) {
+  return IDENTIFIER.test(name)
+    ? `${object}.${name}`
+    : `${object}[${stringLiteral(name)}]`;
+}
+
+/** A one-line JSDoc comment that text containing `*\/` cannot end early. */
+function docComment(text: string) {
+  return `/** ${text.replace(/\*\//g, '*\\/').replace(/\s*\n\s*/g, ' ')} */`;
+}
+
+function pascalCase(value: string) {
+  return value
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join('');
+}
+
+/** `createdAt` -> `Created at`, `first_name` -> `First name`. */
+export function fieldLabel(name: string) {
+  const words = name
+    .replace(/[_-]+/g, ' ')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .trim();
+  return words[0].toUpperCase() + words.slice(1);
+}
+
+/** Kendo editor used for a field in forms and editable grids. */
+export function editorFor(field: EntityField) {
+  switch (field.type) {
+    case 'date':
+      return 'DatePicker';
+    case 'datetime':
+      return 'DateTimePicker';
+    case 'number':
+    case 'integer':
+      return 'NumericTextBox';
+    case 'enum':
+      return 'DropDownList';
+    case 'boolean':
+      return 'Checkbox';
+    case 'array':
+      return 'MultiSelect';
+    default:
+      return (field.maxLength ?? 0) > 255 ? 'TextArea' : 'Input';
+  }
+}
+
+/** Grid filter for a column, as in the GridColumn `filter` prop. */
+function columnFilter(field: EntityField) {
+  switch (field.type) {
+    case 'date':
+    case 'datetime':
+      return 'date';
+    case 'number':
+    case 'integer':
+      return 'numeric';
+    case 'boolean':
+      return 'boolean';
+    default:
+      return 'text';
+  }
+}
+
+function columnFormat(field: EntityField) {
+  if (field.type === 'date') return '{0:d}';
+  if (field.type === 'datetime') return '{0:g}';
+  if (field.type === 'integer') return '{0:n0}';
+  if (field.type === 'number') return '{0:n2}';
+  return undefined;
+}
+
+/** One GridColumn per displayable field, with filter type and format. */
+export function gridColumnNodes(entity: EntityModel): ActNode[] {
+  return entity.fields
+    .filter((field) => field.type !== 'object' && field.type !== 'array')
+    .map((field) => {
+      const format = columnFormat(field);
+      const filter = columnFilter(field);
+      return {
+        component: 'GridColumn',
+        description:
+          `Column "${fieldLabel(field.name)}" bound to field "${field.name}" of ${entity.name} ` +
+          `(${field.type}; ${filter} filter${format ? `; format "${format}"` : ''}` +
+          `${field.readOnly ? '; not editable' : `; edited with ${editorFor(field)}`})`,
+        mcpQuery: `Kendo React GridColumn ${filter} filter${format ? ' and format' : ''}`,
+        props: {
+          field: field.name,
+          title: fieldLabel(field.name),
+          filter,
+          ...(format ? { format } : {}),
+          ...(field.readOnly ? { editable: false } : {})
+        },
+        children: ''
+      };
+    });
+}
+
+/** One Form Field per editable field, with the matching Kendo editor. */
+export function formFieldNodes(entity: EntityModel): ActNode[] {
+  return entity.fields
+    .filter((field) => !field.readOnly && field.type !== 'object')
+    .map((field) => {
+      const editor = editorFor(field);
+      const rules = [
+        field.required ? 'required' : 'optional',
+        ...(field.enumValues
+          ? [`options: ${field.enumValues.join(', ')}`]
+          : []),
+        ...(field.type === 'email' ? ['must be a valid email address'] : []),
+        ...(field.minimum !== undefined ? [`at least ${field.minimum}`] : []),
+        ...(field.maximum !== undefined ? [`at most ${field.maximum}`] : []),
+        ...(field.maxLength !== undefined
+          ? [`up to ${field.maxLength} characters`]
+          : [])
+      ];
+      return {
+        component: 'Field',
+        description:
+          `Field "${field.name}" labeled "${fieldLabel(field.name)}" using ${editor}, ` +
+          `validated with ${memberAccess(validatorsName(entity), field.name)} (${rules.join('; ')})`,
+        mcpQuery: `Kendo React Form Field with ${editor}`,
+        props: { name: field.name, label: fieldLabel(field.name) },
+        children: ''
+      };
+    });
+}
+
+const DATA_COMPONENTS = new Set(['Grid', 'Form']);
+
+const OVERLAYS = new Set(['Dialog', 'Window']);
+
+/**
+ * Paths of the Grid and Form nodes to bind: those whose dataBinding names
+ * the entity, or else the main one, i.e. the shallowest that is not inside
+ * a Dialog or Window (or the shallowest at all when every one is).
+ */
+function bindingTargets(act: ActNode, entity: EntityModel) {
+  const candidates: { path: string; marked: boolean; overlaid: boolean }[] = [];
+  let level = [{ node: act, path: '$', overlaid: false }];
+  while (level.length > 0) {
+    const next: typeof level = [];
+    for (const { node, path, overlaid } of level) {
+      if (DATA_COMPONENTS.has(node.component)) {
+        candidates.push({
+          path,
+          marked: node.dataBinding?.entity === entity.name,
+          overlaid
+        });
+      }
+      if (!Array.isArray(node.children)) continue;
+      node.children.forEach((child, index) =>
+        next.push({
+          node: child,
+          path: `${path}.children[${index}]`,
+          overlaid: overlaid || OVERLAYS.has(node.component)
+        })
+      );
+    }
+    level = next;
+  }
+
+  const marked = candidates.filter((candidate) => candidate.marked);
+  const main =
+    candidates.find((candidate) => !candidate.overlaid) ?? candidates[0];
+  return new Set(
+    (marked.length > 0 ? marked : main ? [main] : []).map(({ path }) => path)
+  );
+}
+
+/**
+ * Replaces the columns of the main Grid or the fields of the main Form in
+ * the ACT with nodes generated from the entity; see bindingTargets. Other
+ * Grids and Forms, such as a lookup grid in a dialog, keep their content.
+ * A Form whose fields are spread over several containers (e.g. wizard
+ * steps) is left as it is. Returns the bound tree and a note per change.
+ */
+export function bindEntity(act: unknown, entity: EntityModel) {
+  const notes: string[] = [];
+  const targets = bindingTargets(act as ActNode, entity);
+
+  const visit = (node: ActNode, path: string): ActNode => {
+    const target = targets.has(path);
+    if (DATA_COMPONENTS.has(node.component) && !target) {
+      notes.push(`${path}: ${node.component} not bound to ${entity.name}`);
+    }
+    if (!Array.isArray(node.children)) {
+      return target ? visit({ ...node, children: [] }, path) : node;
+    }
+
+    if (node.component === 'Grid' && target) {
+      const columns = gridColumnNodes(entity);
+      const index = node.children.findIndex(
+        (child) => child.component === 'GridColumn'
+      );
+      const others = node.children.filter(
+        (child) => child.component !== 'GridColumn'
+      );
+      const at = index === -1 ? others.length : index;
+      notes.push(
+        `${path}: ${columns.length} GridColumn nodes from ${entity.name}`
+      );
+      return {
+        ...node,
+        children: [...others.slice(0, at), ...columns, ...others.slice(at)]
+      };
+    }
+
+    if (node.component === 'Form' && target) {
+      const fields = formFieldNodes(entity);
+      const parents = fieldParents(node, path);
+      if (parents.length > 1) {
+        notes.push(
+          `${path}: fields are spread over ${parents.length} containers, left unchanged`
+        );
+        return node;
+      }
+      const target =
+        parents[0] ??
+        node.children.findIndex((child) => child.component === 'FormElement');
+      notes.push(`${path}: ${fields.length} Field nodes from ${entity.name}`);
+      return replaceFields(node, path, target, fields);
+    }
+
+    return {
+      ...node,
+      children: node.children.map((child, index) =>
+        visit(child, `${path}.children[${index}]`)
+      )
+    };
+  };
+
+  return { act: visit(act as ActNode, '$'), notes };
+}
+
+/** Paths of the nodes that directly hold Field children, below a Form. */
+function fieldParents(node: ActNode, path: string): string[] {
+  if (!Array.isArray(node.children)) return [];
+  const own = node.children.some((child) => child.component === 'Field')
+    ? [path]
+    : [];
+  return [
+    ...own,
+    ...node.children.flatMap((child, index) =>
+      fieldParents(child, `${path}.children[${index}]`)
+    )
+  ];
+}
+
+/**
+ * Puts `fields` into the node at `target`: a path of an existing Field
+ * container, the index of a FormElement child, or -1 for the Form itself.
+ */
+function replaceFields(
+  form: ActNode,
+  formPath: string,
+  target: string | number,
+  fields: ActNode[]
+): ActNode {
+  const fill = (node: ActNode): ActNode => {
+    const children = Array.isArray(node.children) ? node.children : [];
+    const index = children.findIndex((child) => child.component === 'Field');
+    const others = children.filter((child) => child.component !== 'Field');
+    const at = index === -1 ? others.length : index;
+    return {
+      ...node,
+      children: [...others.slice(0, at), ...fields, ...others.slice(at)]
+    };
+  };
+
+  if (typeof target === 'number') {
+    if (target === -1) return fill(form);
+    return {
+      ...form,
+      children: (form.children as ActNode[]).map((child, index) =>
+        index === target ? fill(child) : child
+      )
+    };
+  }
+
+  const walk = (node: ActNode, path: string): ActNode => {
+    if (path === target) return fill(node);
+    if (!Array.isArray(node.children)) return node;
+    return {
+      ...node,
+      children: node.children.map((child, index) =>
+        walk(child, `${path}.children[${index}]`)
+      )
+    };
+  };
+  return walk(form, formPath);
+}
+
+/**
+ * The data model section added to planner and structure queries, listing
+ * every field with its type, constraints and editor.
+ */
+export function formatDataModel(entity: EntityModel) {
+  return [
+    `## Data Model: ${entity.name}`,
+    ...(entity.description ? [entity.description, ''] : []),
+    `Use exactly these fields of ${entity.name}; do not invent others.`,
+    ...entity.fields.map((field) => {
+      const details = [
+        field.type === 'enum'
+          ? `one of ${field.enumValues?.join(', ')}`
+          : field.type,
+        field.required ? 'required' : 'optional',
+        ...(field.readOnly ? ['read-only'] : []),
+        ...(field.type !== 'object' ? [`editor: ${editorFor(field)}`] : [])
+      ];
+      return `- ${field.name}: ${details.join(', ')}${field.description ? ` - ${field.description}` : ''}`;
+    }),
+    '',
+    `The model and validators are generated in ${modelPath(entity)}: import the ${entity.name} type and ${validatorsName(entity)} from there.`
+  ].join('\n');
+}
+
+export function modelPath(entity: EntityModel) {
+  return `${MODELS_DIR}/${entity.name}.ts`;
+}
+
+function validatorsName(entity: EntityModel) {
+  return `${entity.name[0].toLowerCase()}${entity.name.slice(1)}Validators`;
+}
+
+/**
+ * Adds the model file to generated code, unless the code generator already
+ * emitted one at that path.
+ */
+export function withModelFile<
+  T extends { files?: { path: string; content: string }[] }
+>(code: T, entity: EntityModel): T {
+  const file = modelPath(entity);
+  if (code.files?.some((existing) => existing.path === file)) return code;
+  return {
+    ...code,
+    files: [...(code.files ?? []), { path: file, content: modelSource(entity) }]
+  };
+}
+
+/**
+ * TypeScript source of the model file: the entity interface and a Kendo
+ * Form validator per constrained field.
+ */
+export function modelSource(entity: EntityModel) {
+  const members = entity.fields.map((field) =>
+    [
+      ...(field.description ? [`  ${docComment(field.description)}`] : []),
+      `  ${field.readOnly ? 'readonly ' : ''}${propertyKey(field.name)}${field.required ? '' : '?'}: ${field.tsType};`
+    ].join('\n')
+  );
+
+  const validators = entity.fields
+    .filter((field) => !field.readOnly)
+    .map((field) => {
+      const label = fieldLabel(field.name);
+      const fail = (message: string) =>
+        `return ${stringLiteral(`${label} ${message}`)};`;
+      const checks = [
+        field.required
+          ? `if (isEmpty(value)) ${fail('is required.')}`
+          : 'if (isEmpty(value)) return undefined;',
+        ...(field.type === 'email'
+          ? [
+              `if (!/${EMAIL_PATTERN}/.test(String(value))) ${fail('must be a valid email address.')}`
+            ]
+          : []),
+        ...(field.minimum !== undefined
+          ? [
+              `if (Number(value) < ${field.minimum}) ${fail(`must be at least ${field.minimum}.`)}`
+            ]
+          : []),
+        ...(field.maximum !== undefined
+          ? [
+              `if (Number(value) > ${field.maximum}) ${fail(`must be at most ${field.maximum}.`)}`
+            ]
+          : []),
+        ...(field.minLength !== undefined
+          ? [
+              `if (String(value).length < ${field.minLength}) ${fail(`must have at least ${field.minLength} characters.`)}`
+            ]
+          : []),
+        ...(field.maxLength !== undefined
+          ? [
+              `if (String(value).length > ${field.maxLength}) ${fail(`must have at most ${field.maxLength} characters.`)}`
+            ]
+          : []),
+        ...(field.pattern !== undefined
+          ? [
+              `if (!new RegExp(${stringLiteral(field.pattern)}).test(String(value))) ${fail('has an invalid format.')}`
+            ]
+          : []),
+        ...(field.enumValues
+          ? [
+              `if (![${field.enumValues.map(stringLiteral).join(', ')}].includes(String(value))) ${fail(`must be one of ${field.enumValues.join(', ')}.`)}`
+            ]
+          : [])
+      ];
+      if (checks.length === 1 && !field.required) return undefined;
+      return [
+        `  ${propertyKey(field.name)}: (value: unknown) => {`,
+        ...checks.map((check) => `    ${check}`),
+        '    return undefined;',
+        '  }'
+      ].join('\n');
+    })
+    .filter((validator) => validator !== undefined);
+
+  return [
+    ...(entity.description ? [docComment(entity.description)] : []),
+    `export interface ${entity.name} {`,
+    ...members,
+    '}',
+    '',
+    'const isEmpty = (value: unknown) =>',
+    "  value === undefined || value === null || value === '';",
+    '',
+    `/** Kendo Form field validators for ${entity.name}, keyed by field name. */`,
+    `export const ${validatorsName(entity)}: Record<`,
+    `  string,`,
+    '  (value: unknown) => string | undefined',
+    '> = {',
+    validators.join(',\n'),
+    '};',
+    ''
+  ].join('\n');
+}
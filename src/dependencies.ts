@@ -0,0 +1,383 @@
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { builtinModules } from 'node:module';
+import type { GeneratedFile } from './workspace.js';
+import type { ProjectProfile } from './profile.js';
+
+export type PackageManager = 'npm' | 'pnpm' | 'yarn' | 'bun';
+
+export const LOCKFILES: Record<string, PackageManager> = {
+  'pnpm-lock.yaml': 'pnpm',
+  'yarn.lock': 'yarn',
+  'bun.lockb': 'bun',
+  'bun.lock': 'bun',
+  'package-lock.json': 'npm',
+  'npm-shrinkwrap.json': 'npm'
+};
+
+const THEME_PREFIX = '@progress/kendo-theme-';
+
+const COMMON_PEERS = ['@progress/kendo-licensing', '@progress/kendo-svg-icons'];
+
+/**
+ * Peer dependencies of the Kendo React packages beyond COMMON_PEERS and
+ * React itself. Bundled so the install command can be computed offline.
+ */
+const KENDO_PEERS: Record<string, string[]> = {
+  '@progress/kendo-react-grid': [
+    '@progress/kendo-data-query',
+    '@progress/kendo-drawing',
+    '@progress/kendo-react-animation',
+    '@progress/kendo-react-buttons',
+    '@progress/kendo-react-data-tools',
+    '@progress/kendo-react-dateinputs',
+    '@progress/kendo-react-dropdowns',
+    '@progress/kendo-react-inputs',
+    '@progress/kendo-react-intl',
+    '@progress/kendo-react-popup'
+  ],
+  '@progress/kendo-react-buttons': ['@progress/kendo-react-popup'],
+  '@progress/kendo-react-inputs': [
+    '@progress/kendo-drawing',
+    '@progress/kendo-react-animation',
+    '@progress/kendo-react-buttons',
+    '@progress/kendo-react-dialogs',
+    '@progress/kendo-react-intl',
+    '@progress/kendo-react-layout',
+    '@progress/kendo-react-popup'
+  ],
+  '@progress/kendo-react-dateinputs': [
+    '@progress/kendo-date-math',
+    '@progress/kendo-react-buttons',
+    '@progress/kendo-react-common',
+    '@progress/kendo-react-intl',
+    '@progress/kendo-react-labels',
+    '@progress/kendo-react-layout',
+    '@progress/kendo-react-popup'
+  ],
+  '@progress/kendo-react-dropdowns': [
+    '@progress/kendo-react-buttons',
+    '@progress/kendo-react-inputs',
+    '@progress/kendo-react-intl',
+    '@progress/kendo-react-popup',
+    '@progress/kendo-react-treeview'
+  ],
+  '@progress/kendo-react-layout': [
+    '@progress/kendo-react-animation',
+    '@progress/kendo-react-intl',
+    '@progress/kendo-react-popup'
+  ],
+  '@progress/kendo-react-dialogs': [
+    '@progress/kendo-react-buttons',
+    '@progress/kendo-react-intl'
+  ],
+  '@progress/kendo-react-form': ['@progress/kendo-react-common'],
+  '@progress/kendo-react-charts': [
+    '@progress/kendo-drawing',
+    '@progress/kendo-react-intl',
+    '@progress/kendo-react-popup',
+    'hammerjs'
+  ],
+  '@progress/kendo-react-scheduler': [
+    '@progress/kendo-data-query',
+    '@progress/kendo-date-math',
+    '@progress/kendo-react-buttons',
+    '@progress/kendo-react-dateinputs',
+    '@progress/kendo-react-dialogs',
+    '@progress/kendo-react-dropdowns',
+    '@progress/kendo-react-form',
+    '@progress/kendo-react-inputs',
+    '@progress/kendo-react-intl',
+    '@progress/kendo-react-popup',
+    '@progress/kendo-recurrence'
+  ],
+  '@progress/kendo-react-upload': [
+    '@progress/kendo-react-buttons',
+    '@progress/kendo-react-intl',
+    '@progress/kendo-react-progressbars'
+  ],
+  '@progress/kendo-react-treeview': ['@progress/kendo-react-animation'],
+  '@progress/kendo-react-pdf': ['@progress/kendo-drawing'],
+  '@progress/kendo-react-editor': [
+    '@progress/kendo-drawing',
+    '@progress/kendo-react-buttons',
+    '@progress/kendo-react-dialogs',
+    '@progress/kendo-react-dropdowns',
+    '@progress/kendo-react-form',
+    '@progress/kendo-react-inputs',
+    '@progress/kendo-react-intl',
+    '@progress/kendo-react-popup'
+  ]
+};
+
+/** Packages a React project is assumed to have already. */
+const ASSUMED_PRESENT = new Set(['react', 'react-dom']);
+
+export interface ProjectManifest {
+  dependencies: Set<string>;
+  packageManager: PackageManager;
+  /** Where the package manager was detected from, for the report. */
+  detectedFrom: string;
+}
+
+export interface DependencyReport {
+  /** Packages the generated code imports directly. */
+  imported: string[];
+  /** Kendo theme the page needs, if none is imported or installed yet. */
+  theme?: string;
+  /** Peer dependencies required by the imported Kendo packages. */
+  peers: string[];
+  /** Packages from the lists above not present in package.json. */
+  missing: string[];
+  packageManager: PackageManager;
+  detectedFrom: string;
+  installCommand?: string;
+  /** False when no package.json was available to compare against. */
+  comparedWithManifest: boolean;
+  /** Why the given or found package.json could not be used. */
+  manifestError?: string;
+}
+
+/**
+ * Returns the npm package names imported by a source file, skipping relative
+ * imports and Node built-ins.
+ */
+export function importedPackages(source: string): string[] {
+  const pattern =
+    /(?:import|export)\s+(?:[\w*{}\s,]+\s+from\s+)?['"]([^'"]+)['"]|import\(\s*['"]([^'"]+)['"]\s*\)/g;
+  const packages = new Set<string>();
+
+  for (const match of source.matchAll(pattern)) {
+    const specifier = match[1] ?? match[2];
+    if (specifier.startsWith('.') || specifier.startsWith('/')) continue;
+    if (specifier.startsWith('node:') || builtinModules.includes(specifier)) {
+      continue;
+    }
+
+    const segments = specifier.split('/');
+    packages.add(
+      specifier.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0]
+    );
+  }
+
+  return [...packages];
+}
+
+/**
+ * Parses a package.json document into the set of declared dependencies and
+ * the package manager, preferring an explicit lockfile name over the
+ * `packageManager` field.
+ */
+export function parseManifest(
+  packageJson: string,
+  lockfile?: string
+): ProjectManifest {
+  let manifest: Record<string, unknown>;
+  try {
+    manifest = JSON.parse(packageJson);
+  } catch (error) {
+    throw new Error(
+      `package.json is not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  if (!manifest || typeof manifest !== 'object' || Array.isArray(manifest)) {
+    throw new Error('package.json must hold a JSON object.');
+  }
+  const dependencies = new Set<string>();
+
+  for (const field of [
+    'dependencies',
+    'devDependencies',
+    'peerDependencies',
+    'optionalDependencies'
+  ]) {
+    const entries = manifest[field];
+    if (entries && typeof entries === 'object') {
+      Object.keys(entries).forEach((name) => dependencies.add(name));
+    }
+  }
+
+  if (lockfile && LOCKFILES[path.basename(lockfile)]) {
+    return {
+      dependencies,
+      packageManager: LOCKFILES[path.basename(lockfile)],
+      detectedFrom: path.basename(lockfile)
+    };
+  }
+
+  const declared =
+    typeof manifest.packageManager === 'string'
+      ? (manifest.packageManager.split('@')[0] as PackageManager)
+      : undefined;
+  if (declared && Object.values(LOCKFILES).includes(declared)) {
+    return {
+      dependencies,
+      packageManager: declared,
+      detectedFrom: 'package.json packageManager field'
+    };
+  }
+
+  return { dependencies, packageManager: 'npm', detectedFrom: 'default' };
+}
+
+/**
+ * Reads package.json and detects the lockfile in `projectDir`.
+ */
+export async function readProjectManifest(
+  projectDir: string
+): Promise<ProjectManifest> {
+  const packageJson = await readFile(
+    path.join(projectDir, 'package.json'),
+    'utf8'
+  );
+  const lockfile = Object.keys(LOCKFILES).find((name) =>
+    existsSync(path.join(projectDir, name))
+  );
+  return parseManifest(packageJson, lockfile);
+}
+
+/**
+ * Walks up from `start` looking for a package.json, without leaving the
+ * allowed base directory that contains `start`.
+ */
+export function findProjectDir(start: string, bases: string[]) {
+  const base = bases.find(
+    (dir) => start === dir || start.startsWith(dir + path.sep)
+  );
+  if (!base) return undefined;
+
+  let current = start;
+  while (true) {
+    if (existsSync(path.join(current, 'package.json'))) return current;
+    if (current === base) return undefined;
+    current = path.dirname(current);
+  }
+}
+
+export function installCommand(
+  packageManager: PackageManager,
+  packages: string[]
+) {
+  const verb = packageManager === 'npm' ? 'install' : 'add';
+  return `${packageManager} ${verb} ${packages.join(' ')}`;
+}
+
+/**
+ * Computes which packages the generated files need and which of them are
+ * missing from the project manifest, if one is available. The theme package
+ * follows the project profile's theme, `default` when it names none.
+ */
+export function analyzeDependencies(
+  files: GeneratedFile[],
+  manifest?: ProjectManifest,
+  profileTheme?: ProjectProfile['theme']
+): DependencyReport {
+  const imported = [
+    ...new Set(files.flatMap((file) => importedPackages(file.content)))
+  ].sort();
+  const installed = manifest?.dependencies ?? new Set<string>();
+
+  const themePackage = `${THEME_PREFIX}${profileTheme ?? 'default'}`;
+  const hasTheme = [...imported, ...installed].some((name) =>
+    profileTheme ? name === themePackage : name.startsWith(THEME_PREFIX)
+  );
+  const usesKendo = imported.some((name) =>
+    name.startsWith('@progress/kendo-')
+  );
+  const theme = usesKendo && !hasTheme ? themePackage : undefined;
+
+  const peers = new Set<string>();
+  for (const name of imported) {
+    if (!name.startsWith('@progress/kendo-react-')) continue;
+    COMMON_PEERS.forEach((peer) => peers.add(peer));
+    (KENDO_PEERS[name] ?? []).forEach((peer) => peers.add(peer));
+  }
+  imported.forEach((name) => peers.delete(name));
+
+  const required = [...imported, ...(theme ? [theme] : []), ...peers];
+  const missing = [...new Set(required)].filter(
+    (name) => !ASSUMED_PRESENT.has(name) && !installed.has(name)
+  );
+
+  const packageManager = manifest?.packageManager ?? 'npm';
+  return {
+    imported,
+    theme,
+    peers: [...peers].sort(),
+    missing,
+    packageManager,
+    detectedFrom: manifest?.detectedFrom ?? 'default',
+    installCommand:
+      missing.length > 0 ? installCommand(packageManager, missing) : undefined,
+    comparedWithManifest: manifest !== undefined
+  };
+}
+
+/**
+ * Renders the dependency report, by default as the install step of the
+ * merger checklist.
+ */
+export function formatDependencyReport(
+  report: DependencyReport,
+  heading = '### Step 2: Install Required Dependencies'
+) {
+  const lines = [heading];
+
+  if (report.manifestError) {
+    lines.push(
+      '',
+      `⚠️ **The project's package.json could not be used:** ${report.manifestError}`,
+      '',
+      '_This lists everything the code needs, not only the missing packages. ' +
+        'Fix `packageJson` or `projectDir` and call again to compare against the project._'
+    );
+  } else if (!report.comparedWithManifest) {
+    lines.push(
+      '',
+      '_No package.json was available, so this lists everything the code needs. ' +
+        'Pass `projectDir` or `packageJson` to get only the missing packages._'
+    );
+  }
+
+  lines.push(
+    '',
+    `**Imported by the generated code:** ${
+      report.imported.map((name) => `\`${name}\``).join(', ') || 'none'
+    }`
+  );
+  if (report.peers.length > 0) {
+    lines.push(
+      '',
+      `**Peer dependencies:** ${report.peers
+        .map((name) => `\`${name}\``)
+        .join(', ')}`
+    );
+  }
+  if (report.theme) {
+    lines.push(
+      '',
+      `**Theme:** \`${report.theme}\` - import \`${report.theme}/dist/all.css\` once in your app entry`
+    );
+  }
+
+  lines.push('');
+  if (report.installCommand) {
+    lines.push(
+      `**Install the missing packages** (${report.packageManager}, ${
+        report.detectedFrom === 'default'
+          ? 'no lockfile found'
+          : `detected from ${report.detectedFrom}`
+      }):`,
+      '```bash',
+      report.installCommand,
+      '```'
+    );
+  } else {
+    lines.push(
+      '✅ All required packages are already declared in package.json.'
+    );
+  }
+
+  return lines.join('\n');
+}
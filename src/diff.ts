@@ -0,0 +1,115 @@
+/**
+ * Minimal line-based unified diff, used to show what changed when generated
+ * files overwrite existing ones. Files beyond MAX_LINES are summarized
+ * instead of diffed to keep the LCS table small.
+ */
+
+const MAX_LINES = 2_000;
+const CONTEXT = 3;
+
+type Op = { type: ' ' | '-' | '+'; line: string };
+
+export function unifiedDiff(
+  before: string,
+  after: string,
+  fileName: string
+): string {
+  const a = splitLines(before);
+  const b = splitLines(after);
+  const header = [`--- a/${fileName}`, `+++ b/${fileName}`];
+
+  if (a.length > MAX_LINES || b.length > MAX_LINES) {
+    return [
+      ...header,
+      `@@ file too large to diff: ${a.length} lines -> ${b.length} lines @@`
+    ].join('\n');
+  }
+
+  const ops = diffLines(a, b);
+  if (ops.every((op) => op.type === ' ')) {
+    return '';
+  }
+
+  return [...header, ...hunks(ops)].join('\n');
+}
+
+function splitLines(text: string) {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+function diffLines(a: string[], b: string[]): Op[] {
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: ' ', line: a[i++] });
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: '-', line: a[i++] });
+    } else {
+      ops.push({ type: '+', line: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ type: '-', line: a[i++] });
+  while (j < b.length) ops.push({ type: '+', line: b[j++] });
+
+  return ops;
+}
+
+function hunks(ops: Op[]): string[] {
+  const output: string[] = [];
+  let index = 0;
+
+  while (index < ops.length) {
+    const firstChange = ops.findIndex(
+      (op, position) => position >= index && op.type !== ' '
+    );
+    if (firstChange === -1) break;
+
+    const start = Math.max(index, firstChange - CONTEXT);
+    let end = firstChange;
+    let unchangedRun = 0;
+    while (end < ops.length && unchangedRun <= CONTEXT * 2) {
+      unchangedRun = ops[end].type === ' ' ? unchangedRun + 1 : 0;
+      end++;
+    }
+    end = Math.min(ops.length, end - Math.max(0, unchangedRun - CONTEXT));
+
+    const slice = ops.slice(start, end);
+    const oldStart = countLines(ops, 0, start, '+') + 1;
+    const newStart = countLines(ops, 0, start, '-') + 1;
+    const oldLength = slice.filter((op) => op.type !== '+').length;
+    const newLength = slice.filter((op) => op.type !== '-').length;
+
+    output.push(`@@ -${oldStart},${oldLength} +${newStart},${newLength} @@`);
+    output.push(...slice.map((op) => `${op.type}${op.line}`));
+    index = end;
+  }
+
+  return output;
+}
+
+/** Counts lines in ops[from, to) that exist on one side, i.e. skipping `exclude`. */
+function countLines(ops: Op[], from: number, to: number, exclude: Op['type']) {
+  let count = 0;
+  for (let i = from; i < to; i++) {
+    if (ops[i].type !== exclude) count++;
+  }
+  return count;
+}
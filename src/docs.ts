@@ -0,0 +1,378 @@
+import { COMPONENT_CATALOG, isKendoComponent } from './catalog.js';
+import { DOCS_SNAPSHOT } from './docsSnapshot.js';
+import type { ActNode } from './types.js';
+
+/**
+ * Full-text index over the bundled Kendo React API snapshot, answering the
+ * `mcpQuery` of ACT nodes offline. Every Kendo component in the catalog is
+ * indexed; those without a snapshot entry are found by name and package only.
+ */
+
+export interface PropDoc {
+  name: string;
+  type: string;
+  description: string;
+  default?: string;
+}
+
+export interface EventDoc {
+  name: string;
+  type: string;
+  description: string;
+}
+
+export interface ComponentDoc {
+  name: string;
+  package: string;
+  summary: string;
+  props: PropDoc[];
+  events: EventDoc[];
+  examples: { title: string; code: string }[];
+  related: string[];
+}
+
+export interface DocsHit {
+  doc: ComponentDoc;
+  score: number;
+  /** Props and events whose name or description matches the query. */
+  matched: string[];
+}
+
+export interface NodeDocs {
+  path: string;
+  component: string;
+  mcpQuery: string;
+  hits: DocsHit[];
+}
+
+/** Words that appear in nearly every mcpQuery and say nothing about it. */
+const STOPWORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'component',
+  'components',
+  'doc',
+  'docs',
+  'documentation',
+  'example',
+  'examples',
+  'for',
+  'how',
+  'in',
+  'kendo',
+  'of',
+  'on',
+  'or',
+  'progress',
+  'react',
+  'the',
+  'to',
+  'use',
+  'using',
+  'with'
+]);
+
+/**
+ * Reduces inflected forms to a shared stem so "sorting", "sortable" and
+ * "sorted" all match "sort". Crude, but applied alike to documents and
+ * queries, which is all the matching needs.
+ */
+function stem(word: string) {
+  let stemmed = word;
+  for (const suffix of [
+    'ation',
+    'ator',
+    'ing',
+    'able',
+    'ion',
+    'ed',
+    'or',
+    's'
+  ]) {
+    if (stemmed.endsWith(suffix) && stemmed.length - suffix.length >= 3) {
+      stemmed = stemmed.slice(0, -suffix.length);
+      break;
+    }
+  }
+  return stemmed.length > 3 && stemmed.endsWith('e')
+    ? stemmed.slice(0, -1)
+    : stemmed;
+}
+
+/** Splits camelCase, drops stopwords and stems: `onRowClick` -> `row`, `click`. */
+export function tokenize(text: string) {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 1 && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+/** How much a term found in each part of a document counts. */
+const FIELD_WEIGHTS = {
+  name: 4,
+  summary: 2,
+  member: 2,
+  memberText: 1,
+  example: 1
+};
+
+/** Added when the query names the component outright, e.g. "Kendo Grid". */
+const NAME_BOOST = 8;
+
+interface IndexedDoc {
+  doc: ComponentDoc;
+  terms: Map<string, number>;
+  length: number;
+}
+
+function buildDocs(): ComponentDoc[] {
+  const snapshot = new Map(DOCS_SNAPSHOT.map((spec) => [spec.name, spec]));
+  return [...COMPONENT_CATALOG.values()]
+    .filter(isKendoComponent)
+    .map((entry) => {
+      const spec = snapshot.get(entry.name);
+      return {
+        name: entry.name,
+        package: entry.package!,
+        summary: spec?.summary ?? '',
+        props: (spec?.props ?? []).map(
+          ([name, type, description, defaultValue]) => ({
+            name,
+            type,
+            description,
+            ...(defaultValue !== undefined ? { default: defaultValue } : {})
+          })
+        ),
+        events: (spec?.events ?? []).map(([name, type, description]) => ({
+          name,
+          type,
+          description
+        })),
+        examples: spec?.examples ?? [],
+        related: spec?.related ?? []
+      };
+    });
+}
+
+export class DocsIndex {
+  private readonly docs: IndexedDoc[];
+  private readonly byName = new Map<string, ComponentDoc>();
+  private readonly documentFrequency = new Map<string, number>();
+  private readonly averageLength: number;
+
+  constructor(docs: ComponentDoc[] = buildDocs()) {
+    this.docs = docs.map((doc) => {
+      const terms = new Map<string, number>();
+      const add = (text: string, weight: number) => {
+        for (const term of tokenize(text)) {
+          terms.set(term, (terms.get(term) ?? 0) + weight);
+        }
+      };
+      add(doc.name, FIELD_WEIGHTS.name);
+      add(nameCompounds(doc.name), FIELD_WEIGHTS.name);
+      add(doc.summary, FIELD_WEIGHTS.summary);
+      for (const member of [...doc.props, ...doc.events]) {
+        add(member.name, FIELD_WEIGHTS.member);
+        add(member.description, FIELD_WEIGHTS.memberText);
+      }
+      for (const example of doc.examples) {
+        add(example.title, FIELD_WEIGHTS.example);
+      }
+      this.byName.set(doc.name.toLowerCase(), doc);
+      for (const term of terms.keys()) {
+        this.documentFrequency.set(
+          term,
+          (this.documentFrequency.get(term) ?? 0) + 1
+        );
+      }
+      const length = [...terms.values()].reduce((sum, n) => sum + n, 0);
+      return { doc, terms, length };
+    });
+    this.averageLength =
+      this.docs.reduce((sum, entry) => sum + entry.length, 0) /
+      Math.max(1, this.docs.length);
+  }
+
+  get size() {
+    return this.docs.length;
+  }
+
+  /** The docs of a component by name, ignoring case. */
+  get(name: string): ComponentDoc | undefined {
+    return this.byName.get(name.toLowerCase());
+  }
+
+  /**
+   * Ranks components against a free-text query with BM25 over the weighted
+   * terms, boosting components the query names outright. `component` is
+   * ranked first when given, as the node asking already settled on it.
+   */
+  search(query: string, limit = 3, component?: string): DocsHit[] {
+    const terms = [...new Set(tokenize(query))];
+    const named = new Set(
+      query
+        .split(/[^A-Za-z0-9]+/)
+        .map((word) => word.toLowerCase())
+        .filter((word) => this.byName.has(word))
+    );
+    const pinned = component ? this.get(component) : undefined;
+    const k1 = 1.2;
+    const b = 0.75;
+
+    const hits: DocsHit[] = [];
+    for (const { doc, terms: docTerms, length } of this.docs) {
+      let score = 0;
+      for (const term of terms) {
+        const frequency = docTerms.get(term);
+        if (!frequency) continue;
+        const df = this.documentFrequency.get(term) ?? 0;
+        const idf = Math.log(1 + (this.docs.length - df + 0.5) / (df + 0.5));
+        score +=
+          (idf * frequency * (k1 + 1)) /
+          (frequency + k1 * (1 - b + (b * length) / this.averageLength));
+      }
+      if (named.has(doc.name.toLowerCase())) score += NAME_BOOST;
+      if (score > 0 || doc === pinned) {
+        hits.push({
+          doc,
+          score: Math.round(score * 100) / 100,
+          matched: matchedMembers(doc, terms)
+        });
+      }
+    }
+
+    hits.sort(
+      (left, right) =>
+        Number(right.doc === pinned) - Number(left.doc === pinned) ||
+        right.score - left.score ||
+        left.doc.name.localeCompare(right.doc.name)
+    );
+    return hits.slice(0, limit);
+  }
+
+  /**
+   * Answers the `mcpQuery` of every node in the tree, ranking the node's own
+   * component first. Nodes with a null or empty mcpQuery are skipped.
+   */
+  resolveAct(act: ActNode, limit = 3): NodeDocs[] {
+    const resolved: NodeDocs[] = [];
+    const visit = (node: ActNode, path: string) => {
+      if (node.mcpQuery) {
+        resolved.push({
+          path,
+          component: node.component,
+          mcpQuery: node.mcpQuery,
+          hits: this.search(node.mcpQuery, limit, node.component)
+        });
+      }
+      if (Array.isArray(node.children)) {
+        node.children.forEach((child, index) =>
+          visit(child, `${path}.children[${index}]`)
+        );
+      }
+    };
+    visit(act, '$');
+    return resolved;
+  }
+}
+
+/**
+ * Adjacent parts of a camelCase name joined up, so queries that write
+ * `DropDownList` as "dropdown" or `DatePicker` as "datepicker" still match.
+ */
+function nameCompounds(name: string) {
+  const parts = name.split(/(?=[A-Z])/);
+  const compounds = parts.length > 1 ? [parts.join('')] : [];
+  for (let index = 0; index + 2 < parts.length; index++) {
+    compounds.push(parts[index] + parts[index + 1].toLowerCase());
+    compounds.push(parts[index + 1] + parts[index + 2].toLowerCase());
+  }
+  return compounds.join(' ');
+}
+
+/**
+ * The props and events a query is about: those whose name matches one of its
+ * terms, else those whose description does. Terms naming the component itself
+ * are left out, as its own members mention it everywhere.
+ */
+function matchedMembers(doc: ComponentDoc, terms: string[]) {
+  const own = new Set(tokenize(doc.name));
+  const wanted = new Set(terms.filter((term) => !own.has(term)));
+  if (wanted.size === 0) return [];
+  const members = [...doc.props, ...doc.events];
+  const matching = (text: (member: PropDoc | EventDoc) => string) =>
+    members
+      .filter((member) =>
+        tokenize(text(member)).some((term) => wanted.has(term))
+      )
+      .map((member) => member.name);
+  const byName = matching((member) => member.name);
+  return byName.length > 0 ? byName : matching((member) => member.description);
+}
+
+let sharedIndex: DocsIndex | undefined;
+
+/** The index over the bundled snapshot, built on first use. */
+export function docsIndex() {
+  return (sharedIndex ??= new DocsIndex());
+}
+
+/**
+ * Markdown for one component: package and import, then the props and events
+ * matching the query (or all of them when `full`), then the first example.
+ */
+export function formatComponentDoc(hit: DocsHit, full = false) {
+  const { doc, matched } = hit;
+  const wanted = new Set(matched);
+  const pick = <T extends { name: string }>(members: T[]) =>
+    full || wanted.size === 0
+      ? members
+      : members.filter((member) => wanted.has(member.name));
+  const props = pick(doc.props);
+  const events = pick(doc.events);
+  const example = doc.examples[0];
+
+  return [
+    `### ${doc.name}`,
+    `\`import { ${doc.name} } from '${doc.package}';\``,
+    ...(doc.summary ? ['', doc.summary] : []),
+    ...(props.length > 0
+      ? [
+          '',
+          '**Props:**',
+          ...props.map(
+            (prop) =>
+              `- \`${prop.name}\`: \`${prop.type}\`` +
+              (prop.default !== undefined ? ` = \`${prop.default}\`` : '') +
+              ` - ${prop.description}`
+          )
+        ]
+      : []),
+    ...(events.length > 0
+      ? [
+          '',
+          '**Events:**',
+          ...events.map(
+            (event) =>
+              `- \`${event.name}\`: \`${event.type}\` - ${event.description}`
+          )
+        ]
+      : []),
+    ...(!full &&
+    props.length + events.length < doc.props.length + doc.events.length
+      ? [
+          '',
+          `_${doc.props.length + doc.events.length - props.length - events.length} more props and events; look up \`component: "${doc.name}"\` for all of them._`
+        ]
+      : []),
+    ...(example
+      ? ['', `**Example: ${example.title}**`, '```tsx', example.code, '```']
+      : []),
+    ...(doc.related.length > 0
+      ? ['', `Related: ${doc.related.join(', ')}`]
+      : [])
+  ].join('\n');
+}
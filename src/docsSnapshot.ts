@@ -0,0 +1,1920 @@
+/**
+ * Bundled snapshot of Kendo React component API metadata, searched by the
+ * kendo_docs tool. It is a curated subset of the public API reference: the
+ * props, events and patterns the code generator relies on most. Packages
+ * come from the component catalog; components without an entry here are
+ * still indexed by name and package.
+ */
+
+type PropSpec = [
+  name: string,
+  type: string,
+  description: string,
+  defaultValue?: string
+];
+
+type EventSpec = [name: string, type: string, description: string];
+
+export interface ComponentDocSpec {
+  name: string;
+  summary: string;
+  props?: PropSpec[];
+  events?: EventSpec[];
+  examples?: { title: string; code: string }[];
+  /** Components usually used together with this one. */
+  related?: string[];
+}
+
+export const DOCS_SNAPSHOT: ComponentDocSpec[] = [
+  {
+    name: 'Grid',
+    summary:
+      'Data grid for tabular data with sorting, filtering, paging, grouping, selection, editing and virtual scrolling. ' +
+      'Data operations are controlled: keep the sort, filter, skip, take and group state in the page and apply it with process() from @progress/kendo-data-query.',
+    props: [
+      [
+        'data',
+        'any[] | DataResult | null',
+        'Records to display, or a DataResult with data and total for server-side paging'
+      ],
+      [
+        'dataItemKey',
+        'string',
+        'Field that uniquely identifies a record; required for selection and editing'
+      ],
+      [
+        'sortable',
+        'boolean | GridSortSettings',
+        'Enables sorting by clicking column headers; { mode: "multiple" } sorts by several columns',
+        'false'
+      ],
+      ['sort', 'SortDescriptor[]', 'Current sort descriptors'],
+      [
+        'filterable',
+        'boolean',
+        'Shows a filter row below the column headers',
+        'false'
+      ],
+      ['filter', 'CompositeFilterDescriptor', 'Current filter expression'],
+      [
+        'pageable',
+        'boolean | GridPagerSettings',
+        'Shows the pager; settings configure buttonCount, pageSizes and info',
+        'false'
+      ],
+      ['skip', 'number', 'Number of records skipped, for paging'],
+      ['take', 'number', 'Number of records per page'],
+      ['total', 'number', 'Total number of records when paging on the server'],
+      [
+        'groupable',
+        'boolean | GridGroupableSettings',
+        'Lets users group by dragging column headers to the group panel',
+        'false'
+      ],
+      ['group', 'GroupDescriptor[]', 'Current group descriptors'],
+      [
+        'editField',
+        'string',
+        'Field of a record that marks it as in edit mode'
+      ],
+      [
+        'selectable',
+        'GridSelectableSettings',
+        'Row and cell selection settings: enabled, mode ("single" | "multiple"), cell, drag'
+      ],
+      [
+        'selectedField',
+        'string',
+        'Field of a record that marks it as selected'
+      ],
+      ['resizable', 'boolean', 'Lets users resize columns', 'false'],
+      [
+        'reorderable',
+        'boolean',
+        'Lets users reorder columns by dragging',
+        'false'
+      ],
+      [
+        'scrollable',
+        '"none" | "scrollable" | "virtual"',
+        'Scroll mode; "virtual" renders only the visible rows and needs rowHeight',
+        '"scrollable"'
+      ],
+      [
+        'rowHeight',
+        'number',
+        'Row height in pixels, required for virtual scrolling'
+      ],
+      [
+        'navigatable',
+        'boolean',
+        'Enables keyboard navigation between cells',
+        'false'
+      ],
+      [
+        'detail',
+        'ComponentType<GridDetailRowProps>',
+        'Component rendered in the expandable detail row of a record'
+      ],
+      [
+        'expandField',
+        'string',
+        'Field that marks a record or group as expanded'
+      ]
+    ],
+    events: [
+      [
+        'onDataStateChange',
+        'GridDataStateChangeEvent',
+        'Fires when sort, filter, page or group change together; event.dataState holds the new state'
+      ],
+      [
+        'onSortChange',
+        'GridSortChangeEvent',
+        'Fires when the user sorts; event.sort holds the new descriptors'
+      ],
+      [
+        'onFilterChange',
+        'GridFilterChangeEvent',
+        'Fires when the user filters; event.filter holds the new expression'
+      ],
+      [
+        'onPageChange',
+        'GridPageChangeEvent',
+        'Fires when the user pages; event.page holds skip and take'
+      ],
+      [
+        'onGroupChange',
+        'GridGroupChangeEvent',
+        'Fires when the user groups; event.group holds the new descriptors'
+      ],
+      [
+        'onItemChange',
+        'GridItemChangeEvent',
+        'Fires when an edited cell value changes; event.dataItem, event.field and event.value'
+      ],
+      [
+        'onRowClick',
+        'GridRowClickEvent',
+        'Fires when a row is clicked; event.dataItem is the record'
+      ],
+      [
+        'onRowDoubleClick',
+        'GridRowDoubleClickEvent',
+        'Fires when a row is double-clicked'
+      ],
+      [
+        'onSelectionChange',
+        'GridSelectionChangeEvent',
+        'Fires when the selection changes'
+      ],
+      [
+        'onExpandChange',
+        'GridExpandChangeEvent',
+        'Fires when a detail row or group is expanded or collapsed'
+      ]
+    ],
+    examples: [
+      {
+        title: 'Sorting, filtering and paging with a single data state',
+        code: [
+          "import { Grid, GridColumn, GridDataStateChangeEvent } from '@progress/kendo-react-grid';",
+          "import { process, State } from '@progress/kendo-data-query';",
+          '',
+          'const [dataState, setDataState] = React.useState<State>({ skip: 0, take: 10 });',
+          '',
+          '<Grid',
+          '  data={process(users, dataState)}',
+          '  {...dataState}',
+          '  sortable',
+          '  filterable',
+          '  pageable',
+          '  onDataStateChange={(event: GridDataStateChangeEvent) => setDataState(event.dataState)}',
+          '>',
+          '  <GridColumn field="name" title="Name" />',
+          '  <GridColumn field="createdAt" title="Created" filter="date" format="{0:d}" />',
+          '</Grid>'
+        ].join('\n')
+      },
+      {
+        title: 'Inline editing',
+        code: [
+          '<Grid data={users.map((user) => ({ ...user, inEdit: user.id === editId }))} editField="inEdit" onItemChange={handleItemChange}>',
+          '  <GridColumn field="name" title="Name" />',
+          '  <GridColumn field="age" title="Age" editor="numeric" />',
+          '</Grid>'
+        ].join('\n')
+      }
+    ],
+    related: ['GridColumn', 'GridToolbar', 'Pager']
+  },
+  {
+    name: 'GridColumn',
+    summary:
+      'Column of a Grid, bound to a field of the records, with its own title, width, filter type, format, editor and custom cells.',
+    props: [
+      ['field', 'string', 'Field of the record the column shows'],
+      ['title', 'string', 'Header text'],
+      ['width', 'string | number', 'Column width'],
+      [
+        'filter',
+        '"text" | "numeric" | "boolean" | "date"',
+        'Filter type of the filter row and column menu',
+        '"text"'
+      ],
+      [
+        'format',
+        'string',
+        'Display format such as "{0:d}" for dates or "{0:c2}" for currency'
+      ],
+      ['editable', 'boolean', 'Whether the column can be edited', 'true'],
+      [
+        'editor',
+        '"text" | "numeric" | "boolean" | "date"',
+        'Editor used in edit mode',
+        '"text"'
+      ],
+      [
+        'sortable',
+        'boolean',
+        'Overrides the Grid sortable setting for this column'
+      ],
+      [
+        'filterable',
+        'boolean',
+        'Overrides the Grid filterable setting for this column'
+      ],
+      [
+        'locked',
+        'boolean',
+        'Keeps the column visible while scrolling horizontally'
+      ],
+      [
+        'cells',
+        'GridCellsSettings',
+        'Custom cell components, e.g. { data: StatusCell } to render badges or buttons'
+      ],
+      [
+        'columnMenu',
+        'ComponentType<GridColumnMenuProps>',
+        'Column menu with sort and filter options, e.g. GridColumnMenuSort'
+      ]
+    ],
+    examples: [
+      {
+        title: 'Custom cell with a command button',
+        code: [
+          'const CommandCell = (props: GridCustomCellProps) => (',
+          '  <td {...props.tdProps}>',
+          '    <Button onClick={() => onEdit(props.dataItem)}>Edit</Button>',
+          '  </td>',
+          ');',
+          '',
+          '<GridColumn title="Actions" cells={{ data: CommandCell }} />'
+        ].join('\n')
+      }
+    ],
+    related: ['Grid']
+  },
+  {
+    name: 'GridToolbar',
+    summary:
+      'Toolbar rendered above the Grid rows, for actions such as adding records, exporting or a search box.',
+    examples: [
+      {
+        title: 'Add button above the grid',
+        code: [
+          '<Grid data={users}>',
+          '  <GridToolbar>',
+          '    <Button themeColor="primary" onClick={addUser}>Add User</Button>',
+          '  </GridToolbar>',
+          '  <GridColumn field="name" />',
+          '</Grid>'
+        ].join('\n')
+      }
+    ],
+    related: ['Grid', 'Button']
+  },
+  {
+    name: 'Button',
+    summary:
+      'Button with theme colors, fill modes, sizes and SVG or font icons; can act as a toggle.',
+    props: [
+      [
+        'themeColor',
+        '"base" | "primary" | "secondary" | "tertiary" | "info" | "success" | "warning" | "error" | "dark" | "light" | "inverse"',
+        'Color of the button',
+        '"base"'
+      ],
+      [
+        'fillMode',
+        '"solid" | "outline" | "flat" | "link" | "clear"',
+        'Fill style',
+        '"solid"'
+      ],
+      [
+        'size',
+        '"small" | "medium" | "large"',
+        'Padding and font size',
+        '"medium"'
+      ],
+      [
+        'rounded',
+        '"small" | "medium" | "large" | "full"',
+        'Border radius',
+        '"medium"'
+      ],
+      [
+        'svgIcon',
+        'SVGIcon',
+        'Icon from @progress/kendo-svg-icons, e.g. plusIcon'
+      ],
+      ['icon', 'string', 'Name of a font icon'],
+      ['disabled', 'boolean', 'Disables the button', 'false'],
+      [
+        'togglable',
+        'boolean',
+        'Keeps the button selected after a click, like a toggle',
+        'false'
+      ],
+      ['selected', 'boolean', 'Selected state of a togglable button'],
+      ['type', '"button" | "submit" | "reset"', 'HTML button type', '"button"']
+    ],
+    events: [
+      [
+        'onClick',
+        'React.MouseEvent<HTMLButtonElement>',
+        'Fires when the button is clicked'
+      ]
+    ],
+    examples: [
+      {
+        title: 'Primary button with an icon',
+        code: [
+          "import { Button } from '@progress/kendo-react-buttons';",
+          "import { plusIcon } from '@progress/kendo-svg-icons';",
+          '',
+          '<Button themeColor="primary" svgIcon={plusIcon} onClick={addUser}>',
+          '  Add User',
+          '</Button>'
+        ].join('\n')
+      }
+    ],
+    related: ['ButtonGroup', 'DropDownButton', 'Toolbar']
+  },
+  {
+    name: 'ButtonGroup',
+    summary:
+      'Groups related Buttons visually; togglable buttons in a group behave like a segmented control.',
+    props: [
+      ['disabled', 'boolean', 'Disables every button in the group', 'false'],
+      ['width', 'string', 'Width of the group']
+    ],
+    related: ['Button']
+  },
+  {
+    name: 'DropDownButton',
+    summary: 'Button that opens a popup list of actions.',
+    props: [
+      ['text', 'ReactNode', 'Button content'],
+      ['items', 'any[]', 'Actions shown in the popup'],
+      ['textField', 'string', 'Field of an item used as its text'],
+      ['svgIcon', 'SVGIcon', 'Icon of the button'],
+      ['themeColor', 'string', 'Color of the button', '"base"']
+    ],
+    events: [
+      [
+        'onItemClick',
+        'DropDownButtonItemClickEvent',
+        'Fires when an action is chosen; event.item is the item'
+      ]
+    ],
+    related: ['Button', 'SplitButton']
+  },
+  {
+    name: 'Toolbar',
+    summary:
+      'Horizontal bar of tools such as buttons and dropdowns, with keyboard navigation and overflow handling.',
+    props: [
+      [
+        'keyboardNavigation',
+        'boolean',
+        'Moves focus between tools with the arrow keys',
+        'true'
+      ],
+      [
+        'size',
+        '"small" | "medium" | "large"',
+        'Size of the toolbar',
+        '"medium"'
+      ],
+      [
+        'overflow',
+        '"none" | "section" | "scroll"',
+        'How tools that do not fit are shown',
+        '"none"'
+      ]
+    ],
+    examples: [
+      {
+        title: 'Toolbar with a spacer',
+        code: [
+          '<Toolbar>',
+          '  <Button svgIcon={plusIcon}>New</Button>',
+          '  <ToolbarSeparator />',
+          '  <Button>Export</Button>',
+          '  <ToolbarSpacer />',
+          '  <Button fillMode="flat">Help</Button>',
+          '</Toolbar>'
+        ].join('\n')
+      }
+    ],
+    related: ['ToolbarItem', 'ToolbarSpacer', 'ToolbarSeparator', 'Button']
+  },
+  {
+    name: 'Input',
+    summary:
+      'Text input with an optional floating label and built-in validation styling.',
+    props: [
+      ['value', 'string', 'Controlled value'],
+      ['defaultValue', 'string', 'Initial value when uncontrolled'],
+      ['label', 'string', 'Floating label'],
+      ['name', 'string', 'Name of the input'],
+      ['placeholder', 'string', 'Placeholder text'],
+      [
+        'type',
+        'string',
+        'HTML input type, e.g. "email" or "password"',
+        '"text"'
+      ],
+      ['required', 'boolean', 'Marks the input as required'],
+      ['valid', 'boolean', 'Overrides the validity styling'],
+      [
+        'validationMessage',
+        'string',
+        'Message shown when the value is invalid'
+      ],
+      ['disabled', 'boolean', 'Disables the input', 'false']
+    ],
+    events: [
+      [
+        'onChange',
+        'InputChangeEvent',
+        'Fires when the value changes; event.value is the new value'
+      ],
+      [
+        'onBlur',
+        'React.FocusEvent<HTMLInputElement>',
+        'Fires when the input loses focus'
+      ],
+      [
+        'onFocus',
+        'React.FocusEvent<HTMLInputElement>',
+        'Fires when the input gets focus'
+      ]
+    ],
+    related: ['TextBox', 'Label', 'Error', 'Field']
+  },
+  {
+    name: 'TextBox',
+    summary:
+      'Text input with prefix and suffix adornments such as icons or clear buttons.',
+    props: [
+      ['value', 'string', 'Controlled value'],
+      ['placeholder', 'string', 'Placeholder text'],
+      [
+        'prefix',
+        'ComponentType',
+        'Content rendered before the input, e.g. a search icon'
+      ],
+      ['suffix', 'ComponentType', 'Content rendered after the input'],
+      ['size', '"small" | "medium" | "large"', 'Size of the input', '"medium"']
+    ],
+    events: [
+      [
+        'onChange',
+        'TextBoxChangeEvent',
+        'Fires when the value changes; event.value is the new value'
+      ]
+    ],
+    related: ['Input']
+  },
+  {
+    name: 'TextArea',
+    summary: 'Multi-line text input that can grow with its content.',
+    props: [
+      ['value', 'string', 'Controlled value'],
+      ['rows', 'number', 'Visible number of lines'],
+      ['autoSize', 'boolean', 'Grows the height to fit the content', 'false'],
+      ['maxLength', 'number', 'Maximum number of characters'],
+      ['placeholder', 'string', 'Placeholder text']
+    ],
+    events: [
+      [
+        'onChange',
+        'TextAreaChangeEvent',
+        'Fires when the value changes; event.value is the new value'
+      ]
+    ],
+    related: ['Input']
+  },
+  {
+    name: 'MaskedTextBox',
+    summary:
+      'Input that restricts the value to a mask, for phone numbers, postal codes and similar formats.',
+    props: [
+      [
+        'mask',
+        'string',
+        'Mask such as "(999) 000-0000"; 0 is a required digit, 9 an optional one'
+      ],
+      ['value', 'string', 'Controlled value'],
+      ['label', 'string', 'Floating label']
+    ],
+    events: [
+      [
+        'onChange',
+        'MaskedTextBoxChangeEvent',
+        'Fires when the value changes; event.value is the new value'
+      ]
+    ]
+  },
+  {
+    name: 'NumericTextBox',
+    summary: 'Numeric input with formatting, spin buttons and min/max limits.',
+    props: [
+      ['value', 'number | null', 'Controlled value'],
+      [
+        'format',
+        'string | NumberFormatOptions',
+        'Display format such as "n2", "c2" (currency) or "p" (percent)'
+      ],
+      ['min', 'number', 'Smallest allowed value'],
+      ['max', 'number', 'Largest allowed value'],
+      ['step', 'number', 'Increment of the spin buttons and arrow keys', '1'],
+      ['spinners', 'boolean', 'Shows the spin buttons', 'true'],
+      ['label', 'string', 'Floating label']
+    ],
+    events: [
+      [
+        'onChange',
+        'NumericTextBoxChangeEvent',
+        'Fires when the value changes; event.value is a number or null'
+      ]
+    ],
+    related: ['Input', 'Slider']
+  },
+  {
+    name: 'Checkbox',
+    summary: 'Checkbox with a label and an indeterminate state.',
+    props: [
+      ['value', 'boolean | null', 'Checked state; null is indeterminate'],
+      ['defaultChecked', 'boolean', 'Initial state when uncontrolled'],
+      ['label', 'string', 'Label next to the checkbox'],
+      ['disabled', 'boolean', 'Disables the checkbox', 'false']
+    ],
+    events: [
+      [
+        'onChange',
+        'CheckboxChangeEvent',
+        'Fires when the state changes; event.value is the new state'
+      ]
+    ],
+    related: ['Switch', 'RadioGroup']
+  },
+  {
+    name: 'Switch',
+    summary: 'On/off toggle for settings that apply immediately.',
+    props: [
+      ['checked', 'boolean', 'Controlled state'],
+      ['onLabel', 'string', 'Text shown when on', '"ON"'],
+      ['offLabel', 'string', 'Text shown when off', '"OFF"'],
+      ['disabled', 'boolean', 'Disables the switch', 'false']
+    ],
+    events: [
+      [
+        'onChange',
+        'SwitchChangeEvent',
+        'Fires when toggled; event.value is the new state'
+      ]
+    ],
+    related: ['Checkbox']
+  },
+  {
+    name: 'RadioGroup',
+    summary: 'Group of radio buttons for choosing one of a few options.',
+    props: [
+      ['data', 'RadioButtonProps[]', 'Options, each with label and value'],
+      ['value', 'any', 'Selected value'],
+      [
+        'layout',
+        '"horizontal" | "vertical"',
+        'Direction of the options',
+        '"vertical"'
+      ]
+    ],
+    events: [
+      [
+        'onChange',
+        'RadioGroupChangeEvent',
+        'Fires when the selection changes; event.value is the chosen value'
+      ]
+    ],
+    related: ['RadioButton', 'DropDownList']
+  },
+  {
+    name: 'Slider',
+    summary: 'Slider for picking a number in a range.',
+    props: [
+      ['min', 'number', 'Smallest value'],
+      ['max', 'number', 'Largest value'],
+      ['step', 'number', 'Increment', '1'],
+      ['value', 'number', 'Controlled value']
+    ],
+    events: [
+      [
+        'onChange',
+        'SliderChangeEvent',
+        'Fires when the value changes; event.value is the new value'
+      ]
+    ],
+    related: ['RangeSlider', 'NumericTextBox']
+  },
+  {
+    name: 'DatePicker',
+    summary:
+      'Date input with a popup calendar, min/max limits and custom formats.',
+    props: [
+      ['value', 'Date | null', 'Controlled value'],
+      ['defaultValue', 'Date', 'Initial value when uncontrolled'],
+      [
+        'format',
+        'string | DateFormatOptions',
+        'Display format, e.g. "dd/MM/yyyy"'
+      ],
+      ['min', 'Date', 'Earliest selectable date'],
+      ['max', 'Date', 'Latest selectable date'],
+      ['placeholder', 'string', 'Placeholder text'],
+      ['label', 'string', 'Floating label'],
+      ['weekNumber', 'boolean', 'Shows week numbers in the calendar', 'false'],
+      ['disabled', 'boolean', 'Disables the picker', 'false']
+    ],
+    events: [
+      [
+        'onChange',
+        'DatePickerChangeEvent',
+        'Fires when the date changes; event.value is a Date or null'
+      ]
+    ],
+    examples: [
+      {
+        title: 'Controlled date picker',
+        code: [
+          "import { DatePicker, DatePickerChangeEvent } from '@progress/kendo-react-dateinputs';",
+          '',
+          '<DatePicker',
+          '  value={dueDate}',
+          '  format="dd/MM/yyyy"',
+          '  onChange={(event: DatePickerChangeEvent) => setDueDate(event.value)}',
+          '/>'
+        ].join('\n')
+      }
+    ],
+    related: ['DateTimePicker', 'DateRangePicker', 'Calendar']
+  },
+  {
+    name: 'DateTimePicker',
+    summary: 'Date and time input with a popup calendar and time selector.',
+    props: [
+      ['value', 'Date | null', 'Controlled value'],
+      [
+        'format',
+        'string | DateFormatOptions',
+        'Display format, e.g. "dd/MM/yyyy HH:mm"'
+      ],
+      ['min', 'Date', 'Earliest selectable date and time'],
+      ['max', 'Date', 'Latest selectable date and time'],
+      ['label', 'string', 'Floating label']
+    ],
+    events: [
+      [
+        'onChange',
+        'DateTimePickerChangeEvent',
+        'Fires when the value changes; event.value is a Date or null'
+      ]
+    ],
+    related: ['DatePicker', 'TimePicker']
+  },
+  {
+    name: 'TimePicker',
+    summary: 'Time input with a popup list of hours and minutes.',
+    props: [
+      ['value', 'Date | null', 'Controlled value'],
+      ['format', 'string', 'Display format, e.g. "HH:mm"'],
+      [
+        'steps',
+        'TimePickerIncrementalSteps',
+        'Step of each part, e.g. { minute: 15 }'
+      ]
+    ],
+    events: [
+      [
+        'onChange',
+        'TimePickerChangeEvent',
+        'Fires when the time changes; event.value is a Date or null'
+      ]
+    ],
+    related: ['DateTimePicker']
+  },
+  {
+    name: 'DateRangePicker',
+    summary: 'Picks a start and end date in one popup calendar.',
+    props: [
+      ['value', 'SelectionRange', 'Controlled range with start and end dates'],
+      ['format', 'string', 'Display format of both inputs'],
+      ['min', 'Date', 'Earliest selectable date'],
+      ['max', 'Date', 'Latest selectable date']
+    ],
+    events: [
+      [
+        'onChange',
+        'DateRangePickerChangeEvent',
+        'Fires when the range changes; event.value has start and end'
+      ]
+    ],
+    related: ['DatePicker']
+  },
+  {
+    name: 'Calendar',
+    summary: 'Inline calendar for selecting a date or a range.',
+    props: [
+      [
+        'value',
+        'Date | Date[] | SelectionRange | null',
+        'Selected date, dates or range'
+      ],
+      ['mode', '"single" | "multiple" | "range"', 'Selection mode', '"single"'],
+      ['min', 'Date', 'Earliest selectable date'],
+      ['max', 'Date', 'Latest selectable date']
+    ],
+    events: [
+      ['onChange', 'CalendarChangeEvent', 'Fires when the selection changes']
+    ],
+    related: ['DatePicker']
+  },
+  {
+    name: 'DropDownList',
+    summary:
+      'Select-style list for choosing one item from a predefined set, with filtering and virtualization.',
+    props: [
+      ['data', 'any[]', 'Items to choose from'],
+      ['textField', 'string', 'Field of an object item shown as its text'],
+      ['dataItemKey', 'string', 'Field that identifies an item'],
+      ['value', 'any', 'Selected item'],
+      [
+        'defaultItem',
+        'any',
+        'Item shown when nothing is selected, e.g. "Select a role..."'
+      ],
+      [
+        'filterable',
+        'boolean',
+        'Shows a filter input in the popup; handle onFilterChange',
+        'false'
+      ],
+      ['label', 'string', 'Floating label'],
+      ['loading', 'boolean', 'Shows a loading indicator'],
+      [
+        'virtual',
+        'VirtualizationSettings',
+        'Renders only the visible items of large lists'
+      ]
+    ],
+    events: [
+      [
+        'onChange',
+        'DropDownListChangeEvent',
+        'Fires when the selection changes; event.value is the selected item'
+      ],
+      [
+        'onFilterChange',
+        'DropDownListFilterChangeEvent',
+        'Fires when the filter text changes; event.filter holds it'
+      ]
+    ],
+    examples: [
+      {
+        title: 'Object items with a default item',
+        code: [
+          '<DropDownList',
+          '  data={roles}',
+          '  textField="name"',
+          '  dataItemKey="id"',
+          '  defaultItem={{ id: null, name: "Select a role..." }}',
+          '  value={role}',
+          '  onChange={(event) => setRole(event.value)}',
+          '/>'
+        ].join('\n')
+      }
+    ],
+    related: ['ComboBox', 'MultiSelect', 'AutoComplete']
+  },
+  {
+    name: 'ComboBox',
+    summary:
+      'Editable dropdown that filters items as the user types and can accept custom values.',
+    props: [
+      ['data', 'any[]', 'Items to choose from'],
+      ['textField', 'string', 'Field of an object item shown as its text'],
+      ['dataItemKey', 'string', 'Field that identifies an item'],
+      ['value', 'any', 'Selected item'],
+      [
+        'allowCustom',
+        'boolean',
+        'Accepts values that are not in the list',
+        'false'
+      ],
+      [
+        'filterable',
+        'boolean',
+        'Filters the items as the user types; handle onFilterChange',
+        'false'
+      ],
+      [
+        'suggest',
+        'boolean',
+        'Completes the typed text with the first match',
+        'false'
+      ],
+      ['placeholder', 'string', 'Placeholder text'],
+      ['clearButton', 'boolean', 'Shows a button that clears the value', 'true']
+    ],
+    events: [
+      [
+        'onChange',
+        'ComboBoxChangeEvent',
+        'Fires when the value changes; event.value is the item'
+      ],
+      [
+        'onFilterChange',
+        'ComboBoxFilterChangeEvent',
+        'Fires when the typed text changes; event.filter holds it'
+      ]
+    ],
+    related: ['DropDownList', 'AutoComplete']
+  },
+  {
+    name: 'AutoComplete',
+    summary:
+      'Text input that suggests matching items as the user types; the value is the text.',
+    props: [
+      ['data', 'any[]', 'Suggestions'],
+      ['value', 'string', 'Typed text'],
+      ['textField', 'string', 'Field of an object item used as its text'],
+      [
+        'suggest',
+        'boolean',
+        'Completes the typed text with the first match',
+        'false'
+      ],
+      ['placeholder', 'string', 'Placeholder text']
+    ],
+    events: [
+      [
+        'onChange',
+        'AutoCompleteChangeEvent',
+        'Fires when the text changes; event.value is the text'
+      ]
+    ],
+    related: ['ComboBox']
+  },
+  {
+    name: 'MultiSelect',
+    summary: 'Picks several items from a list, shown as removable tags.',
+    props: [
+      ['data', 'any[]', 'Items to choose from'],
+      ['value', 'any[]', 'Selected items'],
+      ['textField', 'string', 'Field of an object item shown as its text'],
+      ['dataItemKey', 'string', 'Field that identifies an item'],
+      [
+        'filterable',
+        'boolean',
+        'Filters the items as the user types; handle onFilterChange',
+        'false'
+      ],
+      ['autoClose', 'boolean', 'Closes the popup after each selection', 'true'],
+      [
+        'tags',
+        'TagData[]',
+        'Custom tags, e.g. one summary tag instead of one per item'
+      ],
+      ['placeholder', 'string', 'Placeholder text']
+    ],
+    events: [
+      [
+        'onChange',
+        'MultiSelectChangeEvent',
+        'Fires when the selection changes; event.value is the selected items'
+      ],
+      [
+        'onFilterChange',
+        'MultiSelectFilterChangeEvent',
+        'Fires when the typed text changes'
+      ]
+    ],
+    related: ['DropDownList', 'MultiSelectTree']
+  },
+  {
+    name: 'Form',
+    summary:
+      'Form state management: tracks values, touched and modified fields and validation, and renders its content through the render prop. ' +
+      'Fields are declared with Field inside a FormElement.',
+    props: [
+      ['initialValues', 'object', 'Initial values by field name'],
+      [
+        'onSubmit',
+        '(values: object, event?: SyntheticEvent) => void',
+        'Called with the values when a valid form is submitted'
+      ],
+      [
+        'render',
+        '(props: FormRenderProps) => ReactElement',
+        'Renders the form; props.allowSubmit, props.onSubmit and props.valueGetter are available'
+      ],
+      [
+        'validator',
+        'FormValidatorType',
+        'Validates the whole form, for rules spanning several fields'
+      ],
+      [
+        'ignoreModified',
+        'boolean',
+        'Allows submitting without changes',
+        'false'
+      ]
+    ],
+    events: [
+      [
+        'onSubmitClick',
+        'FormSubmitClickEvent',
+        'Fires on every submit attempt, valid or not'
+      ]
+    ],
+    examples: [
+      {
+        title: 'Form with validated fields',
+        code: [
+          "import { Form, Field, FormElement } from '@progress/kendo-react-form';",
+          "import { Input } from '@progress/kendo-react-inputs';",
+          '',
+          "const emailValidator = (value: string) => (/\\S+@\\S+\\.\\S+/.test(value) ? '' : 'Enter a valid email.');",
+          '',
+          '<Form',
+          '  initialValues={{ name: "", email: "" }}',
+          '  onSubmit={saveUser}',
+          '  render={(formRenderProps) => (',
+          '    <FormElement>',
+          '      <Field name="name" component={Input} label="Name" />',
+          '      <Field name="email" component={Input} label="Email" validator={emailValidator} />',
+          '      <Button type="submit" disabled={!formRenderProps.allowSubmit}>Save</Button>',
+          '    </FormElement>',
+          '  )}',
+          '/>'
+        ].join('\n')
+      }
+    ],
+    related: ['Field', 'FormElement', 'FieldWrapper']
+  },
+  {
+    name: 'Field',
+    summary:
+      'A form field: connects an editor component to a Form value by name, with validation.',
+    props: [
+      [
+        'name',
+        'string',
+        'Field name in the form values; dots address nested values'
+      ],
+      [
+        'component',
+        'ComponentType',
+        'Editor to render, e.g. Input, DropDownList or a custom field component'
+      ],
+      ['label', 'string', 'Label passed to the editor'],
+      [
+        'validator',
+        'FieldValidatorType | FieldValidatorType[]',
+        'Returns an error message, or an empty string when valid'
+      ],
+      ['data', 'any[]', 'Items passed to dropdown editors'],
+      ['type', 'string', 'HTML input type passed to the editor']
+    ],
+    events: [
+      [
+        'onChange',
+        '(event: { value: any }) => void',
+        'Fires when the editor changes the value'
+      ]
+    ],
+    related: ['Form', 'FieldWrapper', 'Error']
+  },
+  {
+    name: 'FormElement',
+    summary:
+      'The form element inside Form.render; lays out the fields and handles submit.',
+    props: [
+      ['horizontal', 'boolean', 'Places labels next to the editors', 'false'],
+      ['style', 'CSSProperties', 'Inline styles, e.g. a maxWidth']
+    ],
+    related: ['Form', 'Field']
+  },
+  {
+    name: 'FieldWrapper',
+    summary:
+      'Wraps a custom field with its Label, Hint and Error so they line up with built-in fields.',
+    related: ['Field', 'Label', 'Hint', 'Error']
+  },
+  {
+    name: 'Window',
+    summary:
+      'Movable, resizable window that can be minimized, maximized and made modal.',
+    props: [
+      ['title', 'ReactNode', 'Title bar content'],
+      ['initialWidth', 'number', 'Width in pixels when opened'],
+      ['initialHeight', 'number', 'Height in pixels when opened'],
+      ['modal', 'boolean', 'Blocks the page behind the window', 'false'],
+      ['resizable', 'boolean', 'Lets users resize the window', 'true'],
+      ['draggable', 'boolean', 'Lets users move the window', 'true'],
+      [
+        'stage',
+        '"DEFAULT" | "MINIMIZED" | "FULLSCREEN"',
+        'Controlled window state'
+      ]
+    ],
+    events: [
+      [
+        'onClose',
+        'WindowActionsEvent',
+        'Fires when the close button is clicked; unmount the window to close it'
+      ],
+      [
+        'onStageChange',
+        'WindowActionsEvent',
+        'Fires when the window is minimized, maximized or restored'
+      ],
+      ['onMove', 'WindowMoveEvent', 'Fires while the window is dragged'],
+      ['onResize', 'WindowMoveEvent', 'Fires while the window is resized']
+    ],
+    related: ['Dialog', 'WindowActionsBar']
+  },
+  {
+    name: 'Dialog',
+    summary:
+      'Modal dialog for confirmations and short forms, with an action bar for its buttons.',
+    props: [
+      ['title', 'ReactNode', 'Title bar content'],
+      ['width', 'number | string', 'Dialog width'],
+      ['height', 'number | string', 'Dialog height'],
+      [
+        'closeIcon',
+        'boolean',
+        'Shows the close button in the title bar',
+        'true'
+      ]
+    ],
+    events: [
+      [
+        'onClose',
+        'DialogCloseEvent',
+        'Fires when the close button is clicked or Esc is pressed; unmount the dialog to close it'
+      ]
+    ],
+    examples: [
+      {
+        title: 'Delete confirmation',
+        code: [
+          '{confirming && (',
+          '  <Dialog title="Delete user" onClose={() => setConfirming(false)}>',
+          '    <p>Delete {user.name}? This cannot be undone.</p>',
+          '    <DialogActionsBar>',
+          '      <Button onClick={() => setConfirming(false)}>Cancel</Button>',
+          '      <Button themeColor="error" onClick={deleteUser}>Delete</Button>',
+          '    </DialogActionsBar>',
+          '  </Dialog>',
+          ')}'
+        ].join('\n')
+      }
+    ],
+    related: ['DialogActionsBar', 'Window']
+  },
+  {
+    name: 'DialogActionsBar',
+    summary: 'Button bar at the bottom of a Dialog.',
+    props: [
+      [
+        'layout',
+        '"start" | "center" | "end" | "stretched"',
+        'Alignment of the buttons',
+        '"stretched"'
+      ]
+    ],
+    related: ['Dialog']
+  },
+  {
+    name: 'TabStrip',
+    summary: 'Tabs that switch between panels of content.',
+    props: [
+      ['selected', 'number', 'Index of the selected tab'],
+      [
+        'tabPosition',
+        '"top" | "bottom" | "left" | "right"',
+        'Where the tabs are shown',
+        '"top"'
+      ],
+      [
+        'keepTabsMounted',
+        'boolean',
+        'Keeps hidden tab content mounted, preserving its state',
+        'false'
+      ],
+      ['animation', 'boolean', 'Animates switching tabs', 'true']
+    ],
+    events: [
+      [
+        'onSelect',
+        'TabStripSelectEventArguments',
+        'Fires when a tab is clicked; event.selected is its index'
+      ]
+    ],
+    examples: [
+      {
+        title: 'Controlled tabs',
+        code: [
+          '<TabStrip selected={tab} onSelect={(event) => setTab(event.selected)}>',
+          '  <TabStripTab title="Profile">...</TabStripTab>',
+          '  <TabStripTab title="Security">...</TabStripTab>',
+          '</TabStrip>'
+        ].join('\n')
+      }
+    ],
+    related: ['TabStripTab', 'PanelBar']
+  },
+  {
+    name: 'TabStripTab',
+    summary: 'One tab of a TabStrip and its content.',
+    props: [
+      ['title', 'ReactNode', 'Tab text'],
+      ['disabled', 'boolean', 'Disables the tab', 'false']
+    ],
+    related: ['TabStrip']
+  },
+  {
+    name: 'PanelBar',
+    summary:
+      'Accordion of collapsible panels, for navigation or grouped content.',
+    props: [
+      [
+        'expandMode',
+        '"single" | "multiple"',
+        'Whether several panels can be open at once',
+        '"multiple"'
+      ]
+    ],
+    events: [
+      [
+        'onSelect',
+        'PanelBarSelectEventArguments',
+        'Fires when an item is clicked'
+      ]
+    ],
+    related: ['PanelBarItem', 'ExpansionPanel']
+  },
+  {
+    name: 'PanelBarItem',
+    summary: 'A panel of a PanelBar with its title and content.',
+    props: [
+      ['title', 'ReactNode', 'Header text'],
+      ['expanded', 'boolean', 'Whether the panel is open'],
+      ['disabled', 'boolean', 'Disables the panel', 'false']
+    ],
+    related: ['PanelBar']
+  },
+  {
+    name: 'Card',
+    summary:
+      'Content container with header, body, actions and images, for summaries and dashboards.',
+    props: [
+      [
+        'orientation',
+        '"vertical" | "horizontal"',
+        'Direction of the card sections',
+        '"vertical"'
+      ],
+      [
+        'type',
+        '"default" | "primary" | "info" | "success" | "warning" | "error" | "dark" | "light"',
+        'Color of the card',
+        '"default"'
+      ]
+    ],
+    examples: [
+      {
+        title: 'KPI card',
+        code: [
+          '<Card>',
+          '  <CardHeader>',
+          '    <CardTitle>Revenue</CardTitle>',
+          '  </CardHeader>',
+          '  <CardBody>$48,200</CardBody>',
+          '  <CardActions>',
+          '    <Button fillMode="flat">Details</Button>',
+          '  </CardActions>',
+          '</Card>'
+        ].join('\n')
+      }
+    ],
+    related: ['CardHeader', 'CardTitle', 'CardBody', 'CardActions']
+  },
+  {
+    name: 'Drawer',
+    summary:
+      'Side navigation panel that can overlay or push the content, or collapse to icons.',
+    props: [
+      ['expanded', 'boolean', 'Whether the drawer is open'],
+      [
+        'mode',
+        '"overlay" | "push"',
+        'Whether the drawer covers or pushes the content',
+        '"overlay"'
+      ],
+      ['mini', 'boolean', 'Shows only icons when collapsed', 'false'],
+      [
+        'items',
+        'DrawerItemProps[]',
+        'Navigation items with text, svgIcon and selected'
+      ],
+      ['position', '"start" | "end"', 'Side of the page', '"start"']
+    ],
+    events: [
+      [
+        'onSelect',
+        'DrawerSelectEvent',
+        'Fires when an item is clicked; event.itemIndex is its index'
+      ],
+      [
+        'onOverlayClick',
+        'React.MouseEvent',
+        'Fires when the overlay is clicked, to close the drawer'
+      ]
+    ],
+    related: ['DrawerContent', 'AppBar']
+  },
+  {
+    name: 'AppBar',
+    summary:
+      'Top or bottom application bar for the title, navigation and user actions.',
+    props: [
+      ['position', '"top" | "bottom"', 'Edge of the page', '"top"'],
+      [
+        'positionMode',
+        '"static" | "sticky" | "fixed"',
+        'How the bar scrolls with the page',
+        '"static"'
+      ],
+      [
+        'themeColor',
+        '"light" | "dark" | "primary" | "inherit"',
+        'Color of the bar',
+        '"light"'
+      ]
+    ],
+    related: ['AppBarSection', 'AppBarSpacer', 'Drawer']
+  },
+  {
+    name: 'StackLayout',
+    summary: 'Lays out its children in a row or column with a gap.',
+    props: [
+      [
+        'orientation',
+        '"horizontal" | "vertical"',
+        'Direction of the stack',
+        '"horizontal"'
+      ],
+      ['gap', 'number | string', 'Space between the children'],
+      [
+        'align',
+        'StackLayoutAlign',
+        'Alignment, e.g. { horizontal: "start", vertical: "middle" }'
+      ]
+    ],
+    related: ['GridLayout']
+  },
+  {
+    name: 'GridLayout',
+    summary: 'CSS grid layout with explicit rows and columns, for dashboards.',
+    props: [
+      [
+        'cols',
+        'GridLayoutColumnProps[]',
+        'Column widths, e.g. [{ width: "1fr" }, { width: "2fr" }]'
+      ],
+      ['rows', 'GridLayoutRowProps[]', 'Row heights'],
+      [
+        'gap',
+        '{ rows?: number | string; cols?: number | string }',
+        'Space between rows and columns'
+      ]
+    ],
+    related: ['GridLayoutItem', 'TileLayout', 'StackLayout']
+  },
+  {
+    name: 'GridLayoutItem',
+    summary: 'A cell of a GridLayout.',
+    props: [
+      ['row', 'number', 'Row index, starting at 1'],
+      ['col', 'number', 'Column index, starting at 1'],
+      ['rowSpan', 'number', 'Rows the item spans', '1'],
+      ['colSpan', 'number', 'Columns the item spans', '1']
+    ],
+    related: ['GridLayout']
+  },
+  {
+    name: 'TileLayout',
+    summary: 'Dashboard of tiles that users can drag to reorder and resize.',
+    props: [
+      ['columns', 'number', 'Number of columns'],
+      ['rowHeight', 'number', 'Height of a row in pixels'],
+      ['items', 'TileLayoutItem[]', 'Tiles with header and body'],
+      ['positions', 'TilePosition[]', 'Controlled positions of the tiles']
+    ],
+    events: [
+      [
+        'onReposition',
+        'TileLayoutRepositionEvent',
+        'Fires when a tile is moved or resized; event.value holds the positions'
+      ]
+    ],
+    related: ['GridLayout', 'Card']
+  },
+  {
+    name: 'Stepper',
+    summary:
+      'Shows the steps of a process such as a wizard and the current one.',
+    props: [
+      ['value', 'number', 'Index of the current step'],
+      ['items', 'StepProps[]', 'Steps with label, icon, optional and isValid'],
+      [
+        'orientation',
+        '"horizontal" | "vertical"',
+        'Direction of the steps',
+        '"horizontal"'
+      ],
+      ['linear', 'boolean', 'Only allows moving to the next step', 'false'],
+      ['mode', '"steps" | "labels"', 'Display mode', '"steps"']
+    ],
+    events: [
+      [
+        'onChange',
+        'StepperChangeEvent',
+        'Fires when a step is clicked; event.value is its index'
+      ]
+    ],
+    related: ['Form']
+  },
+  {
+    name: 'Menu',
+    summary: 'Horizontal or vertical menu with nested items.',
+    props: [
+      [
+        'items',
+        'MenuItemModel[]',
+        'Items with text, url, svgIcon and nested items'
+      ],
+      ['vertical', 'boolean', 'Renders the menu vertically', 'false']
+    ],
+    events: [
+      [
+        'onSelect',
+        'MenuSelectEvent',
+        'Fires when an item is clicked; event.item is the item'
+      ]
+    ],
+    related: ['MenuItem', 'ContextMenu']
+  },
+  {
+    name: 'Breadcrumb',
+    summary: 'Shows the location of the page in a hierarchy.',
+    props: [['data', 'BreadcrumbDataModel[]', 'Items with id and text']],
+    events: [
+      [
+        'onItemSelect',
+        'BreadcrumbLinkMouseEvent',
+        'Fires when an item is clicked'
+      ]
+    ]
+  },
+  {
+    name: 'Chart',
+    summary:
+      'Charts composed from child configuration components: series, axes, title, legend and tooltip. ' +
+      'Supports line, column, bar, area, pie, donut, scatter and many more series types.',
+    props: [
+      ['transitions', 'boolean', 'Animates the chart on render', 'true'],
+      ['pannable', 'boolean | DragAction', 'Lets users pan the chart', 'false'],
+      [
+        'zoomable',
+        'boolean | DragAction',
+        'Lets users zoom the chart',
+        'false'
+      ],
+      ['style', 'CSSProperties', 'Inline styles, e.g. a height']
+    ],
+    events: [
+      [
+        'onSeriesClick',
+        'SeriesClickEvent',
+        'Fires when a series point is clicked; event.dataItem is the point'
+      ],
+      [
+        'onLegendItemClick',
+        'LegendItemClickEvent',
+        'Fires when a legend item is clicked'
+      ]
+    ],
+    examples: [
+      {
+        title: 'Column chart with categories',
+        code: [
+          "import { Chart, ChartCategoryAxis, ChartCategoryAxisItem, ChartLegend, ChartSeries, ChartSeriesItem, ChartTitle } from '@progress/kendo-react-charts';",
+          '',
+          '<Chart>',
+          '  <ChartTitle text="Monthly sales" />',
+          '  <ChartLegend position="bottom" />',
+          '  <ChartCategoryAxis>',
+          '    <ChartCategoryAxisItem categories={months} />',
+          '  </ChartCategoryAxis>',
+          '  <ChartSeries>',
+          '    <ChartSeriesItem type="column" data={sales} name="Sales" />',
+          '  </ChartSeries>',
+          '</Chart>'
+        ].join('\n')
+      }
+    ],
+    related: [
+      'ChartSeries',
+      'ChartSeriesItem',
+      'ChartCategoryAxis',
+      'ChartLegend',
+      'ChartTitle'
+    ]
+  },
+  {
+    name: 'ChartSeriesItem',
+    summary: 'One data series of a Chart.',
+    props: [
+      [
+        'type',
+        '"line" | "column" | "bar" | "area" | "pie" | "donut" | "scatter" | "bubble" | "radarLine" | ...',
+        'Series type',
+        '"column"'
+      ],
+      ['data', 'any[]', 'Values, or records read with field and categoryField'],
+      ['field', 'string', 'Field of a record holding the value'],
+      ['categoryField', 'string', 'Field of a record holding the category'],
+      ['name', 'string', 'Series name shown in the legend'],
+      ['color', 'string', 'Series color'],
+      ['stack', 'boolean | StackType', 'Stacks the series on the previous one'],
+      ['labels', 'SeriesLabels', 'Value labels, e.g. { visible: true }']
+    ],
+    related: ['Chart', 'ChartSeries']
+  },
+  {
+    name: 'ChartLegend',
+    summary: 'Legend of a Chart.',
+    props: [
+      [
+        'position',
+        '"top" | "bottom" | "left" | "right" | "custom"',
+        'Where the legend is placed',
+        '"right"'
+      ],
+      ['visible', 'boolean', 'Shows the legend', 'true']
+    ],
+    related: ['Chart']
+  },
+  {
+    name: 'ChartTitle',
+    summary: 'Title of a Chart.',
+    props: [['text', 'string', 'Title text']],
+    related: ['Chart']
+  },
+  {
+    name: 'ChartCategoryAxisItem',
+    summary: 'Category axis of a Chart, e.g. months or product names.',
+    props: [
+      ['categories', 'any[]', 'Category labels'],
+      ['title', 'AxisTitle', 'Axis title, e.g. { text: "Month" }']
+    ],
+    related: ['Chart', 'ChartCategoryAxis']
+  },
+  {
+    name: 'Scheduler',
+    summary:
+      'Calendar of events with day, week, month, agenda and timeline views, recurrence and editing.',
+    props: [
+      [
+        'data',
+        'any[]',
+        'Events; mapped to the scheduler fields with modelFields'
+      ],
+      [
+        'modelFields',
+        'SchedulerModelFields',
+        'Maps record fields, e.g. { id: "taskId", start: "from", end: "to", title: "name" }'
+      ],
+      ['defaultDate', 'Date', 'Date shown initially'],
+      ['date', 'Date', 'Controlled date'],
+      ['defaultView', 'string', 'Name of the initial view, e.g. "week"'],
+      ['view', 'string', 'Controlled view name'],
+      [
+        'editable',
+        'boolean | EditableProp',
+        'Enables adding, editing, removing and dragging events',
+        'false'
+      ],
+      ['timezone', 'string', 'IANA timezone the events are shown in'],
+      [
+        'resources',
+        'SchedulerResource[]',
+        'Resources such as rooms or people, to color and group events'
+      ],
+      [
+        'group',
+        'SchedulerGroup',
+        'Groups the view by resources, e.g. { resources: ["Rooms"] }'
+      ]
+    ],
+    events: [
+      [
+        'onDataChange',
+        'SchedulerDataChangeEvent',
+        'Fires when events are created, updated or deleted; event.created, event.updated, event.deleted'
+      ],
+      [
+        'onDateChange',
+        'SchedulerDateChangeEvent',
+        'Fires when the user navigates to another date'
+      ],
+      [
+        'onViewChange',
+        'SchedulerViewChangeEvent',
+        'Fires when the user switches views'
+      ]
+    ],
+    examples: [
+      {
+        title: 'Editable week and month views',
+        code: [
+          "import { Scheduler, WeekView, MonthView } from '@progress/kendo-react-scheduler';",
+          '',
+          '<Scheduler data={events} defaultDate={new Date()} defaultView="week" editable onDataChange={handleDataChange}>',
+          '  <WeekView />',
+          '  <MonthView />',
+          '</Scheduler>'
+        ].join('\n')
+      }
+    ],
+    related: ['DayView', 'WeekView', 'MonthView', 'AgendaView', 'TimelineView']
+  },
+  {
+    name: 'Upload',
+    summary:
+      'File upload with drag and drop, progress, restrictions and automatic or batch upload.',
+    props: [
+      [
+        'saveUrl',
+        'string | ((files, options, onProgress) => Promise)',
+        'Endpoint or function that uploads the files'
+      ],
+      [
+        'removeUrl',
+        'string | ((files, options) => Promise)',
+        'Endpoint or function that removes uploaded files'
+      ],
+      [
+        'autoUpload',
+        'boolean',
+        'Uploads as soon as files are selected',
+        'true'
+      ],
+      [
+        'batch',
+        'boolean',
+        'Uploads all selected files in one request',
+        'false'
+      ],
+      ['multiple', 'boolean', 'Allows selecting several files', 'true'],
+      [
+        'restrictions',
+        'UploadFileRestrictions',
+        'allowedExtensions, minFileSize and maxFileSize'
+      ],
+      ['defaultFiles', 'UploadFileInfo[]', 'Files listed initially'],
+      [
+        'withCredentials',
+        'boolean',
+        'Sends cookies with the upload requests',
+        'true'
+      ]
+    ],
+    events: [
+      ['onAdd', 'UploadOnAddEvent', 'Fires when files are selected'],
+      ['onRemove', 'UploadOnRemoveEvent', 'Fires when a file is removed'],
+      [
+        'onStatusChange',
+        'UploadOnStatusChangeEvent',
+        'Fires when a file upload succeeds or fails'
+      ],
+      [
+        'onProgress',
+        'UploadOnProgressEvent',
+        'Fires as upload progress is reported'
+      ],
+      [
+        'onBeforeUpload',
+        'UploadOnBeforeUploadEvent',
+        'Fires before the request, to add headers or data'
+      ]
+    ]
+  },
+  {
+    name: 'TreeView',
+    summary:
+      'Hierarchical list with expanding, selection, checkboxes and drag and drop.',
+    props: [
+      ['data', 'any[]', 'Root items; children are read from childrenField'],
+      ['textField', 'string', 'Field shown as the item text', '"text"'],
+      ['childrenField', 'string', 'Field holding the child items', '"items"'],
+      ['expandField', 'string', 'Field that marks an item as expanded'],
+      ['selectField', 'string', 'Field that marks an item as selected'],
+      ['checkField', 'string', 'Field that marks an item as checked'],
+      ['checkboxes', 'boolean', 'Shows checkboxes', 'false'],
+      ['expandIcons', 'boolean', 'Shows expand arrows', 'false'],
+      ['draggable', 'boolean', 'Lets users drag items', 'false']
+    ],
+    events: [
+      [
+        'onExpandChange',
+        'TreeViewExpandChangeEvent',
+        'Fires when an item is expanded or collapsed; event.item is the item'
+      ],
+      [
+        'onItemClick',
+        'TreeViewItemClickEvent',
+        'Fires when an item is clicked'
+      ],
+      [
+        'onCheckChange',
+        'TreeViewCheckChangeEvent',
+        'Fires when a checkbox is toggled'
+      ]
+    ],
+    related: ['TreeList', 'DropDownTree']
+  },
+  {
+    name: 'TreeList',
+    summary:
+      'Grid for hierarchical data, with expandable rows, sorting, filtering and editing.',
+    props: [
+      ['data', 'any[]', 'Root records; children are read from subItemsField'],
+      [
+        'columns',
+        'TreeListColumnProps[]',
+        'Columns with field, title and expandable'
+      ],
+      ['subItemsField', 'string', 'Field holding the child records'],
+      ['expandField', 'string', 'Field that marks a record as expanded']
+    ],
+    events: [
+      [
+        'onExpandChange',
+        'TreeListExpandChangeEvent',
+        'Fires when a row is expanded or collapsed'
+      ]
+    ],
+    related: ['Grid', 'TreeView']
+  },
+  {
+    name: 'ListView',
+    summary:
+      'Renders records with a custom item template, with optional header, footer and paging.',
+    props: [
+      ['data', 'any[]', 'Records to render'],
+      [
+        'item',
+        'ComponentType<ListViewItemProps>',
+        'Component rendering one record; props.dataItem is the record'
+      ],
+      ['header', 'ComponentType', 'Component rendered above the items'],
+      ['footer', 'ComponentType', 'Component rendered below the items']
+    ],
+    related: ['ListViewHeader', 'ListViewFooter', 'Pager']
+  },
+  {
+    name: 'Pager',
+    summary: 'Standalone pager for paging a ListView or any custom list.',
+    props: [
+      ['skip', 'number', 'Number of records skipped'],
+      ['take', 'number', 'Records per page'],
+      ['total', 'number', 'Total number of records'],
+      ['buttonCount', 'number', 'Number of page buttons', '10'],
+      ['pageSizes', 'number[]', 'Page sizes the user can choose'],
+      ['info', 'boolean', 'Shows the "1 - 10 of 42 items" text', 'true'],
+      [
+        'type',
+        '"numeric" | "input"',
+        'Page buttons or a page number input',
+        '"numeric"'
+      ]
+    ],
+    events: [
+      [
+        'onPageChange',
+        'PageChangeEvent',
+        'Fires when the page changes; event.skip and event.take'
+      ]
+    ],
+    related: ['ListView', 'Grid']
+  },
+  {
+    name: 'Loader',
+    summary: 'Animated indicator for loading content.',
+    props: [
+      [
+        'type',
+        '"pulsing" | "infinite-spinner" | "converging-spinner"',
+        'Animation',
+        '"pulsing"'
+      ],
+      ['size', '"small" | "medium" | "large"', 'Size', '"medium"'],
+      ['themeColor', 'string', 'Color', '"primary"']
+    ],
+    related: ['Skeleton', 'ProgressBar']
+  },
+  {
+    name: 'Notification',
+    summary:
+      'Toast message for success, error and status feedback, shown inside a NotificationGroup.',
+    props: [
+      [
+        'type',
+        '{ style: "none" | "success" | "error" | "warning" | "info"; icon?: boolean }',
+        'Color and icon',
+        '{ style: "none" }'
+      ],
+      ['closable', 'boolean', 'Shows a close button', 'false']
+    ],
+    events: [
+      ['onClose', 'NotificationEvent', 'Fires when the close button is clicked']
+    ],
+    examples: [
+      {
+        title: 'Success toast',
+        code: [
+          '<NotificationGroup style={{ right: 16, bottom: 16, alignItems: "flex-end" }}>',
+          '  {saved && (',
+          '    <Notification type={{ style: "success", icon: true }} closable onClose={() => setSaved(false)}>',
+          '      User saved.',
+          '    </Notification>',
+          '  )}',
+          '</NotificationGroup>'
+        ].join('\n')
+      }
+    ],
+    related: ['NotificationGroup']
+  },
+  {
+    name: 'ProgressBar',
+    summary: 'Shows the progress of a task as a bar.',
+    props: [
+      [
+        'value',
+        'number | null',
+        'Current value; null shows an indeterminate bar'
+      ],
+      ['min', 'number', 'Smallest value', '0'],
+      ['max', 'number', 'Largest value', '100'],
+      ['labelVisible', 'boolean', 'Shows the value as text', 'true']
+    ],
+    related: ['ChunkProgressBar', 'Loader']
+  },
+  {
+    name: 'Badge',
+    summary:
+      'Small status or count indicator, usually placed on another element in a BadgeContainer.',
+    props: [
+      ['themeColor', 'string', 'Color', '"primary"'],
+      [
+        'position',
+        '"edge" | "outside" | "inside"',
+        'Position relative to the container',
+        '"edge"'
+      ],
+      [
+        'align',
+        '{ vertical: "top" | "bottom"; horizontal: "start" | "end" }',
+        'Corner of the container'
+      ]
+    ],
+    related: ['BadgeContainer']
+  },
+  {
+    name: 'Avatar',
+    summary: 'Image, initials or icon representing a person or entity.',
+    props: [
+      ['type', '"image" | "text" | "icon"', 'Content type', '"text"'],
+      [
+        'rounded',
+        '"small" | "medium" | "large" | "full"',
+        'Border radius',
+        '"full"'
+      ],
+      ['size', '"small" | "medium" | "large"', 'Size', '"medium"']
+    ]
+  },
+  {
+    name: 'Tooltip',
+    summary: 'Shows the title of the elements inside it as a styled tooltip.',
+    props: [
+      [
+        'anchorElement',
+        '"pointer" | "target"',
+        'Positions the tooltip at the pointer or the element',
+        '"pointer"'
+      ],
+      [
+        'position',
+        '"top" | "bottom" | "left" | "right" | "auto"',
+        'Side of the tooltip',
+        '"auto"'
+      ],
+      ['openDelay', 'number', 'Delay before showing, in milliseconds', '400'],
+      [
+        'parentTitle',
+        'boolean',
+        'Also reads the title of parent elements',
+        'false'
+      ]
+    ],
+    related: ['Popover']
+  },
+  {
+    name: 'Editor',
+    summary: 'Rich text editor with a configurable toolbar.',
+    props: [
+      [
+        'tools',
+        'any[][]',
+        'Toolbar tools in groups, e.g. [[Bold, Italic], [Undo, Redo]] from EditorTools'
+      ],
+      ['defaultContent', 'string', 'Initial HTML content'],
+      ['value', 'string | Node', 'Controlled content'],
+      [
+        'contentStyle',
+        'CSSProperties',
+        'Styles of the editing area, e.g. a height'
+      ]
+    ],
+    events: [
+      [
+        'onChange',
+        'EditorChangeEvent',
+        'Fires when the content changes; event.html is the HTML'
+      ]
+    ]
+  },
+  {
+    name: 'ArcGauge',
+    summary: 'Arc-shaped gauge for a single value such as a percentage or KPI.',
+    props: [
+      ['value', 'number', 'Current value'],
+      ['colors', 'ColorRange[]', 'Colors by value range, e.g. red below 30'],
+      ['scale', 'ArcScale', 'min, max and scale labels']
+    ],
+    related: ['RadialGauge', 'LinearGauge']
+  },
+  {
+    name: 'Sparkline',
+    summary: 'Small, axis-less chart for trends next to text or in grid cells.',
+    props: [
+      ['data', 'any[]', 'Values'],
+      [
+        'type',
+        '"line" | "bar" | "column" | "area" | "pie" | "bullet"',
+        'Chart type',
+        '"line"'
+      ]
+    ],
+    related: ['Chart']
+  }
+];
@@ -1,8 +1,328 @@
+import { execSync } from "node:child_process";
+import { readFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
 import z from "zod";
+import { LoggingLevelSchema } from "@modelcontextprotocol/sdk/types.js";
 
-const envSchema = z.object({
+/**
+ * Reads `--transport <mode>`, `--transport=<mode>` or the `--http` shorthand
+ * from the command line so the transport can be picked without touching env.
+ */
+function readTransportFlag(argv: string[]): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--http") return "http";
+    if (arg === "--stdio") return "stdio";
+    if (arg.startsWith("--transport=")) return arg.slice("--transport=".length);
+    if (arg === "--transport") return argv[i + 1];
+  }
+  return undefined;
+}
+
+/** Reads `--config <file>` or `--config=<file>` from the command line. */
+function readConfigFlag(argv: string[]): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.startsWith("--config=")) return arg.slice("--config=".length);
+    if (arg === "--config") return argv[i + 1];
+  }
+  return undefined;
+}
+
+/**
+ * Parses `MCP_AUTH_TOKENS` in the form `clientA:tokenA,clientB:tokenB` into
+ * one entry per client. Each team member gets their own bearer token so the
+ * upstream SECRET never leaves the shared server.
+ */
+const authTokensSchema = z
+  .string()
+  .transform((value, ctx) => {
+    const entries = value
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => {
+        const separator = entry.indexOf(":");
+        return separator === -1
+          ? { clientId: "", token: "" }
+          : {
+              clientId: entry.slice(0, separator).trim(),
+              token: entry.slice(separator + 1).trim(),
+            };
+      });
+
+    if (entries.some((entry) => !entry.clientId || !entry.token)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "MCP_AUTH_TOKENS entries must look like <clientId>:<token>",
+      });
+      return z.NEVER;
+    }
+
+    return entries;
+  });
+
+const serverUrlSchema = z
+  .string()
+  .url("must be an absolute URL such as https://kendoai.example.com")
+  .refine(
+    (value) =>
+      !URL.canParse(value) ||
+      ["http:", "https:"].includes(new URL(value).protocol),
+    "must be an http or https URL",
+  )
+  .transform((value) => value.replace(/\/+$/, ""));
+
+const envObject = z.object({
   SECRET: z.string().min(1),
-  SERVER_URL: z.string().min(1),
+  SECRET_TRANSPORT: z.enum(["header", "body", "both"]).default("header"),
+  SERVER_URL: serverUrlSchema,
+  MCP_TRANSPORT: z.enum(["stdio", "http"]).default("stdio"),
+  MCP_HTTP_HOST: z.string().min(1).default("127.0.0.1"),
+  MCP_HTTP_PORT: z.coerce.number().int().min(0).max(65535).default(3333),
+  MCP_HTTP_IDLE_TIMEOUT_MS: z.coerce.number().int().min(0).default(1_800_000),
+  MCP_AUTH_TOKENS: authTokensSchema.optional(),
+  PLANNER_TIMEOUT_MS: z.coerce.number().int().positive().default(180_000),
+  STRUCTURE_TIMEOUT_MS: z.coerce.number().int().positive().default(300_000),
+  MERGER_TIMEOUT_MS: z.coerce.number().int().positive().default(840_000),
+  AGENT_MAX_RETRIES: z.coerce.number().int().min(0).max(10).default(2),
+  AGENT_RETRY_BASE_DELAY_MS: z.coerce.number().int().min(0).default(1_000),
+  OUTPUT_BASE_DIR: z.string().min(1).optional(),
+  KENDOAI_DATA_DIR: z
+    .string()
+    .min(1)
+    .default(path.join(os.homedir(), ".kendoai-mcp")),
+  CACHE_TTL_MS: z.coerce.number().int().min(0).default(86_400_000),
+  CACHE_MAX_BYTES: z.coerce.number().int().min(0).default(52_428_800),
+  SESSION_TTL_MS: z.coerce.number().int().min(0).default(604_800_000),
+  SESSION_MAX_COUNT: z.coerce.number().int().min(0).default(1_000),
+  LOG_LEVEL: LoggingLevelSchema.default("info"),
+  LOG_FILE: z.string().min(1).optional(),
+  TRACE_RUNS: z
+    .enum(["true", "false", "1", "0"])
+    .default("false")
+    .transform((value) => value === "true" || value === "1"),
+});
+
+const envSchema = envObject.superRefine((value, ctx) => {
+  if (value.MCP_TRANSPORT === "http" && !value.MCP_AUTH_TOKENS?.length) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["MCP_AUTH_TOKENS"],
+      message: "MCP_AUTH_TOKENS is required when MCP_TRANSPORT is http",
+    });
+  }
 });
 
-export const env = envSchema.parse(process.env);
+/** Settings that are only read while loading, not kept in `env`. */
+const SECRET_SOURCES = ["SECRET_FILE", "SECRET_COMMAND"] as const;
+
+const CONFIG_KEYS = new Set<string>([
+  ...Object.keys(envObject.shape),
+  ...SECRET_SOURCES,
+]);
+
+export const DEFAULT_CONFIG_FILE = path.join(
+  os.homedir(),
+  ".kendoai-mcp",
+  "config.json",
+);
+
+export class ConfigError extends Error {
+  constructor(
+    readonly problems: string[],
+    /** Where settings were read from besides the environment. */
+    readonly configFile: string,
+  ) {
+    super(`Invalid configuration: ${problems.join("; ")}`);
+    this.name = "ConfigError";
+  }
+}
+
+/**
+ * Reads the JSON config file, keyed by the environment variable names.
+ * A missing default file is fine; a missing file named by KENDOAI_CONFIG or
+ * `--config` is an error, and so are unknown keys, which are usually typos.
+ */
+function readConfigFile(
+  file: string,
+  explicit: boolean,
+): Record<string, string> {
+  let text: string;
+  try {
+    text = readFileSync(file, "utf8");
+  } catch (error) {
+    if (!explicit && (error as NodeJS.ErrnoException).code === "ENOENT") {
+      return {};
+    }
+    throw new ConfigError(
+      [`cannot read the config file: ${(error as Error).message}`],
+      file,
+    );
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new ConfigError(
+      [`the config file is not valid JSON: ${(error as Error).message}`],
+      file,
+    );
+  }
+  if (!json || typeof json !== "object" || Array.isArray(json)) {
+    throw new ConfigError(["the config file must hold a JSON object"], file);
+  }
+
+  const problems: string[] = [];
+  const settings: Record<string, string> = {};
+  for (const [key, value] of Object.entries(json)) {
+    if (!CONFIG_KEYS.has(key)) {
+      problems.push(`${key}: unknown setting in the config file`);
+    } else if (["string", "number", "boolean"].includes(typeof value)) {
+      settings[key] = String(value);
+    } else {
+      problems.push(`${key}: must be a string, number or boolean`);
+    }
+  }
+  if (problems.length > 0) throw new ConfigError(problems, file);
+  return settings;
+}
+
+/**
+ * Finds the upstream secret: SECRET itself, else the trimmed contents of
+ * SECRET_FILE, else the trimmed output of SECRET_COMMAND (e.g. a keychain
+ * or password manager lookup). Returns where it came from for diagnostics.
+ */
+function resolveSecret(settings: Record<string, string | undefined>) {
+  if (settings.SECRET) return { secret: settings.SECRET, source: "SECRET" };
+
+  if (settings.SECRET_FILE) {
+    let secret: string;
+    try {
+      secret = readFileSync(settings.SECRET_FILE, "utf8").trim();
+    } catch (error) {
+      return {
+        problem: `SECRET_FILE: cannot read ${settings.SECRET_FILE}: ${(error as Error).message}`,
+      };
+    }
+    return secret
+      ? { secret, source: `SECRET_FILE (${settings.SECRET_FILE})` }
+      : { problem: `SECRET_FILE: ${settings.SECRET_FILE} is empty` };
+  }
+
+  if (settings.SECRET_COMMAND) {
+    let secret: string;
+    try {
+      secret = execSync(settings.SECRET_COMMAND, {
+        encoding: "utf8",
+        timeout: 10_000,
+        stdio: ["ignore", "pipe", "pipe"],
+      }).trim();
+    } catch (error) {
+      const stderr = String(
+        (error as { stderr?: unknown }).stderr ?? "",
+      ).trim();
+      return {
+        problem: `SECRET_COMMAND failed: ${stderr || (error as Error).message}`,
+      };
+    }
+    return secret
+      ? { secret, source: "SECRET_COMMAND" }
+      : { problem: "SECRET_COMMAND printed nothing" };
+  }
+
+  return {
+    problem:
+      "SECRET: not set. Set SECRET, SECRET_FILE (a file holding the secret) or SECRET_COMMAND (a command printing it)",
+  };
+}
+
+/**
+ * Loads the configuration: the config file, overridden by environment
+ * variables, overridden by command-line flags. Throws a ConfigError
+ * listing every problem at once.
+ */
+export function loadConfig(
+  processEnv: NodeJS.ProcessEnv = process.env,
+  argv: string[] = process.argv.slice(2),
+) {
+  const explicitFile = readConfigFlag(argv) ?? processEnv.KENDOAI_CONFIG;
+  const configFile = path.resolve(explicitFile ?? DEFAULT_CONFIG_FILE);
+
+  const settings: Record<string, string | undefined> = {
+    ...readConfigFile(configFile, explicitFile !== undefined),
+    ...Object.fromEntries(
+      Object.entries(processEnv).filter(
+        ([key, value]) => CONFIG_KEYS.has(key) && value,
+      ),
+    ),
+  };
+  settings.MCP_TRANSPORT = readTransportFlag(argv) ?? settings.MCP_TRANSPORT;
+
+  const { secret, source, problem } = resolveSecret(settings);
+  const parsed = envSchema.safeParse({ ...settings, SECRET: secret });
+  const problems = [
+    ...(problem ? [problem] : []),
+    ...(parsed.success
+      ? []
+      : parsed.error.issues
+          .filter((issue) => !(problem && issue.path[0] === "SECRET"))
+          .map((issue) => `${issue.path.join(".")}: ${issue.message}`)),
+  ];
+  if (!parsed.success || problems.length > 0) {
+    throw new ConfigError(problems, configFile);
+  }
+
+  return {
+    env: parsed.data,
+    sources: { configFile, secret: source! },
+  };
+}
+
+/** The startup message for an invalid configuration. */
+export function formatConfigError(error: ConfigError) {
+  return [
+    "KendoAI MCP: the configuration is invalid, so the server cannot start.",
+    "",
+    ...error.problems.map((problem) => `  - ${problem}`),
+    "",
+    `Settings are read from ${error.configFile} (or the file named by KENDOAI_CONFIG or --config),`,
+    "then from environment variables, which take precedence. See the Configuration section of the README.",
+    "",
+  ].join("\n");
+}
+
+function loadOrExit() {
+  try {
+    return loadConfig();
+  } catch (error) {
+    if (!(error instanceof ConfigError)) throw error;
+    // stderr only: stdout carries the stdio MCP stream.
+    process.stderr.write(formatConfigError(error));
+    process.exit(1);
+  }
+}
+
+const loaded = loadOrExit();
+
+export const env = loaded.env;
+
+/** Where the config file and the secret were read from, for the startup log. */
+export const configSources = loaded.sources;
+
+/**
+ * Replaces the upstream secret and the client bearer tokens in `text` with
+ * `[REDACTED]`, for anything written to logs, traces or error messages.
+ */
+export function redact(text: string) {
+  let redacted = text;
+  for (const secret of [
+    env.SECRET,
+    ...(env.MCP_AUTH_TOKENS ?? []).map((entry) => entry.token),
+  ]) {
+    redacted = redacted.split(secret).join("[REDACTED]");
+  }
+  return redacted;
+}
@@ -0,0 +1,282 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { redact } from './env.js';
+import type { SessionError } from './sessions.js';
+import type { ProfileError } from './profile.js';
+import type { DataModelError } from './dataModel.js';
+
+/**
+ * How a call to a KendoAI agent endpoint failed:
+ * - `network`    the request never got an HTTP response
+ * - `timeout`    the endpoint did not answer within its configured timeout
+ * - `cancelled`  the MCP client cancelled the tool call
+ * - `auth`       401/403, the SECRET was rejected
+ * - `rate_limit` 429, too many requests
+ * - `server`     5xx from the service or a gateway in front of it
+ * - `client`     other 4xx, or a request payload that failed validation
+ * - `malformed`  a response that is not JSON or does not match the schema
+ * - `rejected`   a well-formed response with `success: false`
+ */
+export type AgentErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'cancelled'
+  | 'auth'
+  | 'rate_limit'
+  | 'server'
+  | 'client'
+  | 'malformed'
+  | 'rejected';
+
+export class AgentError extends Error {
+  readonly kind: AgentErrorKind;
+  readonly agent: string;
+  readonly status?: number;
+  readonly retryAfterSeconds?: number;
+  readonly details?: string;
+
+  constructor(
+    kind: AgentErrorKind,
+    agent: string,
+    message: string,
+    options: {
+      status?: number;
+      retryAfterSeconds?: number;
+      details?: string;
+      cause?: unknown;
+    } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'AgentError';
+    this.kind = kind;
+    this.agent = agent;
+    this.status = options.status;
+    this.retryAfterSeconds = options.retryAfterSeconds;
+    this.details = options.details;
+  }
+
+  static fromStatus(
+    agent: string,
+    response: Response,
+    message?: string,
+    details?: string
+  ) {
+    const { status } = response;
+    const kind: AgentErrorKind =
+      status === 401 || status === 403
+        ? 'auth'
+        : status === 429
+          ? 'rate_limit'
+          : status >= 500
+            ? 'server'
+            : 'client';
+    const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+
+    return new AgentError(
+      kind,
+      agent,
+      message || `HTTP ${status} ${response.statusText}`.trim(),
+      {
+        status,
+        details,
+        retryAfterSeconds: kind === 'rate_limit' ? retryAfter : undefined
+      }
+    );
+  }
+}
+
+/**
+ * Seconds to wait from a Retry-After header, given either as delay seconds
+ * or as an HTTP date. Undefined when the header is absent or unparsable.
+ */
+function parseRetryAfter(value: string | null) {
+  if (value === null) return undefined;
+  if (/^\s*\d+\s*$/.test(value)) return Number(value);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date)
+    ? undefined
+    : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+const HEADINGS: Record<AgentErrorKind, string> = {
+  network: '⚠️ {tool} Network Error',
+  timeout: '⌛ {tool} Timed Out',
+  cancelled: '🛑 {tool} Cancelled',
+  auth: '🔒 {tool} Authorization Error',
+  rate_limit: '⏳ {tool} Rate Limited',
+  server: '🔥 {tool} Upstream Server Error',
+  client: '❌ {tool} Request Rejected',
+  malformed: '🧩 {tool} Malformed Response',
+  rejected: '❌ {tool} API Error'
+};
+
+const GUIDANCE: Record<AgentErrorKind, string[]> = {
+  network: [
+    '1. **Server unavailable** - The KendoAI service endpoint may be down',
+    '2. **Network issues** - Check the connection between this server and SERVER_URL',
+    '3. **Configuration error** - Verify SERVER_URL points at the KendoAI service'
+  ],
+  timeout: [
+    '1. **Retry** - Generation for large pages can be slow; the service may have been busy',
+    '2. **Simplify the request** - Smaller pages generate faster',
+    '3. **Raise the limit** - Increase PLANNER_TIMEOUT_MS, STRUCTURE_TIMEOUT_MS or MERGER_TIMEOUT_MS'
+  ],
+  cancelled: [
+    '1. **No action needed** - The request was cancelled and the upstream call was aborted'
+  ],
+  auth: [
+    '1. **Check SECRET** - The KendoAI service rejected the configured API secret (from SECRET, SECRET_FILE or SECRET_COMMAND)',
+    '2. **Check SECRET_TRANSPORT** - The service may expect the secret in the request body rather than the Authorization header',
+    '3. **Rotate credentials** - The secret may have expired or been revoked',
+    '4. **Do not retry** - Repeating the call will fail until the configuration is fixed'
+  ],
+  rate_limit: [
+    '1. **Wait before retrying** - The KendoAI service is throttling requests',
+    '2. **Avoid parallel runs** - Run one generation at a time'
+  ],
+  server: [
+    '1. **Retry later** - The KendoAI service failed while handling the request',
+    '2. **Contact administrator** - Report the status code if the issue persists'
+  ],
+  client: [
+    '1. **Check the inputs** - The KendoAI service refused the request payload'
+  ],
+  malformed: [
+    '1. **Retry** - The service may have returned a partial or error page',
+    '2. **Check versions** - The KendoAI service API may have changed; update this MCP server',
+    '3. **Check SERVER_URL** - It may point at a proxy or a different service'
+  ],
+  rejected: []
+};
+
+/**
+ * Turns an error thrown while calling an agent into an MCP tool error result.
+ * `hints` are tool-specific troubleshooting steps shown for input-related
+ * failures (rejected or client errors).
+ */
+export function agentErrorResult(
+  tool: string,
+  error: unknown,
+  hints: string[] = []
+): CallToolResult {
+  const agentError =
+    error instanceof AgentError
+      ? error
+      : new AgentError(
+          'network',
+          'unknown',
+          error instanceof Error ? error.message : 'Unknown network error'
+        );
+
+  const inputRelated =
+    agentError.kind === 'rejected' || agentError.kind === 'client';
+  const steps = inputRelated
+    ? [...GUIDANCE[agentError.kind], ...hints].map((step, index) =>
+        step.replace(/^\d+\./, `${index + 1}.`)
+      )
+    : GUIDANCE[agentError.kind];
+
+  const lines = [
+    `## ${HEADINGS[agentError.kind].replace('{tool}', tool)}`,
+    '',
+    '**Error Details:**',
+    agentError.message
+  ];
+
+  if (agentError.details) {
+    lines.push('', `**Details:** ${agentError.details}`);
+  }
+  if (agentError.status !== undefined) {
+    lines.push('', `**HTTP Status:** ${agentError.status}`);
+  }
+  if (agentError.retryAfterSeconds !== undefined) {
+    lines.push('', `**Retry After:** ${agentError.retryAfterSeconds}s`);
+  }
+  if (steps.length > 0) {
+    lines.push('', '**Troubleshooting Steps:**', ...steps);
+  }
+  lines.push(
+    '',
+    `**Error Class:** \`${agentError.kind}\``,
+    '',
+    `**Timestamp:** ${new Date().toISOString()}`
+  );
+
+  return {
+    isError: true,
+    content: [{ type: 'text', text: redact(lines.join('\n')) }]
+  };
+}
+
+/**
+ * Tool error result for a `sessionId` that does not resolve to a session of
+ * the calling client, or a session missing the artifact the tool needs.
+ */
+export function sessionErrorResult(
+  tool: string,
+  error: SessionError
+): CallToolResult {
+  return {
+    isError: true,
+    content: [
+      {
+        type: 'text',
+        text: [
+          `## 🗂️ ${tool} Session Error`,
+          '',
+          error.message,
+          '',
+          '**Next Steps:**',
+          '1. List the `kendoai://sessions/...` resources to find the right session ID',
+          '2. Or pass the artifact (plan or actStructure) directly instead of a sessionId'
+        ].join('\n')
+      }
+    ]
+  };
+}
+
+export function profileErrorResult(
+  tool: string,
+  error: ProfileError
+): CallToolResult {
+  return {
+    isError: true,
+    content: [
+      {
+        type: 'text',
+        text: [
+          `## 🎨 ${tool} Project Profile Error`,
+          '',
+          error.message,
+          '',
+          '**Next Steps:**',
+          `1. Fix \`${error.path}\` (read the \`kendoai://profile\` resource to check it)`,
+          '2. Or remove the file to generate without project context'
+        ].join('\n')
+      }
+    ]
+  };
+}
+
+export function dataModelErrorResult(
+  tool: string,
+  error: DataModelError
+): CallToolResult {
+  return {
+    isError: true,
+    content: [
+      {
+        type: 'text',
+        text: [
+          `## 🧩 ${tool} Data Model Error`,
+          '',
+          error.message,
+          '',
+          '**Next Steps:**',
+          '1. Check that `format` matches the definition: TypeScript source, a JSON Schema object, or an OpenAPI document',
+          '2. Pass `name` to pick the interface or component schema when the definition holds several'
+        ].join('\n')
+      }
+    ]
+  };
+}
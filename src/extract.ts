@@ -0,0 +1,631 @@
+import ts from 'typescript';
+import { isKendoComponent, lookupComponent } from './catalog.js';
+import type { ActNode, ActPropValue } from './types.js';
+
+export interface ExtractedAct {
+  /** The page component the tree was extracted from. */
+  component: string;
+  act: ActNode;
+  /** Constructs that could not be represented faithfully. */
+  warnings: string[];
+}
+
+export class ExtractError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExtractError';
+  }
+}
+
+/** Props whose string value names the node, in order of preference. */
+const LABEL_PROPS = [
+  'title',
+  'label',
+  'text',
+  'aria-label',
+  'placeholder',
+  'name',
+  'field'
+];
+
+/** Props that only affect styling or identity and say nothing about purpose. */
+const IGNORED_PROPS = new Set(['className', 'style', 'key', 'id', 'ref']);
+
+const MAX_DESCRIBED_PROPS = 4;
+const MAX_INLINE_DEPTH = 8;
+
+type JsxNode = ts.JsxElement | ts.JsxSelfClosingElement | ts.JsxFragment;
+
+/**
+ * Builds an Abstract Component Tree from a TSX page by walking the JSX its
+ * component returns. Components declared in the same file are inlined,
+ * Kendo imports are resolved through aliases, and descriptions are
+ * inferred from labels, notable props, event handlers and text content.
+ * Literal props, `data` bindings, handlers and the page's `useState`
+ * variables also fill the typed ACT fields.
+ */
+export function extractAct(
+  source: string,
+  options: { fileName?: string; componentName?: string } = {}
+): ExtractedAct {
+  const file = ts.createSourceFile(
+    options.fileName ?? 'Page.tsx',
+    source,
+    ts.ScriptTarget.Latest,
+    true,
+    ts.ScriptKind.TSX
+  );
+  const warnings: string[] = [];
+  const imports = importedNames(file);
+  const components = localComponents(file);
+
+  const name = options.componentName ?? pageComponentName(file, components);
+  const body = name ? components.get(name) : undefined;
+  if (!name || !body) {
+    throw new ExtractError(
+      options.componentName
+        ? `No component named ${options.componentName} returning JSX was found.`
+        : 'No exported React component returning JSX was found.'
+    );
+  }
+
+  const root = returnedJsx(body);
+  if (!root) throw new ExtractError(`${name} does not return JSX.`);
+
+  const { state, setters } = stateVariables(body, file);
+  const context: WalkContext = {
+    file,
+    imports,
+    components,
+    warnings,
+    inlining: [name],
+    state: new Set(state.map((variable) => variable.name)),
+    setters
+  };
+  const nodes = walkJsx(root, context);
+  const tree =
+    nodes.length === 1 && typeof nodes[0].children !== 'string'
+      ? nodes[0].component === 'div'
+        ? {
+            ...nodes[0],
+            component: 'container',
+            description: `${humanize(name)} layout`
+          }
+        : nodes[0]
+      : {
+          component: 'container',
+          description: `${humanize(name)} layout`,
+          mcpQuery: null,
+          children: nodes
+        };
+  const { children, ...fields } = tree;
+  const act = state.length > 0 ? { ...fields, state, children } : tree;
+
+  return { component: name, act, warnings };
+}
+
+interface WalkContext {
+  file: ts.SourceFile;
+  /** Local identifier -> imported name and module. */
+  imports: Map<string, { name: string; module: string }>;
+  /** Component name -> function body or expression returning JSX. */
+  components: Map<string, ts.Node>;
+  warnings: string[];
+  /** Local components currently being inlined, to stop recursion. */
+  inlining: string[];
+  /** The page's `useState` variables. */
+  state: Set<string>;
+  /** State setter -> state variable. */
+  setters: Map<string, string>;
+}
+
+/** Local identifier -> imported name and module, for resolving aliases. */
+export function importedNames(file: ts.SourceFile) {
+  const names = new Map<string, { name: string; module: string }>();
+
+  for (const statement of file.statements) {
+    if (
+      !ts.isImportDeclaration(statement) ||
+      !ts.isStringLiteral(statement.moduleSpecifier)
+    ) {
+      continue;
+    }
+    const module = statement.moduleSpecifier.text;
+    const bindings = statement.importClause?.namedBindings;
+    if (bindings && ts.isNamedImports(bindings)) {
+      for (const element of bindings.elements) {
+        names.set(element.name.text, {
+          name: (element.propertyName ?? element.name).text,
+          module
+        });
+      }
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Top-level PascalCase function declarations and arrow/function
+ * expressions, mapped to the node whose return value is rendered.
+ */
+function localComponents(file: ts.SourceFile) {
+  const components = new Map<string, ts.Node>();
+
+  for (const statement of file.statements) {
+    if (
+      ts.isFunctionDeclaration(statement) &&
+      statement.name &&
+      statement.body
+    ) {
+      if (/^[A-Z]/.test(statement.name.text)) {
+        components.set(statement.name.text, statement.body);
+      }
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (
+          !ts.isIdentifier(declaration.name) ||
+          !/^[A-Z]/.test(declaration.name.text) ||
+          !declaration.initializer
+        ) {
+          continue;
+        }
+        const fn = unwrapComponentInitializer(declaration.initializer);
+        if (fn) components.set(declaration.name.text, fn.body);
+      }
+    }
+  }
+
+  return components;
+}
+
+/** Accepts `() => ...`, `function () {...}` and `React.memo(...)`-style wrappers. */
+function unwrapComponentInitializer(
+  node: ts.Expression
+): ts.ArrowFunction | ts.FunctionExpression | undefined {
+  if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) return node;
+  if (ts.isCallExpression(node) && node.arguments.length > 0) {
+    return unwrapComponentInitializer(node.arguments[0]);
+  }
+  if (ts.isParenthesizedExpression(node)) {
+    return unwrapComponentInitializer(node.expression);
+  }
+  return undefined;
+}
+
+/** The default export if it is a component, else the first exported one. */
+function pageComponentName(
+  file: ts.SourceFile,
+  components: Map<string, ts.Node>
+) {
+  let firstExported: string | undefined;
+
+  for (const statement of file.statements) {
+    const modifiers = ts.canHaveModifiers(statement)
+      ? ts.getModifiers(statement)
+      : undefined;
+    const exported = modifiers?.some(
+      (modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword
+    );
+    const isDefault = modifiers?.some(
+      (modifier) => modifier.kind === ts.SyntaxKind.DefaultKeyword
+    );
+
+    if (ts.isFunctionDeclaration(statement) && statement.name && exported) {
+      if (isDefault) return statement.name.text;
+      firstExported ??= statement.name.text;
+    } else if (ts.isVariableStatement(statement) && exported) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name)) {
+          firstExported ??= declaration.name.text;
+        }
+      }
+    } else if (
+      ts.isExportAssignment(statement) &&
+      ts.isIdentifier(statement.expression)
+    ) {
+      return statement.expression.text;
+    }
+  }
+
+  if (firstExported && components.has(firstExported)) return firstExported;
+  return components.keys().next().value;
+}
+
+/** The JSX returned by a component body, taking the last return statement. */
+function returnedJsx(body: ts.Node): JsxNode | undefined {
+  if (!ts.isBlock(body)) return findJsx(body);
+
+  let result: JsxNode | undefined;
+  const visit = (node: ts.Node) => {
+    if (ts.isReturnStatement(node) && node.expression) {
+      result = findJsx(node.expression) ?? result;
+    }
+    if (!ts.isFunctionLike(node)) ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(body, visit);
+  return result;
+}
+
+/**
+ * Finds the JSX an expression renders: through parentheses, conditionals,
+ * `&&`/`||` and callbacks such as `items.map(item => <Row />)`.
+ */
+function findJsx(node: ts.Node): JsxNode | undefined {
+  if (
+    ts.isJsxElement(node) ||
+    ts.isJsxSelfClosingElement(node) ||
+    ts.isJsxFragment(node)
+  ) {
+    return node;
+  }
+  if (ts.isParenthesizedExpression(node)) return findJsx(node.expression);
+  if (ts.isConditionalExpression(node)) {
+    return findJsx(node.whenTrue) ?? findJsx(node.whenFalse);
+  }
+  if (ts.isBinaryExpression(node)) {
+    return findJsx(node.right) ?? findJsx(node.left);
+  }
+  if (ts.isCallExpression(node)) {
+    for (const argument of node.arguments) {
+      if (ts.isArrowFunction(argument) || ts.isFunctionExpression(argument)) {
+        const jsx = returnedJsx(argument.body);
+        if (jsx) return jsx;
+      }
+    }
+  }
+  return undefined;
+}
+
+/** Converts a JSX node into ACT nodes; fragments yield their children. */
+function walkJsx(node: JsxNode, context: WalkContext): ActNode[] {
+  if (ts.isJsxFragment(node)) return walkChildren(node.children, context);
+
+  const opening = ts.isJsxElement(node) ? node.openingElement : node;
+  const tag = opening.tagName.getText(context.file);
+  const local = context.components.get(tag);
+
+  if (local && !context.imports.has(tag)) {
+    if (
+      context.inlining.includes(tag) ||
+      context.inlining.length > MAX_INLINE_DEPTH
+    ) {
+      context.warnings.push(`Recursive component <${tag}> was not expanded.`);
+    } else {
+      const jsx = returnedJsx(local);
+      if (jsx) {
+        context.inlining.push(tag);
+        const inlined = walkJsx(jsx, context);
+        context.inlining.pop();
+        return inlined;
+      }
+    }
+  }
+
+  const component = componentName(tag, context);
+  const children = ts.isJsxElement(node)
+    ? walkChildren(node.children, context)
+    : [];
+  const text = textChildren(children);
+
+  return [
+    {
+      component,
+      description: describe(component, tag, opening.attributes, text, context),
+      mcpQuery: mcpQuery(component, opening.attributes),
+      ...nodeFields(opening.attributes, context),
+      children: text ?? children
+    }
+  ];
+}
+
+/** Marker for text and expressions between elements. */
+const TEXT = '#text';
+
+function walkChildren(
+  children: ts.NodeArray<ts.JsxChild>,
+  context: WalkContext
+): ActNode[] {
+  const nodes: ActNode[] = [];
+
+  for (const child of children) {
+    if (ts.isJsxText(child)) {
+      const text = child.text.replace(/\s+/g, ' ').trim();
+      if (text) nodes.push(textNode(text));
+    } else if (ts.isJsxExpression(child)) {
+      if (!child.expression) continue;
+      const jsx = findJsx(child.expression);
+      if (jsx) {
+        nodes.push(...walkJsx(jsx, context));
+      } else if (ts.isStringLiteralLike(child.expression)) {
+        nodes.push(textNode(child.expression.text));
+      } else {
+        nodes.push(textNode(`{${child.expression.getText(context.file)}}`));
+      }
+    } else {
+      nodes.push(...walkJsx(child, context));
+    }
+  }
+
+  // Text mixed with elements becomes explicit `text` nodes.
+  return nodes.map((node) =>
+    node.component === TEXT && nodes.length > 1
+      ? { ...node, component: 'text', description: `Text "${node.children}"` }
+      : node
+  );
+}
+
+function textNode(text: string): ActNode {
+  return { component: TEXT, description: '', mcpQuery: null, children: text };
+}
+
+/** The text content when the only child is text, else undefined. */
+function textChildren(children: ActNode[]) {
+  if (children.length === 0) return '';
+  if (children.length === 1 && children[0].component === TEXT) {
+    return children[0].children as string;
+  }
+  return undefined;
+}
+
+/**
+ * Resolves import aliases to the Kendo export name and keeps known layout
+ * tags; other intrinsic tags become `div`.
+ */
+function componentName(tag: string, context: WalkContext) {
+  const imported = context.imports.get(tag);
+  if (imported?.module.startsWith('@progress/kendo-')) return imported.name;
+  if (/^[a-z]/.test(tag) && !lookupComponent(tag)) {
+    context.warnings.push(
+      `<${tag}> has no ACT equivalent and was mapped to div.`
+    );
+    return 'div';
+  }
+  if (/^[A-Z]/.test(tag) && !lookupComponent(tag)) {
+    context.warnings.push(
+      `<${tag}> is not a known Kendo component or a component declared in this file.`
+    );
+  }
+  return tag;
+}
+
+function describe(
+  component: string,
+  tag: string,
+  attributes: ts.JsxAttributes,
+  text: string | undefined,
+  context: WalkContext
+) {
+  const props = new Map<string, string>();
+  const handlers: string[] = [];
+  const flags: string[] = [];
+  let binding: string | undefined;
+
+  for (const property of attributes.properties) {
+    if (!ts.isJsxAttribute(property)) continue;
+    const name = property.name.getText(context.file);
+    if (IGNORED_PROPS.has(name)) continue;
+
+    const value = property.initializer;
+    if (!value) {
+      flags.push(name);
+    } else if (ts.isStringLiteral(value)) {
+      props.set(name, value.text);
+    } else if (ts.isJsxExpression(value) && value.expression) {
+      const expression = value.expression.getText(context.file);
+      if (/^on[A-Z]/.test(name)) {
+        handlers.push(
+          `${name[2].toLowerCase()}${name.slice(3)} via ${expression}`
+        );
+      } else if (name === 'data') {
+        binding = expression;
+      } else if (ts.isStringLiteralLike(value.expression)) {
+        props.set(name, value.expression.text);
+      } else {
+        props.set(name, `{${expression}}`);
+      }
+    }
+  }
+
+  const labelProp = LABEL_PROPS.find(
+    (name) => props.has(name) && !props.get(name)!.startsWith('{')
+  );
+  const label = labelProp ? props.get(labelProp) : text || undefined;
+  if (labelProp) props.delete(labelProp);
+
+  const details = [
+    ...flags,
+    ...(binding ? [`bound to ${binding}`] : []),
+    ...[...props]
+      .slice(0, MAX_DESCRIBED_PROPS)
+      .map(([name, value]) => `${name}: ${value}`),
+    ...handlers.map((handler) => `handles ${handler}`)
+  ];
+
+  return [
+    humanize(component === tag ? tag : component),
+    label ? ` "${label}"` : '',
+    details.length > 0 ? ` (${details.join(', ')})` : ''
+  ].join('');
+}
+
+/** The JSON value of a literal expression, or undefined for anything else. */
+function literalValue(node: ts.Expression): ActPropValue | undefined {
+  if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node)) {
+    return literalValue(node.expression);
+  }
+  if (ts.isStringLiteralLike(node)) return node.text;
+  if (ts.isNumericLiteral(node)) return Number(node.text);
+  if (
+    ts.isPrefixUnaryExpression(node) &&
+    node.operator === ts.SyntaxKind.MinusToken &&
+    ts.isNumericLiteral(node.operand)
+  ) {
+    return -Number(node.operand.text);
+  }
+  if (node.kind === ts.SyntaxKind.TrueKeyword) return true;
+  if (node.kind === ts.SyntaxKind.FalseKeyword) return false;
+  if (node.kind === ts.SyntaxKind.NullKeyword) return null;
+
+  if (ts.isArrayLiteralExpression(node)) {
+    const items = node.elements.map(literalValue);
+    return items.every((item) => item !== undefined)
+      ? (items as ActPropValue[])
+      : undefined;
+  }
+  if (ts.isObjectLiteralExpression(node)) {
+    const entries: [string, ActPropValue | undefined][] = [];
+    for (const property of node.properties) {
+      if (
+        !ts.isPropertyAssignment(property) ||
+        !(ts.isIdentifier(property.name) || ts.isStringLiteral(property.name))
+      ) {
+        return undefined;
+      }
+      entries.push([property.name.text, literalValue(property.initializer)]);
+    }
+    return entries.every(([, value]) => value !== undefined)
+      ? (Object.fromEntries(entries) as ActPropValue)
+      : undefined;
+  }
+  return undefined;
+}
+
+function typeOfLiteral(value: ActPropValue | undefined) {
+  if (value === undefined || value === null) return 'unknown';
+  if (Array.isArray(value)) return 'unknown[]';
+  return typeof value === 'object' ? 'Record<string, unknown>' : typeof value;
+}
+
+/**
+ * The `useState` variables a component body declares, outside nested
+ * functions, and a map from their setters back to them.
+ */
+function stateVariables(body: ts.Node, file: ts.SourceFile) {
+  const state: NonNullable<ActNode['state']> = [];
+  const setters = new Map<string, string>();
+
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isVariableDeclaration(node) &&
+      ts.isArrayBindingPattern(node.name) &&
+      node.initializer &&
+      ts.isCallExpression(node.initializer) &&
+      /^(React\.)?useState$/.test(node.initializer.expression.getText(file))
+    ) {
+      const [value, setter] = node.name.elements;
+      if (ts.isBindingElement(value) && ts.isIdentifier(value.name)) {
+        const call = node.initializer;
+        const initial = call.arguments[0] && literalValue(call.arguments[0]);
+        state.push({
+          name: value.name.text,
+          type:
+            call.typeArguments?.[0]?.getText(file) ?? typeOfLiteral(initial),
+          ...(initial !== undefined ? { initial } : {})
+        });
+        if (
+          setter &&
+          ts.isBindingElement(setter) &&
+          ts.isIdentifier(setter.name)
+        ) {
+          setters.set(setter.name.text, value.name.text);
+        }
+      }
+    }
+    if (!ts.isFunctionLike(node)) ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(body, visit);
+
+  return { state, setters };
+}
+
+/** Longest inline handler quoted in an event's action. */
+const MAX_HANDLER_LENGTH = 80;
+
+/**
+ * The typed ACT fields of an element: literal props, the `data` binding
+ * and event handlers, with the state an inline handler sets.
+ */
+function nodeFields(
+  attributes: ts.JsxAttributes,
+  context: WalkContext
+): Pick<ActNode, 'props' | 'dataBinding' | 'events'> {
+  const props: Record<string, ActPropValue> = {};
+  const events: NonNullable<ActNode['events']> = [];
+  let dataBinding: ActNode['dataBinding'];
+
+  for (const property of attributes.properties) {
+    if (!ts.isJsxAttribute(property)) continue;
+    const name = property.name.getText(context.file);
+    const value = property.initializer;
+    if (IGNORED_PROPS.has(name)) continue;
+
+    if (!value) {
+      props[name] = true;
+    } else if (ts.isStringLiteral(value)) {
+      props[name] = value.text;
+    } else if (ts.isJsxExpression(value) && value.expression) {
+      const expression = value.expression;
+      const text = expression.getText(context.file);
+      if (/^on[A-Z]/.test(name)) {
+        const named =
+          ts.isIdentifier(expression) ||
+          ts.isPropertyAccessExpression(expression);
+        const updates = [...text.matchAll(/\b(set[A-Z]\w*)\s*\(/g)]
+          .map((match) => context.setters.get(match[1]))
+          .filter((state): state is string => state !== undefined);
+        events.push({
+          name,
+          action: named
+            ? `Calls ${text}`
+            : `Runs ${text.length > MAX_HANDLER_LENGTH ? `${text.slice(0, MAX_HANDLER_LENGTH - 3)}...` : text}`,
+          ...(named ? { handler: text } : {}),
+          ...(updates.length > 0 ? { updates: [...new Set(updates)] } : {})
+        });
+      } else if (name === 'data') {
+        dataBinding = {
+          source: text,
+          kind: context.state.has(text)
+            ? 'state'
+            : text.startsWith('props.')
+              ? 'prop'
+              : 'static'
+        };
+      } else {
+        const literal = literalValue(expression);
+        if (literal !== undefined) props[name] = literal;
+      }
+    }
+  }
+
+  return {
+    ...(Object.keys(props).length > 0 ? { props } : {}),
+    ...(dataBinding ? { dataBinding } : {}),
+    ...(events.length > 0 ? { events } : {})
+  };
+}
+
+/** Documentation query for Kendo components, mentioning boolean features. */
+function mcpQuery(component: string, attributes: ts.JsxAttributes) {
+  const entry = lookupComponent(component);
+  if (!entry || !isKendoComponent(entry)) return null;
+
+  const features = attributes.properties
+    .filter((property) => ts.isJsxAttribute(property) && !property.initializer)
+    .map((property) => property.name?.getText());
+  return features.length > 0
+    ? `Kendo React ${component} with ${features.join(', ')}`
+    : `Kendo React ${component}`;
+}
+
+/** `GridColumn` -> `Grid column`, `h1` -> `Heading 1`. */
+function humanize(name: string) {
+  const heading = name.match(/^h([1-6])$/);
+  if (heading) return `Heading ${heading[1]}`;
+
+  const words = name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z])([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase();
+  return words[0].toUpperCase() + words.slice(1);
+}
@@ -0,0 +1,256 @@
+import { createServer as createHttpServer } from 'node:http';
+import type { IncomingMessage, ServerResponse, Server } from 'node:http';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { logger, serializeError } from './logger.js';
+
+export interface ClientToken {
+  clientId: string;
+  token: string;
+}
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  tokens: ClientToken[];
+  /**
+   * Closes a session after this long without a request in flight, so
+   * clients that disappear without DELETE do not leak transports. 0 keeps
+   * sessions open until the client ends them.
+   */
+  idleTimeoutMs: number;
+  /** Builds a fresh MCP server for every new session of `clientId`. */
+  createMcpServer: (clientId: string) => McpServer;
+}
+
+interface Session {
+  clientId: string;
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  /** Requests of the session whose response is still open. */
+  pending: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Serves the MCP tools over the Streamable HTTP transport. Each initialized
+ * session gets its own McpServer instance and is bound to the client whose
+ * bearer token opened it, and is closed once it has been idle for
+ * `idleTimeoutMs`.
+ */
+export function startHttpServer(options: HttpServerOptions): Promise<Server> {
+  const sessions = new Map<string, Session>();
+
+  const httpServer = createHttpServer((req, res) => {
+    handleRequest(req, res, options, sessions).catch((error) => {
+      logger.error('http.request_failed', { error: serializeError(error) });
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    });
+  });
+
+  httpServer.on('close', () => {
+    for (const session of sessions.values()) {
+      session.transport.close().catch(() => undefined);
+    }
+    sessions.clear();
+  });
+
+  return new Promise((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve(httpServer);
+    });
+  });
+}
+
+async function handleRequest(
+  req: IncomingMessage & { auth?: AuthInfo },
+  res: ServerResponse,
+  options: HttpServerOptions,
+  sessions: Map<string, Session>
+) {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+
+  if (url.pathname === '/health') {
+    if (req.method !== 'GET') {
+      res.writeHead(405, { Allow: 'GET' }).end();
+      return;
+    }
+    res
+      .writeHead(200, { 'Content-Type': 'application/json' })
+      .end(JSON.stringify({ status: 'ok', sessions: sessions.size }));
+    return;
+  }
+
+  if (url.pathname !== '/mcp') {
+    res.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not Found');
+    return;
+  }
+
+  const client = authenticate(req, options.tokens);
+  if (!client) {
+    res.setHeader('WWW-Authenticate', 'Bearer realm="kendoai-mcp"');
+    sendJsonRpcError(res, 401, -32001, 'Missing or invalid bearer token');
+    return;
+  }
+  req.auth = { token: client.token, clientId: client.clientId, scopes: [] };
+
+  const sessionId = headerValue(req.headers['mcp-session-id']);
+
+  if (sessionId) {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+    if (session.clientId !== client.clientId) {
+      sendJsonRpcError(res, 403, -32001, 'Session belongs to another client');
+      return;
+    }
+    markBusy(session, res, options.idleTimeoutMs);
+    const body = req.method === 'POST' ? await readJsonBody(req, res) : undefined;
+    if (body === INVALID_BODY) return;
+    await session.transport.handleRequest(req, res, body);
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    sendJsonRpcError(res, 400, -32000, 'Missing mcp-session-id header');
+    return;
+  }
+
+  const body = await readJsonBody(req, res);
+  if (body === INVALID_BODY) return;
+
+  if (!isInitializeRequest(body)) {
+    sendJsonRpcError(
+      res,
+      400,
+      -32000,
+      'Bad Request: no valid session ID provided'
+    );
+    return;
+  }
+
+  const server = options.createMcpServer(client.clientId);
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: (id) => {
+      const session: Session = {
+        clientId: client.clientId,
+        transport,
+        server,
+        pending: 0
+      };
+      sessions.set(id, session);
+      scheduleIdleClose(session, options.idleTimeoutMs);
+    }
+  });
+
+  transport.onclose = () => {
+    if (transport.sessionId) {
+      clearTimeout(sessions.get(transport.sessionId)?.idleTimer);
+      sessions.delete(transport.sessionId);
+    }
+    server.close().catch(() => undefined);
+  };
+
+  await server.connect(transport);
+  await transport.handleRequest(req, res, body);
+}
+
+/** Holds off the idle timeout until the response to `res` is closed. */
+function markBusy(
+  session: Session,
+  res: ServerResponse,
+  idleTimeoutMs: number
+) {
+  clearTimeout(session.idleTimer);
+  session.pending++;
+  res.once('close', () => {
+    session.pending--;
+    scheduleIdleClose(session, idleTimeoutMs);
+  });
+}
+
+function scheduleIdleClose(session: Session, idleTimeoutMs: number) {
+  if (idleTimeoutMs === 0 || session.pending > 0) return;
+
+  clearTimeout(session.idleTimer);
+  session.idleTimer = setTimeout(() => {
+    logger.info('http.session_idle_closed', {
+      clientId: session.clientId,
+      sessionId: session.transport.sessionId,
+      idleTimeoutMs
+    });
+    session.transport.close().catch(() => undefined);
+  }, idleTimeoutMs);
+  session.idleTimer.unref();
+}
+
+function authenticate(
+  req: IncomingMessage,
+  tokens: ClientToken[]
+): ClientToken | undefined {
+  const header = headerValue(req.headers.authorization);
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  if (!match) return undefined;
+
+  const presented = Buffer.from(match[1].trim());
+  return tokens.find((candidate) => {
+    const expected = Buffer.from(candidate.token);
+    return (
+      expected.length === presented.length &&
+      timingSafeEqual(expected, presented)
+    );
+  });
+}
+
+const INVALID_BODY = Symbol('invalid-body');
+
+async function readJsonBody(
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<unknown | typeof INVALID_BODY> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      sendJsonRpcError(res, 413, -32000, 'Request body too large');
+      return INVALID_BODY;
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    sendJsonRpcError(res, 400, -32700, 'Parse error: invalid JSON');
+    return INVALID_BODY;
+  }
+}
+
+function headerValue(value: string | string[] | undefined) {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  code: number,
+  message: string
+) {
+  res
+    .writeHead(status, { 'Content-Type': 'application/json' })
+    .end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
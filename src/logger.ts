@@ -0,0 +1,141 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { appendFileSync } from 'node:fs';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  LoggingLevelSchema,
+  SetLevelRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import type { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+import { env, redact } from './env.js';
+
+export type LogFields = Record<string, unknown>;
+
+const SEVERITY = new Map(
+  LoggingLevelSchema.options.map((level, index) => [level, index])
+);
+
+function atLeast(level: LoggingLevel, threshold: LoggingLevel) {
+  return SEVERITY.get(level)! >= SEVERITY.get(threshold)!;
+}
+
+/**
+ * An error as plain JSON: its name, message and primitive own fields, such
+ * as an AgentError's kind, agent and status. Stacks are kept for errors
+ * that are not expected failure classes.
+ */
+export function serializeError(error: unknown): LogFields {
+  if (!(error instanceof Error)) return { message: String(error) };
+
+  const fields: LogFields = { name: error.name, message: error.message };
+  for (const [key, value] of Object.entries(error)) {
+    if (value !== undefined && typeof value !== 'object') fields[key] = value;
+  }
+  if (error.name === 'Error' || error.name === 'TypeError') {
+    fields.stack = error.stack;
+  }
+  return fields;
+}
+
+/**
+ * Structured logger. Each entry is one JSON line on stderr, or appended to
+ * LOG_FILE when set, and never on stdout, which carries the stdio MCP
+ * stream. Entries are also sent as MCP logging notifications, filtered by
+ * the level each client set with `logging/setLevel` (LOG_LEVEL until it
+ * does): entries logged inside `withServer`, such as everything a tool call
+ * logs, go only to that server's client, so HTTP clients never see each
+ * other's calls; process-level entries go to every attached server. The
+ * upstream secret and client tokens are redacted from every entry.
+ */
+export class Logger {
+  private readonly servers = new Map<McpServer, { level?: LoggingLevel }>();
+  private readonly currentServer = new AsyncLocalStorage<McpServer>();
+
+  constructor(
+    readonly level: LoggingLevel,
+    private readonly file?: string
+  ) {}
+
+  debug(event: string, fields?: LogFields) {
+    this.log('debug', event, fields);
+  }
+
+  info(event: string, fields?: LogFields) {
+    this.log('info', event, fields);
+  }
+
+  warning(event: string, fields?: LogFields) {
+    this.log('warning', event, fields);
+  }
+
+  error(event: string, fields?: LogFields) {
+    this.log('error', event, fields);
+  }
+
+  log(level: LoggingLevel, event: string, fields: LogFields = {}) {
+    const data = JSON.parse(redact(JSON.stringify({ event, ...fields })));
+    if (atLeast(level, this.level)) {
+      this.write(
+        JSON.stringify({ time: new Date().toISOString(), level, ...data })
+      );
+    }
+
+    const scoped = this.currentServer.getStore();
+    for (const [server, client] of this.servers) {
+      if (
+        (scoped !== undefined && server !== scoped) ||
+        !server.isConnected() ||
+        !atLeast(level, client.level ?? this.level)
+      ) {
+        continue;
+      }
+      server
+        .sendLoggingMessage({
+          level,
+          logger: 'kendoai-mcp',
+          data
+        })
+        .catch(() => {
+          // The client went away; nothing left to notify.
+        });
+    }
+  }
+
+  /** Runs `fn` with its log notifications going only to `server`'s client. */
+  withServer<T>(server: McpServer, fn: () => T): T {
+    return this.currentServer.run(server, fn);
+  }
+
+  /**
+   * Sends log entries to the server's client from now on, at the level the
+   * client sets. Call once the server's other close handlers are in place.
+   */
+  attach(server: McpServer) {
+    const client: { level?: LoggingLevel } = {};
+    this.servers.set(server, client);
+
+    server.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      client.level = request.params.level;
+      return {};
+    });
+
+    const onclose = server.server.onclose;
+    server.server.onclose = () => {
+      this.servers.delete(server);
+      onclose?.();
+    };
+  }
+
+  private write(line: string) {
+    if (this.file) {
+      try {
+        appendFileSync(this.file, `${line}\n`);
+        return;
+      } catch {
+        // Fall back to stderr when the log file cannot be written.
+      }
+    }
+    process.stderr.write(`${line}\n`);
+  }
+}
+
+export const logger = new Logger(env.LOG_LEVEL, env.LOG_FILE);
@@ -0,0 +1,201 @@
+import { performance } from 'node:perf_hooks';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { AgentName } from './agents.js';
+import { logger, serializeError } from './logger.js';
+import { TraceRun, withTrace, writeTrace } from './trace.js';
+
+interface Latency {
+  count: number;
+  totalMs: number;
+  maxMs: number;
+}
+
+interface ToolStats extends Latency {
+  errors: number;
+}
+
+interface UpstreamStats extends Latency {
+  cacheHits: number;
+  /** Responses by HTTP status, or by failure kind when there was none. */
+  statuses: Record<string, number>;
+  requestBytes: number;
+  responseBytes: number;
+}
+
+export interface UpstreamCall {
+  /** HTTP status, or the failure kind (`timeout`, `network`, ...). */
+  status: number | string;
+  durationMs: number;
+  requestBytes: number;
+  responseBytes: number;
+}
+
+function addLatency(stats: Latency, durationMs: number) {
+  stats.count++;
+  stats.totalMs += durationMs;
+  stats.maxMs = Math.max(stats.maxMs, durationMs);
+}
+
+function summarizeLatency({ count, totalMs, maxMs }: Latency) {
+  return {
+    averageMs: count === 0 ? 0 : Math.round(totalMs / count),
+    maxMs: Math.round(maxMs),
+    totalMs: Math.round(totalMs)
+  };
+}
+
+/**
+ * In-process counters since startup: latency and errors per tool, and per
+ * agent endpoint the upstream requests by status, their latency, payload
+ * sizes and cache hits.
+ */
+export class Metrics {
+  readonly startedAt = new Date().toISOString();
+  private readonly tools = new Map<string, ToolStats>();
+  private readonly upstream = new Map<AgentName, UpstreamStats>();
+
+  recordTool(tool: string, durationMs: number, isError: boolean) {
+    let stats = this.tools.get(tool);
+    if (!stats) {
+      stats = { count: 0, totalMs: 0, maxMs: 0, errors: 0 };
+      this.tools.set(tool, stats);
+    }
+    addLatency(stats, durationMs);
+    if (isError) stats.errors++;
+  }
+
+  recordUpstream(agent: AgentName, call: UpstreamCall) {
+    const stats = this.upstreamStats(agent);
+    addLatency(stats, call.durationMs);
+    stats.statuses[call.status] = (stats.statuses[call.status] ?? 0) + 1;
+    stats.requestBytes += call.requestBytes;
+    stats.responseBytes += call.responseBytes;
+  }
+
+  recordCacheHit(agent: AgentName) {
+    this.upstreamStats(agent).cacheHits++;
+  }
+
+  snapshot() {
+    return {
+      startedAt: this.startedAt,
+      tools: Object.fromEntries(
+        [...this.tools].map(([tool, stats]) => [
+          tool,
+          {
+            calls: stats.count,
+            errors: stats.errors,
+            ...summarizeLatency(stats)
+          }
+        ])
+      ),
+      upstream: Object.fromEntries(
+        [...this.upstream].map(([agent, stats]) => [
+          agent,
+          {
+            requests: stats.count,
+            cacheHits: stats.cacheHits,
+            statuses: stats.statuses,
+            ...summarizeLatency(stats),
+            requestBytes: stats.requestBytes,
+            responseBytes: stats.responseBytes
+          }
+        ])
+      )
+    };
+  }
+
+  private upstreamStats(agent: AgentName) {
+    let stats = this.upstream.get(agent);
+    if (!stats) {
+      stats = {
+        count: 0,
+        totalMs: 0,
+        maxMs: 0,
+        cacheHits: 0,
+        statuses: {},
+        requestBytes: 0,
+        responseBytes: 0
+      };
+      this.upstream.set(agent, stats);
+    }
+    return stats;
+  }
+}
+
+export const metrics = new Metrics();
+
+type ToolHandler = (...args: unknown[]) => Promise<CallToolResult>;
+
+function sessionIdOf(result: CallToolResult) {
+  const structured = result.structuredContent as
+    { sessionId?: unknown } | undefined;
+  if (typeof structured?.sessionId === 'string') return structured.sessionId;
+
+  for (const block of result.content) {
+    const match =
+      block.type === 'text' &&
+      block.text.match(/\*\*Session ID:\*\* `([\w-]+)`/);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+/**
+ * Wraps every tool registered on `server` from now on: each call is timed
+ * into the metrics, logged to `server`'s client only, and traced with its
+ * arguments, upstream exchanges and result. Register the tools after calling this.
+ */
+export function instrumentTools(server: McpServer) {
+  const register = server.registerTool.bind(server) as (
+    name: string,
+    config: unknown,
+    handler: ToolHandler
+  ) => ReturnType<McpServer['registerTool']>;
+
+  server.registerTool = ((
+    name: string,
+    config: unknown,
+    handler: ToolHandler
+  ) =>
+    register(name, config, (...args) =>
+      logger.withServer(server, async () => {
+        const run = new TraceRun();
+        const started = performance.now();
+        // Tools with an input schema get (args, extra), the others (extra).
+        run.add('tool.call', {
+          tool: name,
+          arguments: args.length > 1 ? args[0] : {}
+        });
+
+        let result: CallToolResult | undefined;
+        try {
+          result = await withTrace(run, () => handler(...args));
+          return result;
+        } catch (error) {
+          run.add('tool.error', { tool: name, error: serializeError(error) });
+          throw error;
+        } finally {
+          const durationMs = performance.now() - started;
+          const isError = result?.isError === true || result === undefined;
+          const sessionId = result && sessionIdOf(result);
+          metrics.recordTool(name, durationMs, isError);
+          logger.log(isError ? 'warning' : 'info', 'tool.call', {
+            tool: name,
+            durationMs: Math.round(durationMs),
+            isError,
+            ...(sessionId ? { sessionId } : {})
+          });
+
+          if (result) run.add('tool.result', { tool: name, result });
+          await writeTrace(run, sessionId).catch((error) => {
+            logger.warning('trace.write_failed', {
+              tool: name,
+              error: serializeError(error)
+            });
+          });
+        }
+      })
+    )) as McpServer['registerTool'];
+}
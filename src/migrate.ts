@@ -0,0 +1,56 @@
+import { ACT_VERSION } from './types.js';
+import type { ActNode } from './types.js';
+
+/** The schema version of a tree: the root's `version`, else 1. */
+export function actVersion(tree: unknown): number {
+  const version = (tree as { version?: unknown } | null)?.version;
+  return typeof version === 'number' ? version : 1;
+}
+
+/** `GridColumn` -> `grid-column`, `h1` -> `h1`. */
+function idBase(component: string) {
+  const base = component
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .replace(/[^A-Za-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase();
+  return /^[a-z]/.test(base) ? base : `node${base ? `-${base}` : ''}`;
+}
+
+/**
+ * Upgrades a v1 tree to the current schema version: stamps the root with
+ * `version` and gives every node an `id` derived from its component
+ * (`grid`, `grid-column`, `grid-column-2`, ...) so events, bindings and the
+ * generated code can refer to it. Ids already present are kept. Trees of
+ * the current version are returned unchanged.
+ */
+export function migrateAct(tree: unknown): ActNode {
+  if (actVersion(tree) === ACT_VERSION) return tree as ActNode;
+
+  const root = structuredClone(tree) as ActNode;
+  const taken = new Set<string>();
+  const collect = (node: ActNode) => {
+    if (node.id) taken.add(node.id);
+    if (Array.isArray(node.children)) node.children.forEach(collect);
+  };
+  collect(root);
+
+  const assign = (node: ActNode): ActNode => {
+    let id = node.id;
+    if (!id) {
+      const base = idBase(node.component);
+      id = base;
+      for (let index = 2; taken.has(id); index++) id = `${base}-${index}`;
+      taken.add(id);
+    }
+    return {
+      id,
+      ...node,
+      children: Array.isArray(node.children)
+        ? node.children.map(assign)
+        : node.children
+    };
+  };
+
+  return { version: ACT_VERSION, ...assign(root) };
+}
@@ -0,0 +1,293 @@
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { pathToFileURL } from 'node:url';
+import {
+  CODE_FIXTURE,
+  FORM_STRUCTURE_FIXTURE,
+  LOOKUP_STRUCTURE_FIXTURE,
+  PLAN_FIXTURE,
+  SORTED_CODE_FIXTURE,
+  STRUCTURE_FIXTURE
+} from './fixtures.js';
+
+/**
+ * Local stand-in for the KendoAI service, implementing the three
+ * `/api/agents/{agent}/generate` endpoints with fixture responses.
+ *
+ * The response scenario is picked per request from a `scenario:<name>`
+ * marker anywhere in the request body (e.g. in the query), falling back to
+ * the backend's default scenario:
+ *
+ * - `success`       fixture plan, ACT or code
+ * - `rejected`      200 with `success: false` and an error message echoing
+ *                   the query, like services that quote the input back
+ * - `malformed`     200 with an HTML body
+ * - `bad-shape`     200 envelope whose data does not match the endpoint schema
+ * - `server-error`  500 with a JSON error
+ * - `unavailable`   503, always
+ * - `flaky`         503 on the first request for that body, then success
+ * - `unauthorized`  401
+ * - `rate-limited`  429 with `Retry-After: 1`
+ * - `throttled`     429 without a Retry-After header
+ * - `throttled-until` 429 with Retry-After as an HTTP date 2 seconds ahead
+ * - `slow`          success after `slowMs`
+ * - `form`          success, with an edit form ACT from the structure agent
+ * - `lookup`        success, with a lookup grid in a dialog added to the ACT
+ * - `fenced`        success, with the merger code in a ```tsx fence and CRLF
+ * - `sorted`        success, with merger code whose state type uses an imported type
+ */
+export type MockScenario =
+  | 'success'
+  | 'rejected'
+  | 'malformed'
+  | 'bad-shape'
+  | 'server-error'
+  | 'unavailable'
+  | 'flaky'
+  | 'unauthorized'
+  | 'rate-limited'
+  | 'throttled'
+  | 'throttled-until'
+  | 'slow'
+  | 'form'
+  | 'lookup'
+  | 'fenced'
+  | 'sorted';
+
+const SCENARIOS = new Set<MockScenario>([
+  'success',
+  'rejected',
+  'malformed',
+  'bad-shape',
+  'server-error',
+  'unavailable',
+  'flaky',
+  'unauthorized',
+  'rate-limited',
+  'throttled',
+  'throttled-until',
+  'slow',
+  'form',
+  'lookup',
+  'fenced',
+  'sorted'
+]);
+
+const AGENTS = ['planner', 'structure', 'merger'] as const;
+type MockAgent = (typeof AGENTS)[number];
+
+export interface MockRequest {
+  agent: MockAgent;
+  scenario: MockScenario;
+  body: Record<string, unknown>;
+  /** The Authorization header, when one was sent. */
+  authorization?: string;
+  /** Set when the caller disconnected before the response was sent. */
+  aborted?: boolean;
+}
+
+export interface MockBackendOptions {
+  port?: number;
+  host?: string;
+  /**
+   * When set, requests get a 401 unless they carry this secret in the body
+   * or as an `Authorization: Bearer` header.
+   */
+  secret?: string;
+  defaultScenario?: MockScenario;
+  slowMs?: number;
+}
+
+export interface MockBackend {
+  url: string;
+  /** Every agent request received, in order. */
+  requests: MockRequest[];
+  close(): Promise<void>;
+}
+
+const SUCCESS_DATA: Record<MockAgent, unknown> = {
+  planner: { plan: PLAN_FIXTURE },
+  structure: { structure: STRUCTURE_FIXTURE },
+  merger: { code: CODE_FIXTURE }
+};
+
+export function startMockBackend(
+  options: MockBackendOptions = {}
+): Promise<MockBackend> {
+  const requests: MockRequest[] = [];
+  const flakySeen = new Set<string>();
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error('❌ Mock backend error:', error);
+      sendJson(res, 500, { success: false, error: 'Mock backend failure' });
+    });
+  });
+
+  async function handle(req: IncomingMessage, res: ServerResponse) {
+    const match = req.url?.match(/^\/api\/agents\/(\w+)\/generate$/);
+    const agent = AGENTS.find((name) => name === match?.[1]);
+
+    if (req.method !== 'POST' || !agent) {
+      sendJson(res, 404, { success: false, error: 'Not found' });
+      return;
+    }
+
+    const raw = await readBody(req);
+    let body: Record<string, unknown>;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      sendJson(res, 400, { success: false, error: 'Invalid JSON body' });
+      return;
+    }
+
+    const scenario = pickScenario(raw, options.defaultScenario);
+    const { authorization } = req.headers;
+    const request: MockRequest = {
+      agent,
+      scenario,
+      body,
+      ...(authorization ? { authorization } : {})
+    };
+    requests.push(request);
+    res.once('close', () => {
+      if (!res.writableEnded) request.aborted = true;
+    });
+
+    if (
+      options.secret !== undefined &&
+      body.secret !== options.secret &&
+      authorization !== `Bearer ${options.secret}`
+    ) {
+      sendJson(res, 401, { success: false, error: 'Invalid secret' });
+      return;
+    }
+
+    switch (scenario) {
+      case 'rejected':
+        sendJson(res, 200, {
+          success: false,
+          error: `The ${agent} agent could not process the request${
+            typeof body.query === 'string' ? `: ${body.query}` : ''
+          }`
+        });
+        return;
+      case 'malformed':
+        res
+          .writeHead(200, { 'Content-Type': 'text/html' })
+          .end('<html><body>Gateway maintenance</body></html>');
+        return;
+      case 'bad-shape':
+        sendJson(res, 200, { success: true, data: { unexpected: true } });
+        return;
+      case 'server-error':
+        sendJson(res, 500, { success: false, error: 'Internal agent failure' });
+        return;
+      case 'unavailable':
+        sendJson(res, 503, { success: false, error: 'Service unavailable' });
+        return;
+      case 'flaky':
+        if (!flakySeen.has(`${agent}:${raw}`)) {
+          flakySeen.add(`${agent}:${raw}`);
+          sendJson(res, 503, { success: false, error: 'Service unavailable' });
+          return;
+        }
+        break;
+      case 'unauthorized':
+        sendJson(res, 401, { success: false, error: 'Invalid secret' });
+        return;
+      case 'rate-limited':
+        res.setHeader('Retry-After', '1');
+        sendJson(res, 429, { success: false, error: 'Too many requests' });
+        return;
+      case 'throttled':
+        sendJson(res, 429, { success: false, error: 'Too many requests' });
+        return;
+      case 'throttled-until':
+        res.setHeader(
+          'Retry-After',
+          new Date(Date.now() + 2_000).toUTCString()
+        );
+        sendJson(res, 429, { success: false, error: 'Too many requests' });
+        return;
+      case 'slow':
+        await new Promise((resolve) =>
+          setTimeout(resolve, options.slowMs ?? 5_000)
+        );
+        break;
+    }
+
+    sendJson(res, 200, { success: true, data: successData(agent, scenario) });
+  }
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, options.host ?? '127.0.0.1', () => {
+      const { address, port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://${address}:${port}`,
+        requests,
+        close: () =>
+          new Promise((done) => {
+            server.closeAllConnections();
+            server.close(() => done());
+          })
+      });
+    });
+  });
+}
+
+function successData(agent: MockAgent, scenario: MockScenario) {
+  if (agent === 'structure' && scenario === 'form') {
+    return { structure: FORM_STRUCTURE_FIXTURE };
+  }
+  if (agent === 'structure' && scenario === 'lookup') {
+    return { structure: LOOKUP_STRUCTURE_FIXTURE };
+  }
+  if (agent === 'merger' && scenario === 'sorted') {
+    return { code: SORTED_CODE_FIXTURE };
+  }
+  if (agent === 'merger' && scenario === 'fenced') {
+    return {
+      code: {
+        mainComponent: ['```tsx', CODE_FIXTURE.mainComponent, '```']
+          .join('\n')
+          .replace(/\n/g, '\r\n')
+      }
+    };
+  }
+  return SUCCESS_DATA[agent];
+}
+
+function pickScenario(
+  raw: string,
+  fallback: MockScenario = 'success'
+): MockScenario {
+  const marker = raw.match(/scenario:([\w-]+)/)?.[1] as MockScenario;
+  return SCENARIOS.has(marker) ? marker : fallback;
+}
+
+async function readBody(req: IncomingMessage) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res
+    .writeHead(status, { 'Content-Type': 'application/json' })
+    .end(JSON.stringify(body));
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? '').href) {
+  const scenario = process.env.MOCK_SCENARIO as MockScenario | undefined;
+  startMockBackend({
+    port: Number(process.env.MOCK_PORT ?? 3000),
+    secret: process.env.MOCK_SECRET,
+    defaultScenario: scenario && SCENARIOS.has(scenario) ? scenario : undefined
+  }).then(({ url }) => {
+    console.error(`🧪 Mock KendoAI backend listening on ${url}`);
+  });
+}
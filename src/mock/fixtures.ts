@@ -0,0 +1,179 @@
+/**
+ * Canned responses for the mock KendoAI backend. The success fixtures
+ * describe a small user management page that passes validate_act.
+ */
+
+export const PLAN_FIXTURE = [
+  '# User Management Page',
+  '',
+  '1. **Toolbar** with an "Add User" button',
+  '2. **Grid** listing users with Name and Email columns, sorting and paging',
+  '3. **Layout** in a single container with a page header'
+].join('\n');
+
+export const STRUCTURE_FIXTURE = {
+  component: 'container',
+  description: 'User management page layout',
+  mcpQuery: null,
+  children: [
+    {
+      component: 'header',
+      description: 'Page header with the page title',
+      mcpQuery: null,
+      children: 'User Management'
+    },
+    {
+      component: 'Grid',
+      description: 'Data grid listing users with sorting and paging',
+      mcpQuery: 'Kendo React Grid with sorting and paging',
+      children: [
+        {
+          component: 'GridToolbar',
+          description: 'Toolbar above the grid',
+          mcpQuery: null,
+          children: [
+            {
+              component: 'Button',
+              description: 'Primary action button to add a new user',
+              mcpQuery: 'Kendo React Button themeColor primary',
+              children: 'Add User'
+            }
+          ]
+        },
+        {
+          component: 'GridColumn',
+          description: 'Column showing the user name',
+          mcpQuery: null,
+          children: ''
+        },
+        {
+          component: 'GridColumn',
+          description: 'Column showing the user email',
+          mcpQuery: null,
+          children: ''
+        }
+      ]
+    }
+  ]
+};
+
+/** The user page with a dialog holding a lookup grid of roles. */
+export const LOOKUP_STRUCTURE_FIXTURE = {
+  ...STRUCTURE_FIXTURE,
+  children: [
+    ...STRUCTURE_FIXTURE.children,
+    {
+      component: 'Dialog',
+      description: 'Dialog for picking the role of a user',
+      mcpQuery: 'Kendo React Dialog',
+      children: [
+        {
+          component: 'Grid',
+          description: 'Lookup grid listing the available roles',
+          mcpQuery: null,
+          children: [
+            {
+              component: 'GridColumn',
+              description: 'Column showing the role name',
+              mcpQuery: null,
+              children: ''
+            }
+          ]
+        }
+      ]
+    }
+  ]
+};
+
+export const FORM_STRUCTURE_FIXTURE = {
+  component: 'Form',
+  description: 'Edit form for a single record',
+  mcpQuery: 'Kendo React Form with validation',
+  children: [
+    {
+      component: 'FormElement',
+      description: 'Form layout with the fields and the submit button',
+      mcpQuery: null,
+      children: [
+        {
+          component: 'Field',
+          description: 'Field for the record title',
+          mcpQuery: null,
+          children: ''
+        },
+        {
+          component: 'Button',
+          description: 'Submit button',
+          mcpQuery: 'Kendo React Button type submit',
+          children: 'Save'
+        }
+      ]
+    }
+  ]
+};
+
+export const CODE_FIXTURE = {
+  mainComponent: [
+    "import * as React from 'react';",
+    "import { Grid, GridColumn, GridToolbar } from '@progress/kendo-react-grid';",
+    "import { Button } from '@progress/kendo-react-buttons';",
+    '',
+    'interface User {',
+    '  id: number;',
+    '  name: string;',
+    '  email: string;',
+    '}',
+    '',
+    'export default function UserManagementPage() {',
+    '  const [users] = React.useState<User[]>([]);',
+    '',
+    '  return (',
+    '    <div className="user-management">',
+    '      <h1>User Management</h1>',
+    '      <Grid data={users} sortable pageable>',
+    '        <GridToolbar>',
+    '          <Button themeColor="primary">Add User</Button>',
+    '        </GridToolbar>',
+    '        <GridColumn field="name" title="Name" />',
+    '        <GridColumn field="email" title="Email" />',
+    '      </Grid>',
+    '    </div>',
+    '  );',
+    '}',
+    ''
+  ].join('\n')
+};
+
+/** CODE_FIXTURE with grid state typed by an imported Kendo type. */
+export const SORTED_CODE_FIXTURE = {
+  mainComponent: CODE_FIXTURE.mainComponent
+    .replace(
+      "import { Button } from '@progress/kendo-react-buttons';",
+      [
+        "import { Button } from '@progress/kendo-react-buttons';",
+        "import type { SortDescriptor } from '@progress/kendo-data-query';"
+      ].join('\n')
+    )
+    .replace(
+      '\nexport default',
+      [
+        '',
+        'interface GridState {',
+        '  sort: SortDescriptor[];',
+        '}',
+        '',
+        'export default'
+      ].join('\n')
+    )
+    .replace(
+      '  const [users] = React.useState<User[]>([]);',
+      [
+        '  const [users] = React.useState<User[]>([]);',
+        '  const [state] = React.useState<GridState>({ sort: [] });'
+      ].join('\n')
+    )
+    .replace(
+      '<h1>User Management</h1>',
+      '<h1>Users sorted by {state.sort.length} fields</h1>'
+    )
+};
@@ -0,0 +1,268 @@
+import { z } from 'zod';
+import { ACTComponentSchema } from './types.js';
+
+/**
+ * Output schemas for the tools' `structuredContent`. The text content of a
+ * result is a human-readable summary; clients that consume results
+ * programmatically read these fields instead of parsing the markdown.
+ */
+
+const sessionId = z
+  .string()
+  .describe('Generation session the artifacts were recorded in');
+
+export const GeneratedFileSchema = z.object({
+  path: z.string().describe('Path relative to the output directory'),
+  content: z.string()
+});
+
+export const WrittenFileSchema = z.object({
+  path: z.string().describe('Absolute path of the file on disk'),
+  status: z.enum(['created', 'overwritten', 'unchanged']),
+  diff: z.string().optional()
+});
+
+export const DependencyReportSchema = z.object({
+  imported: z.array(z.string()),
+  theme: z.string().optional(),
+  peers: z.array(z.string()),
+  missing: z.array(z.string()),
+  packageManager: z.enum(['npm', 'pnpm', 'yarn', 'bun']),
+  detectedFrom: z.string(),
+  installCommand: z.string().optional(),
+  comparedWithManifest: z.boolean(),
+  manifestError: z
+    .string()
+    .optional()
+    .describe('Why the given or found package.json could not be used')
+});
+
+export const ACTDiagnosticSchema = z.object({
+  severity: z.enum(['error', 'warning']),
+  code: z.string(),
+  path: z.string(),
+  message: z.string(),
+  suggestion: z.string().optional()
+});
+
+export const ActChangeSchema = z.object({
+  kind: z.enum(['added', 'removed', 'modified']),
+  path: z.string(),
+  component: z.string(),
+  fields: z.array(z.string()).optional()
+});
+
+export const VerificationReportSchema = z.object({
+  passed: z.boolean(),
+  typeChecked: z
+    .boolean()
+    .describe('False when only syntax and imports could be checked'),
+  unresolved: z.array(z.string()),
+  diagnostics: z.array(
+    z.object({
+      severity: z.enum(['error', 'warning']),
+      code: z.string(),
+      file: z.string(),
+      line: z.number(),
+      column: z.number(),
+      message: z.string()
+    })
+  )
+});
+
+export const PlannerOutputSchema = {
+  sessionId,
+  plan: z.string().describe('Execution plan in markdown')
+};
+
+export const StructureOutputSchema = {
+  sessionId,
+  act: ACTComponentSchema
+};
+
+export const MergerOutputSchema = {
+  sessionId,
+  files: z
+    .array(GeneratedFileSchema)
+    .describe('Generated files, the main component first'),
+  written: z
+    .array(WrittenFileSchema)
+    .optional()
+    .describe('Files written to disk, when outputDir was given'),
+  writeError: z
+    .string()
+    .optional()
+    .describe('Why the files could not be written'),
+  dependencies: DependencyReportSchema,
+  verification: VerificationReportSchema.optional().describe(
+    'Type check of the generated code, when verify was set'
+  )
+};
+
+export const GeneratePageOutputSchema = {
+  sessionId,
+  status: z.enum(['complete', 'paused']),
+  plan: z.string().optional(),
+  act: ACTComponentSchema,
+  files: z.array(GeneratedFileSchema).optional()
+};
+
+export const ValidateActOutputSchema = {
+  valid: z.boolean(),
+  diagnostics: z.array(ACTDiagnosticSchema)
+};
+
+export const RefineOutputSchema = {
+  sessionId,
+  act: ACTComponentSchema.describe('The refined Abstract Component Tree'),
+  changes: z
+    .array(ActChangeSchema)
+    .optional()
+    .describe('Structural changes, absent when there was no ACT to compare'),
+  regenerated: z.boolean(),
+  files: z.array(GeneratedFileSchema).optional(),
+  reused: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Files of a split page kept because their subtree did not change'
+    ),
+  codeDiff: z.string().optional()
+};
+
+export const ExtractActOutputSchema = {
+  sessionId,
+  component: z.string().describe('The page component the ACT was built from'),
+  act: ACTComponentSchema,
+  warnings: z
+    .array(z.string())
+    .describe('Constructs that could not be represented faithfully'),
+  diagnostics: z.array(ACTDiagnosticSchema)
+};
+
+export const CacheEntrySchema = z.object({
+  key: z.string(),
+  agent: z.enum(['planner', 'structure', 'merger']),
+  summary: z.string(),
+  createdAt: z.string(),
+  expiresAt: z.string(),
+  lastUsedAt: z.string(),
+  size: z.number().describe('Size in bytes')
+});
+
+export const CacheAdminOutputSchema = {
+  enabled: z.boolean(),
+  ttlMs: z.number(),
+  maxBytes: z.number(),
+  count: z.number().describe('Entries left in the cache'),
+  totalBytes: z.number(),
+  entries: z
+    .array(CacheEntrySchema)
+    .optional()
+    .describe('Matching entries, most recently used first, for list'),
+  removed: z.number().optional().describe('Entries removed, for clear')
+};
+
+export const RenderActOutputSchema = {
+  sessionId: sessionId
+    .optional()
+    .describe('Session the imported YAML ACT was recorded in'),
+  act: ACTComponentSchema,
+  outline: z.string().optional().describe('Indented markdown outline'),
+  mermaid: z.string().optional().describe('Mermaid flowchart source'),
+  html: z.string().optional().describe('Standalone HTML wireframe page'),
+  yaml: z.string().optional().describe('The ACT as YAML, for hand editing'),
+  diagnostics: z.array(ACTDiagnosticSchema)
+};
+
+export const ComponentDocSchema = z.object({
+  component: z.string(),
+  package: z.string(),
+  score: z.number().describe('Search relevance; higher is better'),
+  summary: z.string(),
+  props: z.array(
+    z.object({
+      name: z.string(),
+      type: z.string(),
+      description: z.string(),
+      default: z.string().optional()
+    })
+  ),
+  events: z.array(
+    z.object({ name: z.string(), type: z.string(), description: z.string() })
+  ),
+  examples: z.array(z.object({ title: z.string(), code: z.string() })),
+  related: z.array(z.string()),
+  matched: z.array(z.string()).describe('Props and events matching the query')
+});
+
+export const KendoDocsOutputSchema = {
+  sessionId: sessionId.optional().describe('Session whose ACT was resolved'),
+  results: z
+    .array(ComponentDocSchema)
+    .optional()
+    .describe('Best matches, for query and component lookups'),
+  nodes: z
+    .array(
+      z.object({
+        path: z.string().describe('JSON path of the node, e.g. $.children[0]'),
+        component: z.string(),
+        mcpQuery: z.string(),
+        results: z.array(ComponentDocSchema)
+      })
+    )
+    .optional()
+    .describe('Docs per ACT node with an mcpQuery, for ACT resolution')
+};
+
+export const A11yFindingSchema = z.object({
+  severity: z.enum(['error', 'warning']),
+  code: z.string().describe('Rule that produced the finding'),
+  wcag: z.array(z.string()).describe('WCAG 2.1 success criteria, e.g. 4.1.2'),
+  path: z.string().optional().describe('ACT node path, for tree findings'),
+  file: z.string().optional().describe('Generated file, for code findings'),
+  line: z.number().optional(),
+  column: z.number().optional(),
+  message: z.string()
+});
+
+export const A11yAuditOutputSchema = {
+  sessionId: sessionId
+    .optional()
+    .describe('Session whose artifacts were audited'),
+  passed: z.boolean().describe('False when any finding is an error'),
+  audited: z.object({
+    act: z.boolean().describe('Whether an ACT was audited'),
+    files: z.array(z.string()).describe('Code files audited')
+  }),
+  findings: z.array(A11yFindingSchema)
+};
+
+export const GeneratePagesOutputSchema = {
+  layout: z.object({
+    sessionId,
+    files: z.array(z.string()).describe('Paths of the layout files')
+  }),
+  pages: z.array(
+    z.object({
+      title: z.string(),
+      name: z.string().describe('Page component name'),
+      route: z.string(),
+      status: z.enum(['complete', 'failed']),
+      sessionId: sessionId.optional(),
+      error: z.string().optional().describe('Why the page failed'),
+      files: z.array(z.string()).describe('Paths of the page files')
+    })
+  ),
+  files: z
+    .array(GeneratedFileSchema)
+    .describe('Layout, page, navigation and route table files'),
+  written: z
+    .array(WrittenFileSchema)
+    .optional()
+    .describe('Files written to disk, when outputDir was given'),
+  writeError: z
+    .string()
+    .optional()
+    .describe('Why the files could not be written')
+};
@@ -0,0 +1,120 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { allowedBaseDirs } from './workspace.js';
+
+export const PROFILE_FILE = '.kendoai.json';
+
+/**
+ * Project profile read from `.kendoai.json`: the design-system context sent
+ * with every agent call so generated pages follow the project's theme,
+ * folder layout, form library and house rules. Unknown keys are rejected
+ * so typos do not silently drop context.
+ */
+export const ProjectProfileSchema = z
+  .object({
+    theme: z
+      .enum(['default', 'bootstrap', 'material', 'fluent', 'classic'])
+      .optional()
+      .describe('Kendo theme the project uses'),
+    swatch: z
+      .string()
+      .optional()
+      .describe('Theme swatch, e.g. "fluent-1-dark"'),
+    formLibrary: z
+      .enum(['kendo-form', 'react-hook-form', 'formik'])
+      .optional()
+      .describe('Library forms are built with'),
+    folders: z
+      .object({
+        pages: z.string(),
+        components: z.string(),
+        hooks: z.string(),
+        types: z.string(),
+        services: z.string(),
+        styles: z.string()
+      })
+      .partial()
+      .strict()
+      .optional()
+      .describe('Where each kind of file lives, relative to the project root'),
+    naming: z
+      .record(z.string())
+      .optional()
+      .describe(
+        'Naming conventions by subject, e.g. { "components": "PascalCase with a Page suffix" }'
+      ),
+    rules: z
+      .array(z.string().min(1))
+      .optional()
+      .describe('House rules stated in plain language')
+  })
+  .strict();
+
+export type ProjectProfile = z.infer<typeof ProjectProfileSchema>;
+
+export interface LoadedProfile {
+  /** Absolute path of the profile file. */
+  path: string;
+  profile: ProjectProfile;
+}
+
+export class ProfileError extends Error {
+  constructor(
+    message: string,
+    /** The profile file that failed to load. */
+    readonly path: string
+  ) {
+    super(message);
+    this.name = 'ProfileError';
+  }
+}
+
+/**
+ * Finds `.kendoai.json` in the directories allowedBaseDirs() grants the
+ * client, in that order, and validates it. Returns undefined when no profile exists;
+ * throws a ProfileError when one exists but is not valid.
+ */
+export async function loadProjectProfile(
+  server: McpServer,
+  owner?: string
+): Promise<LoadedProfile | undefined> {
+  for (const base of await allowedBaseDirs(server, owner)) {
+    const file = path.join(base, PROFILE_FILE);
+
+    let text: string;
+    try {
+      text = await readFile(file, 'utf8');
+    } catch {
+      continue;
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch (error) {
+      throw new ProfileError(
+        `${file} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+        file
+      );
+    }
+
+    const parsed = ProjectProfileSchema.safeParse(json);
+    if (!parsed.success) {
+      throw new ProfileError(
+        `${file} does not match the profile schema: ` +
+          parsed.error.issues
+            .map(
+              (issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`
+            )
+            .join('; '),
+        file
+      );
+    }
+
+    return { path: file, profile: parsed.data };
+  }
+
+  return undefined;
+}
@@ -0,0 +1,352 @@
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+
+const FIELDS_DESCRIPTION =
+  'Comma-separated fields, optionally typed as name:type, e.g. "name:string, email:email, role:enum(admin|user), createdAt:date"';
+
+/** Splits a comma- or newline-separated argument into trimmed items. */
+function parseList(value: string | undefined) {
+  return (value ?? '')
+    .split(/[,\n]/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/** `name:type` items as markdown bullets, e.g. `- name (string)`. */
+function fieldList(value: string) {
+  return parseList(value).map((field) => {
+    const separator = field.indexOf(':');
+    return separator === -1
+      ? `- ${field}`
+      : `- ${field.slice(0, separator).trim()} (${field.slice(separator + 1).trim()})`;
+  });
+}
+
+function bullets(items: string[]) {
+  return items.map((item) => `- ${item}`);
+}
+
+/**
+ * The prompt message: the assembled page query and the instruction to
+ * start the pipeline with it.
+ */
+function pageRequest(title: string, sections: string[][]): GetPromptResult {
+  const query = [
+    title,
+    ...sections
+      .filter((section) => section.length > 1)
+      .map((section) => section.join('\n'))
+  ].join('\n\n');
+
+  return {
+    description: title,
+    messages: [
+      {
+        role: 'user',
+        content: {
+          type: 'text',
+          text: [
+            'Generate this Kendo React page with the KendoAI pipeline. Call `planner_tool` with the query below ' +
+              'as `query`, then continue with `structure_tool` and `merger_tool` using the returned session ID ' +
+              '(or call `generate_page` with the same query to run all stages at once).',
+            '',
+            '<query>',
+            query,
+            '</query>'
+          ].join('\n')
+        }
+      }
+    ]
+  };
+}
+
+/**
+ * Registers prompts for the page types built over and over: each takes
+ * typed arguments and expands into a structured query for planner_tool, so
+ * recurring pages are requested the same way every time.
+ */
+export function registerPagePrompts(server: McpServer) {
+  server.registerPrompt(
+    'crud-grid-page',
+    {
+      title: 'CRUD Grid Page',
+      description:
+        'A page listing one entity in a Kendo Grid with create, edit and delete, filtering, sorting and paging.',
+      argsSchema: {
+        entity: z.string().describe('Entity name, e.g. "Customer"'),
+        fields: z.string().describe(FIELDS_DESCRIPTION),
+        filters: z
+          .string()
+          .optional()
+          .describe('Comma-separated fields to filter by, e.g. "role, status"'),
+        editing: z
+          .string()
+          .optional()
+          .describe(
+            'How rows are edited: "inline", "dialog" (default) or "form page"'
+          ),
+        pageSize: z.string().optional().describe('Rows per page, default 20')
+      }
+    },
+    ({ entity, fields, filters, editing, pageSize }) =>
+      pageRequest(
+        `Create a ${entity} management page built around a Kendo React Grid.`,
+        [
+          ['## Columns', ...fieldList(fields)],
+          [
+            '## Grid Features',
+            ...bullets([
+              'Sorting on every column',
+              `Paging with ${pageSize ?? '20'} rows per page`,
+              `A toolbar with an "Add ${entity}" button and a search box`,
+              'An empty state when there are no records'
+            ])
+          ],
+          [
+            '## Filters',
+            ...bullets(parseList(filters).map((field) => `Filter by ${field}`))
+          ],
+          [
+            '## Create, Edit and Delete',
+            ...bullets([
+              `Create and edit ${entity} records in ${editing ?? 'a Dialog with a Kendo Form'}`,
+              'Validate required fields before saving',
+              'Ask for confirmation in a Dialog before deleting',
+              'Show a Notification after each save or delete'
+            ])
+          ]
+        ]
+      )
+  );
+
+  server.registerPrompt(
+    'master-detail-page',
+    {
+      title: 'Master-Detail Page',
+      description:
+        'A page with a master Grid and the detail records of the selected row, e.g. orders and their lines.',
+      argsSchema: {
+        master: z.string().describe('Master entity name, e.g. "Order"'),
+        masterFields: z.string().describe(FIELDS_DESCRIPTION),
+        detail: z.string().describe('Detail entity name, e.g. "Order Line"'),
+        detailFields: z.string().describe(FIELDS_DESCRIPTION),
+        layout: z
+          .string()
+          .optional()
+          .describe(
+            'Where the details appear: "expandable rows" (default), "side panel" or "below the grid"'
+          )
+      }
+    },
+    ({ master, masterFields, detail, detailFields, layout }) =>
+      pageRequest(
+        `Create a master-detail page for ${master} records and their ${detail} records.`,
+        [
+          [
+            '## Master Grid',
+            `A Kendo React Grid of ${master} records with these columns:`,
+            ...fieldList(masterFields)
+          ],
+          [
+            '## Details',
+            `Show the ${detail} records of a ${master} in ${layout ?? 'expandable rows of the master Grid'}, as a Grid with these columns:`,
+            ...fieldList(detailFields)
+          ],
+          [
+            '## Behavior',
+            ...bullets([
+              `Selecting a ${master} loads its ${detail} records`,
+              'Show a loading indicator while details load',
+              `Show an empty state when a ${master} has no ${detail} records`,
+              'Sorting and paging on the master Grid'
+            ])
+          ]
+        ]
+      )
+  );
+
+  server.registerPrompt(
+    'dashboard-page',
+    {
+      title: 'Dashboard Page',
+      description:
+        'A dashboard with KPI cards and Kendo Charts laid out in a responsive grid.',
+      argsSchema: {
+        subject: z
+          .string()
+          .describe('What the dashboard is about, e.g. "Sales"'),
+        kpis: z
+          .string()
+          .describe(
+            'Comma-separated KPIs for the summary cards, e.g. "revenue, orders, conversion rate"'
+          ),
+        charts: z
+          .string()
+          .describe(
+            'Comma-separated charts as title:type, e.g. "revenue by month:line, orders by region:column, channel share:donut"'
+          ),
+        filters: z
+          .string()
+          .optional()
+          .describe(
+            'Comma-separated dashboard-wide filters, e.g. "date range, region"'
+          )
+      }
+    },
+    ({ subject, kpis, charts, filters }) =>
+      pageRequest(`Create a ${subject} dashboard page.`, [
+        [
+          '## KPI Cards',
+          ...bullets(
+            parseList(kpis).map(
+              (kpi) => `${kpi}, with the change against the previous period`
+            )
+          )
+        ],
+        [
+          '## Charts',
+          ...parseList(charts).map((chart) => {
+            const [title, type] = chart.split(':').map((part) => part.trim());
+            return type
+              ? `- ${title}: Kendo React ${type} Chart`
+              : `- ${title}: Kendo React Chart`;
+          })
+        ],
+        [
+          '## Filters',
+          ...bullets(
+            parseList(filters).map(
+              (filter) =>
+                `${filter} filter that applies to every card and chart`
+            )
+          )
+        ],
+        [
+          '## Layout',
+          ...bullets([
+            'KPI cards in a row at the top, charts in a responsive grid below',
+            'Loading indicators while data loads',
+            'Chart tooltips and legends'
+          ])
+        ]
+      ])
+  );
+
+  server.registerPrompt(
+    'form-wizard',
+    {
+      title: 'Multi-step Form Wizard',
+      description:
+        'A multi-step form with a Stepper, per-step validation and a review step before submitting.',
+      argsSchema: {
+        purpose: z
+          .string()
+          .describe('What the wizard does, e.g. "Employee onboarding"'),
+        steps: z
+          .string()
+          .describe(
+            'Steps separated by semicolons, each as "Title: field, field", e.g. "Account: email:email, password; Profile: name, birthDate:date"'
+          ),
+        submitAction: z
+          .string()
+          .optional()
+          .describe('What happens on submit, e.g. "POST to /api/employees"')
+      }
+    },
+    ({ purpose, steps, submitAction }) => {
+      const stepSections = steps
+        .split(';')
+        .map((step) => step.trim())
+        .filter(Boolean)
+        .map((step, index) => {
+          const separator = step.indexOf(':');
+          const title =
+            separator === -1 ? step : step.slice(0, separator).trim();
+          const fields = separator === -1 ? '' : step.slice(separator + 1);
+          return [`### Step ${index + 1}: ${title}`, ...fieldList(fields)];
+        });
+
+      return pageRequest(`Create a multi-step form wizard for ${purpose}.`, [
+        [
+          '## Steps',
+          ...stepSections.map((section) => section.join('\n')),
+          '### Final Step: Review',
+          '- Summary of every value entered, with links back to each step'
+        ],
+        [
+          '## Behavior',
+          ...bullets([
+            'A Kendo React Stepper showing progress, with Back and Next buttons',
+            'Validate the current step before moving on; show errors next to the fields',
+            'Keep entered values when moving back and forth',
+            `Submit from the review step: ${submitAction ?? 'call an onSubmit handler with all values'}`,
+            'Show a success message after submitting'
+          ])
+        ]
+      ]);
+    }
+  );
+
+  server.registerPrompt(
+    'scheduler-page',
+    {
+      title: 'Scheduler Page',
+      description:
+        'A page with a Kendo Scheduler for booking or planning events, with resources and an event editor.',
+      argsSchema: {
+        subject: z
+          .string()
+          .describe('What is scheduled, e.g. "Meeting room bookings"'),
+        eventFields: z
+          .string()
+          .optional()
+          .describe(
+            `Extra event fields beyond title, start and end. ${FIELDS_DESCRIPTION}`
+          ),
+        resources: z
+          .string()
+          .optional()
+          .describe(
+            'Comma-separated resources events are grouped by, e.g. "Room A, Room B"'
+          ),
+        views: z
+          .string()
+          .optional()
+          .describe('Comma-separated views, default "day, week, month, agenda"')
+      }
+    },
+    ({ subject, eventFields, resources, views }) =>
+      pageRequest(
+        `Create a scheduler page for ${subject} using the Kendo React Scheduler.`,
+        [
+          [
+            '## Views',
+            ...bullets(
+              parseList(views ?? 'day, week, month, agenda').map(
+                (view) => `${view} view`
+              )
+            )
+          ],
+          ['## Events', '- title, start, end', ...fieldList(eventFields ?? '')],
+          [
+            '## Resources',
+            ...bullets(
+              parseList(resources).map(
+                (resource) => `${resource}, with its own color`
+              )
+            )
+          ],
+          [
+            '## Behavior',
+            ...bullets([
+              'Create events by selecting a time slot, edit them in the event editor form',
+              'Drag to move and resize events',
+              'Prevent overlapping events for the same resource',
+              'A toolbar with date navigation and a "Today" button'
+            ])
+          ]
+        ]
+      )
+  );
+}
@@ -0,0 +1,323 @@
+import type { ActNode } from './types.js';
+
+/**
+ * Targeted edits and structural diffs for Abstract Component Trees, used by
+ * refine_tool to change an existing page without regenerating it from
+ * scratch. Nodes are addressed with the same JSON paths validate_act
+ * reports, e.g. `$.children[1].children[0]`.
+ */
+
+export type ActEdit =
+  | { op: 'add'; parent: string; index?: number; node: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; node: unknown }
+  | {
+      op: 'update';
+      path: string;
+      component?: string;
+      description?: string;
+      mcpQuery?: string | null;
+      text?: string;
+      id?: string;
+      /** Merged into the node's props. */
+      props?: ActNode['props'];
+      dataBinding?: ActNode['dataBinding'];
+      events?: ActNode['events'];
+      state?: ActNode['state'];
+    };
+
+export interface ActChange {
+  kind: 'added' | 'removed' | 'modified';
+  /** Path in the refined tree, or in the original tree for removals. */
+  path: string;
+  component: string;
+  /** Fields that differ, for modified nodes. */
+  fields?: string[];
+}
+
+export class RefineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RefineError';
+  }
+}
+
+const PATH_PATTERN = /^\$((?:\.children\[\d+\])*)$/;
+
+function parsePath(path: string): number[] {
+  const match = path.trim().match(PATH_PATTERN);
+  if (!match) {
+    throw new RefineError(
+      `Invalid node path "${path}". Use paths like $ or $.children[0].children[2].`
+    );
+  }
+  return [...match[1].matchAll(/\[(\d+)\]/g)].map((index) => Number(index[1]));
+}
+
+function nodeAt(root: ActNode, path: string): ActNode {
+  let node = root;
+  for (const index of parsePath(path)) {
+    if (!Array.isArray(node.children) || !node.children[index]) {
+      throw new RefineError(`No node at ${path}`);
+    }
+    node = node.children[index];
+  }
+  return node;
+}
+
+/** Splits a path into its parent node and the index within the parent. */
+function parentOf(root: ActNode, path: string): [ActNode, number] {
+  const indexes = parsePath(path);
+  if (indexes.length === 0) {
+    throw new RefineError('The root node cannot be removed or replaced.');
+  }
+  const index = indexes[indexes.length - 1];
+  const parent = nodeAt(
+    root,
+    '$' +
+      indexes
+        .slice(0, -1)
+        .map((i) => `.children[${i}]`)
+        .join('')
+  );
+  if (!Array.isArray(parent.children) || !parent.children[index]) {
+    throw new RefineError(`No node at ${path}`);
+  }
+  return [parent, index];
+}
+
+/**
+ * Applies edits in order to a copy of `tree`; each path refers to the tree
+ * as left by the previous edits.
+ */
+export function applyActEdits(tree: unknown, edits: ActEdit[]): unknown {
+  const root = structuredClone(tree) as ActNode;
+
+  for (const edit of edits) {
+    switch (edit.op) {
+      case 'add': {
+        const parent = nodeAt(root, edit.parent);
+        if (typeof parent.children === 'string') {
+          if (parent.children.trim()) {
+            throw new RefineError(
+              `${edit.parent} holds text content; replace it before adding child nodes.`
+            );
+          }
+          parent.children = [];
+        }
+        const index = edit.index ?? parent.children.length;
+        if (index > parent.children.length) {
+          throw new RefineError(
+            `${edit.parent} has ${parent.children.length} children; index ${index} is out of range.`
+          );
+        }
+        parent.children.splice(index, 0, edit.node as ActNode);
+        break;
+      }
+      case 'remove': {
+        const [parent, index] = parentOf(root, edit.path);
+        (parent.children as ActNode[]).splice(index, 1);
+        break;
+      }
+      case 'replace': {
+        const [parent, index] = parentOf(root, edit.path);
+        (parent.children as ActNode[])[index] = edit.node as ActNode;
+        break;
+      }
+      case 'update': {
+        const node = nodeAt(root, edit.path);
+        if (edit.component !== undefined) node.component = edit.component;
+        if (edit.description !== undefined) {
+          node.description = edit.description;
+        }
+        if (edit.mcpQuery !== undefined) node.mcpQuery = edit.mcpQuery;
+        if (edit.id !== undefined) node.id = edit.id;
+        if (edit.props !== undefined) {
+          node.props = { ...node.props, ...edit.props };
+        }
+        if (edit.dataBinding !== undefined) {
+          node.dataBinding = edit.dataBinding;
+        }
+        if (edit.events !== undefined) node.events = edit.events;
+        if (edit.state !== undefined) node.state = edit.state;
+        if (edit.text !== undefined) {
+          if (Array.isArray(node.children) && node.children.length > 0) {
+            throw new RefineError(
+              `${edit.path} has child nodes; remove them before setting text.`
+            );
+          }
+          node.children = edit.text;
+        }
+        break;
+      }
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Compares two trees node by node. Sibling lists are aligned on component
+ * names (longest common subsequence), so an inserted or removed node is
+ * reported once instead of shifting every sibling after it.
+ */
+export function diffAct(before: unknown, after: unknown): ActChange[] {
+  const changes: ActChange[] = [];
+  diffNode(before as ActNode, after as ActNode, '$', '$', changes);
+  return changes;
+}
+
+function diffNode(
+  before: ActNode,
+  after: ActNode,
+  beforePath: string,
+  afterPath: string,
+  changes: ActChange[]
+) {
+  const fields: string[] = [
+    ...(['component', 'description', 'mcpQuery'] as const).filter(
+      (field) => before[field] !== after[field]
+    ),
+    ...(['id', 'props', 'dataBinding', 'events', 'state'] as const).filter(
+      (field) => JSON.stringify(before[field]) !== JSON.stringify(after[field])
+    )
+  ];
+  if (textOf(before) !== textOf(after)) fields.push('text');
+  if (fields.length > 0) {
+    changes.push({
+      kind: 'modified',
+      path: afterPath,
+      component: after.component,
+      fields
+    });
+  }
+
+  const beforeList = Array.isArray(before.children) ? before.children : [];
+  const afterList = Array.isArray(after.children) ? after.children : [];
+  const anchors: [number, number][] = [
+    ...alignSiblings(beforeList, afterList),
+    [beforeList.length, afterList.length]
+  ];
+
+  let i = 0;
+  let j = 0;
+  for (const [matchI, matchJ] of anchors) {
+    for (; i < matchI; i++) {
+      changes.push({
+        kind: 'removed',
+        path: `${beforePath}.children[${i}]`,
+        component: beforeList[i].component
+      });
+    }
+    for (; j < matchJ; j++) {
+      changes.push({
+        kind: 'added',
+        path: `${afterPath}.children[${j}]`,
+        component: afterList[j].component
+      });
+    }
+    if (matchI < beforeList.length) {
+      diffNode(
+        beforeList[i],
+        afterList[j],
+        `${beforePath}.children[${i}]`,
+        `${afterPath}.children[${j}]`,
+        changes
+      );
+      i++;
+      j++;
+    }
+  }
+}
+
+function textOf(node: ActNode) {
+  return typeof node.children === 'string' ? node.children : '';
+}
+
+/** Index pairs of the longest common subsequence by component name. */
+function alignSiblings(a: ActNode[], b: ActNode[]): [number, number][] {
+  const table = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] =
+        a[i].component === b[j].component
+          ? table[i + 1][j + 1] + 1
+          : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i].component === b[j].component) {
+      pairs.push([i++, j++]);
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+export function formatActChanges(changes: ActChange[]) {
+  if (changes.length === 0) return '_No structural changes._';
+
+  return changes
+    .map((change) => {
+      switch (change.kind) {
+        case 'added':
+          return `- ➕ Added \`${change.component}\` at \`${change.path}\``;
+        case 'removed':
+          return `- ➖ Removed \`${change.component}\` from \`${change.path}\``;
+        case 'modified':
+          return `- ✏️ Modified \`${change.component}\` at \`${change.path}\` (${change.fields?.join(', ')})`;
+      }
+    })
+    .join('\n');
+}
+
+/**
+ * Builds the plan sent to the structure agent for a natural-language
+ * refinement: the change plus the current ACT (or page code when no ACT is
+ * available), with instructions to leave everything else untouched.
+ */
+export function refinementPlan(
+  change: string,
+  current: { act?: unknown; code?: string }
+) {
+  const lines = [
+    '# Refinement of an Existing Page',
+    '',
+    `**Change request:** ${change}`,
+    ''
+  ];
+
+  if (current.act !== undefined) {
+    lines.push(
+      'Return the complete Abstract Component Tree below with only this change applied. ' +
+        'Keep every other node exactly as it is: same component, description, mcpQuery, ' +
+        'children and order.',
+      '',
+      '## Current Abstract Component Tree',
+      '```json',
+      JSON.stringify(current.act, null, 2),
+      '```'
+    );
+  } else {
+    lines.push(
+      'Return the Abstract Component Tree of the page below with this change applied. ' +
+        'Describe the unchanged parts of the page as they are implemented.',
+      '',
+      '## Current Page Code',
+      '```tsx',
+      (current.code ?? '').trimEnd(),
+      '```'
+    );
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,285 @@
+import { YAMLParseError, parse, stringify } from 'yaml';
+import { isKendoComponent, lookupComponent } from './catalog.js';
+import { validateAct } from './validation.js';
+import type { ACTDiagnostic } from './validation.js';
+import type { ActNode } from './types.js';
+
+/**
+ * Human-readable views of an Abstract Component Tree for reviewing it
+ * before code generation: an indented outline, a Mermaid diagram and an
+ * HTML wireframe, plus YAML export and import for editing it by hand.
+ */
+
+export type RenderFormat = 'outline' | 'mermaid' | 'html' | 'yaml';
+
+export const RENDER_FORMATS: RenderFormat[] = [
+  'outline',
+  'mermaid',
+  'html',
+  'yaml'
+];
+
+export class ActFormatError extends Error {
+  constructor(
+    message: string,
+    readonly diagnostics: ACTDiagnostic[] = []
+  ) {
+    super(message);
+    this.name = 'ActFormatError';
+  }
+}
+
+/** Longest description shown in a Mermaid node before it is cut off. */
+const MERMAID_DESCRIPTION_LENGTH = 60;
+
+function isKendo(component: string) {
+  const entry = lookupComponent(component);
+  return entry !== undefined && isKendoComponent(entry);
+}
+
+function truncate(text: string, length: number) {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+/** The v2 fields of a node in short form, e.g. `data: users, onRowClick`. */
+function nodeDetails(node: ActNode) {
+  return [
+    ...Object.entries(node.props ?? {}).map(
+      ([name, value]) => `${name}=${JSON.stringify(value)}`
+    ),
+    ...(node.dataBinding ? [`data: ${node.dataBinding.source}`] : []),
+    ...(node.state ?? []).map((state) => `state: ${state.name}`),
+    ...(node.events ?? []).map((event) => event.name)
+  ];
+}
+
+/**
+ * The tree as nested list items, one node per line:
+ * `Component "text" - description (props, data, state, events)`.
+ */
+export function renderOutline(act: unknown) {
+  const lines: string[] = [];
+
+  const visit = (node: ActNode, depth: number) => {
+    const text =
+      typeof node.children === 'string' && node.children
+        ? ` "${node.children}"`
+        : '';
+    const description = node.description ? ` - ${node.description}` : '';
+    const details = nodeDetails(node);
+    lines.push(
+      `${'  '.repeat(depth)}- **${node.component}**${text}${description}` +
+        (details.length > 0 ? ` (${details.join(', ')})` : '')
+    );
+    if (Array.isArray(node.children)) {
+      for (const child of node.children) visit(child, depth + 1);
+    }
+  };
+
+  visit(act as ActNode, 0);
+  return lines.join('\n');
+}
+
+/** Escapes text for a quoted Mermaid label, where HTML entities are `#name;`. */
+function mermaidText(text: string) {
+  return text
+    .replace(/\s+/g, ' ')
+    .replace(/#/g, '#35;')
+    .replace(/"/g, '#quot;')
+    .replace(/</g, '#lt;')
+    .replace(/>/g, '#gt;');
+}
+
+/**
+ * A top-down Mermaid flowchart with one box per node, labelled with its
+ * component, text and shortened description. Kendo components and layout
+ * elements get different classes so they can be told apart at a glance.
+ */
+export function renderMermaid(act: unknown) {
+  const nodes: string[] = [];
+  const edges: string[] = [];
+  const kendo: string[] = [];
+  const layout: string[] = [];
+  let next = 0;
+
+  const visit = (node: ActNode) => {
+    const id = `n${next++}`;
+    const label = [
+      `<b>${mermaidText(node.component)}</b>`,
+      ...(typeof node.children === 'string' && node.children
+        ? [`#quot;${mermaidText(node.children)}#quot;`]
+        : []),
+      ...(node.description
+        ? [mermaidText(truncate(node.description, MERMAID_DESCRIPTION_LENGTH))]
+        : [])
+    ].join('<br/>');
+    nodes.push(`  ${id}["${label}"]`);
+    (isKendo(node.component) ? kendo : layout).push(id);
+
+    if (Array.isArray(node.children)) {
+      for (const child of node.children) {
+        edges.push(`  ${id} --> ${visit(child)}`);
+      }
+    }
+    return id;
+  };
+
+  visit(act as ActNode);
+  return [
+    'graph TD',
+    ...nodes,
+    ...edges,
+    '  classDef kendo fill:#fff1ee,stroke:#ff6358,color:#222',
+    '  classDef layout fill:#f5f5f5,stroke:#999,stroke-dasharray:4 2,color:#222',
+    ...(kendo.length > 0 ? [`  class ${kendo.join(',')} kendo`] : []),
+    ...(layout.length > 0 ? [`  class ${layout.join(',')} layout`] : [])
+  ].join('\n');
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const WIREFRAME_STYLE = `
+  body { font-family: system-ui, sans-serif; margin: 24px; color: #222; background: #fff; }
+  .node { border: 1px solid #ff6358; border-radius: 4px; margin: 8px 0; padding: 8px 12px; background: #fff1ee33; }
+  .node.layout { border: 1px dashed #999; background: #fafafa; }
+  .label { font-size: 13px; }
+  .component { font-weight: 600; }
+  .kendo > .label > .component { color: #d6402a; }
+  .description { color: #666; margin-left: 6px; }
+  .text { margin-top: 6px; padding: 4px 8px; background: #eee; border-radius: 3px; display: inline-block; }
+  .details { font-size: 12px; color: #666; font-family: ui-monospace, monospace; margin-top: 4px; }
+  .legend { font-size: 12px; color: #666; margin-bottom: 16px; }`;
+
+/**
+ * A standalone HTML page drawing the tree as nested boxes: solid boxes for
+ * Kendo components, dashed ones for layout elements. Each box carries its
+ * JSON path in `data-path` so it can be matched to validate_act diagnostics
+ * and refine_tool edits.
+ */
+export function renderHtmlWireframe(act: unknown, title = 'ACT Wireframe') {
+  const box = (node: ActNode, path: string, depth: number): string => {
+    const indent = '  '.repeat(depth + 2);
+    const kind = isKendo(node.component) ? 'kendo' : 'layout';
+    const lines = [
+      `${indent}<div class="node ${kind}" data-path="${path}"${node.id ? ` data-id="${escapeHtml(node.id)}"` : ''} title="${escapeHtml(node.mcpQuery ?? '')}">`,
+      `${indent}  <div class="label"><span class="component">${escapeHtml(node.component)}</span><span class="description">${escapeHtml(node.description)}</span></div>`
+    ];
+    const details = nodeDetails(node);
+    if (details.length > 0) {
+      lines.push(
+        `${indent}  <div class="details">${escapeHtml(details.join(', '))}</div>`
+      );
+    }
+    if (Array.isArray(node.children)) {
+      node.children.forEach((child, index) => {
+        lines.push(box(child, `${path}.children[${index}]`, depth + 1));
+      });
+    } else if (node.children) {
+      lines.push(
+        `${indent}  <div class="text">${escapeHtml(node.children)}</div>`
+      );
+    }
+    lines.push(`${indent}</div>`);
+    return lines.join('\n');
+  };
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '  <meta charset="utf-8">',
+    `  <title>${escapeHtml(title)}</title>`,
+    `  <style>${WIREFRAME_STYLE}\n  </style>`,
+    '</head>',
+    '<body>',
+    '  <div class="legend">Solid boxes are Kendo React components, dashed boxes are layout elements.</div>',
+    box(act as ActNode, '$', 0),
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+}
+
+const FIELD_ORDER: (keyof ActNode)[] = [
+  'version',
+  'id',
+  'component',
+  'description',
+  'mcpQuery',
+  'props',
+  'dataBinding',
+  'events',
+  'state'
+];
+
+function inSchemaOrder(node: ActNode): ActNode {
+  const ordered: Record<string, unknown> = {};
+  for (const field of FIELD_ORDER) {
+    if (node[field] !== undefined) ordered[field] = node[field];
+  }
+  ordered.children = Array.isArray(node.children)
+    ? node.children.map(inSchemaOrder)
+    : node.children;
+  return ordered as ActNode;
+}
+
+/** The tree as YAML, with the node fields in schema order. */
+export function actToYaml(act: unknown) {
+  return stringify(inSchemaOrder(act as ActNode), { lineWidth: 0 });
+}
+
+/**
+ * Parses a hand-edited YAML (or JSON, which is valid YAML) ACT and checks
+ * its shape. Diagnostics that do not concern the shape, such as unknown
+ * components, are returned rather than thrown.
+ */
+export function actFromYaml(text: string) {
+  let act: unknown;
+  try {
+    act = parse(text);
+  } catch (error) {
+    if (error instanceof YAMLParseError) {
+      throw new ActFormatError(
+        `The YAML could not be parsed: ${error.message}`
+      );
+    }
+    throw error;
+  }
+  return { act, diagnostics: assertRenderable(act) };
+}
+
+/** Parses an actStructure passed as a JSON string, like validate_act does. */
+export function parseActStructure(actStructure: unknown) {
+  if (typeof actStructure !== 'string') return actStructure;
+  try {
+    return JSON.parse(actStructure);
+  } catch (error) {
+    throw new ActFormatError(
+      `The actStructure string is not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Throws an ActFormatError when the tree does not have the ACT node shape,
+ * since none of the views can be drawn from it. Returns all diagnostics.
+ */
+export function assertRenderable(act: unknown) {
+  const { diagnostics } = validateAct(act);
+  const shapeErrors = diagnostics.filter(
+    (diagnostic) => diagnostic.code === 'invalid-shape'
+  );
+  if (shapeErrors.length > 0) {
+    throw new ActFormatError(
+      'The tree is not a valid Abstract Component Tree.',
+      shapeErrors
+    );
+  }
+  return diagnostics;
+}
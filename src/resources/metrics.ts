@@ -0,0 +1,30 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { metrics } from '../metrics.js';
+
+export const METRICS_URI = 'kendoai://metrics';
+
+/**
+ * Exposes the server's counters: per-tool latency and errors, and per agent
+ * endpoint the upstream statuses, latency, payload sizes and cache hits.
+ */
+export function registerMetricsResource(server: McpServer) {
+  server.registerResource(
+    'metrics',
+    METRICS_URI,
+    {
+      title: 'Server metrics',
+      description:
+        'Tool call latency and errors, and upstream agent status codes, latency, payload sizes and cache hits since the server started.',
+      mimeType: 'application/json'
+    },
+    async (uri) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: 'application/json',
+          text: JSON.stringify(metrics.snapshot(), null, 2)
+        }
+      ]
+    })
+  );
+}
@@ -0,0 +1,48 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { PROFILE_FILE, ProfileError, loadProjectProfile } from '../profile.js';
+import { allowedBaseDirs } from '../workspace.js';
+
+export const PROFILE_URI = 'kendoai://profile';
+
+/**
+ * Exposes the project profile sent with every agent call, so users can see
+ * which design-system context is being applied, or why none is.
+ */
+export function registerProfileResource(server: McpServer, owner?: string) {
+  server.registerResource(
+    'profile',
+    PROFILE_URI,
+    {
+      title: 'Active project profile',
+      description: `The ${PROFILE_FILE} design-system context (theme, folders, form library, naming, house rules) sent with every agent call.`,
+      mimeType: 'application/json'
+    },
+    async (uri) => {
+      let body: Record<string, unknown>;
+      try {
+        const loaded = await loadProjectProfile(server, owner);
+        body = loaded
+          ? { path: loaded.path, profile: loaded.profile }
+          : {
+              path: null,
+              profile: null,
+              searched: await allowedBaseDirs(server, owner),
+              message: `No ${PROFILE_FILE} found; agents are called without project context.`
+            };
+      } catch (error) {
+        if (!(error instanceof ProfileError)) throw error;
+        body = { path: error.path, profile: null, error: error.message };
+      }
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify(body, null, 2)
+          }
+        ]
+      };
+    }
+  );
+}
@@ -0,0 +1,202 @@
+import {
+  ResourceTemplate,
+  type McpServer
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Resource } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ARTIFACT_NAMES,
+  sessionArtifacts,
+  sessionStore,
+  sessionUri
+} from '../sessions.js';
+import type { ArtifactName, GenerationSession } from '../sessions.js';
+import { collectGeneratedFiles, formatSource } from '../workspace.js';
+import { logger, serializeError } from '../logger.js';
+
+const MIME_TYPES: Record<ArtifactName, string> = {
+  plan: 'text/markdown',
+  act: 'application/json',
+  code: 'text/tsx'
+};
+
+const ARTIFACT_TITLES: Record<ArtifactName, string> = {
+  plan: 'Execution plan',
+  act: 'Abstract Component Tree',
+  code: 'Generated code'
+};
+
+function describeSession(session: GenerationSession) {
+  const query = session.query ?? 'No query recorded';
+  return query.length > 80 ? `${query.slice(0, 77)}...` : query;
+}
+
+function artifactResources(session: GenerationSession): Resource[] {
+  return sessionArtifacts(session).map((artifact) => ({
+    uri: sessionUri(session.id, artifact),
+    name: `${session.id}/${artifact}`,
+    title: `${ARTIFACT_TITLES[artifact]}: ${describeSession(session)}`,
+    mimeType: MIME_TYPES[artifact]
+  }));
+}
+
+function variable(value: string | string[]) {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Exposes generation sessions as `kendoai://sessions/{sessionId}` (a JSON
+ * summary) and `kendoai://sessions/{sessionId}/{plan|act|code}`, with
+ * list-changed notifications for new sessions and artifacts and
+ * resources/updated notifications for subscribed URIs.
+ */
+export function registerSessionResources(server: McpServer, owner?: string) {
+  const subscriptions = new Set<string>();
+
+  const completeSessionId = async (value: string) =>
+    (await sessionStore.list(owner))
+      .map((session) => session.id)
+      .filter((id) => id.startsWith(value));
+
+  server.registerResource(
+    'session',
+    new ResourceTemplate('kendoai://sessions/{sessionId}', {
+      list: async () => ({
+        resources: (await sessionStore.list(owner)).map((session) => ({
+          uri: sessionUri(session.id),
+          name: session.id,
+          title: `Session: ${describeSession(session)}`,
+          mimeType: 'application/json'
+        }))
+      }),
+      complete: { sessionId: completeSessionId }
+    }),
+    {
+      title: 'Generation Session',
+      description:
+        'Query, timestamps and artifact URIs of a page generation session.'
+    },
+    async (uri, { sessionId }) => {
+      const session = await sessionStore.get(variable(sessionId), owner);
+      if (!session) throw new Error(`Unknown session: ${uri.href}`);
+
+      const summary = {
+        id: session.id,
+        query: session.query,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt,
+        artifacts: Object.fromEntries(
+          sessionArtifacts(session).map((artifact) => [
+            artifact,
+            sessionUri(session.id, artifact)
+          ])
+        )
+      };
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify(summary, null, 2)
+          }
+        ]
+      };
+    }
+  );
+
+  server.registerResource(
+    'session-artifact',
+    new ResourceTemplate('kendoai://sessions/{sessionId}/{artifact}', {
+      list: async () => ({
+        resources: (await sessionStore.list(owner)).flatMap(artifactResources)
+      }),
+      complete: {
+        sessionId: completeSessionId,
+        artifact: (value) =>
+          ARTIFACT_NAMES.filter((name) => name.startsWith(value))
+      }
+    }),
+    {
+      title: 'Generation Artifact',
+      description:
+        'The plan (markdown), ACT (JSON) or generated code (TSX) of a page generation session. ' +
+        'Pass the session ID to structure_tool or merger_tool instead of copying artifacts.'
+    },
+    async (uri, variables) => {
+      const artifact = variable(variables.artifact) as ArtifactName;
+      const session = await sessionStore.get(
+        variable(variables.sessionId),
+        owner
+      );
+      if (!session || !ARTIFACT_NAMES.includes(artifact)) {
+        throw new Error(`Unknown resource: ${uri.href}`);
+      }
+
+      if (artifact === 'code' && session.code) {
+        return {
+          contents: collectGeneratedFiles(session.code).map((file, index) => ({
+            uri:
+              index === 0
+                ? uri.href
+                : `${uri.href}#${encodeURIComponent(file.path)}`,
+            mimeType: MIME_TYPES.code,
+            text: formatSource(file.content)
+          }))
+        };
+      }
+
+      const value = session[artifact];
+      if (value === undefined) {
+        throw new Error(`Session ${session.id} has no ${artifact} yet`);
+      }
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: MIME_TYPES[artifact],
+            text:
+              typeof value === 'string' ? value : JSON.stringify(value, null, 2)
+          }
+        ]
+      };
+    }
+  );
+
+  server.server.registerCapabilities({
+    resources: { subscribe: true, listChanged: true }
+  });
+  server.server.setRequestHandler(SubscribeRequestSchema, ({ params }) => {
+    subscriptions.add(params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, ({ params }) => {
+    subscriptions.delete(params.uri);
+    return {};
+  });
+
+  const unsubscribe = sessionStore.subscribe((event) => {
+    if (event.session.owner !== owner || !server.isConnected()) return;
+
+    const { id } = event.session;
+    const changed =
+      event.type === 'created'
+        ? [sessionUri(id)]
+        : [sessionUri(id), ...event.artifacts.map((a) => sessionUri(id, a))];
+
+    server.sendResourceListChanged();
+    for (const uri of changed.filter((uri) => subscriptions.has(uri))) {
+      server.server.sendResourceUpdated({ uri }).catch((error) => {
+        logger.withServer(server, () =>
+          logger.warning('resource.update_failed', {
+            uri,
+            error: serializeError(error)
+          })
+        );
+      });
+    }
+  });
+  server.server.onclose = unsubscribe;
+}
@@ -1,592 +1,901 @@
 import { z } from 'zod';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { env } from './env.js';
+import { configSources, env } from './env.js';
 import dedent from 'dedent';
 import { ACTComponentSchema } from './types.js';
-
-const server = new McpServer({
-  name: 'kendoai-mcp',
-  version: '1.0.0'
-});
-
-server.registerTool(
-  'planner_tool',
-  {
-    title: 'Kendo React Page Planner',
-    description: dedent`
-      **PRIMARY TOOL** - Must be called first when creating Kendo React pages.
+import { startHttpServer } from './http.js';
+import { generateCode, generatePlan, generateStructure } from './agents.js';
+import type { MergerResponse } from './agents.js';
+import {
+  agentErrorResult,
+  dataModelErrorResult,
+  profileErrorResult,
+  sessionErrorResult
+} from './errors.js';
+import { registerGeneratePageTool } from './tools/generatePage.js';
+import { registerValidateActTool } from './tools/validateAct.js';
+import { registerRefineTool } from './tools/refine.js';
+import { registerExtractActTool } from './tools/extractAct.js';
+import { registerCacheAdminTool } from './tools/cacheAdmin.js';
+import { registerRenderActTool } from './tools/renderAct.js';
+import { registerKendoDocsTool } from './tools/kendoDocs.js';
+import { registerA11yAuditTool } from './tools/a11yAudit.js';
+import { registerGeneratePagesTool } from './tools/generatePages.js';
+import { registerSessionResources } from './resources/sessions.js';
+import { registerProfileResource } from './resources/profile.js';
+import { registerMetricsResource } from './resources/metrics.js';
+import { registerPagePrompts } from './prompts/archetypes.js';
+import { formatDiagnostics, validateAct } from './validation.js';
+import {
+  WorkspaceError,
+  allowedBaseDirs,
+  collectGeneratedFiles,
+  formatSource,
+  resolveOutputDir,
+  writeGeneratedFiles
+} from './workspace.js';
+import type { WrittenFile } from './workspace.js';
+import {
+  analyzeDependencies,
+  findProjectDir,
+  formatDependencyReport,
+  parseManifest,
+  readProjectManifest
+} from './dependencies.js';
+import type { ProjectManifest } from './dependencies.js';
+import {
+  SessionError,
+  formatSessionReference,
+  sessionStore
+} from './sessions.js';
+import type { GenerationSession } from './sessions.js';
+import { DEFAULT_SPLIT_BOUNDARIES, generateSplitCode } from './split.js';
+import type { SplitLayout } from './split.js';
+import { BYPASS_CACHE_DESCRIPTION } from './cache.js';
+import {
+  formatVerificationReport,
+  verifyGeneratedCodeInWorker
+} from './verify.js';
+import { ProfileError, loadProjectProfile } from './profile.js';
+import {
+  DATA_MODEL_DESCRIPTION,
+  DataModelError,
+  DataModelInputSchema,
+  bindEntity,
+  parseDataModel,
+  withModelFile
+} from './dataModel.js';
+import type { VerificationReport } from './verify.js';
+import { logger, serializeError } from './logger.js';
+import { instrumentTools } from './metrics.js';
+import {
+  MergerOutputSchema,
+  PlannerOutputSchema,
+  StructureOutputSchema
+} from './outputSchemas.js';
+
+
+const PLANNER_HINTS = [
+  '1. **Check your query** - Ensure it clearly describes what you want to build',
+  '2. **Simplify your request** - Break complex requirements into smaller parts',
+  '3. **Example of a good query:** "Create a user management dashboard with a data grid showing ' +
+    'user information, filters for search, and buttons to add/edit/delete users using Kendo React components"'
+];
+
+const STRUCTURE_HINTS = [
+  "1. **Verify execution plan** - Ensure you're passing the complete plan from planner_tool",
+  '2. **Validate query** - Ensure the original query is included and matches the plan'
+];
+
+const MERGER_HINTS = [
+  "1. **Verify ACT structure** - Ensure you're passing the complete Abstract Component Tree from structure_tool",
+  '2. **Check component types** - Verify all component names are valid Kendo React components (run validate_act)',
+  '3. **Review component hierarchy** - Ensure the nesting structure is logical'
+];
+
+const SESSION_ID_DESCRIPTION =
+  'Generation session to continue, as returned by an earlier tool call. Its stored artifacts ' +
+  'are used for omitted inputs and the results are recorded into it. A new session is started when omitted.';
+
+const INCLUDE_INSTRUCTIONS_DESCRIPTION =
+  'Append the detailed step-by-step instructions to the text output. The payload is always ' +
+  'returned, both in the text and as structuredContent.';
+
+/**
+ * Builds an MCP server with the Kendo page generation tools registered.
+ * The HTTP transport calls this once per session with the authenticated
+ * client, which owns the generation sessions it creates; stdio uses a
+ * single instance with no owner.
+ */
+export function createServer(owner?: string) {
+  const server = new McpServer(
+    {
+      name: 'kendoai-mcp',
+      version: '1.0.0'
+    },
+    { capabilities: { logging: {} } }
+  );
+  instrumentTools(server);
+
+  server.registerTool(
+    'planner_tool',
+    {
+      title: 'Kendo React Page Planner',
+      description: dedent`
+        **PRIMARY TOOL** - Must be called first when creating Kendo React pages.
       
-      This tool analyzes user requirements and generates a comprehensive execution plan for building 
-      a page with Kendo React components. It breaks down complex UI requirements into structured, 
-      actionable steps that guide the subsequent tools in the pipeline.
+        This tool analyzes user requirements and generates a comprehensive execution plan for building 
+        a page with Kendo React components. It breaks down complex UI requirements into structured, 
+        actionable steps that guide the subsequent tools in the pipeline.
       
-      **When to use:** Always call this tool first when the user requests:
-      - Creating a new page with Kendo React components
-      - Building forms, dashboards, grids, or any UI with Kendo components
-      - Converting mockups or designs to Kendo React implementations
+        **When to use:** Always call this tool first when the user requests:
+        - Creating a new page with Kendo React components
+        - Building forms, dashboards, grids, or any UI with Kendo components
+        - Converting mockups or designs to Kendo React implementations
       
-      **Expected output:** A detailed markdown plan containing:
-      - Component breakdown and hierarchy
-      - Layout structure recommendations
-      - State management requirements
-      - Kendo-specific component suggestions
-      - Implementation priority and dependencies
-    `,
-    inputSchema: {
-      query: z
-        .string()
-        .describe(
-          'The complete user request for page creation. Include all requirements, features, ' +
-            'UI elements, functionality, styling preferences, and any specific Kendo components mentioned. ' +
-            'The more detailed the query, the better the generated plan will be.'
-        )
-    }
-  },
-  async ({ query }) => {
-    try {
-      const response = await fetch(
-        `${env.SERVER_URL}/api/agents/planner/generate`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({ query, secret: env.SECRET })
-        }
-      );
-
-      const result = await response.json();
+        **Expected output:** A detailed markdown plan containing:
+        - Component breakdown and hierarchy
+        - Layout structure recommendations
+        - State management requirements
+        - Kendo-specific component suggestions
+        - Implementation priority and dependencies
+      `,
+      inputSchema: {
+        query: z
+          .string()
+          .describe(
+            'The complete user request for page creation. Include all requirements, features, ' +
+              'UI elements, functionality, styling preferences, and any specific Kendo components mentioned. ' +
+              'The more detailed the query, the better the generated plan will be.'
+          ),
+        sessionId: z.string().optional().describe(SESSION_ID_DESCRIPTION),
+        dataModel: DataModelInputSchema.optional().describe(
+          DATA_MODEL_DESCRIPTION
+        ),
+        bypassCache: z
+          .boolean()
+          .default(false)
+          .describe(BYPASS_CACHE_DESCRIPTION),
+        includeInstructions: z
+          .boolean()
+          .default(false)
+          .describe(INCLUDE_INSTRUCTIONS_DESCRIPTION)
+      },
+      outputSchema: PlannerOutputSchema
+    },
+    async (
+      { query, sessionId, dataModel, bypassCache, includeInstructions },
+      { signal }
+    ) => {
+      try {
+        const existing = await sessionStore.resolve(sessionId, owner);
+        const entity = dataModel ? parseDataModel(dataModel) : existing?.entity;
+        const profile = (await loadProjectProfile(server, owner))?.profile;
+        const result = await generatePlan(query, {
+          signal,
+          profile,
+          bypassCache,
+          dataModel: entity,
+          owner
+        });
+        const session = await sessionStore.record(existing, owner, {
+          query,
+          plan: result.plan,
+          ...(entity ? { entity } : {})
+        });
+
+        const summary = [
+          '## 📋 Kendo React Page Generation Plan',
+          '',
+          `**NEXT STEP:** Use the 'structure_tool' with the original query and session ID \`${session.id}\` (or this plan) to generate the Abstract Component Tree.`,
+          '',
+          '### Execution Plan:',
+          result.plan
+        ].join('\n');
+
+        const instructions = dedent`
+          ### Instructions for Next Steps:
+          1. **Copy this entire plan** - You'll need to pass it to the structure_tool
+          2. **Call structure_tool** with both the original query and this execution plan
+          3. **Follow the plan systematically** - Each step builds upon the previous one
+          4. **Validate requirements** - Ensure all user requirements are captured in subsequent steps
+
+          **Important:** Do not proceed to implementation without first generating the component structure using the structure_tool.
+        `;
 
-      if (!result.success && !result.data) {
         return {
           content: [
             {
               type: 'text',
-              text: dedent`
-                ## ❌ Planner Tool API Error
-
-                **Error Details:**
-                ${
-                  result.error ||
-                  'Unknown error occurred while generating the execution plan'
-                }
-
-                **Troubleshooting Steps:**
-                1. **Check your query** - Ensure it clearly describes what you want to build
-                2. **Verify server connection** - The planning service may be temporarily unavailable
-                3. **Try again** - Temporary issues sometimes resolve with retry
-                4. **Simplify your request** - Break complex requirements into smaller parts
-
-                **Example of a good query:**
-                "Create a user management dashboard with a data grid showing user information, 
-                filters for search, and buttons to add/edit/delete users using Kendo React components"
-
-                **Timestamp:** ${new Date().toISOString()}
-              `
+              text: [
+                summary,
+                ...(includeInstructions ? [instructions] : []),
+                formatSessionReference(session)
+              ].join('\n\n')
             }
-          ]
+          ],
+          structuredContent: { sessionId: session.id, plan: result.plan }
         };
+      } catch (error) {
+        if (error instanceof SessionError) {
+          return sessionErrorResult('Planner Tool', error);
+        }
+        if (error instanceof ProfileError) {
+          return profileErrorResult('Planner Tool', error);
+        }
+        if (error instanceof DataModelError) {
+          return dataModelErrorResult('Planner Tool', error);
+        }
+        logger.error('agent.failed', {
+          tool: 'planner_tool',
+          error: serializeError(error)
+        });
+        return agentErrorResult('Planner Tool', error, PLANNER_HINTS);
       }
-
-      const instructions = dedent`
-        ## 📋 Kendo React Page Generation Plan
-
-        **NEXT STEP:** Use the 'structure_tool' with this plan and the original query to generate the Abstract Component Tree.
-
-        ### Execution Plan:
-        ${result.data.plan}
-
-        ### Instructions for Next Steps:
-        1. **Copy this entire plan** - You'll need to pass it to the structure_tool
-        2. **Call structure_tool** with both the original query and this execution plan
-        3. **Follow the plan systematically** - Each step builds upon the previous one
-        4. **Validate requirements** - Ensure all user requirements are captured in subsequent steps
-
-        **Important:** Do not proceed to implementation without first generating the component structure using the structure_tool.
-      `;
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: instructions
-          }
-        ]
-      };
-    } catch (error) {
-      console.error('❌ Planner Agent Error:', error);
-      return {
-        content: [
-          {
-            type: 'text',
-            text: dedent`
-              ## ⚠️ Planner Tool Network Error
-
-              **Connection Error:**
-              ${
-                error instanceof Error ? error.message : 'Unknown network error'
-              }
-
-              **Possible Causes:**
-              1. **Server unavailable** - The planning service endpoint may be down
-              2. **Network issues** - Check your internet connection
-              3. **Configuration error** - Verify SERVER_URL and SECRET in environment
-              4. **Timeout** - The request may have taken too long
-
-              **Next Steps:**
-              1. Check server status and retry in a few moments
-              2. Verify environment configuration
-              3. Contact administrator if issue persists
-
-              **Timestamp:** ${new Date().toISOString()}
-            `
-          }
-        ]
-      };
     }
-  }
-);
-
-server.registerTool(
-  'structure_tool',
-  {
-    title: 'Kendo React Component Structure Generator',
-    description: dedent`
-      **SECOND TOOL** - Call after planner_tool to generate the Abstract Component Tree (ACT).
+  );
+
+  server.registerTool(
+    'structure_tool',
+    {
+      title: 'Kendo React Component Structure Generator',
+      description: dedent`
+        **SECOND TOOL** - Call after planner_tool to generate the Abstract Component Tree (ACT).
       
-      This tool transforms the execution plan into a hierarchical component structure that defines
-      the architecture of your Kendo React page. It creates a tree representation showing how
-      components should be nested, their relationships, and specific Kendo component types to use.
+        This tool transforms the execution plan into a hierarchical component structure that defines
+        the architecture of your Kendo React page. It creates a tree representation showing how
+        components should be nested, their relationships, and specific Kendo component types to use.
       
-      **Purpose:**
-      - Converts abstract plans into concrete component hierarchies
-      - Identifies optimal Kendo React components for each UI element
-      - Defines component relationships and data flow
-      - Provides MCP queries for component-specific documentation
+        **Purpose:**
+        - Converts abstract plans into concrete component hierarchies
+        - Identifies optimal Kendo React components for each UI element
+        - Defines component relationships and data flow
+        - Provides MCP queries for component-specific documentation
       
-      **Input Requirements:**
-      - Original user query (for context preservation)
-      - Complete execution plan from planner_tool
+        **Input Requirements:**
+        - Original user query (for context preservation)
+        - Complete execution plan from planner_tool
       
-      **Output:** Abstract Component Tree with:
-      - Component hierarchy and nesting structure
-      - Kendo-specific component recommendations
-      - Component descriptions and purposes
-      - MCP queries for detailed component documentation
-    `,
-    inputSchema: {
-      query: z
-        .string()
-        .describe(
-          'The original user request for page creation. Must be identical to the query used in planner_tool ' +
-            'to maintain consistency and context throughout the generation pipeline.'
+        **Output:** Abstract Component Tree with:
+        - Component hierarchy and nesting structure
+        - Kendo-specific component recommendations
+        - Component descriptions and purposes
+        - MCP queries for detailed component documentation
+      `,
+      inputSchema: {
+        query: z
+          .string()
+          .describe(
+            'The original user request for page creation. Must be identical to the query used in planner_tool ' +
+              'to maintain consistency and context throughout the generation pipeline.'
+          ),
+        plan: z
+          .string()
+          .optional()
+          .describe(
+            'Complete execution plan in markdown format from planner_tool. Should include component breakdown, ' +
+              'layout structure, state management requirements, and implementation steps. ' +
+              'May be omitted when sessionId refers to a session with a plan.'
+          ),
+        sessionId: z.string().optional().describe(SESSION_ID_DESCRIPTION),
+        dataModel: DataModelInputSchema.optional().describe(
+          DATA_MODEL_DESCRIPTION
         ),
-      plan: z
-        .string()
-        .describe(
-          'Complete execution plan in markdown format from planner_tool. Should include component breakdown, ' +
-            'layout structure, state management requirements, and implementation steps.'
-        )
-    }
-  },
-  async ({ plan, query }) => {
-    try {
-      const response = await fetch(
-        `${env.SERVER_URL}/api/agents/structure/generate`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({
-            executionPlan: {
-              id: `plan-${Date.now()}`,
-              userQuery: query,
-              plan
-            },
-            query,
-            secret: env.SECRET
-          })
+        bypassCache: z
+          .boolean()
+          .default(false)
+          .describe(BYPASS_CACHE_DESCRIPTION),
+        includeInstructions: z
+          .boolean()
+          .default(false)
+          .describe(INCLUDE_INSTRUCTIONS_DESCRIPTION)
+      },
+      outputSchema: StructureOutputSchema
+    },
+    async (
+      { plan, query, sessionId, dataModel, bypassCache, includeInstructions },
+      { signal }
+    ) => {
+      try {
+        const existing = await sessionStore.resolve(sessionId, owner);
+        const executionPlan = plan ?? existing?.plan;
+        if (executionPlan === undefined) {
+          throw new SessionError(
+            sessionId
+              ? `Session "${sessionId}" has no plan yet. Run planner_tool with this sessionId first, or pass plan.`
+              : 'Either plan or sessionId is required.'
+          );
         }
-      );
 
-      const result = await response.json();
+        const entity = dataModel ? parseDataModel(dataModel) : existing?.entity;
+        const profile = (await loadProjectProfile(server, owner))?.profile;
+        const result = await generateStructure(query, executionPlan, {
+          signal,
+          profile,
+          bypassCache,
+          dataModel: entity,
+          owner
+        });
+        const bound = entity && bindEntity(result.structure, entity);
+        const act = bound ? bound.act : result.structure;
+        const session = await sessionStore.record(existing, owner, {
+          query,
+          plan: executionPlan,
+          act,
+          ...(entity ? { entity } : {})
+        });
+
+        const summary = [
+          '## 🏗️ Abstract Component Tree (ACT) Generated',
+          '',
+          `**NEXT STEP:** Use the 'merger_tool' with session ID \`${session.id}\` (or this ACT structure) to generate the final Kendo React code.`,
+          '',
+          ...(bound && bound.notes.length > 0
+            ? [
+                `### Bound to ${entity.name}:`,
+                ...bound.notes.map((note) => `- ${note}`),
+                ''
+              ]
+            : []),
+          '### Component Structure:',
+          '```json',
+          JSON.stringify(act, null, 2),
+          '```'
+        ].join('\n');
+
+        const instructions = dedent`
+          ### Instructions for Next Steps:
+          1. **Validate the structure** - Review the component hierarchy and ensure it matches your requirements; call render_act with the session ID for an outline, diagram or wireframe
+          2. **Copy the ACT structure** - Pass this exact structure (or just the session ID) to the merger_tool
+          3. **Call merger_tool** with the ACT structure or session ID to generate the final React code
+          4. **Review component choices** - Ensure the selected Kendo components align with your needs
+
+          ### What This Structure Provides:
+          - **Hierarchical layout** - Shows how components nest within each other
+          - **Component types** - Specific Kendo React components recommended for each element
+          - **Descriptions** - Purpose and functionality of each component
+          - **MCP queries** - Specific queries to get detailed component documentation if needed
+
+          **Important:** This structure serves as the blueprint for code generation. Verify it captures all your requirements before proceeding to the merger_tool.
+        `;
 
-      if (!result.success && !result.data) {
         return {
           content: [
             {
               type: 'text',
-              text: dedent`
-                ## ❌ Structure Tool API Error
-
-                **Error Details:**
-                ${
-                  result.error ||
-                  'Unknown error occurred while generating the component structure'
-                }
-
-                **Troubleshooting Steps:**
-                1. **Verify execution plan** - Ensure you're passing the complete plan from planner_tool
-                2. **Check plan format** - The execution plan should be in the correct object format
-                3. **Validate query** - Ensure the original query is included and matches the plan
-                4. **Retry the request** - Temporary service issues may resolve automatically
-
-                **Required Input Format:**
-                - query: Original user request string
-                - executionPlan: Complete plan object with id, userQuery, plan, and createdAt
-
-                **Timestamp:** ${new Date().toISOString()}
-              `
+              text: [
+                summary,
+                ...(includeInstructions ? [instructions] : []),
+                formatSessionReference(session)
+              ].join('\n\n')
             }
-          ]
+          ],
+          structuredContent: { sessionId: session.id, act }
         };
+      } catch (error) {
+        if (error instanceof SessionError) {
+          return sessionErrorResult('Structure Tool', error);
+        }
+        if (error instanceof ProfileError) {
+          return profileErrorResult('Structure Tool', error);
+        }
+        if (error instanceof DataModelError) {
+          return dataModelErrorResult('Structure Tool', error);
+        }
+        logger.error('agent.failed', {
+          tool: 'structure_tool',
+          error: serializeError(error)
+        });
+        return agentErrorResult('Structure Tool', error, STRUCTURE_HINTS);
+      }
+    }
+  );
+
+  server.registerTool(
+    'merger_tool',
+    {
+      title: 'Kendo React Code Generator',
+      description: dedent`
+        **FINAL TOOL** - Call after structure_tool to generate production-ready Kendo React code.
+      
+        This tool transforms the Abstract Component Tree (ACT) into complete, functional React code
+        using Kendo React components. It generates TypeScript/JSX code with proper imports,
+        component structure, styling, and event handling.
+      
+        **Purpose:**
+        - Converts ACT structure into executable React code
+        - Applies Kendo React best practices and patterns
+        - Generates proper imports and component configurations
+        - Creates responsive layouts with Kendo styling
+        - Implements state management and event handling
+      
+        **Code Generation Features:**
+        - TypeScript support with proper typing
+        - Responsive design with Kendo themes
+        - Proper component composition and props
+        - Event handlers and state management
+        - Accessibility features and ARIA attributes (check them with a11y_audit)
+        - Error boundaries and loading states
+      
+        **Input:** Abstract Component Tree from structure_tool
+        **Output:** Complete React page with detailed implementation instructions
+      `,
+      inputSchema: {
+        actStructure: ACTComponentSchema.optional().describe(
+          'The complete Abstract Component Tree structure generated by structure_tool. This hierarchical ' +
+            'structure defines the component layout, types, descriptions, and relationships. Must contain ' +
+            'all necessary information for code generation including component types, nesting hierarchy, ' +
+            'and any specific Kendo component configurations. May be omitted when sessionId refers to a ' +
+            'session with an ACT. v1 trees (without version, id, props, dataBinding, events and state) ' +
+            'are migrated to ACT v2 before code generation.'
+        ),
+        sessionId: z.string().optional().describe(SESSION_ID_DESCRIPTION),
+        dataModel: DataModelInputSchema.optional().describe(
+          DATA_MODEL_DESCRIPTION
+        ),
+        bypassCache: z
+          .boolean()
+          .default(false)
+          .describe(BYPASS_CACHE_DESCRIPTION),
+        skipValidation: z
+          .boolean()
+          .default(false)
+          .describe(
+            'Skip the offline ACT pre-flight check (unknown components, invalid nesting) before calling the code generator.'
+          ),
+        split: z
+          .union([z.boolean(), z.array(z.string()).min(1)])
+          .default(false)
+          .describe(
+            'Split the page into subcomponent files. `true` splits at ' +
+              DEFAULT_SPLIT_BOUNDARIES.join(', ') +
+              '; an array of component names sets the boundaries. Each split subtree becomes ' +
+              'components/<Name>.tsx, shared interfaces move to types.ts, and index.ts re-exports everything.'
+          ),
+        outputDir: z
+          .string()
+          .optional()
+          .describe(
+            'Directory to write the generated files into, absolute or relative to the first MCP root. ' +
+              'Must be inside an MCP root or the server\'s OUTPUT_BASE_DIR. When omitted, the code is only returned.'
+          ),
+        fileName: z
+          .string()
+          .optional()
+          .describe(
+            'File name for the main component, e.g. "UsersPage.tsx". Defaults to the exported component name.'
+          ),
+        overwrite: z
+          .boolean()
+          .default(false)
+          .describe(
+            'Replace existing files in outputDir. Without it, the call refuses to write if any target file exists.'
+          ),
+        projectDir: z
+          .string()
+          .optional()
+          .describe(
+            'Project directory containing package.json and the lockfile, used to list only missing packages. ' +
+              'Same location rules as outputDir. Defaults to the nearest package.json above outputDir.'
+          ),
+        packageJson: z
+          .string()
+          .optional()
+          .describe(
+            'Contents of the project package.json, for clients whose files the server cannot read. Takes precedence over projectDir.'
+          ),
+        lockfile: z
+          .string()
+          .optional()
+          .describe(
+            'Lockfile name used with packageJson to pick the package manager, e.g. "pnpm-lock.yaml" or "yarn.lock".'
+          ),
+        verify: z
+          .boolean()
+          .default(false)
+          .describe(
+            'Typecheck the generated code in memory against the Kendo type declarations installed in the project ' +
+              '(projectDir, or the project found above outputDir) and report the diagnostics by file and line.'
+          ),
+        includeInstructions: z
+          .boolean()
+          .default(false)
+          .describe(
+            'Append the full implementation checklist (typecheck, lint, build, testing, common issues) to the text output.'
+          )
+      },
+      outputSchema: MergerOutputSchema
+    },
+    async (
+      {
+        actStructure,
+        sessionId,
+        dataModel,
+        bypassCache,
+        skipValidation,
+        split,
+        outputDir,
+        fileName,
+        overwrite,
+        projectDir,
+        packageJson,
+        lockfile,
+        verify,
+        includeInstructions
+      },
+      { signal }
+    ) => {
+      let existing: GenerationSession | undefined;
+      try {
+        existing = await sessionStore.resolve(sessionId, owner);
+      } catch (error) {
+        if (!(error instanceof SessionError)) throw error;
+        return sessionErrorResult('Code Generator', error);
       }
 
-      const instructions = dedent`
-        ## 🏗️ Abstract Component Tree (ACT) Generated
-
-        **NEXT STEP:** Use the 'merger_tool' with this ACT structure to generate the final Kendo React code.
-
-        ### Component Structure:
-        ${JSON.stringify(result.data.structure, null, 2)}
-
-        ### Instructions for Next Steps:
-        1. **Validate the structure** - Review the component hierarchy and ensure it matches your requirements
-        2. **Copy the ACT structure** - You'll need to pass this exact structure to the merger_tool
-        3. **Call merger_tool** with the ACT structure to generate the final React code
-        4. **Review component choices** - Ensure the selected Kendo components align with your needs
-
-        ### What This Structure Provides:
-        - **Hierarchical layout** - Shows how components nest within each other
-        - **Component types** - Specific Kendo React components recommended for each element
-        - **Descriptions** - Purpose and functionality of each component
-        - **MCP queries** - Specific queries to get detailed component documentation if needed
+      const act = actStructure ?? existing?.act;
+      if (act === undefined) {
+        return sessionErrorResult(
+          'Code Generator',
+          new SessionError(
+            sessionId
+              ? `Session "${sessionId}" has no ACT yet. Run structure_tool with this sessionId first, or pass actStructure.`
+              : 'Either actStructure or sessionId is required.'
+          )
+        );
+      }
 
-        **Important:** This structure serves as the blueprint for code generation. Verify it captures all your requirements before proceeding to the merger_tool.
-      `;
+      if (!skipValidation) {
+        const validation = validateAct(act);
+        if (!validation.valid) {
+          return {
+            isError: true,
+            content: [
+              {
+                type: 'text',
+                text: [
+                  '## ❌ ACT Pre-flight Check Failed',
+                  '',
+                  'The Abstract Component Tree was not sent to the code generator because it has errors:',
+                  '',
+                  formatDiagnostics(validation.diagnostics),
+                  '',
+                  '**Next Steps:**',
+                  '1. Fix the nodes at the listed paths (use the suggested component names for typos)',
+                  '2. Re-run validate_act to confirm the tree is clean',
+                  '3. Call merger_tool again, or pass `skipValidation: true` to bypass the check'
+                ].join('\n')
+              }
+            ]
+          };
+        }
+      }
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: instructions
+      try {
+        const entity = dataModel ? parseDataModel(dataModel) : existing?.entity;
+        const profile = (await loadProjectProfile(server, owner))?.profile;
+        const options = {
+          signal,
+          profile,
+          bypassCache,
+          dataModel: entity,
+          owner
+        };
+        const result: { code: MergerResponse['code']; split?: SplitLayout } =
+          split === false
+            ? await generateCode(act, options)
+            : await generateSplitCode(
+                act,
+                split === true ? DEFAULT_SPLIT_BOUNDARIES : split,
+                fileName,
+                options
+              );
+        const code = entity ? withModelFile(result.code, entity) : result.code;
+        const session = await sessionStore.record(existing, owner, {
+          act,
+          code,
+          ...(result.split ? { split: result.split } : {}),
+          ...(entity ? { entity } : {})
+        });
+
+        const files = collectGeneratedFiles(code, fileName).map((file) => ({
+          path: file.path,
+          content: formatSource(file.content)
+        }));
+        const [mainFile, ...extraFiles] = files;
+        const bases =
+          outputDir || projectDir ? await allowedBaseDirs(server, owner) : [];
+
+        let written: WrittenFile[] | undefined;
+        let writeError: string | undefined;
+        let target: string | undefined;
+        if (outputDir) {
+          try {
+            target = await resolveOutputDir(outputDir, bases);
+            written = await writeGeneratedFiles(target, files, overwrite);
+          } catch (error) {
+            if (!(error instanceof WorkspaceError)) throw error;
+            writeError = error.message;
           }
-        ]
-      };
-    } catch (error) {
-      console.error('❌ Structure Agent Error:', error);
-      return {
-        content: [
-          {
-            type: 'text',
-            text: dedent`
-              ## ⚠️ Structure Tool Network Error
-
-              **Connection Error:**
-              ${
-                error instanceof Error ? error.message : 'Unknown network error'
-              }
+        }
 
-              **Possible Causes:**
-              1. **Server unavailable** - The structure service endpoint may be down
-              2. **Invalid execution plan** - The plan format may not be recognized
-              3. **Network issues** - Check your internet connection
-              4. **Configuration error** - Verify SERVER_URL and SECRET in environment
+        let manifest: ProjectManifest | undefined;
+        let manifestError: string | undefined;
+        let projectRoot: string | undefined;
+        try {
+          if (projectDir) {
+            projectRoot = await resolveOutputDir(projectDir, bases);
+          } else if (target) {
+            projectRoot = findProjectDir(target, bases);
+          }
+          if (packageJson) {
+            manifest = parseManifest(packageJson, lockfile);
+          } else if (projectRoot) {
+            manifest = await readProjectManifest(projectRoot);
+          }
+        } catch (error) {
+          logger.warning('manifest.read_failed', {
+            error: serializeError(error)
+          });
+          manifestError =
+            error instanceof Error ? error.message : String(error);
+        }
 
-              **Next Steps:**
-              1. Verify the execution plan is properly formatted
-              2. Check server status and retry
-              3. Ensure you're using the plan from planner_tool
-              4. Contact administrator if issue persists
+        const verification: VerificationReport | undefined = verify
+          ? await verifyGeneratedCodeInWorker(files, projectRoot)
+          : undefined;
+
+        const codeSection = written
+          ? [
+              '### Files Written:',
+              ...written.map((file) => `- \`${file.path}\` (${file.status})`),
+              ...written
+                .filter((file) => file.diff)
+                .map((file) => ['', '```diff', file.diff, '```'].join('\n'))
+            ].join('\n')
+          : [
+              ...(writeError
+                ? [`### ⚠️ Files Not Written\n${writeError}`, '']
+                : []),
+              '### Generated Code:',
+              '```tsx',
+              mainFile.content.trimEnd(),
+              '```',
+              ...extraFiles.flatMap((file) => [
+                '',
+                `#### ${file.path}`,
+                '```' + (file.path.match(/\.(tsx?|css|json)$/)?.[1] ?? ''),
+                file.content.trimEnd(),
+                '```'
+              ])
+            ].join('\n');
+
+        const dependencies = {
+          ...analyzeDependencies(files, manifest, profile?.theme),
+          ...(manifestError ? { manifestError } : {})
+        };
 
-              **Timestamp:** ${new Date().toISOString()}
+        const createStep = written
+          ? dedent`
+              ### Step 1: Review the Written Files
+              1. **Review the code** - Open the files listed above and check imports and component usage
+              2. **Review the diffs** - For overwritten files, confirm the changes shown above are intended
             `
-          }
-        ]
-      };
-    }
-  }
-);
-
-server.registerTool(
-  'merger_tool',
-  {
-    title: 'Kendo React Code Generator',
-    description: dedent`
-      **FINAL TOOL** - Call after structure_tool to generate production-ready Kendo React code.
-      
-      This tool transforms the Abstract Component Tree (ACT) into complete, functional React code
-      using Kendo React components. It generates TypeScript/JSX code with proper imports,
-      component structure, styling, and event handling.
-      
-      **Purpose:**
-      - Converts ACT structure into executable React code
-      - Applies Kendo React best practices and patterns
-      - Generates proper imports and component configurations
-      - Creates responsive layouts with Kendo styling
-      - Implements state management and event handling
-      
-      **Code Generation Features:**
-      - TypeScript support with proper typing
-      - Responsive design with Kendo themes
-      - Proper component composition and props
-      - Event handlers and state management
-      - Accessibility features and ARIA attributes
-      - Error boundaries and loading states
-      
-      **Input:** Abstract Component Tree from structure_tool
-      **Output:** Complete React page with detailed implementation instructions
-    `,
-    inputSchema: {
-      actStructure: ACTComponentSchema.describe(
-        'The complete Abstract Component Tree structure generated by structure_tool. This hierarchical ' +
-          'structure defines the component layout, types, descriptions, and relationships. Must contain ' +
-          'all necessary information for code generation including component types, nesting hierarchy, ' +
-          'and any specific Kendo component configurations.'
-      )
-    }
-  },
-  async ({ actStructure }) => {
-    try {
-      const response = await fetch(
-        `${env.SERVER_URL}/api/agents/merger/generate`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({ actStructure, secret: env.SECRET })
+          : dedent`
+              ### Step 1: Create the React Component File
+              1. **Create the file** - Save the generated code to an appropriate location (e.g., \`src/components/GeneratedPage.tsx\`)
+              2. **Review the code** - Ensure all imports and component usage look correct
+              3. **Check file structure** - Verify the component follows React best practices
+            `;
+
+        const checklist = dedent`
+          ### Step 3: Validation & Error Resolution (Run in Order)
+          Execute these commands and fix any errors before proceeding to the next:
+
+          #### 3.1 TypeScript Compilation Check
+          \`\`\`bash
+          npx tsc --noEmit
+          \`\`\`
+          **Fix any TypeScript errors:**
+          - Import statements and module resolution
+          - Type definitions and interfaces
+          - Component prop types
+          - Missing type declarations
+
+          #### 3.2 ESLint Code Quality Check
+          \`\`\`bash
+          npm run lint  # or pnpm lint
+          \`\`\`
+          **Fix any ESLint errors:**
+          - Code style and formatting issues
+          - Unused variables and imports
+          - Missing dependencies in useEffect
+          - Accessibility violations
+
+          #### 3.3 Build Compilation
+          \`\`\`bash
+          npm run build  # or pnpm build
+          \`\`\`
+          **Fix any build errors:**
+          - Module resolution issues
+          - Missing dependencies
+          - Configuration problems
+          - Asset loading issues
+
+          #### 3.4 Code Formatting (if available)
+          \`\`\`bash
+          npm run prettier  # or pnpm prettier (if available)
+          \`\`\`
+
+          ### Step 4: Testing & Verification
+          1. **Start development server** - \`npm start\` or \`npm run dev\`
+          2. **Test component rendering** - Verify all Kendo components display correctly
+          3. **Test interactions** - Check buttons, inputs, and other interactive elements
+          4. **Test responsiveness** - Ensure layout works on different screen sizes
+          5. **Test data flow** - Verify state management and event handling
+
+          ### Step 5: Common Issues & Solutions
+
+          #### Missing Kendo Packages:
+          - Install specific packages: \`npm install @progress/kendo-react-[component-name]\`
+          - Add theme CSS: \`import '@progress/kendo-theme-${profile?.theme ?? 'default'}/dist/all.css'\`
+
+          #### Import Errors:
+          - Check component names match Kendo documentation
+          - Verify package versions are compatible
+          - Use correct import paths
+
+          #### TypeScript Errors:
+          - Add type definitions: \`npm install @types/[package-name]\`
+          - Use proper typing for Kendo components
+          - Define interfaces for data structures
+
+          #### Styling Issues:
+          - Import Kendo theme CSS in your main App component
+          - Apply proper CSS classes for layout
+          - Check responsive breakpoints
+
+          ### Success Criteria ✅
+          The implementation is complete when:
+          - [ ] TypeScript compilation passes without errors
+          - [ ] ESLint passes without warnings/errors  
+          - [ ] Build completes successfully
+          - [ ] All Kendo components render correctly
+          - [ ] Interactive elements function as expected
+          - [ ] Layout is responsive and accessible
+          - [ ] No console errors in browser dev tools
+
+          **🎉 Once all criteria are met, your Kendo React page is ready for production!**
+        `;
+
+        const sections = includeInstructions
+          ? [
+              codeSection,
+              '## 📋 Implementation Checklist',
+              createStep,
+              formatDependencyReport(dependencies),
+              checklist
+            ]
+          : [
+              codeSection,
+              formatDependencyReport(dependencies, '### 📦 Dependencies'),
+              verification?.passed && verification.typeChecked
+                ? "**NEXT STEP:** Save or review the files, install the missing packages, then run the project's build."
+                : '**NEXT STEP:** Save or review the files, install the missing packages, then run the ' +
+                  "project's typecheck, lint and build. Pass `includeInstructions: true` for the full checklist."
+            ];
+        if (verification) {
+          sections.splice(1, 0, formatVerificationReport(verification));
         }
-      );
-
-      const result = await response.json();
 
-      if (!result.success && !result.data) {
         return {
+          ...(writeError ? { isError: true } : {}),
           content: [
             {
               type: 'text',
-              text: dedent`
-                ## ❌ Code Generator API Error
-
-                **Error Details:**
-                ${
-                  result.error ||
-                  'Unknown error occurred while generating the Kendo React code'
-                }
-
-                **Troubleshooting Steps:**
-                1. **Verify ACT structure** - Ensure you're passing the complete Abstract Component Tree from structure_tool
-                2. **Check component types** - Verify all component names are valid Kendo React components
-                3. **Validate schema** - The ACT structure must follow the ACTComponentSchema format
-                4. **Review component hierarchy** - Ensure the nesting structure is logical
-
-                **Required Input Format:**
-                - actStructure: Complete ACT object with component, description, mcpQuery, and children fields
-                - All components should be valid Kendo React component names or HTML elements
-
-                **Common Issues:**
-                - Invalid component names (use "Grid", "Button", "Input", etc.)
-                - Missing or malformed component descriptions
-                - Incorrect nesting structure in children arrays
-
-                **Timestamp:** ${new Date().toISOString()}
-              `
+              text: [
+                writeError
+                  ? '## ⚠️ Kendo React Code Generated, but the Files Were Not Written'
+                  : '## 🚀 Kendo React Code Generated Successfully!',
+                ...sections,
+                formatSessionReference(session)
+              ].join('\n\n')
             }
-          ]
+          ],
+          structuredContent: {
+            sessionId: session.id,
+            files,
+            ...(written ? { written } : {}),
+            ...(writeError ? { writeError } : {}),
+            dependencies,
+            ...(verification ? { verification } : {})
+          }
         };
+      } catch (error) {
+        if (error instanceof ProfileError) {
+          return profileErrorResult('Code Generator', error);
+        }
+        if (error instanceof DataModelError) {
+          return dataModelErrorResult('Code Generator', error);
+        }
+        logger.error('agent.failed', {
+          tool: 'merger_tool',
+          error: serializeError(error)
+        });
+        return agentErrorResult('Code Generator', error, MERGER_HINTS);
       }
+    }
+  );
+
+  registerGeneratePageTool(server, owner);
+  registerValidateActTool(server);
+  registerRefineTool(server, owner);
+  registerExtractActTool(server, owner);
+  registerCacheAdminTool(server, owner);
+  registerRenderActTool(server, owner);
+  registerKendoDocsTool(server, owner);
+  registerA11yAuditTool(server, owner);
+  registerGeneratePagesTool(server, owner);
+  registerSessionResources(server, owner);
+  registerProfileResource(server, owner);
+  registerMetricsResource(server);
+  registerPagePrompts(server);
+  logger.attach(server);
+
+  return server;
+}
 
-      const instructions = dedent`
-        ## 🚀 Kendo React Code Generated Successfully!
-
-        ### Generated Code:
-        \`\`\`tsx
-        ${JSON.stringify(result.data.code.mainComponent, null, 2)}
-        \`\`\`
-
-        ## 📋 Implementation Checklist
-
-        ### Step 1: Create the React Component File
-        1. **Create the file** - Save the generated code to an appropriate location (e.g., \`src/components/GeneratedPage.tsx\`)
-        2. **Review the code** - Ensure all imports and component usage look correct
-        3. **Check file structure** - Verify the component follows React best practices
-
-        ### Step 2: Install Required Dependencies
-        **First, check your package.json for existing Kendo dependencies:**
-        \`\`\`bash
-        # Check current Kendo dependencies in package.json
-        cat package.json | grep -i kendo
-        \`\`\`
-
-        **Then install missing Kendo React packages:**
-        \`\`\`bash
-        # Install commonly needed Kendo packages (only if not already present):
-        npm install @progress/kendo-react-grid
-        npm install @progress/kendo-react-inputs
-        npm install @progress/kendo-react-layout
-        npm install @progress/kendo-react-buttons
-        npm install @progress/kendo-react-dateinputs
-        npm install @progress/kendo-react-dropdowns
-        npm install @progress/kendo-theme-default
-        \`\`\`
-
-        **After installation, check lints to identify any missing dependencies:**
-        \`\`\`bash
-        # Run linter to see what dependencies might be missing
-        npm run lint
-        \`\`\`
-        \`\`\`
-
-        ### Step 3: Validation & Error Resolution (Run in Order)
-        Execute these commands and fix any errors before proceeding to the next:
-
-        #### 3.1 TypeScript Compilation Check
-        \`\`\`bash
-        npx tsc --noEmit
-        \`\`\`
-        **Fix any TypeScript errors:**
-        - Import statements and module resolution
-        - Type definitions and interfaces
-        - Component prop types
-        - Missing type declarations
-
-        #### 3.2 ESLint Code Quality Check
-        \`\`\`bash
-        npm run lint  # or pnpm lint
-        \`\`\`
-        **Fix any ESLint errors:**
-        - Code style and formatting issues
-        - Unused variables and imports
-        - Missing dependencies in useEffect
-        - Accessibility violations
-
-        #### 3.3 Build Compilation
-        \`\`\`bash
-        npm run build  # or pnpm build
-        \`\`\`
-        **Fix any build errors:**
-        - Module resolution issues
-        - Missing dependencies
-        - Configuration problems
-        - Asset loading issues
-
-        #### 3.4 Code Formatting (if available)
-        \`\`\`bash
-        npm run prettier  # or pnpm prettier (if available)
-        \`\`\`
-
-        ### Step 4: Testing & Verification
-        1. **Start development server** - \`npm start\` or \`npm run dev\`
-        2. **Test component rendering** - Verify all Kendo components display correctly
-        3. **Test interactions** - Check buttons, inputs, and other interactive elements
-        4. **Test responsiveness** - Ensure layout works on different screen sizes
-        5. **Test data flow** - Verify state management and event handling
-
-        ### Step 5: Common Issues & Solutions
-
-        #### Missing Kendo Packages:
-        - Install specific packages: \`npm install @progress/kendo-react-[component-name]\`
-        - Add theme CSS: \`import '@progress/kendo-theme-default/dist/all.css'\`
-
-        #### Import Errors:
-        - Check component names match Kendo documentation
-        - Verify package versions are compatible
-        - Use correct import paths
-
-        #### TypeScript Errors:
-        - Add type definitions: \`npm install @types/[package-name]\`
-        - Use proper typing for Kendo components
-        - Define interfaces for data structures
-
-        #### Styling Issues:
-        - Import Kendo theme CSS in your main App component
-        - Apply proper CSS classes for layout
-        - Check responsive breakpoints
-
-        ### Success Criteria ✅
-        The implementation is complete when:
-        - [ ] TypeScript compilation passes without errors
-        - [ ] ESLint passes without warnings/errors  
-        - [ ] Build completes successfully
-        - [ ] All Kendo components render correctly
-        - [ ] Interactive elements function as expected
-        - [ ] Layout is responsive and accessible
-        - [ ] No console errors in browser dev tools
-
-        **🎉 Once all criteria are met, your Kendo React page is ready for production!**
-      `;
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: instructions
-          }
-        ]
-      };
-    } catch (error) {
-      console.error('❌ Merger Agent Error:', error);
-      return {
-        content: [
-          {
-            type: 'text',
-            text: dedent`
-              ## ⚠️ Code Generator Network Error
-
-              **Connection Error:**
-              ${
-                error instanceof Error ? error.message : 'Unknown network error'
-              }
-
-              **Possible Causes:**
-              1. **Server unavailable** - The code generation service endpoint may be down
-              2. **Invalid ACT structure** - The component tree format may not be recognized
-              3. **Network issues** - Check your internet connection
-              4. **Configuration error** - Verify SERVER_URL and SECRET in environment
-
-              **Next Steps:**
-              1. Verify the ACT structure is properly formatted
-              2. Check server status and retry
-              3. Ensure you're using the structure from structure_tool
-              4. Contact administrator if issue persists
-
-              **Debug Info:**
-              - Check that actStructure contains valid component data
-              - Verify component types are recognized Kendo components
-              - Ensure the structure follows the ACT schema
+async function main() {
+  logger.info('server.config', {
+    transport: env.MCP_TRANSPORT,
+    serverUrl: env.SERVER_URL,
+    configFile: configSources.configFile,
+    secretSource: configSources.secret,
+    secretTransport: env.SECRET_TRANSPORT
+  });
+  const { protocol, hostname } = new URL(env.SERVER_URL);
+  if (
+    protocol === 'http:' &&
+    !['localhost', '127.0.0.1', '[::1]'].includes(hostname)
+  ) {
+    logger.warning('server.insecure_url', {
+      serverUrl: env.SERVER_URL,
+      message: 'SERVER_URL is not https, so the secret is sent unencrypted'
+    });
+  }
 
-              **Timestamp:** ${new Date().toISOString()}
-            `
-          }
-        ]
-      };
-    }
+  if (env.MCP_TRANSPORT === 'http') {
+    await startHttpServer({
+      host: env.MCP_HTTP_HOST,
+      port: env.MCP_HTTP_PORT,
+      tokens: env.MCP_AUTH_TOKENS ?? [],
+      idleTimeoutMs: env.MCP_HTTP_IDLE_TIMEOUT_MS,
+      createMcpServer: createServer
+    });
+    logger.info('server.listening', {
+      url: `http://${env.MCP_HTTP_HOST}:${env.MCP_HTTP_PORT}/mcp`
+    });
+    return;
   }
-);
 
-async function main() {
   try {
     const transport = new StdioServerTransport();
-    await server.connect(transport);
+    await createServer().connect(transport);
   } catch (error) {
+    logger.error('server.start_failed', { error: serializeError(error) });
     process.exit(1);
   }
 }
 
-process.on('SIGINT', async () => {
-  console.log('\n🛑 Page Generation MCP: Shutting down...');
-  process.exit(0);
-});
-
-process.on('SIGTERM', async () => {
-  console.log('\n🛑 Page Generation MCP: Shutting down...');
-  process.exit(0);
-});
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    logger.info('server.shutdown', { signal });
+    process.exit(0);
+  });
+}
 
 main().catch((error) => {
-  console.error('❌ Page Generation MCP: Fatal error:', error);
+  logger.error('server.fatal', { error: serializeError(error) });
   process.exit(1);
 });
@@ -0,0 +1,258 @@
+import { randomUUID } from 'node:crypto';
+import {
+  mkdir,
+  readFile,
+  readdir,
+  rename,
+  rm,
+  writeFile
+} from 'node:fs/promises';
+import path from 'node:path';
+import { env } from './env.js';
+import type { MergerResponse } from './agents.js';
+import type { EntityModel } from './dataModel.js';
+import type { SplitLayout } from './split.js';
+
+export type ArtifactName = 'plan' | 'act' | 'code';
+
+export const ARTIFACT_NAMES: ArtifactName[] = ['plan', 'act', 'code'];
+
+/**
+ * One pipeline run: the query and whichever artifacts the planner,
+ * structure and merger stages have produced so far.
+ */
+export interface GenerationSession {
+  id: string;
+  /** Client that created the session in HTTP mode; unset over stdio. */
+  owner?: string;
+  query?: string;
+  plan?: string;
+  act?: unknown;
+  code?: MergerResponse['code'];
+  /** Entity the page is bound to, reused by later stages of the session. */
+  entity?: EntityModel;
+  /** How `code` was split into subcomponent files, if it was. */
+  split?: SplitLayout;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SessionArtifacts = Partial<
+  Pick<GenerationSession, 'query' | 'entity' | 'split' | ArtifactName>
+>;
+
+export type SessionEvent =
+  | { type: 'created'; session: GenerationSession }
+  | {
+      type: 'updated';
+      session: GenerationSession;
+      artifacts: ArtifactName[];
+    };
+
+export class SessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+const SESSION_ID = /^[\w-]{1,64}$/;
+
+export function sessionUri(id: string, artifact?: ArtifactName) {
+  return artifact
+    ? `kendoai://sessions/${id}/${artifact}`
+    : `kendoai://sessions/${id}`;
+}
+
+export function sessionArtifacts(session: GenerationSession): ArtifactName[] {
+  return ARTIFACT_NAMES.filter((name) => session[name] !== undefined);
+}
+
+/**
+ * Persists generation sessions as one JSON file each, so artifacts outlive
+ * the chat context and the server process. Sessions are scoped to their
+ * owner: a client never sees another client's sessions. A session expires
+ * `ttlMs` after its last update; past `maxCount` sessions the least recently
+ * updated are removed. 0 turns either limit off.
+ */
+export class SessionStore {
+  private readonly listeners = new Set<(event: SessionEvent) => void>();
+
+  constructor(
+    private readonly dir: string,
+    readonly ttlMs: number,
+    readonly maxCount: number
+  ) {}
+
+  async create(owner?: string, artifacts: SessionArtifacts = {}) {
+    const now = new Date().toISOString();
+    const session: GenerationSession = {
+      id: randomUUID(),
+      ...(owner ? { owner } : {}),
+      ...artifacts,
+      createdAt: now,
+      updatedAt: now
+    };
+    await this.save(session);
+    await this.prune();
+    this.emit({ type: 'created', session });
+    return session;
+  }
+
+  /** Returns the session, or undefined when it is unknown to this owner. */
+  async get(id: string, owner?: string) {
+    const session = await this.read(id);
+    if (!session || session.owner !== owner) return undefined;
+    if (this.expired(session)) {
+      await rm(this.file(id), { force: true });
+      return undefined;
+    }
+    return session;
+  }
+
+  /**
+   * Loads the session a tool call continues. Returns undefined when no ID is
+   * given, so the first recorded artifact starts a new session.
+   */
+  async resolve(id: string | undefined, owner?: string) {
+    if (id === undefined) return undefined;
+
+    const session = await this.get(id, owner);
+    if (!session) {
+      throw new SessionError(
+        `Unknown session "${id}". Omit sessionId to start a new session.`
+      );
+    }
+    return session;
+  }
+
+  /** Adds artifacts to `session`, creating it on the first recording. */
+  record(
+    session: GenerationSession | undefined,
+    owner: string | undefined,
+    artifacts: SessionArtifacts
+  ) {
+    return session
+      ? this.update(session, artifacts)
+      : this.create(owner, artifacts);
+  }
+
+  async update(session: GenerationSession, artifacts: SessionArtifacts) {
+    // New code drops the split layout of the old code unless it brings one.
+    const { split: _split, ...rest } = session;
+    const updated: GenerationSession = {
+      ...('code' in artifacts ? rest : session),
+      ...artifacts,
+      updatedAt: new Date().toISOString()
+    };
+    await this.save(updated);
+    this.emit({
+      type: 'updated',
+      session: updated,
+      artifacts: ARTIFACT_NAMES.filter((name) => name in artifacts)
+    });
+    return updated;
+  }
+
+  /** Sessions visible to `owner`, most recently updated first. */
+  async list(owner?: string) {
+    return (await this.readAll()).filter(
+      (session) => session.owner === owner && !this.expired(session)
+    );
+  }
+
+  subscribe(listener: (event: SessionEvent) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: SessionEvent) {
+    for (const listener of this.listeners) listener(event);
+  }
+
+  /** Drops expired sessions, then least recently updated ones over maxCount. */
+  private async prune() {
+    const sessions = await this.readAll();
+    const live = sessions.filter((session) => !this.expired(session));
+    const doomed = [
+      ...sessions.filter((session) => this.expired(session)),
+      ...(this.maxCount > 0 ? live.slice(this.maxCount) : [])
+    ];
+    await Promise.all(
+      doomed.map((session) => rm(this.file(session.id), { force: true }))
+    );
+  }
+
+  private expired(session: GenerationSession) {
+    return (
+      this.ttlMs > 0 && Date.parse(session.updatedAt) + this.ttlMs <= Date.now()
+    );
+  }
+
+  /** Every stored session of every owner, most recently updated first. */
+  private async readAll() {
+    let names: string[];
+    try {
+      names = await readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const sessions = await Promise.all(
+      names
+        .filter((name) => name.endsWith('.json'))
+        .map((name) =>
+          this.read(path.basename(name, '.json')).catch(() => undefined)
+        )
+    );
+    return sessions
+      .filter((session): session is GenerationSession => session !== undefined)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  private async read(id: string): Promise<GenerationSession | undefined> {
+    if (!SESSION_ID.test(id)) return undefined;
+    try {
+      return JSON.parse(await readFile(this.file(id), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  private file(id: string) {
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  /** Writes via a temporary file so readers never see a partial session. */
+  private async save(session: GenerationSession) {
+    await mkdir(this.dir, { recursive: true });
+    const temp = `${this.file(session.id)}.${process.pid}.tmp`;
+    await writeFile(temp, JSON.stringify(session, null, 2), 'utf8');
+    await rename(temp, this.file(session.id));
+  }
+}
+
+/**
+ * Tool output section pointing at the session so later calls can reference
+ * its artifacts by ID or URI instead of copying them.
+ */
+export function formatSessionReference(session: GenerationSession) {
+  return [
+    '### 🗂️ Session',
+    `**Session ID:** \`${session.id}\` - pass it as \`sessionId\` to continue this pipeline run`,
+    '',
+    ...sessionArtifacts(session).map(
+      (artifact) => `- ${artifact}: \`${sessionUri(session.id, artifact)}\``
+    )
+  ].join('\n');
+}
+
+export const sessionStore = new SessionStore(
+  path.join(env.KENDOAI_DATA_DIR, 'sessions'),
+  env.SESSION_TTL_MS,
+  env.SESSION_MAX_COUNT
+);
@@ -0,0 +1,438 @@
+import { isDeepStrictEqual } from 'node:util';
+import { generateCode } from './agents.js';
+import type { AgentCallOptions, MergerResponse } from './agents.js';
+import { collectGeneratedFiles } from './workspace.js';
+import { migrateAct } from './migrate.js';
+import type { ActNode } from './types.js';
+import type { GeneratedFile } from './workspace.js';
+
+/**
+ * Components split into their own files when merger_tool is called with
+ * `split: true`. Each keeps its whole subtree, e.g. a Grid with its toolbar
+ * and columns.
+ */
+export const DEFAULT_SPLIT_BOUNDARIES = [
+  'Form',
+  'Window',
+  'Dialog',
+  'Grid',
+  'TabStrip',
+  'Chart',
+  'Scheduler'
+];
+
+const IMPORT_STATEMENT = /^import[\s\S]*?from\s+['"][^'"]+['"];?$/gm;
+
+const COMPONENTS_DIR = 'components';
+const TYPES_FILE = 'types.ts';
+const BARREL_FILE = 'index.ts';
+
+/** Words skipped when naming a subcomponent after its description. */
+const NAME_STOPWORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'area',
+  'component',
+  'container',
+  'data',
+  'for',
+  'in',
+  'listing',
+  'main',
+  'of',
+  'on',
+  'primary',
+  'section',
+  'showing',
+  'the',
+  'to',
+  'with'
+]);
+
+export interface ActPart {
+  /** PascalCase component name, also the file name under components/. */
+  name: string;
+  act: unknown;
+}
+
+/** The page shell or a part, with the merger output it was generated into. */
+export interface SplitPiece {
+  /** Part name; absent for the page shell. */
+  name?: string;
+  act: unknown;
+  code: MergerResponse['code'];
+}
+
+/**
+ * How a page was split, kept in its session so refine_tool can regenerate
+ * only the pieces whose subtree changed.
+ */
+export interface SplitLayout {
+  boundaries: string[];
+  pieces: SplitPiece[];
+}
+
+export interface SplitCodeResult extends MergerResponse {
+  /** Absent when no boundary component was found and the page was not split. */
+  split?: SplitLayout;
+  /** Files of the pieces taken from `previous` instead of regenerated. */
+  reused: string[];
+}
+
+export interface SplitAct {
+  /** The page ACT with every part replaced by a reference node. */
+  page: unknown;
+  parts: ActPart[];
+}
+
+/**
+ * Cuts the outermost subtrees rooted at a boundary component out of the
+ * page ACT. The root itself is never split off.
+ */
+export function splitAct(act: unknown, boundaries: string[]): SplitAct {
+  const parts: ActPart[] = [];
+  const taken = new Set<string>();
+
+  const visit = (node: ActNode): ActNode => {
+    if (!Array.isArray(node.children)) return node;
+
+    return {
+      ...node,
+      children: node.children.map((child) => {
+        if (!boundaries.includes(child.component)) return visit(child);
+
+        const name = uniqueName(partName(child), taken);
+        parts.push({ name, act: child });
+        return {
+          ...(child.id ? { id: child.id } : {}),
+          component: name,
+          description:
+            `Renders the <${name} /> component imported from ` +
+            `'./${COMPONENTS_DIR}/${name}'. Do not re-implement it: ${child.description}`,
+          mcpQuery: null,
+          children: ''
+        };
+      })
+    };
+  };
+
+  return { page: visit(act as ActNode), parts };
+}
+
+function partName(node: ActNode) {
+  const component = node.component.replace(/[^A-Za-z0-9]/g, '');
+  const word = node.description
+    .split(/[^A-Za-z0-9]+/)
+    .map((candidate) => candidate.toLowerCase())
+    .find(
+      (candidate) =>
+        candidate.length > 1 &&
+        !NAME_STOPWORDS.has(candidate) &&
+        candidate !== component.toLowerCase() &&
+        !/^\d/.test(candidate)
+    );
+
+  return word
+    ? `${word[0].toUpperCase()}${word.slice(1)}${component}`
+    : `${component}Section`;
+}
+
+function uniqueName(base: string, taken: Set<string>) {
+  let name = base;
+  for (let index = 2; taken.has(name); index++) name = `${base}${index}`;
+  taken.add(name);
+  return name;
+}
+
+/**
+ * Generates a page split into subcomponents: one merger call for the page
+ * shell and one per part, run in parallel, then assembled into the main
+ * page, one file per part, a shared types file and a barrel index. Pieces
+ * whose subtree is unchanged since `previous` reuse its merger output.
+ */
+export async function generateSplitCode(
+  act: unknown,
+  boundaries: string[],
+  fileName: string | undefined,
+  options?: AgentCallOptions,
+  previous?: SplitLayout
+): Promise<SplitCodeResult> {
+  // Migrated first so the page and its parts share one set of node ids.
+  const { page, parts } = splitAct(migrateAct(act), boundaries);
+  if (parts.length === 0) {
+    return { ...(await generateCode(act, options)), reused: [] };
+  }
+
+  const pieces: { name?: string; act: unknown }[] = [{ act: page }, ...parts];
+  const reusable = pieces.map((piece) =>
+    previous?.pieces.find(
+      (candidate) =>
+        candidate.name === piece.name &&
+        isDeepStrictEqual(candidate.act, piece.act)
+    )
+  );
+  const [pageCode, ...partCodes] = await Promise.all(
+    pieces.map(
+      async (piece, index) =>
+        reusable[index]?.code ?? (await generateCode(piece.act, options)).code
+    )
+  );
+
+  const [main, ...pageExtras] = collectGeneratedFiles(pageCode, fileName);
+  // Copies, since the assembly below edits them and pageCode is kept in the layout.
+  const files: GeneratedFile[] = [
+    main,
+    ...pageExtras.map((file) => ({ ...file }))
+  ];
+  const reused = reusable[0] ? [main.path] : [];
+  const barrel: string[] = [];
+
+  parts.forEach((part, index) => {
+    const [partMain, ...partExtras] = collectGeneratedFiles(partCodes[index]);
+    const filePath = `${COMPONENTS_DIR}/${part.name}.tsx`;
+    if (reusable[index + 1]) reused.push(filePath);
+    files.push(
+      { path: filePath, content: partMain.content },
+      ...partExtras.map((extra) => ({
+        path: `${COMPONENTS_DIR}/${extra.path}`,
+        content: extra.content
+      }))
+    );
+
+    const exported = exportedComponent(partMain.content);
+    barrel.push(
+      exported === 'default'
+        ? `export { default as ${part.name} } from './${COMPONENTS_DIR}/${part.name}';`
+        : `export { ${exported} as ${part.name} } from './${COMPONENTS_DIR}/${part.name}';`
+    );
+    main.content = ensureImport(
+      main.content,
+      `./${COMPONENTS_DIR}/${part.name}`,
+      exported === 'default'
+        ? `import ${part.name} from './${COMPONENTS_DIR}/${part.name}';`
+        : `import { ${exported} as ${part.name} } from './${COMPONENTS_DIR}/${part.name}';`
+    );
+  });
+
+  const hoisted = hoistSharedTypes(files);
+  const mainExport = exportedComponent(main.content);
+  const mainModule = `./${main.path.replace(/\.tsx?$/, '')}`;
+  barrel.unshift(
+    mainExport === 'default'
+      ? `export { default } from '${mainModule}';`
+      : `export { ${mainExport} } from '${mainModule}';`
+  );
+  if (hoisted) barrel.push(`export * from './types';`);
+
+  return {
+    code: {
+      mainComponent: main.content,
+      fileName: main.path,
+      files: [
+        ...files.slice(1),
+        ...(hoisted ? [hoisted] : []),
+        { path: BARREL_FILE, content: barrel.join('\n') }
+      ]
+    },
+    split: {
+      boundaries,
+      pieces: pieces.map((piece, index) => ({
+        ...piece,
+        code: index === 0 ? pageCode : partCodes[index - 1]
+      }))
+    },
+    reused
+  };
+}
+
+/** `'default'`, or the name of the first exported PascalCase component. */
+export function exportedComponent(source: string) {
+  if (/export\s+default\s/.test(source)) return 'default';
+  return (
+    source.match(/export\s+(?:function|const|class)\s+([A-Z]\w*)/)?.[1] ??
+    'default'
+  );
+}
+
+/** Adds `statement` after the last import unless `specifier` is imported. */
+function ensureImport(source: string, specifier: string, statement: string) {
+  if (source.includes(`'${specifier}'`) || source.includes(`"${specifier}"`)) {
+    return source;
+  }
+
+  const imports = [...source.matchAll(IMPORT_STATEMENT)];
+  const last = imports.at(-1);
+  if (!last || last.index === undefined) return `${statement}\n${source}`;
+
+  const end = last.index + last[0].length;
+  return `${source.slice(0, end)}\n${statement}${source.slice(end)}`;
+}
+
+interface TypeDeclaration {
+  name: string;
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Moves top-level interface and type alias declarations out of the
+ * generated files into a shared `types.ts`, importing them back where they
+ * are used. A name declared differently in two files stays local to the
+ * later file, and so does a declaration using an imported name, which
+ * `types.ts` would not have. Returns undefined when there is nothing to hoist.
+ */
+export function hoistSharedTypes(
+  files: GeneratedFile[]
+): GeneratedFile | undefined {
+  const shared = new Map<string, string>();
+  const sources = files.filter((file) => /\.tsx?$/.test(file.path));
+
+  for (const file of sources) {
+    const declarations = hoistableDeclarations(file.content).filter(
+      (declaration) => {
+        const body = normalizeDeclaration(declaration.text);
+        const existing = shared.get(declaration.name);
+        if (existing !== undefined && existing !== body) return false;
+        shared.set(declaration.name, body);
+        return true;
+      }
+    );
+
+    for (const declaration of [...declarations].reverse()) {
+      file.content =
+        file.content.slice(0, declaration.start) +
+        file.content.slice(declaration.end).replace(/^\n{1,2}/, '');
+    }
+  }
+
+  if (shared.size === 0) return undefined;
+
+  for (const file of sources) {
+    const local = new Set(
+      typeDeclarations(file.content).map((declaration) => declaration.name)
+    );
+    const used = [...shared.keys()].filter(
+      (name) => !local.has(name) && mentions(file.content, name)
+    );
+    if (used.length === 0) continue;
+
+    const depth = file.path.split('/').length - 1;
+    const specifier = `${depth === 0 ? './' : '../'.repeat(depth)}types`;
+    file.content = ensureImport(
+      file.content,
+      specifier,
+      `import type { ${used.join(', ')} } from '${specifier}';`
+    );
+  }
+
+  return {
+    path: TYPES_FILE,
+    content: [...shared.values()].join('\n\n')
+  };
+}
+
+/**
+ * Finds top-level `interface` and `type` declarations by scanning from
+ * their keyword at the start of a line to the closing brace or semicolon
+ * at bracket depth zero.
+ */
+function typeDeclarations(source: string): TypeDeclaration[] {
+  const declarations: TypeDeclaration[] = [];
+  const pattern = /^(?:export\s+)?(interface|type)\s+([A-Z]\w*)\b/gm;
+
+  for (const match of source.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    let depth = 0;
+    let end = -1;
+
+    for (let i = start + match[0].length; i < source.length; i++) {
+      const char = source[i];
+      if ('{(['.includes(char)) depth++;
+      if ('})]'.includes(char)) {
+        depth--;
+        if (depth === 0 && match[1] === 'interface' && char === '}') {
+          end = i + 1;
+          break;
+        }
+      }
+      if (depth === 0 && char === ';' && match[1] === 'type') {
+        end = i + 1;
+        break;
+      }
+      if (depth === 0 && source.startsWith('\n\n', i)) {
+        end = i;
+        break;
+      }
+    }
+
+    declarations.push({
+      name: match[2],
+      text: source.slice(start, end === -1 ? source.length : end),
+      start,
+      end: end === -1 ? source.length : end
+    });
+  }
+
+  return declarations;
+}
+
+/**
+ * The type declarations of `source` that mention no imported name and no
+ * type declaration that itself has to stay in the file.
+ */
+function hoistableDeclarations(source: string) {
+  const all = typeDeclarations(source);
+  const imported = importedNames(source);
+  let hoistable = all;
+  for (;;) {
+    const kept = new Set(hoistable.map((declaration) => declaration.name));
+    const staying = [
+      ...imported,
+      ...all
+        .map((declaration) => declaration.name)
+        .filter((name) => !kept.has(name))
+    ];
+    const next = hoistable.filter(
+      (declaration) => !staying.some((name) => mentions(declaration.text, name))
+    );
+    if (next.length === hoistable.length) return hoistable;
+    hoistable = next;
+  }
+}
+
+/** Local names bound by the import statements of `source`. */
+function importedNames(source: string) {
+  const names = new Set<string>();
+  for (const [statement] of source.matchAll(IMPORT_STATEMENT)) {
+    const clause = statement
+      .replace(/^import\s+(?:type\s+)?/, '')
+      .replace(/\s*from\s+['"][^'"]+['"];?$/, '');
+    const named = clause.match(/\{([^}]*)\}/)?.[1].split(',') ?? [];
+    const other = clause.replace(/\{[^}]*\}/, '').split(',');
+
+    for (const specifier of named) {
+      names.add(
+        specifier
+          .trim()
+          .split(/\s+as\s+/)
+          .at(-1)!
+          .replace(/^type\s+/, '')
+      );
+    }
+    for (const binding of other) {
+      names.add(binding.trim().replace(/^\*\s+as\s+/, ''));
+    }
+  }
+  names.delete('');
+  return names;
+}
+
+function mentions(text: string, name: string) {
+  return new RegExp(`\\b${name}\\b`).test(text);
+}
+
+function normalizeDeclaration(text: string) {
+  return `export ${text.replace(/^export\s+/, '').trim()}`;
+}
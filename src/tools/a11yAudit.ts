@@ -0,0 +1,175 @@
+import { z } from 'zod';
+import dedent from 'dedent';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { auditAccessibility, formatA11yFindings } from '../a11y.js';
+import {
+  ActFormatError,
+  assertRenderable,
+  parseActStructure
+} from '../render.js';
+import type { ActNode } from '../types.js';
+import { formatDiagnostics } from '../validation.js';
+import { collectGeneratedFiles } from '../workspace.js';
+import type { GeneratedFile } from '../workspace.js';
+import { sessionErrorResult } from '../errors.js';
+import {
+  SessionError,
+  formatSessionReference,
+  sessionStore
+} from '../sessions.js';
+import { A11yAuditOutputSchema } from '../outputSchemas.js';
+
+function auditErrorResult(error: ActFormatError): CallToolResult {
+  return {
+    isError: true,
+    content: [
+      {
+        type: 'text',
+        text: [
+          '## ❌ Accessibility Audit Failed',
+          '',
+          error.message,
+          ...(error.diagnostics.length > 0
+            ? ['', '### Diagnostics', formatDiagnostics(error.diagnostics)]
+            : []),
+          '',
+          '**Next Steps:**',
+          '1. Run validate_act on the tree for the full list of problems',
+          '2. Or audit only the generated code by passing `code` or `files`'
+        ].join('\n')
+      }
+    ]
+  };
+}
+
+export function registerA11yAuditTool(server: McpServer, owner?: string) {
+  server.registerTool(
+    'a11y_audit',
+    {
+      title: 'Accessibility Audit',
+      description: dedent`
+        Checks an Abstract Component Tree (ACT) and the generated TSX for common accessibility
+        problems, offline and without rendering the page. Each finding cites the WCAG 2.1 success
+        criteria it relates to and points at an ACT node path or a file and line.
+
+        **ACT checks:** inputs and form fields without labels, buttons without text (e.g. icon-only),
+        dialogs and windows without titles, images without alt text, charts without a title, and
+        skipped heading levels.
+
+        **Code checks:** the same, plus click handlers on non-interactive elements without keyboard
+        support, positive tabIndex values, focusable elements hidden with aria-hidden, and key or
+        blur handlers that trap keyboard focus.
+
+        **Input:** \`actStructure\` and/or \`code\` or \`files\`; with \`sessionId\`, whichever is
+        omitted is taken from the session (its ACT and last generated code).
+      `,
+      inputSchema: {
+        actStructure: z
+          .unknown()
+          .optional()
+          .describe('The ACT to audit, as an object or a JSON string.'),
+        code: z
+          .string()
+          .optional()
+          .describe('TSX source of a page to audit, e.g. merger_tool output.'),
+        files: z
+          .array(z.object({ path: z.string(), content: z.string() }))
+          .optional()
+          .describe(
+            'Several generated files to audit, e.g. a split page; takes precedence over code.'
+          ),
+        sessionId: z
+          .string()
+          .optional()
+          .describe(
+            'Generation session whose ACT and generated code are audited when not passed directly.'
+          )
+      },
+      outputSchema: A11yAuditOutputSchema
+    },
+    async ({ actStructure, code, files, sessionId }) => {
+      try {
+        const session = await sessionStore.resolve(sessionId, owner);
+        const act =
+          actStructure !== undefined
+            ? parseActStructure(actStructure)
+            : session?.act;
+        const sources: GeneratedFile[] | undefined =
+          files ??
+          (code !== undefined
+            ? [{ path: 'Page.tsx', content: code }]
+            : session?.code
+              ? collectGeneratedFiles(session.code)
+              : undefined);
+
+        if (act === undefined && sources === undefined) {
+          throw new SessionError(
+            sessionId
+              ? `Session "${sessionId}" has no ACT or generated code yet. Run structure_tool or merger_tool with this sessionId first.`
+              : 'One of actStructure, code, files or sessionId is required.'
+          );
+        }
+        if (act !== undefined) assertRenderable(act);
+
+        const report = auditAccessibility({
+          act: act as ActNode | undefined,
+          files: sources
+        });
+        const audited = {
+          act: act !== undefined,
+          files: (sources ?? [])
+            .map((file) => file.path)
+            .filter((path) => /\.(tsx|jsx)$/.test(path))
+        };
+        const errors = report.findings.filter(
+          (item) => item.severity === 'error'
+        ).length;
+        const inAct = report.findings.filter((item) => item.path);
+        const inCode = report.findings.filter((item) => item.file);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: [
+                report.passed
+                  ? '## ✅ Accessibility Audit Passed'
+                  : '## ❌ Accessibility Audit Failed',
+                [
+                  `**Errors:** ${errors} | **Warnings:** ${report.findings.length - errors}`,
+                  `**Audited:** ${[
+                    ...(audited.act ? ['ACT'] : []),
+                    ...audited.files.map((path) => `\`${path}\``)
+                  ].join(', ')}`
+                ].join('\n'),
+                ...(audited.act
+                  ? [['### ACT', formatA11yFindings(inAct)].join('\n')]
+                  : []),
+                ...(audited.files.length > 0
+                  ? [['### Code', formatA11yFindings(inCode)].join('\n')]
+                  : []),
+                '_Static checks catch common problems only; test the page with a keyboard and a screen reader too._',
+                ...(session ? [formatSessionReference(session)] : [])
+              ].join('\n\n')
+            }
+          ],
+          structuredContent: {
+            ...(session ? { sessionId: session.id } : {}),
+            passed: report.passed,
+            audited,
+            findings: report.findings
+          }
+        };
+      } catch (error) {
+        if (error instanceof SessionError) {
+          return sessionErrorResult('Accessibility Audit', error);
+        }
+        if (error instanceof ActFormatError) {
+          return auditErrorResult(error);
+        }
+        throw error;
+      }
+    }
+  );
+}
@@ -0,0 +1,106 @@
+import { z } from 'zod';
+import dedent from 'dedent';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { responseCache } from '../cache.js';
+import type { CacheEntryInfo } from '../cache.js';
+import { CacheAdminOutputSchema } from '../outputSchemas.js';
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function formatEntries(entries: CacheEntryInfo[]) {
+  if (entries.length === 0) return '- No cached responses';
+
+  return entries
+    .map(
+      (entry) =>
+        `- \`${entry.key.slice(0, 12)}\` **${entry.agent}** ${entry.summary || '(no summary)'} - ` +
+        `${formatBytes(entry.size)}, last used ${entry.lastUsedAt}, expires ${entry.expiresAt}`
+    )
+    .join('\n');
+}
+
+export function registerCacheAdminTool(server: McpServer, owner?: string) {
+  server.registerTool(
+    'cache_admin',
+    {
+      title: 'Agent Response Cache Admin',
+      description: dedent`
+        Inspects and clears the local cache of KendoAI agent responses.
+
+        Successful planner, structure and merger responses are cached on disk, keyed by the
+        endpoint and a hash of the normalized request, so repeating a call with the same query,
+        plan or ACT returns immediately. Entries expire after CACHE_TTL_MS and the least recently
+        used are evicted beyond CACHE_MAX_BYTES. Over HTTP each client has its own entries and
+        only sees and clears those.
+
+        **Actions:**
+        - \`stats\` - entry count, size and limits
+        - \`list\` - entries with their agent, query or ACT summary, size and expiry
+        - \`clear\` - remove entries, optionally only for one \`agent\`, one \`key\`, or \`expiredOnly\`
+
+        To skip the cache for a single call, pass \`bypassCache: true\` to the tool instead.
+      `,
+      inputSchema: {
+        action: z.enum(['stats', 'list', 'clear']).default('stats'),
+        agent: z
+          .enum(['planner', 'structure', 'merger'])
+          .optional()
+          .describe('Only list or clear entries of this agent.'),
+        key: z
+          .string()
+          .optional()
+          .describe(
+            'Only list or clear the entry with this key, or key prefix as shown by list.'
+          ),
+        expiredOnly: z
+          .boolean()
+          .default(false)
+          .describe('Only list or clear entries past their TTL.')
+      },
+      outputSchema: CacheAdminOutputSchema
+    },
+    async ({ action, agent, key, expiredOnly }) => {
+      const filter = { owner, agent, key, expiredOnly };
+      const removed =
+        action === 'clear' ? await responseCache.clear(filter) : undefined;
+      const listed =
+        action === 'list' ? await responseCache.list(filter) : undefined;
+
+      const entries = await responseCache.list({ owner });
+      const totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+      const limits = responseCache.enabled
+        ? `**Entries:** ${entries.length} | **Size:** ${formatBytes(totalBytes)} of ${formatBytes(responseCache.maxBytes)} | ` +
+          `**TTL:** ${Math.round(responseCache.ttlMs / 60_000)} min`
+        : '**Caching is disabled** (CACHE_TTL_MS is 0); existing entries are not used.';
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: [
+              '## 🗄️ Agent Response Cache',
+              limits,
+              ...(removed !== undefined
+                ? [`Removed ${removed} cached response(s).`]
+                : []),
+              ...(listed ? ['### Entries', formatEntries(listed)] : [])
+            ].join('\n\n')
+          }
+        ],
+        structuredContent: {
+          enabled: responseCache.enabled,
+          ttlMs: responseCache.ttlMs,
+          maxBytes: responseCache.maxBytes,
+          count: entries.length,
+          totalBytes,
+          ...(listed ? { entries: listed } : {}),
+          ...(removed !== undefined ? { removed } : {})
+        }
+      };
+    }
+  );
+}
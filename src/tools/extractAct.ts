@@ -0,0 +1,158 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { z } from 'zod';
+import dedent from 'dedent';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { ExtractError, extractAct } from '../extract.js';
+import { sessionErrorResult } from '../errors.js';
+import { formatDiagnostics, validateAct } from '../validation.js';
+import {
+  WorkspaceError,
+  allowedBaseDirs,
+  resolveOutputDir
+} from '../workspace.js';
+import {
+  SessionError,
+  formatSessionReference,
+  sessionStore
+} from '../sessions.js';
+import { ExtractActOutputSchema } from '../outputSchemas.js';
+
+function extractErrorResult(message: string): CallToolResult {
+  return {
+    isError: true,
+    content: [
+      {
+        type: 'text',
+        text: [
+          '## ❌ ACT Extraction Failed',
+          '',
+          message,
+          '',
+          '**Next Steps:**',
+          '1. Check that the file exports a React component that returns JSX',
+          '2. Pass `componentName` when the file declares several components'
+        ].join('\n')
+      }
+    ]
+  };
+}
+
+export function registerExtractActTool(server: McpServer, owner?: string) {
+  server.registerTool(
+    'extract_act',
+    {
+      title: 'Abstract Component Tree Extractor',
+      description: dedent`
+        **IMPORT** - Builds an Abstract Component Tree (ACT) from an existing Kendo React page, so
+        hand-written pages can be refined with refine_tool or regenerated with merger_tool.
+
+        Parses the TSX with the TypeScript compiler and walks the JSX the page component returns.
+        Components declared in the same file are inlined, aliased Kendo imports are resolved to their
+        real names, and descriptions are inferred from labels, titles, notable props, data bindings
+        and event handlers. Text-only children become the node's text. Literal props, \`data\` bindings,
+        event handlers and the page's \`useState\` variables fill the typed props, dataBinding, events
+        and state fields.
+
+        **Input:** the page \`source\`, or a \`filePath\` inside the client's MCP roots or OUTPUT_BASE_DIR.
+        **Output:** the extracted ACT with validation diagnostics, recorded in a generation session.
+      `,
+      inputSchema: {
+        source: z
+          .string()
+          .optional()
+          .describe('TSX source of the page to extract the ACT from.'),
+        filePath: z
+          .string()
+          .optional()
+          .describe(
+            'Path of the TSX file, relative to the first MCP root or OUTPUT_BASE_DIR. Used when source is omitted.'
+          ),
+        componentName: z
+          .string()
+          .optional()
+          .describe(
+            'Component to extract. Defaults to the default export, then the first exported component.'
+          ),
+        sessionId: z
+          .string()
+          .optional()
+          .describe(
+            'Generation session to record the extracted ACT into. A new session is created when omitted.'
+          )
+      },
+      outputSchema: ExtractActOutputSchema
+    },
+    async ({ source, filePath, componentName, sessionId }) => {
+      try {
+        let fileName: string | undefined;
+        if (source === undefined) {
+          if (!filePath) {
+            throw new ExtractError('Pass the page source or a filePath.');
+          }
+          const target = await resolveOutputDir(
+            filePath,
+            await allowedBaseDirs(server, owner)
+          );
+          fileName = path.basename(target);
+          source = await readFile(target, 'utf8').catch(() => {
+            throw new ExtractError(`${filePath} could not be read.`);
+          });
+        }
+
+        const { act, component, warnings } = extractAct(source, {
+          fileName,
+          componentName
+        });
+        const { diagnostics } = validateAct(act);
+
+        let session = await sessionStore.resolve(sessionId, owner);
+        session = await sessionStore.record(session, owner, { act });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: [
+                `## 🔎 ACT Extracted from ${component}`,
+                `**NEXT STEP:** Call refine_tool or merger_tool with \`sessionId: "${session.id}"\`.`,
+                [
+                  '### Extracted ACT',
+                  '```json',
+                  JSON.stringify(act, null, 2),
+                  '```'
+                ].join('\n'),
+                ...(warnings.length > 0
+                  ? [
+                      [
+                        '### ⚠️ Extraction Warnings',
+                        ...warnings.map((warning) => `- ${warning}`)
+                      ].join('\n')
+                    ]
+                  : []),
+                ['### Diagnostics', formatDiagnostics(diagnostics)].join('\n'),
+                formatSessionReference(session)
+              ].join('\n\n')
+            }
+          ],
+          structuredContent: {
+            sessionId: session.id,
+            component,
+            act,
+            warnings,
+            diagnostics
+          }
+        };
+      } catch (error) {
+        if (error instanceof SessionError) {
+          return sessionErrorResult('Extract ACT', error);
+        }
+        if (error instanceof ExtractError || error instanceof WorkspaceError) {
+          return extractErrorResult(error.message);
+        }
+        throw error;
+      }
+    }
+  );
+}
@@ -0,0 +1,384 @@
+import { z } from 'zod';
+import dedent from 'dedent';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest
+} from '@modelcontextprotocol/sdk/types.js';
+import { ACTComponentSchema } from '../types.js';
+import { generateCode, generatePlan, generateStructure } from '../agents.js';
+import {
+  agentErrorResult,
+  dataModelErrorResult,
+  profileErrorResult,
+  sessionErrorResult
+} from '../errors.js';
+import { ProfileError, loadProjectProfile } from '../profile.js';
+import {
+  DATA_MODEL_DESCRIPTION,
+  DataModelError,
+  DataModelInputSchema,
+  bindEntity,
+  parseDataModel,
+  withModelFile
+} from '../dataModel.js';
+import { formatDiagnostics, validateAct } from '../validation.js';
+import {
+  SessionError,
+  formatSessionReference,
+  sessionStore
+} from '../sessions.js';
+import type { GenerationSession } from '../sessions.js';
+import { GeneratePageOutputSchema } from '../outputSchemas.js';
+import { BYPASS_CACHE_DESCRIPTION } from '../cache.js';
+import { collectGeneratedFiles, formatSource } from '../workspace.js';
+import type { GeneratedFile } from '../workspace.js';
+import { logger, serializeError } from '../logger.js';
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+type TextBlock = { type: 'text'; text: string };
+
+const TOTAL_STAGES = 3;
+
+/**
+ * Sends an MCP progress notification when the client asked for progress
+ * by including a progressToken in the request metadata.
+ */
+async function reportProgress(
+  extra: ToolExtra,
+  progress: number,
+  message: string
+) {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) return;
+
+  await extra.sendNotification({
+    method: 'notifications/progress',
+    params: { progressToken, progress, total: TOTAL_STAGES, message }
+  });
+}
+
+function planBlock(plan: string): TextBlock {
+  return {
+    type: 'text',
+    text: ['## 📋 Execution Plan', '', plan].join('\n')
+  };
+}
+
+function structureBlock(structure: unknown): TextBlock {
+  return {
+    type: 'text',
+    text: [
+      '## 🏗️ Abstract Component Tree (ACT)',
+      '',
+      '```json',
+      JSON.stringify(structure, null, 2),
+      '```'
+    ].join('\n')
+  };
+}
+
+/** The generated files, main component first, each under its path. */
+function codeBlock(files: GeneratedFile[]): TextBlock {
+  const [main, ...extras] = files;
+  return {
+    type: 'text',
+    text: [
+      '## 🚀 Generated Code',
+      '',
+      `#### ${main.path}`,
+      '```tsx',
+      main.content.trimEnd(),
+      '```',
+      ...extras.flatMap((file) => [
+        '',
+        `#### ${file.path}`,
+        '```' + (file.path.match(/\.(tsx?|css|json)$/)?.[1] ?? ''),
+        file.content.trimEnd(),
+        '```'
+      ])
+    ].join('\n')
+  };
+}
+
+/**
+ * Builds the error result for a failed stage: the artifacts from completed
+ * stages, the failure itself, and how to resume without redoing them.
+ */
+function stageError(
+  stage: string,
+  failure: CallToolResult,
+  completed: TextBlock[],
+  session?: GenerationSession
+): CallToolResult {
+  return {
+    isError: true,
+    content: [
+      ...completed,
+      ...failure.content,
+      {
+        type: 'text',
+        text: [
+          `### Resuming From the ${stage} Stage`,
+          '1. Review any artifacts above - completed stages do not need to be re-run',
+          session
+            ? `2. Call generate_page again with \`sessionId: "${session.id}"\` to resume from the stored artifacts`
+            : '2. Call generate_page again passing the completed `plan` and/or `actStructure` to resume',
+          '3. Fall back to the individual planner_tool, structure_tool and merger_tool if the issue persists'
+        ].join('\n')
+      }
+    ]
+  };
+}
+
+export function registerGeneratePageTool(server: McpServer, owner?: string) {
+  server.registerTool(
+    'generate_page',
+    {
+      title: 'Kendo React End-to-End Page Generator',
+      description: dedent`
+        **ONE-CALL PIPELINE** - Runs planner → structure → merger server-side in a single call.
+
+        Use this instead of chaining planner_tool, structure_tool and merger_tool by hand. The plan
+        and Abstract Component Tree are passed between stages on the server, so nothing has to be
+        copied between tool calls.
+
+        **Stages:**
+        1. Planning - generates the execution plan from the query
+        2. Structure - builds the Abstract Component Tree (ACT) from the plan
+        3. Code generation - produces the Kendo React page from the ACT
+
+        **Review workflow:** Set \`pauseForApproval\` to stop after the structure stage so the user
+        can approve or edit the ACT. Then call generate_page again with the same query, the plan,
+        and the approved \`actStructure\` to run code generation only.
+
+        **Sessions:** Every run records its query, plan, ACT and code in a generation session exposed
+        as \`kendoai://sessions/{id}/...\` resources. Pass \`sessionId\` to resume a run from its stored
+        plan and ACT instead of copying them back in.
+
+        **Output:** Separate content blocks for the plan, the ACT and the generated code. Progress
+        notifications are emitted per stage when the client supplies a progress token.
+      `,
+      inputSchema: {
+        query: z
+          .string()
+          .describe(
+            'The complete user request for page creation. Include all requirements, features, ' +
+              'UI elements, functionality, styling preferences, and any specific Kendo components mentioned.'
+          ),
+        plan: z
+          .string()
+          .optional()
+          .describe(
+            'Execution plan from an earlier run. When provided, the planning stage is skipped.'
+          ),
+        actStructure: ACTComponentSchema.optional().describe(
+          'Approved (possibly edited) Abstract Component Tree from an earlier run. When provided, ' +
+            'the planning and structure stages are skipped and only code generation runs.'
+        ),
+        pauseForApproval: z
+          .boolean()
+          .default(false)
+          .describe(
+            'Stop after the structure stage and return the plan and ACT for review instead of generating code.'
+          ),
+        sessionId: z
+          .string()
+          .optional()
+          .describe(
+            'Generation session to resume. Its stored plan and ACT are used unless plan or actStructure ' +
+              'are passed. A new session is started when omitted.'
+          ),
+        dataModel: DataModelInputSchema.optional().describe(
+          DATA_MODEL_DESCRIPTION
+        ),
+        bypassCache: z
+          .boolean()
+          .default(false)
+          .describe(BYPASS_CACHE_DESCRIPTION)
+      },
+      outputSchema: GeneratePageOutputSchema
+    },
+    async (
+      {
+        query,
+        plan,
+        actStructure,
+        pauseForApproval,
+        sessionId,
+        dataModel,
+        bypassCache
+      },
+      extra
+    ) => {
+      const { signal } = extra;
+      const completed: TextBlock[] = [];
+      let stage = 'Planning';
+      let session: GenerationSession | undefined;
+
+      try {
+        session = await sessionStore.resolve(sessionId, owner);
+        const entity = dataModel ? parseDataModel(dataModel) : session?.entity;
+        const profile = (await loadProjectProfile(server, owner))?.profile;
+        const options = {
+          signal,
+          profile,
+          bypassCache,
+          dataModel: entity,
+          owner
+        };
+        let currentPlan = plan ?? session?.plan;
+        let structure = actStructure ?? (plan ? undefined : session?.act);
+
+        if (structure === undefined) {
+          if (currentPlan === undefined) {
+            await reportProgress(extra, 0, 'Generating execution plan');
+            currentPlan = (await generatePlan(query, options)).plan;
+          }
+          session = await sessionStore.record(session, owner, {
+            query,
+            plan: currentPlan,
+            ...(entity ? { entity } : {})
+          });
+          completed.push(planBlock(currentPlan));
+
+          stage = 'Structure';
+          await reportProgress(extra, 1, 'Generating component structure');
+          structure = (await generateStructure(query, currentPlan, options))
+            .structure;
+          if (entity) structure = bindEntity(structure, entity).act;
+          session = await sessionStore.record(session, owner, {
+            act: structure
+          });
+          completed.push(structureBlock(structure));
+
+          if (pauseForApproval) {
+            await reportProgress(extra, 2, 'Paused for ACT approval');
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: dedent`
+                    ## ⏸️ Paused for Structure Approval
+
+                    The plan and Abstract Component Tree are below. Show the ACT to the user and
+                    apply any requested edits.
+
+                    **To continue:** call generate_page again with the same \`query\`, this \`plan\`,
+                    and the approved \`actStructure\`. Only code generation will run. If the ACT
+                    was approved unchanged, passing the session ID alone is enough.
+                  `
+                },
+                ...completed,
+                { type: 'text', text: formatSessionReference(session) }
+              ],
+              structuredContent: {
+                sessionId: session.id,
+                status: 'paused',
+                plan: currentPlan,
+                act: structure
+              }
+            };
+          }
+        } else {
+          if (actStructure !== undefined) {
+            session = await sessionStore.record(session, owner, {
+              query,
+              ...(currentPlan !== undefined ? { plan: currentPlan } : {}),
+              act: actStructure,
+              ...(entity ? { entity } : {})
+            });
+          }
+          if (currentPlan !== undefined) {
+            completed.push(planBlock(currentPlan));
+          }
+          completed.push(structureBlock(structure));
+        }
+
+        stage = 'Code Generation';
+        const validation = validateAct(structure);
+        if (!validation.valid) {
+          return stageError(
+            stage,
+            {
+              content: [
+                {
+                  type: 'text',
+                  text: [
+                    '## ❌ ACT Pre-flight Check Failed',
+                    '',
+                    'The Abstract Component Tree was not sent to the code generator because it has errors:',
+                    '',
+                    formatDiagnostics(validation.diagnostics)
+                  ].join('\n')
+                }
+              ]
+            },
+            completed,
+            session
+          );
+        }
+
+        await reportProgress(extra, 2, 'Generating Kendo React code');
+        const generated = (await generateCode(structure, options)).code;
+        const code = entity ? withModelFile(generated, entity) : generated;
+        session = await sessionStore.record(session, owner, { code });
+        const files = collectGeneratedFiles(code).map((file) => ({
+          path: file.path,
+          content: formatSource(file.content)
+        }));
+        completed.push(codeBlock(files));
+        await reportProgress(extra, 3, 'Page generation complete');
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: dedent`
+                ## ✅ Kendo React Page Generated
+
+                All stages completed. The plan, Abstract Component Tree and generated code follow
+                as separate blocks. Save each generated file at the path shown above it, keeping the
+                paths relative to each other since the main component imports the others, install any
+                missing \`@progress/kendo-react-*\` packages they import, then typecheck and lint the project.
+              `
+            },
+            ...completed,
+            { type: 'text', text: formatSessionReference(session) }
+          ],
+          structuredContent: {
+            sessionId: session.id,
+            status: 'complete',
+            ...(currentPlan !== undefined ? { plan: currentPlan } : {}),
+            act: structure,
+            files
+          }
+        };
+      } catch (error) {
+        if (error instanceof SessionError) {
+          return sessionErrorResult('Generate Page', error);
+        }
+        if (error instanceof ProfileError) {
+          return profileErrorResult('Generate Page', error);
+        }
+        if (error instanceof DataModelError) {
+          return dataModelErrorResult('Generate Page', error);
+        }
+        logger.error('agent.failed', {
+          tool: 'generate_page',
+          stage,
+          error: serializeError(error)
+        });
+        return stageError(
+          stage,
+          agentErrorResult(`${stage} Stage`, error),
+          completed,
+          session
+        );
+      }
+    }
+  );
+}
@@ -0,0 +1,334 @@
+import { z } from 'zod';
+import dedent from 'dedent';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import {
+  BatchError,
+  DEFAULT_CONCURRENCY,
+  DEFAULT_LAYOUT,
+  generateBatch,
+  planPages
+} from '../batch.js';
+import {
+  agentErrorResult,
+  dataModelErrorResult,
+  profileErrorResult
+} from '../errors.js';
+import { ProfileError, loadProjectProfile } from '../profile.js';
+import {
+  DATA_MODEL_DESCRIPTION,
+  DataModelError,
+  DataModelInputSchema,
+  parseDataModel
+} from '../dataModel.js';
+import { GeneratePagesOutputSchema } from '../outputSchemas.js';
+import { BYPASS_CACHE_DESCRIPTION } from '../cache.js';
+import {
+  WorkspaceError,
+  allowedBaseDirs,
+  formatSource,
+  resolveOutputDir,
+  writeGeneratedFiles
+} from '../workspace.js';
+import type { WrittenFile } from '../workspace.js';
+import { logger, serializeError } from '../logger.js';
+import { redact } from '../env.js';
+
+function batchErrorResult(error: BatchError): CallToolResult {
+  return {
+    isError: true,
+    content: [
+      {
+        type: 'text',
+        text: [
+          '## ❌ Batch Generation Failed',
+          '',
+          error.message,
+          '',
+          '**Next Steps:**',
+          '1. Give every page a distinct `title`, or set `route` and `name` explicitly',
+          '2. Component names must be PascalCase, e.g. "UsersPage"',
+          '3. If the layout tree was rejected, describe the shell differently with `layout`'
+        ].join('\n')
+      }
+    ]
+  };
+}
+
+/** A failed page's error, with the secret and client tokens redacted. */
+function errorMessage(error: unknown) {
+  return redact(error instanceof Error ? error.message : String(error));
+}
+
+export function registerGeneratePagesTool(server: McpServer, owner?: string) {
+  server.registerTool(
+    'generate_pages',
+    {
+      title: 'Kendo React Multi-Page Generator',
+      description: dedent`
+        **BATCH PIPELINE** - Generates several related pages of one application in a single call.
+
+        A shared layout shell (by default an AppBar and a Drawer listing the pages) is planned and
+        generated once. Each page then runs through planner → structure → merger, told that the
+        layout already provides the header and navigation, with at most \`concurrency\` pages in
+        flight at a time.
+
+        **Output files:**
+        - \`layout/AppLayout.tsx\` - the shell, rendering the current page with React Router's \`<Outlet />\`
+        - \`pages/<page>/...\` - each page and its auxiliary files
+        - \`navigation.ts\` - the Drawer items, one per generated page
+        - \`routes.tsx\` - a React Router route table nesting every page under the layout
+
+        **Failures:** A page that fails is reported with its error and left out of the navigation and
+        routes; the other pages are still returned. Each page and the layout get their own generation
+        session, so a failed page can be retried with generate_page.
+      `,
+      inputSchema: {
+        appName: z
+          .string()
+          .default('Admin')
+          .describe(
+            'Application title shown in the layout, e.g. "Acme Admin".'
+          ),
+        layout: z
+          .string()
+          .optional()
+          .describe(
+            `What the shared layout contains. Defaults to ${DEFAULT_LAYOUT}.`
+          ),
+        pages: z
+          .array(
+            z.object({
+              title: z
+                .string()
+                .describe('Page title and navigation label, e.g. "Users".'),
+              query: z
+                .string()
+                .describe(
+                  'The complete request for this page, as it would be passed to generate_page.'
+                ),
+              route: z
+                .string()
+                .optional()
+                .describe(
+                  'Route path, e.g. "/users". Defaults to the title in kebab case.'
+                ),
+              name: z
+                .string()
+                .optional()
+                .describe(
+                  'Page component name, e.g. "UsersPage". Defaults to the title plus "Page".'
+                ),
+              dataModel: DataModelInputSchema.optional().describe(
+                DATA_MODEL_DESCRIPTION
+              )
+            })
+          )
+          .min(1)
+          .max(20)
+          .describe('The pages to generate, in navigation order.'),
+        concurrency: z
+          .number()
+          .int()
+          .min(1)
+          .max(6)
+          .default(DEFAULT_CONCURRENCY)
+          .describe(
+            `Pages generated at the same time. Defaults to ${DEFAULT_CONCURRENCY}.`
+          ),
+        outputDir: z
+          .string()
+          .optional()
+          .describe(
+            'Directory to write the generated files into, absolute or relative to the first MCP root. ' +
+              "Must be inside an MCP root or the server's OUTPUT_BASE_DIR. When omitted, the files are only returned."
+          ),
+        overwrite: z
+          .boolean()
+          .default(false)
+          .describe(
+            'Replace existing files in outputDir. Without it, the call refuses to write if any target file exists.'
+          ),
+        bypassCache: z
+          .boolean()
+          .default(false)
+          .describe(BYPASS_CACHE_DESCRIPTION)
+      },
+      outputSchema: GeneratePagesOutputSchema
+    },
+    async (
+      {
+        appName,
+        layout,
+        pages,
+        concurrency,
+        outputDir,
+        overwrite,
+        bypassCache
+      },
+      extra
+    ) => {
+      const { signal } = extra;
+      const progressToken = extra._meta?.progressToken;
+
+      try {
+        const planned = planPages(
+          pages.map(({ dataModel, ...page }) => ({
+            ...page,
+            ...(dataModel ? { entity: parseDataModel(dataModel) } : {})
+          }))
+        );
+        const profile = (await loadProjectProfile(server, owner))?.profile;
+        const shell = layout ?? DEFAULT_LAYOUT;
+
+        const batch = await generateBatch({
+          appName,
+          layout: shell,
+          pages: planned,
+          concurrency,
+          options: { signal, profile, bypassCache, owner },
+          owner,
+          onProgress: async (progress, message) => {
+            if (progressToken === undefined) return;
+            await extra.sendNotification({
+              method: 'notifications/progress',
+              params: {
+                progressToken,
+                progress,
+                total: planned.length + 1,
+                message
+              }
+            });
+          }
+        });
+
+        const files = batch.files.map((file) => ({
+          path: file.path,
+          content: formatSource(file.content)
+        }));
+        const failed = batch.pages.filter((page) => page.status === 'failed');
+        for (const page of failed) {
+          logger.error('agent.failed', {
+            tool: 'generate_pages',
+            page: page.page.name,
+            error: serializeError(page.error)
+          });
+        }
+
+        let written: WrittenFile[] | undefined;
+        let writeError: string | undefined;
+        if (outputDir) {
+          try {
+            const target = await resolveOutputDir(
+              outputDir,
+              await allowedBaseDirs(server, owner)
+            );
+            written = await writeGeneratedFiles(target, files, overwrite);
+          } catch (error) {
+            if (!(error instanceof WorkspaceError)) throw error;
+            writeError = error.message;
+          }
+        }
+
+        const routes = files.find((file) => file.path === 'routes.tsx');
+
+        return {
+          ...(writeError ? { isError: true } : {}),
+          content: [
+            {
+              type: 'text',
+              text: [
+                failed.length === 0
+                  ? `## ✅ ${batch.pages.length} Kendo React Pages Generated`
+                  : `## ⚠️ ${batch.pages.length - failed.length} of ${batch.pages.length} Kendo React Pages Generated`,
+                [
+                  '| Page | Route | Status | Session |',
+                  '| --- | --- | --- | --- |',
+                  `| ${appName} layout | \`/\` | ✅ | \`${batch.layout.session.id}\` |`,
+                  ...batch.pages.map(
+                    ({ page, status, session, error }) =>
+                      `| ${page.title} (\`${page.name}\`) | \`${page.route}\` | ` +
+                      `${status === 'complete' ? '✅' : `❌ ${errorMessage(error).split('\n')[0]}`} | ` +
+                      `${session ? `\`${session.id}\`` : '-'} |`
+                  )
+                ].join('\n'),
+                ...(failed.length > 0
+                  ? [
+                      dedent`
+                        Failed pages are left out of the navigation and route table. Retry each one
+                        with generate_page, passing its session ID to resume from the stages that
+                        completed, then add it to \`navigation.ts\` and \`routes.tsx\`.
+                      `
+                    ]
+                  : []),
+                ...(routes
+                  ? [
+                      [
+                        '### Route Table (`routes.tsx`)',
+                        '```tsx',
+                        routes.content.trimEnd(),
+                        '```'
+                      ].join('\n')
+                    ]
+                  : []),
+                written
+                  ? [
+                      '### Files Written:',
+                      ...written.map(
+                        (file) => `- \`${file.path}\` (${file.status})`
+                      )
+                    ].join('\n')
+                  : [
+                      ...(writeError
+                        ? [`### ⚠️ Files Not Written\n${writeError}`, '']
+                        : []),
+                      '### Files:',
+                      ...files.map((file) => `- \`${file.path}\``),
+                      '',
+                      'The contents are in the structured `files` output. Render the router with ' +
+                        '`<RouterProvider router={router} />` and install `react-router-dom` if the project does not use it yet.'
+                    ].join('\n')
+              ].join('\n\n')
+            }
+          ],
+          structuredContent: {
+            layout: {
+              sessionId: batch.layout.session.id,
+              files: batch.layout.files.map((file) => file.path)
+            },
+            pages: batch.pages.map(
+              ({ page, status, session, error, files }) => ({
+                title: page.title,
+                name: page.name,
+                route: page.route,
+                status,
+                ...(session ? { sessionId: session.id } : {}),
+                ...(status === 'failed' ? { error: errorMessage(error) } : {}),
+                files: files.map((file) => file.path)
+              })
+            ),
+            files,
+            ...(written ? { written } : {}),
+            ...(writeError ? { writeError } : {})
+          }
+        };
+      } catch (error) {
+        if (error instanceof BatchError) {
+          return batchErrorResult(error);
+        }
+        if (error instanceof ProfileError) {
+          return profileErrorResult('Generate Pages', error);
+        }
+        if (error instanceof DataModelError) {
+          return dataModelErrorResult('Generate Pages', error);
+        }
+        logger.error('agent.failed', {
+          tool: 'generate_pages',
+          stage: 'layout',
+          error: serializeError(error)
+        });
+        return agentErrorResult('Layout Generation', error);
+      }
+    }
+  );
+}
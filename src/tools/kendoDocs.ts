@@ -0,0 +1,235 @@
+import { z } from 'zod';
+import dedent from 'dedent';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { docsIndex, formatComponentDoc } from '../docs.js';
+import type { DocsHit } from '../docs.js';
+import { lookupComponent, suggestComponent } from '../catalog.js';
+import {
+  ActFormatError,
+  assertRenderable,
+  parseActStructure
+} from '../render.js';
+import type { ActNode } from '../types.js';
+import { sessionErrorResult } from '../errors.js';
+import {
+  SessionError,
+  formatSessionReference,
+  sessionStore
+} from '../sessions.js';
+import { KendoDocsOutputSchema } from '../outputSchemas.js';
+
+function docsErrorResult(message: string): CallToolResult {
+  return {
+    isError: true,
+    content: [
+      {
+        type: 'text',
+        text: [
+          '## ❌ Kendo Docs Lookup Failed',
+          '',
+          message,
+          '',
+          '**Next Steps:**',
+          '1. Pass `query` for a full-text search, e.g. "grid sorting paging"',
+          '2. Or pass `component` with an exact Kendo React component name, e.g. "DropDownList"'
+        ].join('\n')
+      }
+    ]
+  };
+}
+
+function toResult({ doc, score, matched }: DocsHit) {
+  return {
+    component: doc.name,
+    package: doc.package,
+    score,
+    summary: doc.summary,
+    props: doc.props,
+    events: doc.events,
+    examples: doc.examples,
+    related: doc.related,
+    matched
+  };
+}
+
+export function registerKendoDocsTool(server: McpServer, owner?: string) {
+  server.registerTool(
+    'kendo_docs',
+    {
+      title: 'Kendo React Documentation Lookup',
+      description: dedent`
+        Looks up Kendo React component documentation (package, props, events and examples) in a
+        bundled API snapshot, offline and without calling the KendoAI service.
+
+        **Modes:**
+        - \`component\` - all docs of one component by exact name, e.g. "Grid"
+        - \`query\` - full-text search, e.g. "Kendo React Grid with filtering and sorting"
+        - \`actStructure\` or \`sessionId\` - answers the \`mcpQuery\` of every node of an ACT,
+          with the node's own component ranked first
+
+        **When to use:** Before merger_tool or when editing generated code, to check which props and
+        events a component supports. Search results list the props and events matching the query;
+        look up the component for the full list.
+      `,
+      inputSchema: {
+        query: z
+          .string()
+          .optional()
+          .describe('Free-text search, e.g. an mcpQuery from an ACT node.'),
+        component: z
+          .string()
+          .optional()
+          .describe('Exact component name to look up, e.g. "DatePicker".'),
+        actStructure: z
+          .unknown()
+          .optional()
+          .describe(
+            'An ACT, as an object or a JSON string, whose mcpQuery fields are resolved.'
+          ),
+        sessionId: z
+          .string()
+          .optional()
+          .describe(
+            'Generation session whose ACT mcpQuery fields are resolved, when actStructure is omitted.'
+          ),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(10)
+          .default(3)
+          .describe('Results per query or node. Defaults to 3.')
+      },
+      outputSchema: KendoDocsOutputSchema
+    },
+    async ({ query, component, actStructure, sessionId, limit }) => {
+      const index = docsIndex();
+
+      if (component !== undefined) {
+        const doc = index.get(component);
+        if (!doc) {
+          const entry = lookupComponent(component);
+          const suggestion = suggestComponent(component);
+          return docsErrorResult(
+            entry
+              ? `"${component}" is a layout element, not a Kendo React component, and has no API docs.`
+              : `"${component}" is not a known Kendo React component.` +
+                  (suggestion && lookupComponent(suggestion)?.package
+                    ? ` Did you mean "${suggestion}"?`
+                    : '')
+          );
+        }
+        const hit = { doc, score: 0, matched: [] };
+        return {
+          content: [
+            {
+              type: 'text',
+              text: [
+                '## 📚 Kendo React Docs',
+                formatComponentDoc(hit, true)
+              ].join('\n\n')
+            }
+          ],
+          structuredContent: { results: [toResult(hit)] }
+        };
+      }
+
+      if (query !== undefined) {
+        const hits = index.search(query, limit);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: [
+                `## 📚 Kendo React Docs for "${query}"`,
+                ...(hits.length > 0
+                  ? hits.map((hit) => formatComponentDoc(hit))
+                  : [
+                      'No components match this query. Try fewer or more general words, or look up a component by name.'
+                    ])
+              ].join('\n\n')
+            }
+          ],
+          structuredContent: { results: hits.map(toResult) }
+        };
+      }
+
+      try {
+        const session = await sessionStore.resolve(sessionId, owner);
+        const act =
+          actStructure !== undefined
+            ? parseActStructure(actStructure)
+            : session?.act;
+        if (act === undefined) {
+          throw new SessionError(
+            sessionId
+              ? `Session "${sessionId}" has no ACT yet. Run structure_tool with this sessionId first, or pass actStructure.`
+              : 'One of query, component, actStructure or sessionId is required.'
+          );
+        }
+        assertRenderable(act);
+
+        const nodes = index.resolveAct(act as ActNode, limit);
+        // Each component's docs are shown once, with the props and events
+        // matched by any of the queries that ranked it first.
+        const shown = new Map<string, DocsHit>();
+        for (const node of nodes) {
+          const [top] = node.hits;
+          if (!top) continue;
+          const seen = shown.get(top.doc.name);
+          shown.set(top.doc.name, {
+            ...top,
+            matched: [...new Set([...(seen?.matched ?? []), ...top.matched])]
+          });
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: [
+                '## 📚 Kendo React Docs for ACT',
+                nodes.length > 0
+                  ? [
+                      '### Queries',
+                      ...nodes.map(
+                        (node) =>
+                          `- \`${node.path}\` **${node.component}** "${node.mcpQuery}" → ` +
+                          (node.hits.length > 0
+                            ? node.hits.map((hit) => hit.doc.name).join(', ')
+                            : 'no matches')
+                      )
+                    ].join('\n')
+                  : 'No node of this ACT has an mcpQuery.',
+                ...[...shown.values()].map((hit) => formatComponentDoc(hit)),
+                ...(session && actStructure === undefined
+                  ? [formatSessionReference(session)]
+                  : [])
+              ].join('\n\n')
+            }
+          ],
+          structuredContent: {
+            ...(session && actStructure === undefined
+              ? { sessionId: session.id }
+              : {}),
+            nodes: nodes.map((node) => ({
+              path: node.path,
+              component: node.component,
+              mcpQuery: node.mcpQuery,
+              results: node.hits.map(toResult)
+            }))
+          }
+        };
+      } catch (error) {
+        if (error instanceof SessionError) {
+          return sessionErrorResult('Kendo Docs', error);
+        }
+        if (error instanceof ActFormatError) {
+          return docsErrorResult(error.message);
+        }
+        throw error;
+      }
+    }
+  );
+}
@@ -0,0 +1,423 @@
+import { z } from 'zod';
+import dedent from 'dedent';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { ACTComponentSchema, ACTNodeFieldsSchema } from '../types.js';
+import { generateCode, generateStructure } from '../agents.js';
+import type { MergerResponse } from '../agents.js';
+import {
+  agentErrorResult,
+  profileErrorResult,
+  sessionErrorResult
+} from '../errors.js';
+import { ProfileError, loadProjectProfile } from '../profile.js';
+import { withModelFile } from '../dataModel.js';
+import { formatDiagnostics, validateAct } from '../validation.js';
+import { unifiedDiff } from '../diff.js';
+import { collectGeneratedFiles, formatSource } from '../workspace.js';
+import { generateSplitCode } from '../split.js';
+import type { SplitLayout } from '../split.js';
+import {
+  RefineError,
+  applyActEdits,
+  diffAct,
+  formatActChanges,
+  refinementPlan
+} from '../refine.js';
+import type { ActChange, ActEdit } from '../refine.js';
+import {
+  SessionError,
+  formatSessionReference,
+  sessionStore
+} from '../sessions.js';
+import type { GenerationSession } from '../sessions.js';
+import { RefineOutputSchema } from '../outputSchemas.js';
+import { BYPASS_CACHE_DESCRIPTION } from '../cache.js';
+import type { GeneratedFile } from '../workspace.js';
+import { logger, serializeError } from '../logger.js';
+
+const REFINE_HINTS = [
+  '1. **Narrow the change** - Describe one targeted change, naming the component it applies to',
+  '2. **Use explicit edits** - Pass `edits` with node paths from validate_act to skip the structure agent'
+];
+
+const nodePath = z
+  .string()
+  .describe('JSON path of the node, e.g. "$.children[1].children[0]"');
+
+const ActEditSchema = z.discriminatedUnion('op', [
+  z.object({
+    op: z.literal('add'),
+    parent: nodePath.describe('JSON path of the node to add a child to'),
+    index: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe("Position among the parent's children; appended when omitted"),
+    node: ACTComponentSchema
+  }),
+  z.object({ op: z.literal('remove'), path: nodePath }),
+  z.object({
+    op: z.literal('replace'),
+    path: nodePath,
+    node: ACTComponentSchema
+  }),
+  z.object({
+    op: z.literal('update'),
+    path: nodePath,
+    component: z.string().optional(),
+    description: z.string().optional(),
+    mcpQuery: z.string().nullable().optional(),
+    text: z.string().optional().describe('New text content for a leaf node'),
+    id: ACTNodeFieldsSchema.shape.id,
+    props: ACTNodeFieldsSchema.shape.props.describe(
+      'Props to set, merged into the existing props'
+    ),
+    dataBinding: ACTNodeFieldsSchema.shape.dataBinding,
+    events: ACTNodeFieldsSchema.shape.events.describe(
+      'Replaces the event handlers of the node'
+    ),
+    state: ACTNodeFieldsSchema.shape.state.describe(
+      'Replaces the state variables of the node'
+    )
+  })
+]);
+
+function actBlock(act: unknown) {
+  return ['```json', JSON.stringify(act, null, 2), '```'].join('\n');
+}
+
+function refineErrorResult(message: string): CallToolResult {
+  return {
+    isError: true,
+    content: [
+      {
+        type: 'text',
+        text: [
+          '## ❌ Refinement Failed',
+          '',
+          message,
+          '',
+          '**Next Steps:**',
+          '1. Run validate_act on the current ACT to see the node paths',
+          '2. Fix the edit paths or pass a natural-language `change` instead'
+        ].join('\n')
+      }
+    ]
+  };
+}
+
+export function registerRefineTool(server: McpServer, owner?: string) {
+  server.registerTool(
+    'refine_tool',
+    {
+      title: 'Kendo React Page Refiner',
+      description: dedent`
+        **ITERATE** - Applies a targeted change to an existing page instead of re-running the whole pipeline.
+
+        Takes the current Abstract Component Tree (or the generated page code when no ACT is at hand)
+        and either a natural-language \`change\` or explicit \`edits\`, produces the refined ACT, reports a
+        structural diff against the original, and regenerates the code only when the ACT changed.
+
+        **Regeneration scope:** A page generated with merger_tool's \`split\` keeps its subcomponent
+        files; only the page shell and the parts whose subtree changed are sent to the code generator
+        again, and the other files are kept as they were. An unsplit page is one generated file, so
+        any change regenerates it whole.
+
+        **Two ways to describe the change:**
+        - \`change\` - e.g. "add a Phone column to the users grid"; the structure agent rewrites the ACT
+          keeping every other node as it is
+        - \`edits\` - add, remove, replace or update nodes by JSON path (as reported by validate_act);
+          applied locally without calling the structure agent
+
+        **Input:** \`actStructure\`, \`code\`, or a \`sessionId\` whose stored ACT and code are used.
+        **Output:** ACT changes, the refined ACT, and a diff of the changed files. The result is
+        recorded in the generation session.
+      `,
+      inputSchema: {
+        change: z
+          .string()
+          .optional()
+          .describe(
+            'Natural-language description of the change, e.g. "replace the Name column with First and Last name columns".'
+          ),
+        edits: z
+          .array(ActEditSchema)
+          .optional()
+          .describe(
+            'Explicit edits applied in order; each path refers to the tree as left by the previous edit. ' +
+              'When given, the structure agent is not called and `change` is only used as a label.'
+          ),
+        actStructure: ACTComponentSchema.optional().describe(
+          "The current Abstract Component Tree to refine. Defaults to the session's ACT."
+        ),
+        code: z
+          .string()
+          .optional()
+          .describe(
+            'The current page code. Used as the refinement source when no ACT is available, and as the ' +
+              "baseline for the code diff. Defaults to the session's code."
+          ),
+        sessionId: z
+          .string()
+          .optional()
+          .describe(
+            'Generation session holding the current ACT and code. The refined ACT and code are recorded into it.'
+          ),
+        regenerateCode: z
+          .boolean()
+          .default(true)
+          .describe(
+            'Regenerate the code from the refined ACT. Skipped anyway when the ACT did not change.'
+          ),
+        skipValidation: z
+          .boolean()
+          .default(false)
+          .describe(
+            'Skip the offline check of the refined ACT before regenerating code.'
+          ),
+        bypassCache: z
+          .boolean()
+          .default(false)
+          .describe(BYPASS_CACHE_DESCRIPTION)
+      },
+      outputSchema: RefineOutputSchema
+    },
+    async (
+      {
+        change,
+        edits,
+        actStructure,
+        code,
+        sessionId,
+        regenerateCode,
+        skipValidation,
+        bypassCache
+      },
+      { signal }
+    ) => {
+      let session: GenerationSession | undefined;
+
+      try {
+        session = await sessionStore.resolve(sessionId, owner);
+        const currentAct = actStructure ?? session?.act;
+        const previous = session?.code;
+        const previousCode = code ?? previous?.mainComponent;
+        const profile = (await loadProjectProfile(server, owner))?.profile;
+        const entity = session?.entity;
+
+        let refined: unknown;
+        if (edits?.length) {
+          if (currentAct === undefined) {
+            throw new RefineError(
+              'Explicit edits need an ACT: pass actStructure or a sessionId with an ACT.'
+            );
+          }
+          refined = applyActEdits(currentAct, edits as ActEdit[]);
+        } else if (change) {
+          if (currentAct === undefined && previousCode === undefined) {
+            throw new RefineError(
+              'Nothing to refine: pass actStructure, code, or a sessionId with an ACT or code.'
+            );
+          }
+          refined = (
+            await generateStructure(
+              change,
+              refinementPlan(change, { act: currentAct, code: previousCode }),
+              { signal, profile, bypassCache, dataModel: entity, owner }
+            )
+          ).structure;
+        } else {
+          throw new RefineError(
+            'Describe the refinement with change or edits.'
+          );
+        }
+
+        const changes: ActChange[] | undefined =
+          currentAct === undefined ? undefined : diffAct(currentAct, refined);
+        const changeSection = [
+          '### 🔀 ACT Changes',
+          changes
+            ? formatActChanges(changes)
+            : '_No previous ACT to compare against; the ACT below was rebuilt from the page code._'
+        ].join('\n');
+
+        if (!skipValidation) {
+          const validation = validateAct(refined);
+          if (!validation.valid) {
+            return {
+              isError: true,
+              content: [
+                {
+                  type: 'text',
+                  text: [
+                    '## ❌ Refined ACT Failed the Pre-flight Check',
+                    '',
+                    'The refined tree was not recorded or sent to the code generator because it has errors:',
+                    '',
+                    formatDiagnostics(validation.diagnostics),
+                    '',
+                    changeSection,
+                    '',
+                    '### Refined ACT',
+                    actBlock(refined)
+                  ].join('\n')
+                }
+              ]
+            };
+          }
+        }
+
+        session = await sessionStore.record(session, owner, { act: refined });
+
+        let codeSection: string;
+        let files: GeneratedFile[] | undefined;
+        let codeDiff = '';
+        let reused: string[] = [];
+        if (changes?.length === 0) {
+          codeSection = [
+            '### Code Not Regenerated',
+            'The ACT did not change, so the existing code is still current.'
+          ].join('\n');
+        } else if (!regenerateCode) {
+          codeSection = [
+            '### Code Not Regenerated',
+            `Call merger_tool with \`sessionId: "${session.id}"\` to generate code from the refined ACT.`
+          ].join('\n');
+        } else {
+          const options = {
+            signal,
+            profile,
+            bypassCache,
+            dataModel: entity,
+            owner
+          };
+          // A split page regenerates only the shell and parts that changed.
+          const layout = session.split;
+          const result: {
+            code: MergerResponse['code'];
+            split?: SplitLayout;
+            reused?: string[];
+          } = layout
+            ? await generateSplitCode(
+                refined,
+                layout.boundaries,
+                previous?.fileName,
+                options,
+                layout
+              )
+            : await generateCode(refined, options);
+          const refinedCode = entity
+            ? withModelFile(result.code, entity)
+            : result.code;
+          session = await sessionStore.record(session, owner, {
+            code: refinedCode,
+            ...(result.split ? { split: result.split } : {})
+          });
+
+          files = collectGeneratedFiles(refinedCode).map((file) => ({
+            path: file.path,
+            content: formatSource(file.content)
+          }));
+          reused = result.reused ?? [];
+          const [main, ...extras] = files;
+          const previousExtras =
+            code === undefined && previous
+              ? collectGeneratedFiles(previous).slice(1)
+              : [];
+          codeDiff = [
+            previousCode
+              ? unifiedDiff(formatSource(previousCode), main.content, main.path)
+              : '',
+            ...extras.map((file) => {
+              const before = previousExtras.find(
+                (candidate) => candidate.path === file.path
+              );
+              return before
+                ? unifiedDiff(
+                    formatSource(before.content),
+                    file.content,
+                    file.path
+                  )
+                : '';
+            })
+          ]
+            .filter(Boolean)
+            .join('\n');
+          codeSection = [
+            ...(codeDiff
+              ? ['### Code Changes', '```diff', codeDiff, '```', '']
+              : []),
+            ...(reused.length > 0
+              ? [
+                  `**Not regenerated (unchanged):** ${reused.map((path) => `\`${path}\``).join(', ')}`,
+                  ''
+                ]
+              : []),
+            '### Updated Code',
+            '```tsx',
+            main.content.trimEnd(),
+            '```',
+            ...extras.flatMap((file) => [
+              '',
+              `#### ${file.path}`,
+              '```',
+              file.content.trimEnd(),
+              '```'
+            ])
+          ].join('\n');
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: [
+                '## ✏️ Page Refined',
+                `**Change:** ${change ?? `${edits?.length} explicit edit(s)`}`,
+                changeSection,
+                ['### Refined ACT', actBlock(refined)].join('\n'),
+                codeSection,
+                formatSessionReference(session)
+              ].join('\n\n')
+            }
+          ],
+          structuredContent: {
+            sessionId: session.id,
+            act: refined,
+            ...(changes ? { changes } : {}),
+            regenerated: files !== undefined,
+            ...(files ? { files } : {}),
+            ...(reused.length > 0 ? { reused } : {}),
+            ...(codeDiff ? { codeDiff } : {})
+          }
+        };
+      } catch (error) {
+        if (error instanceof SessionError) {
+          return sessionErrorResult('Refine Tool', error);
+        }
+        if (error instanceof RefineError) {
+          return refineErrorResult(error.message);
+        }
+        if (error instanceof ProfileError) {
+          return profileErrorResult('Refine Tool', error);
+        }
+        logger.error('agent.failed', {
+          tool: 'refine_tool',
+          error: serializeError(error)
+        });
+        const failure = agentErrorResult('Refine Tool', error, REFINE_HINTS);
+        return session
+          ? {
+              ...failure,
+              content: [
+                ...failure.content,
+                { type: 'text', text: formatSessionReference(session) }
+              ]
+            }
+          : failure;
+      }
+    }
+  );
+}
@@ -0,0 +1,194 @@
+import { z } from 'zod';
+import dedent from 'dedent';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ActFormatError,
+  RENDER_FORMATS,
+  actFromYaml,
+  actToYaml,
+  assertRenderable,
+  parseActStructure,
+  renderHtmlWireframe,
+  renderMermaid,
+  renderOutline
+} from '../render.js';
+import type { RenderFormat } from '../render.js';
+import { sessionErrorResult } from '../errors.js';
+import { formatDiagnostics } from '../validation.js';
+import {
+  SessionError,
+  formatSessionReference,
+  sessionStore
+} from '../sessions.js';
+import { RenderActOutputSchema } from '../outputSchemas.js';
+
+function renderErrorResult(error: ActFormatError): CallToolResult {
+  return {
+    isError: true,
+    content: [
+      {
+        type: 'text',
+        text: [
+          '## ❌ ACT Rendering Failed',
+          '',
+          error.message,
+          ...(error.diagnostics.length > 0
+            ? ['', '### Diagnostics', formatDiagnostics(error.diagnostics)]
+            : []),
+          '',
+          '**Next Steps:**',
+          '1. Check that every node has component, description, mcpQuery and children',
+          '2. Run validate_act on the tree for the full list of problems'
+        ].join('\n')
+      }
+    ]
+  };
+}
+
+export function registerRenderActTool(server: McpServer, owner?: string) {
+  server.registerTool(
+    'render_act',
+    {
+      title: 'Abstract Component Tree Renderer',
+      description: dedent`
+        Renders an Abstract Component Tree (ACT) for review before code generation, and converts it
+        to and from YAML for hand editing. Runs offline, without calling the KendoAI service.
+
+        **Formats:**
+        - \`outline\` - indented list of components with their text and descriptions
+        - \`mermaid\` - flowchart source; Kendo components and layout elements are styled differently
+        - \`html\` - standalone wireframe page of nested boxes labelled by Kendo component
+        - \`yaml\` - the ACT as YAML, to edit and pass back as \`yaml\`
+
+        **Input:** \`yaml\` to import an edited tree, else \`actStructure\`, else the ACT of \`sessionId\`.
+        An imported YAML tree is recorded in the session (a new one when sessionId is omitted), so
+        merger_tool and refine_tool can continue from it.
+      `,
+      inputSchema: {
+        actStructure: z
+          .unknown()
+          .optional()
+          .describe('The ACT to render, as an object or a JSON string.'),
+        yaml: z
+          .string()
+          .optional()
+          .describe(
+            'An ACT in YAML (or JSON), e.g. a previously exported tree after hand editing.'
+          ),
+        sessionId: z
+          .string()
+          .optional()
+          .describe(
+            'Generation session whose ACT is rendered, or that an imported YAML tree is recorded into.'
+          ),
+        formats: z
+          .array(z.enum(RENDER_FORMATS as [RenderFormat, ...RenderFormat[]]))
+          .min(1)
+          .default(['outline', 'mermaid'])
+          .describe('Views to produce. Defaults to outline and mermaid.')
+      },
+      outputSchema: RenderActOutputSchema
+    },
+    async ({ actStructure, yaml, sessionId, formats }) => {
+      try {
+        let session = await sessionStore.resolve(sessionId, owner);
+        let act: unknown;
+        let diagnostics;
+
+        if (yaml !== undefined) {
+          ({ act, diagnostics } = actFromYaml(yaml));
+          session = await sessionStore.record(session, owner, { act });
+        } else {
+          act =
+            actStructure !== undefined
+              ? parseActStructure(actStructure)
+              : session?.act;
+          if (act === undefined) {
+            throw new SessionError(
+              sessionId
+                ? `Session "${sessionId}" has no ACT yet. Run structure_tool with this sessionId first, or pass actStructure.`
+                : 'One of yaml, actStructure or sessionId is required.'
+            );
+          }
+          diagnostics = assertRenderable(act);
+        }
+
+        const views: Partial<Record<RenderFormat, string>> = {};
+        const sections: string[] = [];
+        const wanted = new Set(formats);
+
+        if (wanted.has('outline')) {
+          views.outline = renderOutline(act);
+          sections.push(['### Outline', views.outline].join('\n'));
+        }
+        if (wanted.has('mermaid')) {
+          views.mermaid = renderMermaid(act);
+          sections.push(
+            ['### Diagram', '```mermaid', views.mermaid, '```'].join('\n')
+          );
+        }
+        if (wanted.has('html')) {
+          views.html = renderHtmlWireframe(act);
+          sections.push(
+            [
+              '### Wireframe',
+              'Save as an `.html` file and open it in a browser.',
+              '```html',
+              views.html.trimEnd(),
+              '```'
+            ].join('\n')
+          );
+        }
+        if (wanted.has('yaml')) {
+          views.yaml = actToYaml(act);
+          sections.push(
+            [
+              '### YAML',
+              'Edit the tree and pass it back as `yaml` to import it.',
+              '```yaml',
+              views.yaml.trimEnd(),
+              '```'
+            ].join('\n')
+          );
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: [
+                yaml !== undefined
+                  ? '## 📥 ACT Imported from YAML'
+                  : '## 🖼️ ACT Rendered',
+                ...sections,
+                ...(diagnostics.length > 0
+                  ? [
+                      ['### Diagnostics', formatDiagnostics(diagnostics)].join(
+                        '\n'
+                      )
+                    ]
+                  : []),
+                ...(session ? [formatSessionReference(session)] : [])
+              ].join('\n\n')
+            }
+          ],
+          structuredContent: {
+            ...(session ? { sessionId: session.id } : {}),
+            act,
+            ...views,
+            diagnostics
+          }
+        };
+      } catch (error) {
+        if (error instanceof SessionError) {
+          return sessionErrorResult('Render ACT', error);
+        }
+        if (error instanceof ActFormatError) {
+          return renderErrorResult(error);
+        }
+        throw error;
+      }
+    }
+  );
+}
@@ -0,0 +1,91 @@
+import { z } from 'zod';
+import dedent from 'dedent';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { formatDiagnostics, validateAct } from '../validation.js';
+import { ValidateActOutputSchema } from '../outputSchemas.js';
+
+export function registerValidateActTool(server: McpServer) {
+  server.registerTool(
+    'validate_act',
+    {
+      title: 'Abstract Component Tree Validator',
+      description: dedent`
+        Validates an Abstract Component Tree (ACT) offline, without calling the KendoAI service.
+
+        **Checks:**
+        - Shape against the ACT schema (component, description, mcpQuery, children, and the v2
+          id, props, dataBinding, events and state fields)
+        - Component names against a bundled Kendo React component catalog, with suggestions for typos
+        - Container components (e.g. Grid, Form, Window) holding text instead of child nodes
+        - Nesting rules (e.g. GridColumn outside Grid, Field outside Form)
+        - Duplicate node ids, and event handlers updating state no enclosing node declares
+
+        **When to use:** After editing an ACT by hand, or before calling merger_tool, to catch
+        problems early. Each diagnostic includes a JSON path (e.g. \`$.children[0].children[2]\`)
+        to the offending node.
+      `,
+      inputSchema: {
+        actStructure: z
+          .unknown()
+          .describe(
+            'The Abstract Component Tree to validate, as an object or a JSON string. ' +
+              'Malformed trees are accepted and reported as diagnostics rather than rejected.'
+          )
+      },
+      outputSchema: ValidateActOutputSchema
+    },
+    async ({ actStructure }) => {
+      let tree = actStructure;
+
+      if (typeof tree === 'string') {
+        try {
+          tree = JSON.parse(tree);
+        } catch (error) {
+          return {
+            isError: true,
+            content: [
+              {
+                type: 'text',
+                text: dedent`
+                  ## ❌ ACT Validation Failed
+
+                  The actStructure string is not valid JSON:
+                  ${error instanceof Error ? error.message : String(error)}
+                `
+              }
+            ]
+          };
+        }
+      }
+
+      const { valid, diagnostics } = validateAct(tree);
+      const errors = diagnostics.filter((d) => d.severity === 'error').length;
+      const warnings = diagnostics.length - errors;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: [
+              valid ? '## ✅ ACT Is Valid' : '## ❌ ACT Has Errors',
+              '',
+              `**Errors:** ${errors} | **Warnings:** ${warnings}`,
+              '',
+              '### Diagnostics',
+              formatDiagnostics(diagnostics),
+              '',
+              valid
+                ? 'The tree can be passed to merger_tool.'
+                : 'Fix the errors above before calling merger_tool.'
+            ].join('\n')
+          },
+          {
+            type: 'text',
+            text: JSON.stringify({ valid, diagnostics }, null, 2)
+          }
+        ],
+        structuredContent: { valid, diagnostics }
+      };
+    }
+  );
+}
@@ -0,0 +1,59 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+import { appendFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import { env, redact } from './env.js';
+
+export const TRACE_DIR = path.join(env.KENDOAI_DATA_DIR, 'traces');
+
+const SAFE_NAME = /^[\w-]+$/;
+
+interface TraceEvent {
+  time: string;
+  type: string;
+  [field: string]: unknown;
+}
+
+/** The events of one tool call: its input, upstream exchanges and result. */
+export class TraceRun {
+  readonly id = randomUUID();
+  readonly events: TraceEvent[] = [];
+
+  add(type: string, fields: Record<string, unknown> = {}) {
+    this.events.push({ time: new Date().toISOString(), type, ...fields });
+  }
+}
+
+const currentRun = new AsyncLocalStorage<TraceRun>();
+
+/** Runs `fn` with a fresh trace that traceEvent calls inside it append to. */
+export function withTrace<T>(run: TraceRun, fn: () => Promise<T>) {
+  return currentRun.run(run, fn);
+}
+
+/** Adds an event to the trace of the tool call in progress, if any. */
+export function traceEvent(type: string, fields?: Record<string, unknown>) {
+  currentRun.getStore()?.add(type, fields);
+}
+
+/**
+ * Appends the run's events to `<TRACE_DIR>/<sessionId>.jsonl`, so every
+ * tool call of a pipeline run ends up in one file, or to the run's own file
+ * when the call has no session, with secrets redacted. Does nothing unless
+ * TRACE_RUNS is set.
+ * Returns the file written.
+ */
+export async function writeTrace(run: TraceRun, sessionId?: string) {
+  if (!env.TRACE_RUNS || run.events.length === 0) return undefined;
+
+  const name =
+    sessionId && SAFE_NAME.test(sessionId) ? sessionId : `run-${run.id}`;
+  const file = path.join(TRACE_DIR, `${name}.jsonl`);
+  await mkdir(TRACE_DIR, { recursive: true });
+  await appendFile(
+    file,
+    redact(run.events.map((event) => JSON.stringify(event)).join('\n')) + '\n',
+    'utf8'
+  );
+  return file;
+}
@@ -1,13 +1,97 @@
 import { z } from "zod";
 
 /**
- * Abstract Component Tree (ACT) Schema for Kendo React Components
- * 
- * This schema defines the structure for representing UI components in a hierarchical tree format
- * that can be easily processed to generate Kendo React code. Each node represents a UI element
- * with metadata about its purpose, implementation, and relationship to other components.
+ * Version of the ACT schema below. Trees whose root node has no `version`
+ * are v1 trees, which only carry component, description, mcpQuery and
+ * children, and are migrated before code generation.
  */
-export const ACTComponentSchema: z.ZodType<any> = z.lazy(() => z.object({
+export const ACT_VERSION = 2;
+
+export type ActPropValue =
+  | string
+  | number
+  | boolean
+  | null
+  | ActPropValue[]
+  | { [key: string]: ActPropValue };
+
+/** A JSON value, as written in JSX props or used as an initial state. */
+export const ACTPropValueSchema: z.ZodType<ActPropValue> = z.lazy(() =>
+  z.union([
+    z.string(),
+    z.number(),
+    z.boolean(),
+    z.null(),
+    z.array(ACTPropValueSchema),
+    z.record(ACTPropValueSchema)
+  ])
+);
+
+export const ACTDataBindingSchema = z.object({
+  source: z
+    .string()
+    .describe(
+      'Where the data comes from: the name of a state variable or page prop, an API endpoint ' +
+      'such as "GET /api/users", or a name for inline sample data.'
+    ),
+  kind: z
+    .enum(["state", "prop", "api", "static"])
+    .describe('How the source is read: local state, a prop of the page, a fetch from an API, or static data.'),
+  prop: z
+    .string()
+    .optional()
+    .describe('The component prop that receives the data. Defaults to "data".'),
+  entity: z
+    .string()
+    .optional()
+    .describe('Name of the entity the records conform to, e.g. "User".'),
+  field: z
+    .string()
+    .optional()
+    .describe('Field of the entity this node shows or edits, for grid columns and form fields.')
+});
+
+export const ACTEventSchema = z.object({
+  name: z
+    .string()
+    .regex(/^on[A-Z]\w*$/, 'must be an event prop such as "onClick"')
+    .describe('Event prop of the component, e.g. "onClick", "onRowClick", "onSubmit".'),
+  action: z
+    .string()
+    .describe('What the handler does, e.g. "Opens the edit dialog for the clicked user".'),
+  handler: z
+    .string()
+    .optional()
+    .describe('Name of the handler function, e.g. "handleRowClick".'),
+  updates: z
+    .array(z.string())
+    .optional()
+    .describe('State variables the handler changes, declared in `state` on this node or an ancestor.')
+});
+
+export const ACTStateSchema = z.object({
+  name: z
+    .string()
+    .regex(/^[A-Za-z_$][\w$]*$/, 'must be a valid identifier')
+    .describe('Variable name, e.g. "selectedUser".'),
+  type: z
+    .string()
+    .describe('TypeScript type of the value, e.g. "User | null", "boolean", "User[]".'),
+  initial: ACTPropValueSchema.optional().describe('Initial value, as JSON.'),
+  description: z.string().optional()
+});
+
+/** The fields of an ACT node other than its children. */
+export const ACTNodeFieldsSchema = z.object({
+  version: z
+    .literal(ACT_VERSION)
+    .optional()
+    .describe(`ACT schema version, set to ${ACT_VERSION} on the root node. Omitted on v1 trees.`),
+  id: z
+    .string()
+    .regex(/^[A-Za-z][\w-]*$/, 'must start with a letter and contain only letters, digits, _ and -')
+    .optional()
+    .describe('Identifier of the node, unique within the tree, e.g. "users-grid".'),
   component: z
     .string()
     .describe(
@@ -36,8 +120,41 @@ export const ACTComponentSchema: z.ZodType<any> = z.lazy(() => z.object({
       'Examples: "Kendo React Grid with filtering and sorting", "Kendo Button with custom styling", ' +
       '"Kendo Form validation examples". Set to null if no specific documentation is needed.'
     ),
+  props: z
+    .record(ACTPropValueSchema)
+    .optional()
+    .describe(
+      'Static props of the component as JSON values, e.g. { "sortable": true, "pageSize": 10, ' +
+      '"themeColor": "primary" }. Dynamic values belong in dataBinding, events or state.'
+    ),
+  dataBinding: ACTDataBindingSchema.optional().describe(
+    'The data this component displays or edits.'
+  ),
+  events: z
+    .array(ACTEventSchema)
+    .optional()
+    .describe('Event handlers of the component.'),
+  state: z
+    .array(ACTStateSchema)
+    .optional()
+    .describe('Local state owned by this component, usable by its own and its descendants\' events.')
+});
+
+/** A node of the Abstract Component Tree, as described by ACTComponentSchema. */
+export type ActNode = z.infer<typeof ACTNodeFieldsSchema> & {
+  children: ActNode[] | string;
+};
+
+/**
+ * Abstract Component Tree (ACT) Schema for Kendo React Components
+ *
+ * This schema defines the structure for representing UI components in a hierarchical tree format
+ * that can be easily processed to generate Kendo React code. Each node represents a UI element
+ * with metadata about its purpose, implementation, and relationship to other components.
+ */
+export const ACTComponentSchema: z.ZodType<ActNode> = ACTNodeFieldsSchema.extend({
   children: z
-    .union([z.array(ACTComponentSchema), z.string()])
+    .lazy(() => z.union([z.array(ACTComponentSchema), z.string()]))
     .describe(
       'Child components nested within this component, or text content if this is a leaf node. ' +
       'For container components: array of child ACTComponent objects representing nested elements. ' +
@@ -48,4 +165,4 @@ export const ACTComponentSchema: z.ZodType<any> = z.lazy(() => z.object({
   'A single node in the Abstract Component Tree representing a UI component with its metadata, ' +
   'purpose, and relationships. This structure enables systematic conversion to Kendo React code ' +
   'while preserving the intended functionality and hierarchy.'
-))
\ No newline at end of file
+);
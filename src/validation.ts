@@ -0,0 +1,272 @@
+import {
+  isKendoComponent,
+  lookupComponent,
+  suggestComponent
+} from './catalog.js';
+import { ACTNodeFieldsSchema } from './types.js';
+import type { ActNode } from './types.js';
+
+export interface ACTDiagnostic {
+  severity: 'error' | 'warning';
+  /** Stable identifier for the rule that produced the diagnostic. */
+  code:
+    | 'invalid-shape'
+    | 'unknown-component'
+    | 'text-in-container'
+    | 'children-in-leaf'
+    | 'missing-ancestor'
+    | 'empty-description'
+    | 'duplicate-id'
+    | 'unknown-state';
+  /** JSON path to the offending node, e.g. `$.children[0].children[2]`. */
+  path: string;
+  message: string;
+  suggestion?: string;
+}
+
+export interface ACTValidationResult {
+  valid: boolean;
+  diagnostics: ACTDiagnostic[];
+}
+
+/**
+ * Validates an Abstract Component Tree offline: the shape of every node as
+ * described by ACTComponentSchema, then component names and nesting against
+ * the bundled Kendo component catalog, unique ids, and the state variables
+ * event handlers update. Only `error` diagnostics make a tree invalid.
+ */
+export function validateAct(tree: unknown): ACTValidationResult {
+  const diagnostics = lintNode(tree, '$', [], [], new Map());
+
+  return {
+    valid: diagnostics.every((diagnostic) => diagnostic.severity !== 'error'),
+    diagnostics
+  };
+}
+
+/** Optional fields added in ACT v2, checked against their own schemas. */
+const V2_FIELDS = [
+  'version',
+  'id',
+  'props',
+  'dataBinding',
+  'events',
+  'state'
+] as const;
+
+/**
+ * Checks one node against the ACTComponentSchema fields. Done by hand rather
+ * than via safeParse so that errors inside the recursive `children` union
+ * point at the offending node instead of the nearest ancestor.
+ */
+function shapeDiagnostics(node: unknown, path: string): ACTDiagnostic[] {
+  const issue = (field: string, message: string): ACTDiagnostic => ({
+    severity: 'error',
+    code: 'invalid-shape',
+    path: field ? `${path}.${field}` : path,
+    message
+  });
+
+  if (typeof node !== 'object' || node === null || Array.isArray(node)) {
+    return [issue('', 'Expected an ACT node object')];
+  }
+
+  const { component, description, mcpQuery, children } = node as Record<
+    string,
+    unknown
+  >;
+  const issues: ACTDiagnostic[] = [];
+
+  if (typeof component !== 'string') {
+    issues.push(issue('component', 'Expected a string component name'));
+  }
+  if (typeof description !== 'string') {
+    issues.push(issue('description', 'Expected a string description'));
+  }
+  if (mcpQuery !== null && typeof mcpQuery !== 'string') {
+    issues.push(issue('mcpQuery', 'Expected a string or null'));
+  }
+  if (typeof children !== 'string' && !Array.isArray(children)) {
+    issues.push(
+      issue('children', 'Expected an array of child nodes or a text string')
+    );
+  }
+
+  for (const field of V2_FIELDS) {
+    const value = (node as Record<string, unknown>)[field];
+    if (value === undefined) continue;
+    const result = ACTNodeFieldsSchema.shape[field].safeParse(value);
+    if (result.success) continue;
+    for (const zodIssue of result.error.issues) {
+      issues.push(
+        issue(
+          field +
+            zodIssue.path
+              .map((key) => (typeof key === 'number' ? `[${key}]` : `.${key}`))
+              .join(''),
+          zodIssue.message
+        )
+      );
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * An object that may be an ACT node. Its fields are only trusted after the
+ * checks in lintNode, since shape errors are reported rather than thrown.
+ */
+type UncheckedNode = { [Field in keyof ActNode]?: unknown };
+
+/**
+ * Lints `node` and its descendants. `state` holds the state variables
+ * declared on the ancestors, `ids` the path of every id seen so far.
+ */
+function lintNode(
+  value: unknown,
+  path: string,
+  ancestors: string[],
+  state: string[],
+  ids: Map<string, string>
+): ACTDiagnostic[] {
+  const diagnostics = shapeDiagnostics(value, path);
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return diagnostics;
+  }
+  const node: UncheckedNode = value;
+
+  const name: string = typeof node.component === 'string' ? node.component : '';
+  const entry = name ? lookupComponent(name) : undefined;
+  const hasChildNodes =
+    Array.isArray(node.children) && node.children.length > 0;
+  const hasText =
+    typeof node.children === 'string' && node.children.trim() !== '';
+
+  if (name && !entry) {
+    const suggestion = suggestComponent(name);
+    diagnostics.push({
+      severity: suggestion ? 'error' : 'warning',
+      code: 'unknown-component',
+      path,
+      message: suggestion
+        ? `"${name}" is not a known Kendo React component. Did you mean "${suggestion}"?`
+        : `"${name}" is not a known Kendo React component or layout element`,
+      ...(suggestion ? { suggestion } : {})
+    });
+  }
+
+  if (entry?.kind === 'container' && hasText) {
+    diagnostics.push({
+      severity: 'error',
+      code: 'text-in-container',
+      path,
+      message: `${name} is a container component and cannot hold text content; use child nodes instead`
+    });
+  }
+
+  if (entry?.kind === 'leaf' && hasChildNodes && isKendoComponent(entry)) {
+    diagnostics.push({
+      severity: 'warning',
+      code: 'children-in-leaf',
+      path,
+      message: `${name} is configured through props and does not render nested child components`
+    });
+  }
+
+  if (
+    entry?.ancestors &&
+    !entry.ancestors.some((required) => ancestors.includes(required))
+  ) {
+    diagnostics.push({
+      severity: 'error',
+      code: 'missing-ancestor',
+      path,
+      message: `${name} must be placed inside ${entry.ancestors.join(' or ')}`,
+      suggestion: `Move this node under a ${entry.ancestors[0]} node`
+    });
+  }
+
+  if (typeof node.description === 'string' && !node.description.trim()) {
+    diagnostics.push({
+      severity: 'warning',
+      code: 'empty-description',
+      path,
+      message: `${name || 'Node'} has no description; the code generator relies on it to infer behavior`
+    });
+  }
+
+  if (typeof node.id === 'string') {
+    const first = ids.get(node.id);
+    if (first) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'duplicate-id',
+        path,
+        message: `The id "${node.id}" is already used by the node at ${first}`
+      });
+    } else {
+      ids.set(node.id, path);
+    }
+  }
+
+  const inScope = [
+    ...state,
+    ...(Array.isArray(node.state)
+      ? node.state
+          .map((variable: { name?: unknown }) => variable?.name)
+          .filter((name): name is string => typeof name === 'string')
+      : [])
+  ];
+  if (Array.isArray(node.events)) {
+    node.events.forEach((event: { updates?: unknown }, index: number) => {
+      if (!Array.isArray(event?.updates)) return;
+      for (const variable of event.updates) {
+        if (typeof variable !== 'string' || inScope.includes(variable)) {
+          continue;
+        }
+        diagnostics.push({
+          severity: 'warning',
+          code: 'unknown-state',
+          path: `${path}.events[${index}]`,
+          message: `The handler updates "${variable}", which is not declared in the state of this node or an ancestor`
+        });
+      }
+    });
+  }
+
+  if (Array.isArray(node.children)) {
+    node.children.forEach((child: unknown, index: number) => {
+      diagnostics.push(
+        ...lintNode(
+          child,
+          `${path}.children[${index}]`,
+          [...ancestors, name],
+          inScope,
+          ids
+        )
+      );
+    });
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Renders diagnostics as a markdown list for tool responses.
+ */
+export function formatDiagnostics(diagnostics: ACTDiagnostic[]) {
+  if (diagnostics.length === 0) {
+    return '- No issues found';
+  }
+
+  return diagnostics
+    .map((diagnostic) => {
+      const icon = diagnostic.severity === 'error' ? '❌' : '⚠️';
+      const suggestion = diagnostic.suggestion
+        ? ` _(suggestion: ${diagnostic.suggestion})_`
+        : '';
+      return `- ${icon} \`${diagnostic.path}\` [${diagnostic.code}] ${diagnostic.message}${suggestion}`;
+    })
+    .join('\n');
+}
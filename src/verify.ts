@@ -0,0 +1,351 @@
+import { fork } from 'node:child_process';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+import { lookupComponent } from './catalog.js';
+import type { GeneratedFile } from './workspace.js';
+
+export interface VerificationDiagnostic {
+  severity: 'error' | 'warning';
+  /** `TS<number>` for compiler diagnostics, a rule name for Kendo checks. */
+  code: string;
+  /** Generated file path, relative to the output directory. */
+  file: string;
+  line: number;
+  column: number;
+  message: string;
+}
+
+export interface VerificationReport {
+  passed: boolean;
+  /** False when React types were not found and only syntax and imports were checked. */
+  typeChecked: boolean;
+  /** Packages imported by the code whose type declarations were not found. */
+  unresolved: string[];
+  diagnostics: VerificationDiagnostic[];
+}
+
+/**
+ * Compiler diagnostics reported as warnings: unused code is lint, not a
+ * broken page.
+ */
+const WARNING_CODES = new Set([6133, 6138, 6192, 6196, 6198]);
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.ReactJSX,
+  lib: ['lib.es2022.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts'],
+  types: [],
+  strict: true,
+  esModuleInterop: true,
+  resolveJsonModule: true,
+  skipLibCheck: true,
+  noUnusedLocals: true,
+  noEmit: true
+};
+
+/** Declares unresolved packages as `any` so their imports do not fail the check. */
+const SHIM_FILE = '__kendoai_unresolved__.d.ts';
+
+/**
+ * Compiles the generated files in an in-memory TypeScript program. Imports
+ * resolve from `projectDir`'s node_modules, so Kendo component names and
+ * props are checked against the installed type declarations. Without React
+ * types only syntax is checked; Kendo imports are then checked against the
+ * bundled catalog instead.
+ */
+export function verifyGeneratedCode(
+  files: GeneratedFile[],
+  projectDir?: string
+): VerificationReport {
+  const root = projectDir ?? path.resolve('/__kendoai__');
+  const sources = new Map(
+    files
+      .filter((file) => /\.tsx?$/.test(file.path))
+      .map((file) => [path.join(root, file.path), file])
+  );
+
+  const host = ts.createCompilerHost(COMPILER_OPTIONS, true);
+  const readFile = host.readFile.bind(host);
+  const fileExists = host.fileExists.bind(host);
+  const directoryExists = host.directoryExists?.bind(host);
+  const getSourceFile = host.getSourceFile.bind(host);
+  let shim = '';
+
+  host.readFile = (fileName) =>
+    sources.get(fileName)?.content ??
+    (fileName.endsWith(SHIM_FILE) ? shim : readFile(fileName));
+  host.fileExists = (fileName) =>
+    sources.has(fileName) ||
+    fileName.endsWith(SHIM_FILE) ||
+    (projectDir !== undefined && fileExists(fileName));
+  // Generated subdirectories such as components/ exist only in memory.
+  host.directoryExists = (directoryName) =>
+    [...sources.keys()].some((fileName) =>
+      fileName.startsWith(`${directoryName}${path.sep}`)
+    ) ||
+    (directoryExists?.(directoryName) ?? true);
+  host.getSourceFile = (fileName, languageVersion, ...rest) => {
+    const content = host.readFile(fileName);
+    if (sources.has(fileName) || fileName.endsWith(SHIM_FILE)) {
+      return ts.createSourceFile(
+        fileName,
+        content ?? '',
+        languageVersion,
+        true
+      );
+    }
+    return getSourceFile(fileName, languageVersion, ...rest);
+  };
+  host.getCurrentDirectory = () => root;
+  host.writeFile = () => {};
+
+  const unresolved = unresolvedPackages(sources, host);
+  const typeChecked = !unresolved.includes('react');
+  shim = unresolved.map((name) => `declare module '${name}';`).join('\n');
+
+  const program = ts.createProgram({
+    rootNames: [...sources.keys(), path.join(root, SHIM_FILE)],
+    options: COMPILER_OPTIONS,
+    host
+  });
+
+  const compilerDiagnostics = [...sources.keys()].flatMap(
+    (fileName): readonly ts.Diagnostic[] => {
+      const sourceFile = program.getSourceFile(fileName);
+      if (!sourceFile) return [];
+      return typeChecked
+        ? [
+            ...program.getSyntacticDiagnostics(sourceFile),
+            ...program.getSemanticDiagnostics(sourceFile)
+          ]
+        : program.getSyntacticDiagnostics(sourceFile);
+    }
+  );
+
+  const diagnostics: VerificationDiagnostic[] = [
+    ...compilerDiagnostics.map((diagnostic) =>
+      fromCompiler(diagnostic, sources)
+    ),
+    ...[...sources.values()].flatMap((file) =>
+      lintKendoImports(file, unresolved)
+    )
+  ];
+
+  return {
+    passed: diagnostics.every((diagnostic) => diagnostic.severity !== 'error'),
+    typeChecked,
+    unresolved,
+    diagnostics
+  };
+}
+
+/**
+ * The worker has the extension of this module: `.ts` when run through tsx,
+ * `.js` once built.
+ */
+const WORKER_FILE = fileURLToPath(
+  new URL(
+    `./verifyWorker${path.extname(new URL(import.meta.url).pathname)}`,
+    import.meta.url
+  )
+);
+
+/**
+ * Runs `verifyGeneratedCode` in a child process. Building and checking the
+ * program takes seconds against a real project's node_modules, which would
+ * otherwise block every other request of the server. A process rather than
+ * a worker thread, since tsx only registers its loader on the main thread.
+ */
+export function verifyGeneratedCodeInWorker(
+  files: GeneratedFile[],
+  projectDir?: string
+): Promise<VerificationReport> {
+  return new Promise((resolve, reject) => {
+    // stdout may be the MCP stdio transport, so the worker must not use it.
+    const worker = fork(WORKER_FILE, {
+      stdio: ['ignore', 'ignore', 'inherit', 'ipc']
+    });
+    worker.once('message', (report) => resolve(report as VerificationReport));
+    worker.once('error', reject);
+    worker.once('exit', (code, signal) => {
+      reject(
+        new Error(
+          `The verification worker exited with ${signal ?? `code ${code}`}`
+        )
+      );
+    });
+    worker.send({ files, projectDir });
+  });
+}
+
+/** Non-relative imports of the generated files that have no type declarations. */
+function unresolvedPackages(
+  sources: Map<string, GeneratedFile>,
+  host: ts.CompilerHost
+) {
+  const missing = new Set<string>();
+
+  for (const [fileName, file] of sources) {
+    const sourceFile = ts.createSourceFile(
+      fileName,
+      file.content,
+      ts.ScriptTarget.Latest
+    );
+    for (const statement of sourceFile.statements) {
+      if (
+        !ts.isImportDeclaration(statement) ||
+        !statement.importClause ||
+        !ts.isStringLiteral(statement.moduleSpecifier)
+      ) {
+        continue;
+      }
+      const specifier = statement.moduleSpecifier.text;
+      if (specifier.startsWith('.')) continue;
+      const { resolvedModule } = ts.resolveModuleName(
+        specifier,
+        fileName,
+        COMPILER_OPTIONS,
+        host
+      );
+      if (!resolvedModule) missing.add(specifier);
+    }
+  }
+
+  // The JSX runtime is imported implicitly.
+  if (missing.has('react')) missing.add('react/jsx-runtime');
+  return [...missing].sort();
+}
+
+function fromCompiler(
+  diagnostic: ts.Diagnostic,
+  sources: Map<string, GeneratedFile>
+): VerificationDiagnostic {
+  const position =
+    diagnostic.file && diagnostic.start !== undefined
+      ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+      : { line: 0, character: 0 };
+
+  return {
+    severity:
+      diagnostic.category === ts.DiagnosticCategory.Error &&
+      !WARNING_CODES.has(diagnostic.code)
+        ? 'error'
+        : 'warning',
+    code: `TS${diagnostic.code}`,
+    file:
+      (diagnostic.file && sources.get(diagnostic.file.fileName)?.path) ?? '',
+    line: position.line + 1,
+    column: position.character + 1,
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, ' ')
+  };
+}
+
+/**
+ * Checks named imports from Kendo packages whose types are not installed
+ * against the catalog: a known component imported from the wrong package
+ * is an error, a component-like name the catalog does not know a warning.
+ */
+function lintKendoImports(
+  file: GeneratedFile,
+  unresolved: string[]
+): VerificationDiagnostic[] {
+  const sourceFile = ts.createSourceFile(
+    file.path,
+    file.content,
+    ts.ScriptTarget.Latest,
+    true
+  );
+  const diagnostics: VerificationDiagnostic[] = [];
+
+  for (const statement of sourceFile.statements) {
+    if (
+      !ts.isImportDeclaration(statement) ||
+      !ts.isStringLiteral(statement.moduleSpecifier)
+    ) {
+      continue;
+    }
+    const specifier = statement.moduleSpecifier.text;
+    const bindings = statement.importClause?.namedBindings;
+    if (
+      !/^@progress\/kendo-react-/.test(specifier) ||
+      !unresolved.includes(specifier) ||
+      !bindings ||
+      !ts.isNamedImports(bindings)
+    ) {
+      continue;
+    }
+
+    for (const element of bindings.elements) {
+      if (element.isTypeOnly || statement.importClause?.isTypeOnly) continue;
+      const name = (element.propertyName ?? element.name).text;
+      const entry = lookupComponent(name);
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(
+        element.getStart(sourceFile)
+      );
+      const at = { file: file.path, line: line + 1, column: character + 1 };
+
+      if (entry?.package && entry.package !== specifier) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'kendo-wrong-package',
+          ...at,
+          message: `${name} is exported from ${entry.package}, not ${specifier}.`
+        });
+      } else if (!entry && isComponentName(name)) {
+        diagnostics.push({
+          severity: 'warning',
+          code: 'kendo-unknown-import',
+          ...at,
+          message: `${name} is not a known export of ${specifier}; install the package to check it.`
+        });
+      }
+    }
+  }
+
+  return diagnostics;
+}
+
+/** PascalCase names that are not obviously types or event payloads. */
+function isComponentName(name: string) {
+  return (
+    /^[A-Z][a-z]/.test(name) &&
+    !/(Props|Event|Handle|State|Settings|Descriptor|Type)$/.test(name)
+  );
+}
+
+export function formatVerificationReport(report: VerificationReport) {
+  const errors = report.diagnostics.filter(
+    (diagnostic) => diagnostic.severity === 'error'
+  ).length;
+  const warnings = report.diagnostics.length - errors;
+
+  return [
+    report.passed ? '### ✅ Verification Passed' : '### ❌ Verification Failed',
+    `**Errors:** ${errors} | **Warnings:** ${warnings}`,
+    ...(report.typeChecked
+      ? []
+      : [
+          '_React type declarations were not found in the project, so only syntax and Kendo imports were checked. ' +
+            'Pass `projectDir` pointing at a project with node_modules installed for a full type check._'
+        ]),
+    ...(report.typeChecked && report.unresolved.length > 0
+      ? [
+          `_Not type checked (no declarations installed): ${report.unresolved
+            .map((name) => `\`${name}\``)
+            .join(', ')}_`
+        ]
+      : []),
+    '',
+    report.diagnostics.length === 0
+      ? '- No issues found'
+      : report.diagnostics
+          .map((diagnostic) => {
+            const icon = diagnostic.severity === 'error' ? '❌' : '⚠️';
+            return `- ${icon} \`${diagnostic.file}:${diagnostic.line}:${diagnostic.column}\` [${diagnostic.code}] ${diagnostic.message}`;
+          })
+          .join('\n')
+  ].join('\n');
+}
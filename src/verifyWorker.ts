@@ -0,0 +1,12 @@
+import { verifyGeneratedCode } from './verify.js';
+import type { GeneratedFile } from './workspace.js';
+
+/** Entry point of the process that runs `verifyGeneratedCodeInWorker`. */
+process.once(
+  'message',
+  ({ files, projectDir }: { files: GeneratedFile[]; projectDir?: string }) => {
+    process.send!(verifyGeneratedCode(files, projectDir), () =>
+      process.disconnect()
+    );
+  }
+);
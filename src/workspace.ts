@@ -0,0 +1,237 @@
+import { constants, existsSync } from 'node:fs';
+import { lstat, mkdir, readFile, realpath, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { env } from './env.js';
+import { unifiedDiff } from './diff.js';
+import type { MergerResponse } from './agents.js';
+import { logger, serializeError } from './logger.js';
+
+export interface GeneratedFile {
+  /** Path relative to the output directory. */
+  path: string;
+  content: string;
+}
+
+export interface WrittenFile {
+  path: string;
+  status: 'created' | 'overwritten' | 'unchanged';
+  diff?: string;
+}
+
+export class WorkspaceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkspaceError';
+  }
+}
+
+/**
+ * Directories generated files may be written into and pages read from: the
+ * client's MCP roots (when it supports them) plus OUTPUT_BASE_DIR if
+ * configured. Over HTTP the roots a client declares are not trusted, since
+ * they would open the server host to it; only the client's own subdirectory
+ * of OUTPUT_BASE_DIR is allowed.
+ */
+export async function allowedBaseDirs(
+  server: McpServer,
+  owner?: string
+): Promise<string[]> {
+  if (env.MCP_TRANSPORT === 'http') {
+    if (!env.OUTPUT_BASE_DIR) return [];
+    const base = path.resolve(env.OUTPUT_BASE_DIR);
+    const own = path.resolve(base, owner ?? '');
+    return own !== base && isInside(own, base)
+      ? [await resolveExisting(own)]
+      : [];
+  }
+
+  const bases: string[] = [];
+
+  if (server.server.getClientCapabilities()?.roots) {
+    try {
+      const { roots } = await server.server.listRoots();
+      for (const root of roots) {
+        if (root.uri.startsWith('file://')) {
+          bases.push(fileURLToPath(root.uri));
+        }
+      }
+    } catch (error) {
+      logger.warning('roots.list_failed', { error: serializeError(error) });
+    }
+  }
+
+  if (env.OUTPUT_BASE_DIR) {
+    bases.push(path.resolve(env.OUTPUT_BASE_DIR));
+  }
+
+  return Promise.all(bases.map(resolveExisting));
+}
+
+/**
+ * Resolves `outputDir` against the allowed base directories and verifies it
+ * stays inside one of them, following symlinks of any existing ancestors.
+ * Relative paths are resolved against the first base.
+ */
+export async function resolveOutputDir(
+  outputDir: string,
+  bases: string[]
+): Promise<string> {
+  if (bases.length === 0) {
+    throw new WorkspaceError(
+      env.MCP_TRANSPORT === 'http'
+        ? 'No writable location is configured. Set OUTPUT_BASE_DIR on the server; ' +
+            'each HTTP client gets its own subdirectory of it.'
+        : 'No writable location is configured. Expose the project as an MCP root ' +
+            'or set OUTPUT_BASE_DIR on the server.'
+    );
+  }
+
+  const target = await resolveExisting(path.resolve(bases[0], outputDir));
+  if (!bases.some((base) => isInside(target, base))) {
+    throw new WorkspaceError(
+      `${outputDir} is outside the allowed locations: ${bases.join(', ')}`
+    );
+  }
+
+  return target;
+}
+
+/**
+ * Lists the files in a merger result: the main component first, named after
+ * `fileName` (or the generator's suggestion, or the exported component),
+ * followed by any auxiliary files.
+ */
+export function collectGeneratedFiles(
+  code: MergerResponse['code'],
+  fileName?: string
+): GeneratedFile[] {
+  const exported = code.mainComponent.match(
+    /export\s+(?:default\s+)?(?:function|const|class)\s+([A-Z]\w*)/
+  );
+  const mainPath =
+    fileName ??
+    code.fileName ??
+    `${exported ? exported[1] : 'GeneratedPage'}.tsx`;
+
+  return [
+    { path: mainPath, content: code.mainComponent },
+    ...(code.files ?? [])
+  ];
+}
+
+/** Opens files for writing without following a symlink at the target. */
+const WRITE_NO_FOLLOW =
+  constants.O_WRONLY |
+  constants.O_CREAT |
+  constants.O_TRUNC |
+  (constants.O_NOFOLLOW ?? 0);
+
+/**
+ * Writes generated files under `outputDir`. Nothing is written when any
+ * target already exists with different content and `overwrite` is false,
+ * so a refused call never leaves a half-written page behind. Targets must
+ * stay inside `outputDir` after following symlinked directories, and are
+ * never written through a symlink themselves.
+ */
+export async function writeGeneratedFiles(
+  outputDir: string,
+  files: GeneratedFile[],
+  overwrite: boolean
+): Promise<WrittenFile[]> {
+  const root = await resolveExisting(outputDir);
+  const planned = await Promise.all(
+    files.map(async (file) => {
+      const target = path.resolve(root, file.path);
+      if (
+        !isInside(target, root) ||
+        !isInside(await resolveExisting(path.dirname(target)), root)
+      ) {
+        throw new WorkspaceError(`${file.path} escapes the output directory`);
+      }
+      const stats = await lstat(target).catch(() => undefined);
+      if (stats?.isSymbolicLink()) {
+        throw new WorkspaceError(
+          `${file.path} is a symbolic link; refusing to write through it`
+        );
+      }
+      const content = formatSource(file.content);
+      const existing = stats ? await readFile(target, 'utf8') : undefined;
+      return { file, target, content, existing };
+    })
+  );
+
+  const conflicts = planned.filter(
+    (entry) => entry.existing !== undefined && entry.existing !== entry.content
+  );
+  if (conflicts.length > 0 && !overwrite) {
+    throw new WorkspaceError(
+      'Refusing to overwrite existing files: ' +
+        conflicts.map((entry) => entry.target).join(', ') +
+        '. Pass overwrite: true to replace them.'
+    );
+  }
+
+  const written: WrittenFile[] = [];
+  for (const { file, target, content, existing } of planned) {
+    if (existing === content) {
+      written.push({ path: target, status: 'unchanged' });
+      continue;
+    }
+
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, content, {
+      encoding: 'utf8',
+      flag: WRITE_NO_FOLLOW
+    });
+    written.push(
+      existing === undefined
+        ? { path: target, status: 'created' }
+        : {
+            path: target,
+            status: 'overwritten',
+            diff: unifiedDiff(existing, content, file.path)
+          }
+    );
+  }
+
+  return written;
+}
+
+/**
+ * Normalizes generated source for disk: strips a surrounding markdown fence
+ * if the generator added one, uses LF line endings and ends with a newline.
+ */
+export function formatSource(source: string) {
+  const normalized = source.replace(/\r\n/g, '\n');
+  const fenced = normalized.trim().match(/^```[\w-]*\n([\s\S]*?)\n```$/);
+  return `${(fenced ? fenced[1] : normalized).trimEnd()}\n`;
+}
+
+function isInside(target: string, base: string) {
+  const relative = path.relative(base, target);
+  return (
+    relative === '' ||
+    (!relative.startsWith('..') && !path.isAbsolute(relative))
+  );
+}
+
+/**
+ * realpath() for the longest existing prefix of `target`, with the missing
+ * tail re-appended, so symlinked ancestors cannot point outside a base.
+ */
+async function resolveExisting(target: string): Promise<string> {
+  const missing: string[] = [];
+  let current = path.resolve(target);
+
+  while (!existsSync(current)) {
+    const parent = path.dirname(current);
+    if (parent === current) break;
+    missing.unshift(path.basename(current));
+    current = parent;
+  }
+
+  const real = await realpath(current).catch(() => current);
+  return path.join(real, ...missing);
+}
@@ -0,0 +1,2836 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  mkdir,
+  mkdtemp,
+  readFile,
+  readdir,
+  rm,
+  symlink,
+  writeFile
+} from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { spawn, spawnSync } from 'node:child_process';
+import type { ChildProcess } from 'node:child_process';
+import { createServer } from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { fileURLToPath } from 'node:url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import {
+  ListRootsRequestSchema,
+  LoggingMessageNotificationSchema,
+  ResourceUpdatedNotificationSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { startMockBackend } from '../src/mock/backend.js';
+import type { MockBackend } from '../src/mock/backend.js';
+import { migrateAct } from '../src/migrate.js';
+import type { ActNode } from '../src/types.js';
+import {
+  CODE_FIXTURE,
+  PLAN_FIXTURE,
+  STRUCTURE_FIXTURE
+} from '../src/mock/fixtures.js';
+
+const ROOT = fileURLToPath(new URL('..', import.meta.url));
+const SECRET = 'integration-secret';
+const PLAN = '1. Grid of users';
+
+function textOf(result: unknown) {
+  return (result as CallToolResult).content
+    .map((block) => (block.type === 'text' ? block.text : ''))
+    .join('\n');
+}
+
+/**
+ * Writes a project with just enough React and Kendo type declarations for
+ * merger_tool's verification to type check CODE_FIXTURE against.
+ */
+async function writeStubProject(dir: string, gridProps: string) {
+  const stubs: Record<string, string> = {
+    'package.json': JSON.stringify({ name: path.basename(dir) }),
+    'node_modules/react/index.d.ts': [
+      'export type ReactNode = ReactElement | string | number | boolean | null | undefined | ReactNode[];',
+      'export interface ReactElement { type: unknown; props: unknown }',
+      'export function useState<T>(initial: T): [T, (value: T) => void];',
+      'declare global {',
+      '  namespace JSX {',
+      '    interface Element extends ReactElement {}',
+      '    interface IntrinsicElements { [name: string]: { children?: ReactNode; className?: string } }',
+      '    interface ElementChildrenAttribute { children: {} }',
+      '  }',
+      '}'
+    ].join('\n'),
+    'node_modules/react/jsx-runtime.d.ts':
+      'export declare function jsx(type: unknown, props: unknown): JSX.Element;',
+    'node_modules/@progress/kendo-react-grid/index.d.ts': [
+      "import type { ReactElement, ReactNode } from 'react';",
+      `export declare function Grid(props: { ${gridProps}; children?: ReactNode }): ReactElement;`,
+      'export declare function GridColumn(props: { field?: string; title?: string }): ReactElement;',
+      'export declare function GridToolbar(props: { children?: ReactNode }): ReactElement;'
+    ].join('\n'),
+    'node_modules/@progress/kendo-react-buttons/index.d.ts': [
+      "import type { ReactElement, ReactNode } from 'react';",
+      "export declare function Button(props: { themeColor?: 'base' | 'primary'; children?: ReactNode }): ReactElement;"
+    ].join('\n'),
+    'node_modules/@progress/kendo-data-query/index.d.ts':
+      "export interface SortDescriptor { field: string; dir?: 'asc' | 'desc' }"
+  };
+
+  for (const [file, content] of Object.entries(stubs)) {
+    await mkdir(path.dirname(path.join(dir, file)), { recursive: true });
+    await writeFile(path.join(dir, file), content);
+  }
+}
+
+/** The child nodes of an ACT node, failing the test for text content. */
+function childNodes(node: ActNode) {
+  assert.ok(Array.isArray(node.children), `${node.component} has child nodes`);
+  return node.children;
+}
+
+function sessionIdOf(result: unknown) {
+  const id = textOf(result).match(/\*\*Session ID:\*\* `([\w-]+)`/)?.[1];
+  assert.ok(id, 'result references a session');
+  return id;
+}
+
+function withScenario(act: typeof STRUCTURE_FIXTURE, scenario: string) {
+  return { ...act, description: `${act.description} scenario:${scenario}` };
+}
+
+/**
+ * Starts the server over stdio against `backend` with extra env settings;
+ * an undefined value removes the default setting.
+ */
+async function connectServer(
+  backend: MockBackend,
+  dataDir: string,
+  env: Record<string, string | undefined> = {}
+) {
+  const client = new Client({ name: 'integration-test', version: '1.0.0' });
+  await client.connect(
+    new StdioClientTransport({
+      command: process.execPath,
+      args: ['--import', 'tsx', 'src/server.ts'],
+      cwd: ROOT,
+      stderr: 'ignore',
+      env: Object.fromEntries(
+        Object.entries({
+          PATH: process.env.PATH ?? '',
+          SECRET,
+          SERVER_URL: backend.url,
+          KENDOAI_DATA_DIR: dataDir,
+          ...env
+        }).filter((entry): entry is [string, string] => entry[1] !== undefined)
+      )
+    })
+  );
+  return client;
+}
+
+function freePort() {
+  return new Promise<number>((resolve, reject) => {
+    const probe = createServer();
+    probe.once('error', reject);
+    probe.listen(0, '127.0.0.1', () => {
+      const { port } = probe.address() as AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+/**
+ * Starts the server with the Streamable HTTP transport and the given
+ * `clientId:token` pairs, and waits until /health answers.
+ */
+async function startHttpMcpServer(
+  backend: MockBackend,
+  dataDir: string,
+  tokens: string,
+  env: Record<string, string> = {}
+) {
+  const port = await freePort();
+  const child = spawn(process.execPath, ['--import', 'tsx', 'src/server.ts'], {
+    cwd: ROOT,
+    stdio: 'ignore',
+    env: {
+      PATH: process.env.PATH ?? '',
+      SECRET,
+      SERVER_URL: backend.url,
+      KENDOAI_DATA_DIR: dataDir,
+      MCP_TRANSPORT: 'http',
+      MCP_HTTP_PORT: String(port),
+      MCP_AUTH_TOKENS: tokens,
+      ...env
+    }
+  });
+  const url = `http://127.0.0.1:${port}`;
+
+  for (let attempt = 0; ; attempt++) {
+    if (child.exitCode !== null) {
+      throw new Error(`The HTTP server exited with ${child.exitCode}`);
+    }
+    try {
+      if ((await fetch(`${url}/health`)).ok) break;
+    } catch {
+      if (attempt >= 150) {
+        child.kill();
+        throw new Error('The HTTP server did not start');
+      }
+      await new Promise((resolve) => setTimeout(resolve, 200));
+    }
+  }
+  return { url, child };
+}
+
+function httpClientTransport(
+  url: string,
+  token?: string,
+  sessionId?: string
+) {
+  return new StreamableHTTPClientTransport(new URL(`${url}/mcp`), {
+    sessionId,
+    requestInit: token
+      ? { headers: { Authorization: `Bearer ${token}` } }
+      : undefined
+  });
+}
+
+describe('kendoai-mcp over stdio against the mock backend', () => {
+  let backend: MockBackend;
+  let client: Client;
+  let dataDir: string;
+
+  before(async () => {
+    backend = await startMockBackend({ secret: SECRET, slowMs: 3_000 });
+    dataDir = await mkdtemp(path.join(tmpdir(), 'kendoai-mcp-test-'));
+    await writeStubProject(
+      path.join(dataDir, 'app'),
+      'data?: unknown[]; sortable?: boolean; pageable?: boolean'
+    );
+    await writeStubProject(
+      path.join(dataDir, 'legacy-app'),
+      'data?: unknown[]; sortable?: boolean'
+    );
+    client = await connectServer(backend, dataDir, {
+      PLANNER_TIMEOUT_MS: '1000',
+      AGENT_MAX_RETRIES: '1',
+      AGENT_RETRY_BASE_DELAY_MS: '10',
+      OUTPUT_BASE_DIR: dataDir,
+      // Every test here counts upstream requests; the cache has its own suite.
+      CACHE_TTL_MS: '0',
+      TRACE_RUNS: 'true'
+    });
+  });
+
+  after(async () => {
+    await client?.close();
+    await backend?.close();
+    if (dataDir) await rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('lists the pipeline tools', async () => {
+    const { tools } = await client.listTools();
+    const names = tools.map((tool) => tool.name);
+    for (const name of [
+      'planner_tool',
+      'structure_tool',
+      'merger_tool',
+      'generate_page',
+      'validate_act',
+      'refine_tool',
+      'extract_act',
+      'cache_admin',
+      'render_act',
+      'kendo_docs',
+      'a11y_audit',
+      'generate_pages'
+    ]) {
+      assert.ok(names.includes(name), `${name} is registered`);
+    }
+  });
+
+  describe('page prompts', () => {
+    it('lists the page archetypes', async () => {
+      const { prompts } = await client.listPrompts();
+      assert.deepEqual(
+        prompts.map((prompt) => prompt.name),
+        [
+          'crud-grid-page',
+          'master-detail-page',
+          'dashboard-page',
+          'form-wizard',
+          'scheduler-page'
+        ]
+      );
+    });
+
+    it('expands arguments into a structured planner query', async () => {
+      const { messages } = await client.getPrompt({
+        name: 'crud-grid-page',
+        arguments: {
+          entity: 'Customer',
+          fields: 'name:string, email:email, tier:enum(gold|silver)',
+          filters: 'tier'
+        }
+      });
+      const text = String(
+        messages[0].content.type === 'text' && messages[0].content.text
+      );
+
+      assert.match(text, /Call `planner_tool`/);
+      assert.match(text, /Create a Customer management page/);
+      assert.match(text, /## Columns\n- name \(string\)\n- email \(email\)/);
+      assert.match(text, /- Filter by tier/);
+      assert.match(text, /Paging with 20 rows per page/);
+    });
+
+    it('splits wizard steps and skips empty sections', async () => {
+      const { messages } = await client.getPrompt({
+        name: 'form-wizard',
+        arguments: {
+          purpose: 'Employee onboarding',
+          steps: 'Account: email:email, password; Profile: name'
+        }
+      });
+      const text = String(
+        messages[0].content.type === 'text' && messages[0].content.text
+      );
+
+      assert.match(text, /### Step 1: Account\n- email \(email\)\n- password/);
+      assert.match(text, /### Step 2: Profile\n- name/);
+      assert.match(text, /call an onSubmit handler with all values/);
+    });
+  });
+
+  it('returns the execution plan and sends the secret upstream', async () => {
+    const result = await client.callTool({
+      name: 'planner_tool',
+      arguments: { query: 'User management page' }
+    });
+
+    assert.equal(result.isError, undefined);
+    assert.match(textOf(result), /Kendo React Page Generation Plan/);
+    assert.match(textOf(result), /User Management Page/);
+    assert.equal(result.structuredContent?.plan, PLAN_FIXTURE);
+    assert.doesNotMatch(textOf(result), /Instructions for Next Steps/);
+
+    const request = backend.requests.at(-1)!;
+    assert.equal(request.agent, 'planner');
+    assert.equal(request.body.secret, undefined);
+    assert.equal(request.authorization, `Bearer ${SECRET}`);
+    assert.equal(request.body.query, 'User management page');
+  });
+
+  it('returns the ACT from structure_tool', async () => {
+    const result = await client.callTool({
+      name: 'structure_tool',
+      arguments: { query: 'User management page', plan: '1. Grid' }
+    });
+
+    assert.match(textOf(result), /Abstract Component Tree \(ACT\) Generated/);
+    assert.match(textOf(result), /"component": "GridColumn"/);
+  });
+
+  it('returns unescaped code and a dependency report', async () => {
+    const result = await client.callTool({
+      name: 'merger_tool',
+      arguments: { actStructure: STRUCTURE_FIXTURE }
+    });
+    const text = textOf(result);
+
+    assert.equal(result.isError, undefined);
+    assert.match(text, /```tsx\nimport \* as React from 'react';\n/);
+    assert.match(text, /npm install @progress\/kendo-react-buttons/);
+    assert.doesNotMatch(text, /Implementation Checklist/);
+
+    const { files, dependencies } = result.structuredContent as {
+      files: { path: string; content: string }[];
+      dependencies: { imported: string[]; missing: string[] };
+    };
+    assert.equal(files[0].path, 'UserManagementPage.tsx');
+    assert.equal(files[0].content, CODE_FIXTURE.mainComponent);
+    assert.deepEqual(dependencies.imported, [
+      '@progress/kendo-react-buttons',
+      '@progress/kendo-react-grid',
+      'react'
+    ]);
+  });
+
+  describe('code verification', () => {
+    type Verification = {
+      passed: boolean;
+      typeChecked: boolean;
+      diagnostics: {
+        code: string;
+        file: string;
+        line: number;
+        message: string;
+      }[];
+    };
+    const verificationOf = (result: unknown) =>
+      (result as CallToolResult).structuredContent
+        ?.verification as Verification;
+
+    it('passes code that matches the installed Kendo types', async () => {
+      const result = await client.callTool({
+        name: 'merger_tool',
+        arguments: {
+          actStructure: STRUCTURE_FIXTURE,
+          verify: true,
+          projectDir: 'app'
+        }
+      });
+      const verification = verificationOf(result);
+
+      assert.match(textOf(result), /### ✅ Verification Passed/);
+      assert.equal(verification.passed, true);
+      assert.equal(verification.typeChecked, true);
+      assert.deepEqual(verification.diagnostics, []);
+    });
+
+    it('reports props the installed Kendo types do not have', async () => {
+      const result = await client.callTool({
+        name: 'merger_tool',
+        arguments: {
+          actStructure: STRUCTURE_FIXTURE,
+          verify: true,
+          projectDir: 'legacy-app'
+        }
+      });
+      const verification = verificationOf(result);
+      const [diagnostic] = verification.diagnostics;
+
+      assert.match(textOf(result), /### ❌ Verification Failed/);
+      assert.equal(verification.passed, false);
+      assert.equal(diagnostic.code, 'TS2322');
+      assert.equal(diagnostic.file, 'UserManagementPage.tsx');
+      assert.equal(diagnostic.line, 17);
+      assert.match(diagnostic.message, /'pageable' does not exist/);
+    });
+
+    it('checks the formatted files when the code is fenced with CRLF endings', async () => {
+      const result = await client.callTool({
+        name: 'merger_tool',
+        arguments: {
+          actStructure: withScenario(STRUCTURE_FIXTURE, 'fenced'),
+          verify: true,
+          projectDir: 'legacy-app'
+        }
+      });
+      const verification = verificationOf(result);
+      const { files } = (result as CallToolResult).structuredContent as {
+        files: { content: string }[];
+      };
+
+      assert.deepEqual(
+        verification.diagnostics.map((diagnostic) => [
+          diagnostic.code,
+          diagnostic.line
+        ]),
+        [['TS2322', 17]]
+      );
+      assert.equal(files[0].content, CODE_FIXTURE.mainComponent);
+    });
+
+    it('resolves the component files of a split page', async () => {
+      const result = await client.callTool({
+        name: 'merger_tool',
+        arguments: {
+          actStructure: STRUCTURE_FIXTURE,
+          split: true,
+          verify: true,
+          projectDir: 'app'
+        }
+      });
+      const verification = verificationOf(result);
+
+      assert.equal(verification.passed, true);
+      assert.deepEqual(
+        verification.diagnostics.filter(
+          (diagnostic) => diagnostic.severity === 'error'
+        ),
+        []
+      );
+    });
+
+    it('checks only syntax without a project', async () => {
+      const result = await client.callTool({
+        name: 'merger_tool',
+        arguments: { actStructure: STRUCTURE_FIXTURE, verify: true }
+      });
+      const verification = verificationOf(result);
+
+      assert.equal(verification.passed, true);
+      assert.equal(verification.typeChecked, false);
+      assert.match(
+        textOf(result),
+        /only syntax and Kendo imports were checked/
+      );
+    });
+  });
+
+  describe('workspace writes', () => {
+    type Written = { path: string; status: string; diff?: string };
+    const writeResult = async (args: Record<string, unknown>) => {
+      const result = await client.callTool({
+        name: 'merger_tool',
+        arguments: { actStructure: STRUCTURE_FIXTURE, ...args }
+      });
+      const output = result.structuredContent as {
+        written?: Written[];
+        writeError?: string;
+      };
+      return { result, ...output };
+    };
+    const pagePath = () =>
+      path.join(dataDir, 'pages', 'users', 'UserManagementPage.tsx');
+
+    it('creates the files and reports unchanged ones on a repeat', async () => {
+      const first = await writeResult({ outputDir: 'pages/users' });
+      assert.equal(first.result.isError, undefined);
+      assert.deepEqual(first.written, [{ path: pagePath(), status: 'created' }]);
+      assert.equal(
+        await readFile(pagePath(), 'utf8'),
+        CODE_FIXTURE.mainComponent
+      );
+
+      const repeat = await writeResult({ outputDir: 'pages/users' });
+      assert.deepEqual(repeat.written, [
+        { path: pagePath(), status: 'unchanged' }
+      ]);
+    });
+
+    it('refuses to overwrite a changed file without overwrite', async () => {
+      await writeFile(pagePath(), '// edited by hand\n');
+
+      const refused = await writeResult({ outputDir: 'pages/users' });
+      assert.equal(refused.result.isError, true);
+      assert.equal(refused.written, undefined);
+      assert.match(refused.writeError!, /Refusing to overwrite existing files/);
+      assert.match(textOf(refused.result), /^## ⚠️ .*Files Were Not Written/);
+      assert.doesNotMatch(textOf(refused.result), /Generated Successfully/);
+      assert.equal(await readFile(pagePath(), 'utf8'), '// edited by hand\n');
+
+      const replaced = await writeResult({
+        outputDir: 'pages/users',
+        overwrite: true
+      });
+      assert.equal(replaced.written?.[0].status, 'overwritten');
+      assert.match(replaced.written![0].diff!, /^-\/\/ edited by hand$/m);
+      assert.equal(
+        await readFile(pagePath(), 'utf8'),
+        CODE_FIXTURE.mainComponent
+      );
+    });
+
+    it('refuses locations outside the allowed root', async () => {
+      const outside = await mkdtemp(
+        path.join(tmpdir(), 'kendoai-mcp-outside-')
+      );
+      try {
+        await symlink(outside, path.join(dataDir, 'linked'), 'dir');
+
+        for (const outputDir of [
+          '../outside',
+          path.join(outside, 'pages'),
+          'linked/pages'
+        ]) {
+          const { result, writeError } = await writeResult({ outputDir });
+          assert.equal(result.isError, true, outputDir);
+          assert.match(writeError!, /is outside the allowed locations/);
+        }
+
+        const escaping = await writeResult({
+          outputDir: 'pages/escape',
+          fileName: '../../../escaped.tsx'
+        });
+        assert.match(escaping.writeError!, /escapes the output directory/);
+        assert.deepEqual(await readdir(outside), []);
+      } finally {
+        await rm(outside, { recursive: true, force: true });
+      }
+    });
+
+    it('refuses to write through symlinks inside the output directory', async () => {
+      const outside = await mkdtemp(
+        path.join(tmpdir(), 'kendoai-mcp-outside-')
+      );
+      const pages = path.join(dataDir, 'pages', 'linked');
+      try {
+        await mkdir(pages, { recursive: true });
+        await symlink(outside, path.join(pages, 'components'), 'dir');
+        const throughDir = await writeResult({
+          outputDir: 'pages/linked',
+          fileName: 'components/UserManagementPage.tsx'
+        });
+        assert.equal(throughDir.result.isError, true);
+        assert.match(throughDir.writeError!, /escapes the output directory/);
+
+        const victim = path.join(outside, 'victim.tsx');
+        await writeFile(victim, '// not yours\n');
+        await symlink(victim, path.join(pages, 'UserManagementPage.tsx'));
+        const throughFile = await writeResult({
+          outputDir: 'pages/linked',
+          overwrite: true
+        });
+        assert.equal(throughFile.result.isError, true);
+        assert.match(throughFile.writeError!, /is a symbolic link/);
+        assert.equal(await readFile(victim, 'utf8'), '// not yours\n');
+        assert.deepEqual(await readdir(outside), ['victim.tsx']);
+      } finally {
+        await rm(outside, { recursive: true, force: true });
+      }
+    });
+  });
+
+  it('splits the page into subcomponent files', async () => {
+    const before = backend.requests.length;
+    const result = await client.callTool({
+      name: 'merger_tool',
+      arguments: { actStructure: STRUCTURE_FIXTURE, split: true }
+    });
+    const { files } = result.structuredContent as {
+      files: { path: string; content: string }[];
+    };
+    const file = (path: string) =>
+      files.find((candidate) => candidate.path === path)?.content ?? '';
+
+    assert.equal(result.isError, undefined);
+    assert.deepEqual(
+      files.map((candidate) => candidate.path),
+      [
+        'UserManagementPage.tsx',
+        'components/UsersGrid.tsx',
+        'types.ts',
+        'index.ts'
+      ]
+    );
+    assert.equal(backend.requests.length - before, 2);
+
+    const page = backend.requests[before].body.actStructure as {
+      children: { component: string }[];
+    };
+    assert.equal(page.children[1].component, 'UsersGrid');
+
+    assert.match(file('types.ts'), /^export interface User \{/);
+    assert.doesNotMatch(file('components/UsersGrid.tsx'), /^interface User/m);
+    assert.match(
+      file('components/UsersGrid.tsx'),
+      /import type \{ User \} from '\.\.\/types';/
+    );
+    assert.match(
+      file('UserManagementPage.tsx'),
+      /import UsersGrid from '\.\/components\/UsersGrid';/
+    );
+    assert.match(
+      file('index.ts'),
+      /export \{ default as UsersGrid \} from '\.\/components\/UsersGrid';/
+    );
+  });
+
+  it('keeps types that use imported names out of the shared types file', async () => {
+    const result = await client.callTool({
+      name: 'merger_tool',
+      arguments: {
+        actStructure: withScenario(STRUCTURE_FIXTURE, 'sorted'),
+        split: true,
+        verify: true,
+        projectDir: 'app'
+      }
+    });
+    const { files, verification } = result.structuredContent as {
+      files: { path: string; content: string }[];
+      verification: { passed: boolean; diagnostics: { file: string }[] };
+    };
+    const file = (path: string) =>
+      files.find((candidate) => candidate.path === path)?.content ?? '';
+
+    assert.match(file('types.ts'), /^export interface User \{/);
+    assert.doesNotMatch(file('types.ts'), /GridState|SortDescriptor/);
+    assert.match(file('UserManagementPage.tsx'), /^interface GridState \{/m);
+    assert.match(
+      file('UserManagementPage.tsx'),
+      /import type \{ SortDescriptor \} from '@progress\/kendo-data-query';/
+    );
+    assert.equal(verification.passed, true);
+    assert.deepEqual(
+      verification.diagnostics.filter(
+        (diagnostic) => diagnostic.file === 'types.ts'
+      ),
+      []
+    );
+  });
+
+  it('compares against the given package.json and notes an invalid one', async () => {
+    type Dependencies = {
+      missing: string[];
+      comparedWithManifest: boolean;
+      manifestError?: string;
+    };
+    const merge = async (packageJson: string) => {
+      const result = await client.callTool({
+        name: 'merger_tool',
+        arguments: { actStructure: STRUCTURE_FIXTURE, packageJson }
+      });
+      return {
+        text: textOf(result),
+        ...(result.structuredContent?.dependencies as Dependencies)
+      };
+    };
+
+    const valid = await merge(
+      JSON.stringify({
+        dependencies: { '@progress/kendo-react-grid': '^9.0.0' }
+      })
+    );
+    assert.equal(valid.comparedWithManifest, true);
+    assert.equal(valid.manifestError, undefined);
+    assert.equal(valid.missing.includes('@progress/kendo-react-grid'), false);
+
+    const invalid = await merge('{ "dependencies": ');
+    assert.equal(invalid.comparedWithManifest, false);
+    assert.match(invalid.manifestError!, /package\.json is not valid JSON/);
+    assert.match(
+      invalid.text,
+      /⚠️ \*\*The project's package\.json could not be used:\*\* package\.json is not valid JSON/
+    );
+    assert.ok(invalid.missing.includes('@progress/kendo-react-grid'));
+  });
+
+  it('appends the implementation checklist on request', async () => {
+    const result = await client.callTool({
+      name: 'merger_tool',
+      arguments: { actStructure: STRUCTURE_FIXTURE, includeInstructions: true }
+    });
+
+    assert.match(textOf(result), /Implementation Checklist/);
+    assert.match(textOf(result), /Step 2: Install Required Dependencies/);
+  });
+
+  it('runs the whole pipeline in generate_page with progress', async () => {
+    const progress: string[] = [];
+    const result = await client.callTool(
+      { name: 'generate_page', arguments: { query: 'User management page' } },
+      undefined,
+      { onprogress: ({ message }) => progress.push(message ?? '') }
+    );
+
+    assert.equal(result.isError, undefined);
+    assert.equal((result.content as unknown[]).length, 5);
+    assert.ok(
+      textOf(result).includes(
+        [
+          '#### UserManagementPage.tsx',
+          '```tsx',
+          CODE_FIXTURE.mainComponent.trimEnd(),
+          '```'
+        ].join('\n')
+      )
+    );
+    // The final "complete" notification can race the result on the client.
+    assert.deepEqual(progress.slice(0, 3), [
+      'Generating execution plan',
+      'Generating component structure',
+      'Generating Kendo React code'
+    ]);
+  });
+
+  it('pauses generate_page after the structure stage when asked', async () => {
+    const before = backend.requests.length;
+    const result = await client.callTool({
+      name: 'generate_page',
+      arguments: { query: 'User management page', pauseForApproval: true }
+    });
+
+    assert.match(textOf(result), /Paused for Structure Approval/);
+    assert.deepEqual(
+      backend.requests.slice(before).map((request) => request.agent),
+      ['planner', 'structure']
+    );
+  });
+
+  it('rejects an invalid ACT before calling the merger agent', async () => {
+    const before = backend.requests.length;
+    const result = await client.callTool({
+      name: 'merger_tool',
+      arguments: {
+        actStructure: {
+          component: 'container',
+          description: 'Page',
+          mcpQuery: null,
+          children: [
+            {
+              component: 'GridColumn',
+              description: 'Orphan column',
+              mcpQuery: null,
+              children: ''
+            }
+          ]
+        }
+      }
+    });
+
+    assert.equal(result.isError, true);
+    assert.match(textOf(result), /ACT Pre-flight Check Failed/);
+    assert.match(textOf(result), /\$\.children\[0\]/);
+    assert.equal(backend.requests.length, before);
+  });
+
+  describe('generation sessions', () => {
+    it('continues a pipeline run from its session ID', async () => {
+      const planned = await client.callTool({
+        name: 'planner_tool',
+        arguments: { query: 'User management page' }
+      });
+      const sessionId = sessionIdOf(planned);
+
+      const structured = await client.callTool({
+        name: 'structure_tool',
+        arguments: { query: 'User management page', sessionId }
+      });
+      assert.equal(structured.isError, undefined);
+      assert.equal(sessionIdOf(structured), sessionId);
+      const request = backend.requests.at(-1)!;
+      assert.equal(
+        (request.body.executionPlan as { plan: string }).plan,
+        PLAN_FIXTURE
+      );
+
+      const merged = await client.callTool({
+        name: 'merger_tool',
+        arguments: { sessionId }
+      });
+      assert.equal(merged.isError, undefined);
+      assert.equal(backend.requests.at(-1)!.agent, 'merger');
+
+      const { resources } = await client.listResources();
+      const uris = resources.map((resource) => resource.uri);
+      for (const artifact of ['plan', 'act', 'code']) {
+        assert.ok(uris.includes(`kendoai://sessions/${sessionId}/${artifact}`));
+      }
+
+      const act = await client.readResource({
+        uri: `kendoai://sessions/${sessionId}/act`
+      });
+      assert.deepEqual(
+        JSON.parse((act.contents[0] as { text: string }).text),
+        STRUCTURE_FIXTURE
+      );
+    });
+
+    it('notifies subscribers when session artifacts change', async () => {
+      const planned = await client.callTool({
+        name: 'planner_tool',
+        arguments: { query: 'User management page' }
+      });
+      const sessionId = sessionIdOf(planned);
+      const uri = `kendoai://sessions/${sessionId}/act`;
+
+      const updated = new Promise<string>((resolve) => {
+        client.setNotificationHandler(
+          ResourceUpdatedNotificationSchema,
+          ({ params }) => resolve(params.uri)
+        );
+      });
+      await client.subscribeResource({ uri });
+      await client.callTool({
+        name: 'structure_tool',
+        arguments: { query: 'User management page', sessionId }
+      });
+
+      assert.equal(await updated, uri);
+    });
+
+    it('rejects an unknown session ID', async () => {
+      const before = backend.requests.length;
+      const result = await client.callTool({
+        name: 'merger_tool',
+        arguments: { sessionId: 'does-not-exist' }
+      });
+
+      assert.equal(result.isError, true);
+      assert.match(textOf(result), /Unknown session "does-not-exist"/);
+      assert.equal(backend.requests.length, before);
+    });
+  });
+
+  describe('refine_tool', () => {
+    const agentsSince = (before: number) =>
+      backend.requests.slice(before).map((request) => request.agent);
+
+    it('applies explicit edits locally and regenerates the code', async () => {
+      const before = backend.requests.length;
+      const result = await client.callTool({
+        name: 'refine_tool',
+        arguments: {
+          actStructure: STRUCTURE_FIXTURE,
+          code: CODE_FIXTURE.mainComponent,
+          edits: [
+            { op: 'remove', path: '$.children[1].children[2]' },
+            {
+              op: 'update',
+              path: '$.children[0]',
+              text: 'Team Members'
+            }
+          ]
+        }
+      });
+      const text = textOf(result);
+
+      assert.equal(result.isError, undefined);
+      assert.match(
+        text,
+        /Removed `GridColumn` from `\$\.children\[1\]\.children\[2\]`/
+      );
+      assert.match(text, /Modified `header` at `\$\.children\[0\]` \(text\)/);
+      assert.match(text, /### Updated Code/);
+      assert.deepEqual(agentsSince(before), ['merger']);
+    });
+
+    it('asks the structure agent for natural-language changes', async () => {
+      const before = backend.requests.length;
+      const [header, grid] = STRUCTURE_FIXTURE.children;
+      const result = await client.callTool({
+        name: 'refine_tool',
+        arguments: {
+          change: 'Add an email column to the grid',
+          actStructure: {
+            ...STRUCTURE_FIXTURE,
+            children: [header, { ...grid, children: grid.children.slice(0, 2) }]
+          }
+        }
+      });
+
+      assert.equal(result.isError, undefined);
+      assert.match(
+        textOf(result),
+        /Added `GridColumn` at `\$\.children\[1\]\.children\[2\]`/
+      );
+      assert.deepEqual(agentsSince(before), ['structure', 'merger']);
+      assert.match(
+        String(backend.requests[before].body.query),
+        /Add an email column/
+      );
+    });
+
+    it('skips code generation when the ACT is unchanged', async () => {
+      const before = backend.requests.length;
+      const result = await client.callTool({
+        name: 'refine_tool',
+        arguments: {
+          change: 'Keep the page as it is',
+          actStructure: STRUCTURE_FIXTURE
+        }
+      });
+
+      assert.match(textOf(result), /No structural changes/);
+      assert.match(textOf(result), /Code Not Regenerated/);
+      assert.deepEqual(agentsSince(before), ['structure']);
+    });
+
+    it('regenerates only the changed pieces of a split page', async () => {
+      const split = await client.callTool({
+        name: 'merger_tool',
+        arguments: { actStructure: STRUCTURE_FIXTURE, split: true }
+      });
+      const { sessionId } = split.structuredContent as { sessionId: string };
+      const refine = async (edits: unknown[]) => {
+        const before = backend.requests.length;
+        const result = await client.callTool({
+          name: 'refine_tool',
+          arguments: { sessionId, edits }
+        });
+        assert.equal(result.isError, undefined);
+        return {
+          result,
+          requests: backend.requests.slice(before),
+          ...(result.structuredContent as {
+            files: { path: string }[];
+            reused?: string[];
+          })
+        };
+      };
+
+      const header = await refine([
+        { op: 'update', path: '$.children[0]', text: 'Team Members' }
+      ]);
+      assert.equal(header.requests.length, 1);
+      assert.equal(
+        (header.requests[0].body.actStructure as { component: string })
+          .component,
+        'container'
+      );
+      assert.deepEqual(header.reused, ['components/UsersGrid.tsx']);
+      assert.deepEqual(
+        header.files.map((file) => file.path),
+        [
+          'UserManagementPage.tsx',
+          'components/UsersGrid.tsx',
+          'types.ts',
+          'index.ts'
+        ]
+      );
+      assert.match(
+        textOf(header.result),
+        /Not regenerated \(unchanged\):\*\* `components\/UsersGrid\.tsx`/
+      );
+
+      const column = await refine([
+        { op: 'remove', path: '$.children[1].children[2]' }
+      ]);
+      assert.equal(column.requests.length, 1);
+      assert.equal(
+        (column.requests[0].body.actStructure as { component: string })
+          .component,
+        'Grid'
+      );
+      assert.deepEqual(column.reused, ['UserManagementPage.tsx']);
+    });
+
+    it('reports edits that point at missing nodes', async () => {
+      const result = await client.callTool({
+        name: 'refine_tool',
+        arguments: {
+          actStructure: STRUCTURE_FIXTURE,
+          edits: [{ op: 'remove', path: '$.children[5]' }]
+        }
+      });
+
+      assert.equal(result.isError, true);
+      assert.match(textOf(result), /No node at \$\.children\[5\]/);
+    });
+  });
+
+  describe('project profile', () => {
+    const PROFILE = {
+      theme: 'fluent',
+      formLibrary: 'react-hook-form',
+      folders: { pages: 'src/pages', components: 'src/components' },
+      rules: ['Use the useApi hook for data fetching']
+    };
+    const profilePath = () => path.join(dataDir, '.kendoai.json');
+    const readProfileResource = async () => {
+      const { contents } = await client.readResource({
+        uri: 'kendoai://profile'
+      });
+      return JSON.parse(String(contents[0].text));
+    };
+
+    after(() => rm(profilePath(), { force: true }));
+
+    it('sends the project profile with every agent call', async () => {
+      await writeFile(profilePath(), JSON.stringify(PROFILE));
+      const before = backend.requests.length;
+      const result = await client.callTool({
+        name: 'generate_page',
+        arguments: { query: 'User management page' }
+      });
+
+      assert.equal(result.isError, undefined);
+      const requests = backend.requests.slice(before);
+      assert.deepEqual(
+        requests.map((request) => request.agent),
+        ['planner', 'structure', 'merger']
+      );
+      for (const request of requests) {
+        assert.deepEqual(request.body.profile, PROFILE);
+      }
+
+      const resource = await readProfileResource();
+      assert.equal(resource.path, profilePath());
+      assert.deepEqual(resource.profile, PROFILE);
+    });
+
+    it('recommends the theme package of the profile', async () => {
+      await writeFile(profilePath(), JSON.stringify(PROFILE));
+      const result = await client.callTool({
+        name: 'merger_tool',
+        arguments: { actStructure: STRUCTURE_FIXTURE }
+      });
+      const dependencies = result.structuredContent?.dependencies as {
+        theme?: string;
+        missing: string[];
+      };
+
+      assert.equal(dependencies.theme, '@progress/kendo-theme-fluent');
+      assert.ok(dependencies.missing.includes('@progress/kendo-theme-fluent'));
+      assert.equal(
+        dependencies.missing.includes('@progress/kendo-theme-default'),
+        false
+      );
+    });
+
+    it('reports a profile that does not match the schema', async () => {
+      await writeFile(
+        profilePath(),
+        JSON.stringify({ ...PROFILE, theme: 'fluent-2' })
+      );
+      const before = backend.requests.length;
+      const result = await client.callTool({
+        name: 'planner_tool',
+        arguments: { query: 'User management page' }
+      });
+
+      assert.equal(result.isError, true);
+      assert.match(textOf(result), /Planner Tool Project Profile Error/);
+      assert.match(textOf(result), /theme: Invalid enum value/);
+      assert.equal(backend.requests.length, before);
+      assert.match((await readProfileResource()).error, /theme/);
+    });
+  });
+
+  describe('data model binding', () => {
+    const CUSTOMER = [
+      "type Tier = 'gold' | 'silver';",
+      '',
+      '/** A customer account. */',
+      'export interface Customer {',
+      '  readonly id: number;',
+      '  /** @maxLength 80 */',
+      '  name: string;',
+      '  /** @format email */',
+      '  email?: string;',
+      '  tier: Tier;',
+      '  signedUpAt: Date;',
+      '  active: boolean;',
+      '}'
+    ].join('\n');
+    const dataModel = { format: 'typescript', definition: CUSTOMER };
+
+    type ActNode = {
+      component: string;
+      description: string;
+      children: ActNode[] | string;
+    };
+
+    it('generates Grid columns and describes the model to the agents', async () => {
+      const planned = await client.callTool({
+        name: 'planner_tool',
+        arguments: { query: 'Customer list page', dataModel }
+      });
+      assert.equal(planned.isError, undefined);
+      const plannerQuery = String(backend.requests.at(-1)!.body.query);
+      assert.match(
+        plannerQuery,
+        /^Customer list page\n\n## Data Model: Customer/
+      );
+      assert.match(
+        plannerQuery,
+        /- tier: one of gold, silver, required, editor: DropDownList/
+      );
+
+      const structured = await client.callTool({
+        name: 'structure_tool',
+        arguments: {
+          query: 'Customer list page',
+          sessionId: sessionIdOf(planned)
+        }
+      });
+      assert.equal(structured.isError, undefined);
+      assert.match(
+        String(backend.requests.at(-1)!.body.query),
+        /## Data Model: Customer/
+      );
+
+      const { act } = structured.structuredContent as { act: ActNode };
+      const grid = (act.children as ActNode[]).find(
+        (node) => node.component === 'Grid'
+      )!;
+      const columns = (grid.children as ActNode[]).filter(
+        (node) => node.component === 'GridColumn'
+      );
+      assert.equal((grid.children as ActNode[])[0].component, 'GridToolbar');
+      assert.deepEqual(
+        columns.map((column) => column.description.match(/field "(\w+)"/)?.[1]),
+        ['id', 'name', 'email', 'tier', 'signedUpAt', 'active']
+      );
+      assert.match(
+        columns[4].description,
+        /date filter; format "\{0:g\}"; edited with DateTimePicker/
+      );
+      assert.match(columns[0].description, /not editable/);
+      assert.match(textOf(structured), /Bound to Customer/);
+    });
+
+    it('binds only the main Grid, not a lookup grid in a dialog', async () => {
+      const result = await client.callTool({
+        name: 'structure_tool',
+        arguments: {
+          query: 'Customer list page scenario:lookup',
+          plan: PLAN,
+          dataModel
+        }
+      });
+      const { act } = result.structuredContent as { act: ActNode };
+      const [, grid, dialog] = act.children as ActNode[];
+      const lookup = (dialog.children as ActNode[])[0];
+
+      assert.equal(
+        (grid.children as ActNode[]).filter(
+          (node) => node.component === 'GridColumn'
+        ).length,
+        6
+      );
+      assert.deepEqual(
+        (lookup.children as ActNode[]).map((node) => node.description),
+        ['Column showing the role name']
+      );
+      assert.match(
+        textOf(result),
+        /\$\.children\[2\]\.children\[0\]: Grid not bound to Customer/
+      );
+    });
+
+    it('adds the typed model and validators to the generated code', async () => {
+      const result = await client.callTool({
+        name: 'generate_page',
+        arguments: { query: 'Customer list page', dataModel }
+      });
+      assert.equal(result.isError, undefined);
+
+      const { files } = result.structuredContent as {
+        files: { path: string; content: string }[];
+      };
+      const model = files.find(
+        (file) => file.path === 'models/Customer.ts'
+      )!.content;
+      assert.deepEqual(backend.requests.at(-1)!.body.dataModel, {
+        name: 'Customer',
+        path: 'models/Customer.ts',
+        typescript: model
+      });
+      assert.match(model, /export interface Customer \{/);
+      assert.match(model, /  readonly id: number;/);
+      assert.match(model, /  email\?: string;/);
+      assert.match(model, /  tier: 'gold' \| 'silver';/);
+      assert.match(model, /export const customerValidators/);
+      assert.match(model, /return 'Name must have at most 80 characters\.';/);
+      assert.match(model, /return 'Email must be a valid email address\.';/);
+      assert.doesNotMatch(model, /  id: \(value/);
+      assert.ok(
+        textOf(result).includes(
+          ['#### models/Customer.ts', '```ts', model.trimEnd(), '```'].join(
+            '\n'
+          )
+        )
+      );
+    });
+
+    it('quotes field names and messages that are not plain identifiers', async () => {
+      const result = await client.callTool({
+        name: 'merger_tool',
+        arguments: {
+          actStructure: STRUCTURE_FIXTURE,
+          verify: true,
+          dataModel: {
+            format: 'json-schema',
+            name: 'Contact',
+            definition: {
+              type: 'object',
+              required: ['first-name', "owner's note"],
+              properties: {
+                'first-name': {
+                  type: 'string',
+                  description: 'Ends a comment */ early'
+                },
+                "owner's note": { type: 'string', enum: ["won't", 'will'] }
+              }
+            }
+          }
+        }
+      });
+      const { files, verification } = result.structuredContent as {
+        files: { path: string; content: string }[];
+        verification: { passed: boolean; diagnostics: unknown[] };
+      };
+      const model = files.find(
+        (file) => file.path === 'models/Contact.ts'
+      )!.content;
+
+      assert.deepEqual(verification.diagnostics, []);
+      assert.equal(verification.passed, true);
+      assert.match(
+        model,
+        /  \/\*\* Ends a comment \*\\\/ early \*\/\n  'first-name': string;/
+      );
+      assert.match(model, /  'owner\\'s note': 'won\\'t' \| 'will';/);
+      assert.match(
+        model,
+        /return 'Owner\\'s note must be one of won\\'t, will\.';/
+      );
+    });
+
+    it('writes local types into the model file so it compiles on its own', async () => {
+      const result = await client.callTool({
+        name: 'merger_tool',
+        arguments: {
+          actStructure: STRUCTURE_FIXTURE,
+          verify: true,
+          projectDir: 'app',
+          dataModel: {
+            format: 'typescript',
+            definition: [
+              "type Role = 'admin' | 'user';",
+              'interface Address { city: string }',
+              'interface User {',
+              '  id: number;',
+              '  roles: Role[];',
+              '  manager: Role | null;',
+              '  home?: Address | null;',
+              '  tags: Array<string | number>;',
+              '}'
+            ].join('\n'),
+            name: 'User'
+          }
+        }
+      });
+      const { files, verification } = result.structuredContent as {
+        files: { path: string; content: string }[];
+        verification: { diagnostics: { file: string; message: string }[] };
+      };
+      const model = files.find(
+        (file) => file.path === 'models/User.ts'
+      )!.content;
+
+      assert.match(model, /  roles: \('admin' \| 'user'\)\[\];/);
+      assert.match(model, /  manager: 'admin' \| 'user' \| null;/);
+      assert.match(model, /  home\?: Record<string, unknown> \| null;/);
+      assert.match(model, /  tags: \(string \| number\)\[\];/);
+      assert.deepEqual(
+        verification.diagnostics.filter(
+          (diagnostic) => diagnostic.file === 'models/User.ts'
+        ),
+        []
+      );
+    });
+
+    it('binds Form fields from an OpenAPI component with editors by type', async () => {
+      const openapi = {
+        openapi: '3.0.3',
+        components: {
+          schemas: {
+            Status: { type: 'string', enum: ['open', 'closed'] },
+            Ticket: {
+              type: 'object',
+              required: ['title', 'dueDate'],
+              properties: {
+                title: { type: 'string' },
+                dueDate: { type: 'string', format: 'date' },
+                estimate: { type: 'number', minimum: 0 },
+                status: { $ref: '#/components/schemas/Status' }
+              }
+            }
+          }
+        }
+      };
+      const result = await client.callTool({
+        name: 'generate_page',
+        arguments: {
+          query: 'Ticket page scenario:form',
+          dataModel: { format: 'openapi', definition: openapi, name: 'Ticket' }
+        }
+      });
+      assert.equal(result.isError, undefined);
+
+      const { act } = result.structuredContent as { act: ActNode };
+      assert.deepEqual(
+        backend.requests.at(-1)!.body.actStructure,
+        migrateAct(act)
+      );
+      const children = (act.children as ActNode[])[0].children as ActNode[];
+      assert.deepEqual(
+        children.map((child) => child.component),
+        ['Field', 'Field', 'Field', 'Field', 'Button']
+      );
+      assert.deepEqual(
+        children
+          .slice(0, 4)
+          .map((child) => child.description.match(/using (\w+)/)?.[1]),
+        ['Input', 'DatePicker', 'NumericTextBox', 'DropDownList']
+      );
+      assert.match(children[3].description, /options: open, closed/);
+    });
+
+    it('reports a definition without the named entity', async () => {
+      const before = backend.requests.length;
+      const result = await client.callTool({
+        name: 'planner_tool',
+        arguments: {
+          query: 'Customer list page',
+          dataModel: { ...dataModel, name: 'Order' }
+        }
+      });
+
+      assert.equal(result.isError, true);
+      assert.match(textOf(result), /Planner Tool Data Model Error/);
+      assert.match(textOf(result), /No interface or object type named Order/);
+      assert.equal(backend.requests.length, before);
+    });
+
+    it('reports entity and field names that cannot be used in code', async () => {
+      const schema = (title: string, field: string) => ({
+        format: 'json-schema',
+        definition: {
+          type: 'object',
+          title,
+          properties: { [field]: { type: 'string' } }
+        }
+      });
+      for (const [dataModel, message] of [
+        [schema('!!!', 'name'), /"!!!" cannot name the entity/],
+        [schema('1st order', 'name'), /"1st order" cannot name the entity/],
+        [schema('Order', '_'), /The field "_" of Order has no letters/]
+      ] as const) {
+        const result = await client.callTool({
+          name: 'planner_tool',
+          arguments: { query: 'Order page', dataModel }
+        });
+        assert.equal(result.isError, true);
+        assert.match(textOf(result), message);
+      }
+    });
+
+    it('refers to validators of non-identifier fields by index', async () => {
+      const result = await client.callTool({
+        name: 'structure_tool',
+        arguments: {
+          query: 'Edit form scenario:form',
+          plan: PLAN,
+          dataModel: {
+            format: 'json-schema',
+            definition: {
+              type: 'object',
+              title: 'Account',
+              required: ['2fa'],
+              properties: { '2fa': { type: 'string' } }
+            }
+          }
+        }
+      });
+      const descriptions = JSON.stringify(result.structuredContent?.act);
+
+      assert.equal(result.isError, undefined);
+      assert.match(descriptions, /validated with accountValidators\['2fa'\]/);
+    });
+  });
+
+  describe('observability', () => {
+    type LogData = { event: string; [field: string]: unknown };
+
+    it('sends log entries at the level the client sets', async () => {
+      const entries: { level: string; data: LogData }[] = [];
+      client.setNotificationHandler(
+        LoggingMessageNotificationSchema,
+        ({ params }) => {
+          entries.push({ level: params.level, data: params.data as LogData });
+        }
+      );
+
+      await client.setLoggingLevel('debug');
+      await client.callTool({
+        name: 'planner_tool',
+        arguments: { query: 'User management page' }
+      });
+      await client.setLoggingLevel('warning');
+      await client.callTool({
+        name: 'planner_tool',
+        arguments: { query: 'User management page' }
+      });
+
+      const upstream = entries.filter(
+        (entry) => entry.data.event === 'agent.response'
+      );
+      assert.equal(upstream.length, 1);
+      assert.equal(upstream[0].level, 'debug');
+      assert.equal(upstream[0].data.agent, 'planner');
+      assert.equal(upstream[0].data.status, 200);
+      assert.ok((upstream[0].data.requestBytes as number) > 0);
+      assert.ok((upstream[0].data.responseBytes as number) > 0);
+      assert.equal(
+        JSON.stringify(entries).includes(SECRET),
+        false,
+        'the secret is never logged'
+      );
+
+      const calls = entries.filter((entry) => entry.data.event === 'tool.call');
+      assert.equal(calls.length, 1);
+      assert.equal(calls[0].data.tool, 'planner_tool');
+      assert.equal(calls[0].data.isError, false);
+      assert.equal(typeof calls[0].data.durationMs, 'number');
+    });
+
+    it('reports tool latency and upstream statuses as metrics', async () => {
+      await client.callTool({
+        name: 'merger_tool',
+        arguments: { actStructure: withScenario(STRUCTURE_FIXTURE, 'rejected') }
+      });
+      const { contents } = await client.readResource({
+        uri: 'kendoai://metrics'
+      });
+      const snapshot = JSON.parse(String(contents[0].text));
+
+      assert.ok(snapshot.tools.planner_tool.calls >= 2);
+      assert.ok(snapshot.tools.merger_tool.errors >= 1);
+      assert.ok(snapshot.upstream.planner.statuses['200'] >= 2);
+      assert.ok(snapshot.upstream.planner.responseBytes > 0);
+      assert.equal(typeof snapshot.upstream.merger.averageMs, 'number');
+    });
+
+    it('appends each pipeline step to the session trace file', async () => {
+      const result = await client.callTool({
+        name: 'generate_page',
+        arguments: { query: 'User management page' }
+      });
+      const sessionId = sessionIdOf(result);
+      const trace = (
+        await readFile(
+          path.join(dataDir, 'traces', `${sessionId}.jsonl`),
+          'utf8'
+        )
+      )
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line));
+
+      assert.deepEqual(
+        trace.map((event) => event.type),
+        [
+          'tool.call',
+          'agent.exchange',
+          'agent.exchange',
+          'agent.exchange',
+          'tool.result'
+        ]
+      );
+      assert.equal(trace[0].arguments.query, 'User management page');
+      assert.equal(trace[1].request.query, 'User management page');
+      assert.equal(trace[1].request.secret, undefined);
+      assert.deepEqual(trace[3].response.data, { code: CODE_FIXTURE });
+
+      await client.callTool({
+        name: 'merger_tool',
+        arguments: { sessionId }
+      });
+      const appended = await readFile(
+        path.join(dataDir, 'traces', `${sessionId}.jsonl`),
+        'utf8'
+      );
+      assert.equal(appended.trim().split('\n').length, trace.length + 3);
+    });
+  });
+
+  describe('extract_act', () => {
+    it('builds an ACT from existing page source', async () => {
+      const before = backend.requests.length;
+      const result = await client.callTool({
+        name: 'extract_act',
+        arguments: { source: CODE_FIXTURE.mainComponent }
+      });
+      const act = result.structuredContent?.act as ActNode;
+      const [heading, grid] = childNodes(act);
+
+      assert.equal(result.isError, undefined);
+      assert.equal(result.structuredContent?.component, 'UserManagementPage');
+      assert.equal(act.component, 'container');
+      assert.deepEqual(heading, {
+        component: 'h1',
+        description: 'Heading 1 "User Management"',
+        mcpQuery: null,
+        children: 'User Management'
+      });
+      assert.equal(grid.component, 'Grid');
+      assert.match(grid.description, /sortable, pageable, bound to users/);
+      assert.equal(grid.mcpQuery, 'Kendo React Grid with sortable, pageable');
+      assert.deepEqual(grid.props, { sortable: true, pageable: true });
+      assert.deepEqual(grid.dataBinding, { source: 'users', kind: 'state' });
+      assert.deepEqual(act.state, [
+        { name: 'users', type: 'User[]', initial: [] }
+      ]);
+      assert.deepEqual(
+        childNodes(grid).map((child) => child.component),
+        ['GridToolbar', 'GridColumn', 'GridColumn']
+      );
+      assert.equal(childNodes(childNodes(grid)[0])[0].children, 'Add User');
+      assert.equal(
+        childNodes(grid)[1].description,
+        'Grid column "Name" (field: name)'
+      );
+      assert.equal(backend.requests.length, before);
+    });
+
+    it('inlines local components and resolves aliased imports', async () => {
+      const result = await client.callTool({
+        name: 'extract_act',
+        arguments: {
+          source: [
+            "import { Button as KButton } from '@progress/kendo-react-buttons';",
+            'const Actions = () => <KButton onClick={save}>Save</KButton>;',
+            'export const SettingsPage = () => (',
+            '  <>',
+            '    <h2>Settings</h2>',
+            '    {dirty && <Actions />}',
+            '  </>',
+            ');'
+          ].join('\n')
+        }
+      });
+      const act = result.structuredContent?.act as ActNode;
+
+      assert.equal(act.description, 'Settings page layout');
+      assert.deepEqual(
+        childNodes(act).map((child) => child.component),
+        ['h2', 'Button']
+      );
+      assert.equal(
+        childNodes(act)[1].description,
+        'Button "Save" (handles click via save)'
+      );
+    });
+
+    it('records the extracted ACT for merger_tool', async () => {
+      const extracted = await client.callTool({
+        name: 'extract_act',
+        arguments: { source: CODE_FIXTURE.mainComponent }
+      });
+      const result = await client.callTool({
+        name: 'merger_tool',
+        arguments: { sessionId: sessionIdOf(extracted) }
+      });
+
+      assert.equal(result.isError, undefined);
+      assert.equal(sessionIdOf(result), sessionIdOf(extracted));
+    });
+
+    it('reports sources without a component', async () => {
+      const result = await client.callTool({
+        name: 'extract_act',
+        arguments: { source: 'export const answer = 42;' }
+      });
+
+      assert.equal(result.isError, true);
+      assert.match(textOf(result), /No exported React component/);
+    });
+  });
+
+  it('reports ACT diagnostics from validate_act', async () => {
+    const result = await client.callTool({
+      name: 'validate_act',
+      arguments: {
+        actStructure: {
+          component: 'Gird',
+          description: 'Typo',
+          mcpQuery: null,
+          children: []
+        }
+      }
+    });
+
+    assert.match(textOf(result), /Did you mean "Grid"\?/);
+    assert.equal(result.structuredContent?.valid, false);
+  });
+
+  describe('ACT v2', () => {
+    const v2Act = {
+      version: 2,
+      id: 'page',
+      component: 'container',
+      description: 'User page',
+      mcpQuery: null,
+      state: [{ name: 'selectedUser', type: 'User | null', initial: null }],
+      children: [
+        {
+          id: 'users-grid',
+          component: 'Grid',
+          description: 'Users',
+          mcpQuery: null,
+          props: { sortable: true, pageSize: 10 },
+          dataBinding: {
+            source: 'GET /api/users',
+            kind: 'api',
+            entity: 'User'
+          },
+          events: [
+            {
+              name: 'onRowClick',
+              action: 'Selects the clicked user',
+              updates: ['selectedUser']
+            }
+          ],
+          children: [
+            {
+              component: 'GridColumn',
+              description: 'Name column',
+              mcpQuery: null,
+              props: { field: 'name', title: 'Name' },
+              children: ''
+            }
+          ]
+        }
+      ]
+    };
+
+    it('migrates v1 trees before calling the merger', async () => {
+      const result = await client.callTool({
+        name: 'merger_tool',
+        arguments: { actStructure: STRUCTURE_FIXTURE }
+      });
+      assert.equal(result.isError, undefined);
+
+      const sent = backend.requests.at(-1)!.body.actStructure as ActNode;
+      assert.equal(sent.version, 2);
+      assert.equal(sent.id, 'container');
+      assert.deepEqual(
+        childNodes(childNodes(sent)[1]).map((child) => child.id),
+        ['grid-toolbar', 'grid-column', 'grid-column-2']
+      );
+      assert.equal(
+        childNodes(sent)[1].description,
+        STRUCTURE_FIXTURE.children[1].description
+      );
+    });
+
+    it('sends v2 trees with their typed fields unchanged', async () => {
+      const result = await client.callTool({
+        name: 'merger_tool',
+        arguments: { actStructure: v2Act }
+      });
+      assert.equal(result.isError, undefined);
+      assert.deepEqual(backend.requests.at(-1)!.body.actStructure, v2Act);
+    });
+
+    it('validates the typed fields, ids and state references', async () => {
+      const grid = v2Act.children[0];
+      const result = await client.callTool({
+        name: 'validate_act',
+        arguments: {
+          actStructure: {
+            ...v2Act,
+            state: [],
+            children: [
+              {
+                ...grid,
+                events: [...grid.events, { name: 'rowClick', action: 'Typo' }]
+              },
+              { ...grid, events: [], children: '' }
+            ]
+          }
+        }
+      });
+      const diagnostics = (
+        result.structuredContent as {
+          diagnostics: { code: string; path: string }[];
+        }
+      ).diagnostics.map(({ code, path }) => `${code} ${path}`);
+
+      assert.equal(result.structuredContent?.valid, false);
+      assert.deepEqual(diagnostics, [
+        'invalid-shape $.children[0].events[1].name',
+        'unknown-state $.children[0].events[0]',
+        'duplicate-id $.children[1]'
+      ]);
+    });
+  });
+
+  describe('render_act', () => {
+    it('renders the ACT as an outline, a diagram and a wireframe', async () => {
+      const result = await client.callTool({
+        name: 'render_act',
+        arguments: {
+          actStructure: STRUCTURE_FIXTURE,
+          formats: ['outline', 'mermaid', 'html']
+        }
+      });
+      const views = result.structuredContent as Record<string, string>;
+
+      assert.equal(result.isError, undefined);
+      assert.match(
+        views.outline,
+        /^ {6}- \*\*Button\*\* "Add User" - Primary action button/m
+      );
+      assert.match(views.mermaid, /^graph TD/);
+      assert.match(
+        views.mermaid,
+        /n1\["<b>header<\/b><br\/>#quot;User Management#quot;/
+      );
+      assert.match(views.mermaid, /class n2,n3,n4,n5,n6 kendo/);
+      assert.match(
+        views.html,
+        /<div class="node kendo" data-path="\$\.children\[1\]"/
+      );
+      assert.ok(!('yaml' in views));
+    });
+
+    it('exports YAML and imports the edited tree into a session', async () => {
+      const exported = await client.callTool({
+        name: 'render_act',
+        arguments: { actStructure: STRUCTURE_FIXTURE, formats: ['yaml'] }
+      });
+      const yaml = (exported.structuredContent as { yaml: string }).yaml;
+      assert.match(yaml, /^component: container\ndescription:/);
+
+      const imported = await client.callTool({
+        name: 'render_act',
+        arguments: {
+          yaml: yaml.replace('children: Add User', 'children: Invite User'),
+          formats: ['outline']
+        }
+      });
+      assert.equal(imported.isError, undefined);
+      assert.match(textOf(imported), /ACT Imported from YAML/);
+
+      const sessionId = sessionIdOf(imported);
+      const { contents } = await client.readResource({
+        uri: `kendoai://sessions/${sessionId}/act`
+      });
+      const act = JSON.parse((contents[0] as { text: string }).text);
+      assert.equal(
+        act.children[1].children[0].children[0].children,
+        'Invite User'
+      );
+    });
+
+    it('reports YAML that is not an ACT', async () => {
+      const result = await client.callTool({
+        name: 'render_act',
+        arguments: { yaml: 'component: Grid\nchildren: [' }
+      });
+      assert.equal(result.isError, true);
+      assert.match(textOf(result), /The YAML could not be parsed/);
+
+      const shapeless = await client.callTool({
+        name: 'render_act',
+        arguments: { yaml: 'component: Grid\ndescription: Users' }
+      });
+      assert.equal(shapeless.isError, true);
+      assert.match(textOf(shapeless), /\$\.children/);
+    });
+  });
+
+  describe('kendo_docs', () => {
+    it('searches the bundled docs', async () => {
+      const result = await client.callTool({
+        name: 'kendo_docs',
+        arguments: { query: 'Kendo React Grid with sorting and paging' }
+      });
+      const { results } = result.structuredContent as {
+        results: { component: string; package: string; matched: string[] }[];
+      };
+
+      assert.equal(result.isError, undefined);
+      assert.equal(results.length, 3);
+      assert.equal(results[0].component, 'Grid');
+      assert.equal(results[0].package, '@progress/kendo-react-grid');
+      assert.ok(results[0].matched.includes('sortable'));
+      assert.ok(results[0].matched.includes('onPageChange'));
+      assert.match(
+        textOf(result),
+        /- `pageable`: `boolean \| GridPagerSettings`/
+      );
+    });
+
+    it('looks up a component by name and suggests close names', async () => {
+      const result = await client.callTool({
+        name: 'kendo_docs',
+        arguments: { component: 'datepicker' }
+      });
+      const [doc] = (
+        result.structuredContent as {
+          results: { component: string; props: { name: string }[] }[];
+        }
+      ).results;
+      assert.equal(doc.component, 'DatePicker');
+      assert.ok(doc.props.some((prop) => prop.name === 'format'));
+
+      const typo = await client.callTool({
+        name: 'kendo_docs',
+        arguments: { component: 'DropDownLst' }
+      });
+      assert.equal(typo.isError, true);
+      assert.match(textOf(typo), /Did you mean "DropDownList"\?/);
+    });
+
+    it('resolves the mcpQuery of every ACT node', async () => {
+      const result = await client.callTool({
+        name: 'kendo_docs',
+        arguments: { actStructure: STRUCTURE_FIXTURE, limit: 2 }
+      });
+      const { nodes } = result.structuredContent as {
+        nodes: {
+          path: string;
+          mcpQuery: string;
+          results: { component: string }[];
+        }[];
+      };
+
+      assert.deepEqual(
+        nodes.map((node) => [
+          node.path,
+          node.results.map((doc) => doc.component)[0],
+          node.results.length
+        ]),
+        [
+          ['$.children[1]', 'Grid', 2],
+          ['$.children[1].children[0].children[0]', 'Button', 2]
+        ]
+      );
+      assert.match(textOf(result), /### Grid\n`import \{ Grid \}/);
+    });
+  });
+
+  describe('a11y_audit', () => {
+    type Finding = {
+      severity: string;
+      code: string;
+      wcag: string[];
+      path?: string;
+      line?: number;
+    };
+
+    it('reports ACT nodes with WCAG references', async () => {
+      const result = await client.callTool({
+        name: 'a11y_audit',
+        arguments: {
+          actStructure: {
+            version: 2,
+            component: 'container',
+            description: 'Settings page',
+            mcpQuery: null,
+            children: [
+              {
+                component: 'h1',
+                description: 'Title',
+                mcpQuery: null,
+                children: 'Settings'
+              },
+              {
+                component: 'h3',
+                description: 'Section title',
+                mcpQuery: null,
+                children: 'Profile'
+              },
+              {
+                component: 'FieldWrapper',
+                description: 'Labelled email input',
+                mcpQuery: null,
+                children: [
+                  {
+                    component: 'Label',
+                    description: 'Email label',
+                    mcpQuery: null,
+                    children: 'Email'
+                  },
+                  {
+                    component: 'Input',
+                    description: 'Email input',
+                    mcpQuery: null,
+                    children: ''
+                  }
+                ]
+              },
+              {
+                component: 'Button',
+                description: 'Settings button',
+                mcpQuery: null,
+                props: { svgIcon: 'gearIcon' },
+                children: ''
+              },
+              {
+                component: 'Dialog',
+                description: 'Confirmation dialog',
+                mcpQuery: null,
+                children: []
+              }
+            ]
+          }
+        }
+      });
+      const { passed, findings } = result.structuredContent as {
+        passed: boolean;
+        findings: Finding[];
+      };
+
+      assert.equal(passed, false);
+      assert.deepEqual(
+        findings.map((item) => `${item.code} ${item.path} ${item.severity}`),
+        [
+          'heading-order $.children[1] warning',
+          'button-name $.children[3] error',
+          'dialog-title $.children[4] error'
+        ]
+      );
+      assert.deepEqual(findings[1].wcag, ['4.1.2']);
+      assert.match(
+        textOf(result),
+        /Icon-only Button .*WCAG 4\.1\.2 Name, Role, Value/
+      );
+    });
+
+    it('reports generated code by line', async () => {
+      const code = [
+        "import { Button } from '@progress/kendo-react-buttons';",
+        "import { Input } from '@progress/kendo-react-inputs';",
+        '',
+        'export default function SearchPage() {',
+        '  return (',
+        '    <div>',
+        '      <Input placeholder="Search" />',
+        '      <Button svgIcon={searchIcon} />',
+        '      <img src="logo.png" />',
+        '      <div onClick={openDetails}>Details</div>',
+        '    </div>',
+        '  );',
+        '}'
+      ].join('\n');
+      const result = await client.callTool({
+        name: 'a11y_audit',
+        arguments: { code }
+      });
+      const { findings, audited } = result.structuredContent as {
+        findings: Finding[];
+        audited: { act: boolean; files: string[] };
+      };
+
+      assert.deepEqual(audited, { act: false, files: ['Page.tsx'] });
+      assert.deepEqual(
+        findings.map((item) => `${item.code}:${item.line}`),
+        ['input-label:7', 'button-name:8', 'image-alt:9', 'click-keyboard:10']
+      );
+      assert.match(textOf(result), /`Page\.tsx:9:7` \[image-alt\]/);
+    });
+
+    it('passes the generated fixture and requires something to audit', async () => {
+      const result = await client.callTool({
+        name: 'a11y_audit',
+        arguments: { code: CODE_FIXTURE.mainComponent }
+      });
+      assert.equal(result.structuredContent?.passed, true);
+      assert.match(textOf(result), /Accessibility Audit Passed/);
+
+      const empty = await client.callTool({
+        name: 'a11y_audit',
+        arguments: {}
+      });
+      assert.equal(empty.isError, true);
+      assert.match(
+        textOf(empty),
+        /One of actStructure, code, files or sessionId/
+      );
+    });
+  });
+
+  describe('generate_pages', () => {
+    type BatchPage = {
+      name: string;
+      route: string;
+      status: string;
+      sessionId?: string;
+      error?: string;
+      files: string[];
+    };
+
+    it('generates a layout, every page and a route table', async () => {
+      const before = backend.requests.length;
+      const result = await client.callTool({
+        name: 'generate_pages',
+        arguments: {
+          appName: 'Acme Admin',
+          pages: [
+            { title: 'Users', query: 'Grid of users with sorting' },
+            {
+              title: 'Order History',
+              query: 'Grid of past orders',
+              name: 'OrdersPage'
+            }
+          ],
+          concurrency: 2
+        }
+      });
+
+      assert.equal(result.isError, undefined);
+      assert.match(textOf(result), /2 Kendo React Pages Generated/);
+      const requests = backend.requests.slice(before);
+      assert.equal(requests.length, 9);
+      assert.match(String(requests[0].body.query), /Acme Admin/);
+      assert.match(String(requests[0].body.query), /- Users \(\/users\)/);
+      const pageQueries = requests
+        .filter((request) => request.agent === 'planner')
+        .slice(1)
+        .map((request) => String(request.body.query));
+      assert.equal(pageQueries.length, 2);
+      for (const query of pageQueries) {
+        assert.match(query, /already provides an AppBar/);
+      }
+
+      const output = result.structuredContent as {
+        layout: { sessionId: string; files: string[] };
+        pages: BatchPage[];
+        files: { path: string; content: string }[];
+      };
+      assert.deepEqual(output.layout.files, ['layout/AppLayout.tsx']);
+      assert.deepEqual(
+        output.pages.map(({ name, route, status, files }) => [
+          name,
+          route,
+          status,
+          files
+        ]),
+        [
+          ['UsersPage', '/users', 'complete', ['pages/users/UsersPage.tsx']],
+          [
+            'OrdersPage',
+            '/order-history',
+            'complete',
+            ['pages/orders/OrdersPage.tsx']
+          ]
+        ]
+      );
+
+      const routes = output.files.find((file) => file.path === 'routes.tsx')!;
+      assert.match(
+        routes.content,
+        /import AppLayout from '\.\/layout\/AppLayout';/
+      );
+      assert.match(
+        routes.content,
+        /import UsersPage from '\.\/pages\/users\/UsersPage';/
+      );
+      assert.match(
+        routes.content,
+        /\{ index: true, element: <Navigate to="\/users" replace \/> \}/
+      );
+      assert.match(
+        routes.content,
+        /\{ path: 'order-history', element: <OrdersPage \/> \}/
+      );
+      const navigation = output.files.find(
+        (file) => file.path === 'navigation.ts'
+      )!;
+      assert.match(navigation.content, /text: 'Order History'/);
+    });
+
+    it('reports failed pages and leaves them out of the routes', async () => {
+      const result = await client.callTool({
+        name: 'generate_pages',
+        arguments: {
+          pages: [
+            { title: 'Users', query: 'Grid of users' },
+            {
+              title: 'Reports',
+              query: `Report page for ${SECRET} scenario:rejected`
+            }
+          ]
+        }
+      });
+
+      assert.equal(result.isError, undefined);
+      assert.equal(
+        JSON.stringify(result).includes(SECRET),
+        false,
+        'page errors are redacted'
+      );
+      assert.match(textOf(result), /1 of 2 Kendo React Pages Generated/);
+      const output = result.structuredContent as {
+        pages: BatchPage[];
+        files: { path: string; content: string }[];
+      };
+      const [users, reports] = output.pages;
+      assert.equal(users.status, 'complete');
+      assert.equal(reports.status, 'failed');
+      assert.match(reports.error!, /could not process .*\[REDACTED\]/);
+      assert.deepEqual(reports.files, []);
+      const routes = output.files.find((file) => file.path === 'routes.tsx')!;
+      assert.doesNotMatch(routes.content, /ReportsPage/);
+
+      const duplicate = await client.callTool({
+        name: 'generate_pages',
+        arguments: {
+          pages: [
+            { title: 'Users', query: 'Grid of users' },
+            { title: 'People', query: 'Grid of people', route: '/users' }
+          ]
+        }
+      });
+      assert.equal(duplicate.isError, true);
+      assert.match(textOf(duplicate), /share the route "\/users"/);
+    });
+
+    it('reports a write failure as an error', async () => {
+      const result = await client.callTool({
+        name: 'generate_pages',
+        arguments: {
+          pages: [{ title: 'Users', query: 'Grid of users' }],
+          outputDir: '../outside'
+        }
+      });
+
+      assert.equal(result.isError, true);
+      assert.match(textOf(result), /Files Not Written/);
+      assert.match(
+        String(result.structuredContent?.writeError),
+        /outside the allowed locations/
+      );
+    });
+  });
+
+  describe('error formatting', () => {
+    const cases: [scenario: string, heading: RegExp, errorClass: string][] = [
+      ['rejected', /Planner Tool API Error/, 'rejected'],
+      ['malformed', /Planner Tool Malformed Response/, 'malformed'],
+      ['bad-shape', /Planner Tool Malformed Response/, 'malformed'],
+      ['server-error', /Planner Tool Upstream Server Error/, 'server'],
+      ['unauthorized', /Planner Tool Authorization Error/, 'auth'],
+      ['slow', /Planner Tool Timed Out/, 'timeout']
+    ];
+
+    for (const [scenario, heading, errorClass] of cases) {
+      it(`formats the ${scenario} scenario as ${errorClass}`, async () => {
+        const result = await client.callTool({
+          name: 'planner_tool',
+          arguments: { query: `User page scenario:${scenario}` }
+        });
+
+        assert.equal(result.isError, true);
+        assert.match(textOf(result), heading);
+        assert.ok(
+          textOf(result).includes(`**Error Class:** \`${errorClass}\``)
+        );
+      });
+    }
+
+    it('reports Retry-After only when the service sends it', async () => {
+      const retryAfterOf = async (scenario: string) =>
+        textOf(
+          await client.callTool({
+            name: 'planner_tool',
+            arguments: { query: `User page scenario:${scenario}` }
+          })
+        ).match(/\*\*Retry After:\*\* (\d+)s/)?.[1];
+
+      assert.equal(await retryAfterOf('rate-limited'), '1');
+      assert.equal(await retryAfterOf('throttled'), undefined);
+      assert.ok(['1', '2'].includes((await retryAfterOf('throttled-until'))!));
+    });
+
+    it('cancels the upstream request when the client aborts the call', async () => {
+      const before = backend.requests.length;
+      const controller = new AbortController();
+      const call = client.callTool(
+        {
+          name: 'structure_tool',
+          arguments: { query: 'User page scenario:slow', plan: PLAN }
+        },
+        undefined,
+        { signal: controller.signal }
+      );
+      setTimeout(() => controller.abort(), 500);
+      await assert.rejects(call, /abort/i);
+
+      let trace = '';
+      for (let wait = 0; wait < 50 && !trace; wait++) {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        const files = await readdir(path.join(dataDir, 'traces'));
+        for (const file of files.filter((name) => name.startsWith('run-'))) {
+          const text = await readFile(
+            path.join(dataDir, 'traces', file),
+            'utf8'
+          );
+          if (
+            text.includes('"tool":"structure_tool"') &&
+            text.includes('scenario:slow') &&
+            text.includes('tool.result')
+          ) {
+            trace = text;
+          }
+        }
+      }
+
+      const [request] = backend.requests.slice(before);
+      assert.equal(request.agent, 'structure');
+      assert.equal(request.aborted, true);
+      assert.equal(backend.requests.length - before, 1, 'not retried');
+      const result = trace
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line))
+        .find((event) => event.type === 'tool.result')?.result;
+      assert.equal(result?.isError, true);
+      assert.match(textOf(result), /Structure Tool Cancelled/);
+    });
+
+    it('retries transient failures and then succeeds', async () => {
+      const before = backend.requests.length;
+      const result = await client.callTool({
+        name: 'planner_tool',
+        arguments: { query: 'User page scenario:flaky' }
+      });
+
+      assert.equal(result.isError, undefined);
+      assert.equal(backend.requests.length - before, 2);
+    });
+
+    it('gives up after the configured retries', async () => {
+      const before = backend.requests.length;
+      const result = await client.callTool({
+        name: 'planner_tool',
+        arguments: { query: 'User page scenario:unavailable' }
+      });
+
+      assert.equal(result.isError, true);
+      assert.match(textOf(result), /HTTP Status:\*\* 503/);
+      assert.equal(backend.requests.length - before, 2);
+    });
+
+    it('keeps completed stages when generate_page fails', async () => {
+      const result = await client.callTool({
+        name: 'generate_page',
+        arguments: {
+          query: 'User management page',
+          plan: PLAN,
+          actStructure: withScenario(STRUCTURE_FIXTURE, 'rejected')
+        }
+      });
+
+      assert.equal(result.isError, true);
+      assert.match(textOf(result), /Execution Plan/);
+      assert.match(textOf(result), /Code Generation Stage API Error/);
+      assert.match(textOf(result), /Resuming From the Code Generation Stage/);
+    });
+  });
+});
+
+describe('kendoai-mcp over Streamable HTTP', () => {
+  let backend: MockBackend;
+  let dataDir: string;
+  let server: { url: string; child: ChildProcess };
+  let alice: Client;
+  let aliceTransport: StreamableHTTPClientTransport;
+
+  before(async () => {
+    backend = await startMockBackend({ secret: SECRET });
+    dataDir = await mkdtemp(path.join(tmpdir(), 'kendoai-mcp-http-test-'));
+    server = await startHttpMcpServer(
+      backend,
+      dataDir,
+      'alice:token-alice,bob:token-bob',
+      { OUTPUT_BASE_DIR: path.join(dataDir, 'output') }
+    );
+    alice = new Client({ name: 'alice', version: '1.0.0' });
+    aliceTransport = httpClientTransport(server.url, 'token-alice');
+    await alice.connect(aliceTransport);
+  });
+
+  after(async () => {
+    await alice?.close();
+    server?.child.kill();
+    await backend?.close();
+    if (dataDir) await rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('reports health without a token', async () => {
+    const response = await fetch(`${server.url}/health`);
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { status: 'ok', sessions: 1 });
+  });
+
+  it('rejects a missing or unknown bearer token', async () => {
+    for (const token of [undefined, 'token-mallory']) {
+      const client = new Client({ name: 'mallory', version: '1.0.0' });
+      await assert.rejects(
+        client.connect(httpClientTransport(server.url, token)),
+        /HTTP 401.*Missing or invalid bearer token/
+      );
+    }
+
+    const response = await fetch(`${server.url}/mcp`, { method: 'POST' });
+    assert.equal(response.status, 401);
+    assert.match(
+      response.headers.get('www-authenticate') ?? '',
+      /^Bearer realm=/
+    );
+  });
+
+  it('refuses a session to another client', async () => {
+    // With a session ID the client skips initialization and reuses it.
+    const bob = new Client({ name: 'bob', version: '1.0.0' });
+    await bob.connect(
+      httpClientTransport(server.url, 'token-bob', aliceTransport.sessionId)
+    );
+    try {
+      await assert.rejects(
+        bob.listTools(),
+        /HTTP 403.*Session belongs to another client/
+      );
+    } finally {
+      await bob.close();
+    }
+
+    const { tools } = await alice.listTools();
+    assert.ok(tools.some((tool) => tool.name === 'planner_tool'));
+  });
+
+  it('serves tool calls to the client that owns the session', async () => {
+    const result = await alice.callTool({
+      name: 'planner_tool',
+      arguments: { query: PLAN }
+    });
+
+    assert.equal(result.isError, undefined);
+    assert.equal(result.structuredContent?.plan, PLAN_FIXTURE);
+  });
+
+  it('sends tool call log entries only to the calling client', async () => {
+    type LogData = { event: string; sessionId?: string };
+    const entriesFor = (client: Client) => {
+      const entries: LogData[] = [];
+      client.setNotificationHandler(
+        LoggingMessageNotificationSchema,
+        ({ params }) => {
+          entries.push(params.data as LogData);
+        }
+      );
+      return entries;
+    };
+    const bob = new Client({ name: 'bob', version: '1.0.0' });
+    await bob.connect(httpClientTransport(server.url, 'token-bob'));
+    try {
+      const aliceEntries = entriesFor(alice);
+      const bobEntries = entriesFor(bob);
+      await alice.setLoggingLevel('debug');
+      await bob.setLoggingLevel('debug');
+
+      const query = 'Audit log page';
+      const bobResult = await bob.callTool({
+        name: 'planner_tool',
+        arguments: { query }
+      });
+      const aliceResult = await alice.callTool({
+        name: 'planner_tool',
+        arguments: { query }
+      });
+      // Notifications share one stream, so alice's own entry comes last.
+      for (let wait = 0; wait < 50; wait++) {
+        const seen = [aliceEntries, bobEntries].every((entries) =>
+          entries.some((entry) => entry.event === 'tool.call')
+        );
+        if (seen) break;
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+
+      const callsOf = (entries: LogData[]) =>
+        entries
+          .filter((entry) => entry.event === 'tool.call')
+          .map((entry) => entry.sessionId);
+      assert.deepEqual(callsOf(aliceEntries), [sessionIdOf(aliceResult)]);
+      assert.deepEqual(callsOf(bobEntries), [sessionIdOf(bobResult)]);
+      assert.equal(
+        aliceEntries.filter((entry) => entry.event === 'agent.response').length,
+        1
+      );
+    } finally {
+      await bob.close();
+    }
+  });
+
+  it('ignores client roots and confines files to the client directory', async () => {
+    const outside = await mkdtemp(path.join(tmpdir(), 'kendoai-mcp-outside-'));
+    const client = new Client(
+      { name: 'alice', version: '1.0.0' },
+      { capabilities: { roots: {} } }
+    );
+    client.setRequestHandler(ListRootsRequestSchema, () => ({
+      roots: [{ uri: 'file:///', name: 'Everything' }]
+    }));
+    await client.connect(httpClientTransport(server.url, 'token-alice'));
+    try {
+      const merge = (outputDir: string) =>
+        client.callTool({
+          name: 'merger_tool',
+          arguments: { actStructure: STRUCTURE_FIXTURE, outputDir }
+        });
+
+      const escaping = await merge(outside);
+      assert.equal(escaping.isError, true);
+      assert.match(
+        String(escaping.structuredContent?.writeError),
+        /is outside the allowed locations/
+      );
+      assert.deepEqual(await readdir(outside), []);
+
+      const extracted = await client.callTool({
+        name: 'extract_act',
+        arguments: { filePath: fileURLToPath(import.meta.url) }
+      });
+      assert.equal(extracted.isError, true);
+      assert.match(textOf(extracted), /is outside the allowed locations/);
+
+      const written = await merge('pages');
+      assert.deepEqual(
+        (written.structuredContent?.written as { path: string }[]).map(
+          (file) => file.path
+        ),
+        [
+          path.join(
+            dataDir,
+            'output',
+            'alice',
+            'pages',
+            'UserManagementPage.tsx'
+          )
+        ]
+      );
+    } finally {
+      await client.close();
+      await rm(outside, { recursive: true, force: true });
+    }
+  });
+
+  it('keeps cached responses and cache_admin per client', async () => {
+    const bob = new Client({ name: 'bob', version: '1.0.0' });
+    await bob.connect(httpClientTransport(server.url, 'token-bob'));
+    try {
+      const query = 'Invoice list page';
+      const before = backend.requests.length;
+      for (const client of [alice, bob, alice]) {
+        await client.callTool({ name: 'planner_tool', arguments: { query } });
+      }
+      assert.equal(backend.requests.length - before, 2);
+
+      const summariesOf = async (client: Client) => {
+        const listed = await client.callTool({
+          name: 'cache_admin',
+          arguments: { action: 'list' }
+        });
+        return (
+          listed.structuredContent?.entries as { summary: string }[]
+        ).map((entry) => entry.summary);
+      };
+      assert.ok((await summariesOf(alice)).includes(PLAN));
+      assert.equal((await summariesOf(bob)).includes(PLAN), false);
+
+      const cleared = await bob.callTool({
+        name: 'cache_admin',
+        arguments: { action: 'clear' }
+      });
+      assert.equal(cleared.structuredContent?.count, 0);
+      assert.ok((await summariesOf(alice)).includes(query));
+    } finally {
+      await bob.close();
+    }
+  });
+
+  it('closes sessions whose client has gone idle', async () => {
+    const idle = await startHttpMcpServer(
+      backend,
+      dataDir,
+      'carol:token-carol',
+      { MCP_HTTP_IDLE_TIMEOUT_MS: '500' }
+    );
+    try {
+      // A client that initializes and disappears without DELETE or a stream.
+      const headers = {
+        Authorization: 'Bearer token-carol',
+        Accept: 'application/json, text/event-stream',
+        'Content-Type': 'application/json'
+      };
+      const initialized = await fetch(`${idle.url}/mcp`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'initialize',
+          params: {
+            protocolVersion: '2025-06-18',
+            capabilities: {},
+            clientInfo: { name: 'carol', version: '1.0.0' }
+          }
+        })
+      });
+      await initialized.text();
+      const sessionId = initialized.headers.get('mcp-session-id')!;
+      assert.ok(sessionId);
+
+      const sessionCount = async () =>
+        ((await (await fetch(`${idle.url}/health`)).json()) as {
+          sessions: number;
+        }).sessions;
+      for (let attempt = 0; (await sessionCount()) > 0; attempt++) {
+        assert.ok(attempt < 50, 'the idle session was not closed');
+        await new Promise((resolve) => setTimeout(resolve, 200));
+      }
+
+      const reused = await fetch(`${idle.url}/mcp`, {
+        method: 'POST',
+        headers: { ...headers, 'mcp-session-id': sessionId },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' })
+      });
+      assert.equal(reused.status, 404);
+    } finally {
+      idle.child.kill();
+    }
+  });
+});
+
+describe('agent response cache', () => {
+  let backend: MockBackend;
+  let client: Client;
+  let dataDir: string;
+
+  const requestsTo = (agent: string) =>
+    backend.requests.filter((request) => request.agent === agent).length;
+
+  before(async () => {
+    backend = await startMockBackend({ secret: SECRET });
+    dataDir = await mkdtemp(path.join(tmpdir(), 'kendoai-mcp-cache-test-'));
+    client = await connectServer(backend, dataDir);
+  });
+
+  after(async () => {
+    await client?.close();
+    await backend?.close();
+    if (dataDir) await rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('answers repeated queries from the cache', async () => {
+    const first = await client.callTool({
+      name: 'planner_tool',
+      arguments: { query: 'User management page' }
+    });
+    const second = await client.callTool({
+      name: 'planner_tool',
+      arguments: { query: '  User   management page\n' }
+    });
+
+    assert.equal(second.structuredContent?.plan, first.structuredContent?.plan);
+    assert.equal(requestsTo('planner'), 1);
+  });
+
+  it('calls the service again when bypassCache is set', async () => {
+    await client.callTool({
+      name: 'planner_tool',
+      arguments: { query: 'User management page', bypassCache: true }
+    });
+
+    assert.equal(requestsTo('planner'), 2);
+  });
+
+  it('keys merger responses by the canonical ACT', async () => {
+    const reordered = JSON.parse(
+      JSON.stringify(STRUCTURE_FIXTURE, (_key, value) =>
+        value && typeof value === 'object' && !Array.isArray(value)
+          ? Object.fromEntries(Object.entries(value).reverse())
+          : value
+      )
+    );
+    await client.callTool({
+      name: 'merger_tool',
+      arguments: { actStructure: STRUCTURE_FIXTURE }
+    });
+    await client.callTool({
+      name: 'merger_tool',
+      arguments: { actStructure: reordered }
+    });
+
+    assert.equal(requestsTo('merger'), 1);
+  });
+
+  it('lists and clears entries with cache_admin', async () => {
+    const listed = await client.callTool({
+      name: 'cache_admin',
+      arguments: { action: 'list' }
+    });
+    const entries = listed.structuredContent?.entries as {
+      agent: string;
+      summary: string;
+    }[];
+    assert.deepEqual(entries.map((entry) => entry.agent).sort(), [
+      'merger',
+      'planner'
+    ]);
+    assert.ok(
+      entries.some((entry) => entry.summary === 'User management page')
+    );
+
+    const cleared = await client.callTool({
+      name: 'cache_admin',
+      arguments: { action: 'clear', agent: 'planner' }
+    });
+    assert.equal(cleared.structuredContent?.removed, 1);
+    assert.equal(cleared.structuredContent?.count, 1);
+
+    await client.callTool({
+      name: 'planner_tool',
+      arguments: { query: 'User management page' }
+    });
+    assert.equal(requestsTo('planner'), 3);
+  });
+});
+
+describe('configuration', () => {
+  let backend: MockBackend;
+  let dataDir: string;
+
+  before(async () => {
+    backend = await startMockBackend({ secret: SECRET });
+    dataDir = await mkdtemp(path.join(tmpdir(), 'kendoai-mcp-config-test-'));
+  });
+
+  after(async () => {
+    await backend?.close();
+    if (dataDir) await rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('reports every invalid setting on stderr and exits', () => {
+    const result = spawnSync(
+      process.execPath,
+      ['--import', 'tsx', 'src/server.ts'],
+      {
+        cwd: ROOT,
+        encoding: 'utf8',
+        timeout: 30_000,
+        env: {
+          PATH: process.env.PATH ?? '',
+          SERVER_URL: 'kendoai.example.com',
+          SECRET_FILE: path.join(dataDir, 'missing-secret'),
+          KENDOAI_DATA_DIR: dataDir,
+          KENDOAI_CONFIG: path.join(dataDir, 'missing.json')
+        }
+      }
+    );
+
+    assert.equal(result.status, 1);
+    assert.equal(result.stdout, '');
+    assert.match(result.stderr, /the configuration is invalid/);
+    assert.match(result.stderr, /cannot read the config file/);
+
+    const withoutFile = spawnSync(
+      process.execPath,
+      ['--import', 'tsx', 'src/server.ts'],
+      {
+        cwd: ROOT,
+        encoding: 'utf8',
+        timeout: 30_000,
+        env: {
+          PATH: process.env.PATH ?? '',
+          SERVER_URL: 'kendoai.example.com',
+          SECRET_FILE: path.join(dataDir, 'missing-secret'),
+          KENDOAI_DATA_DIR: dataDir,
+          HOME: dataDir
+        }
+      }
+    );
+    assert.equal(withoutFile.status, 1);
+    assert.match(
+      withoutFile.stderr,
+      /- SECRET_FILE: cannot read .*missing-secret/
+    );
+    assert.match(withoutFile.stderr, /- SERVER_URL: must be an absolute URL/);
+    assert.doesNotMatch(withoutFile.stderr, /ZodError/);
+  });
+
+  it('reads a config file and sends a file secret as a bearer header', async () => {
+    const configFile = path.join(dataDir, 'config.json');
+    const secretFile = path.join(dataDir, 'secret');
+    await writeFile(secretFile, `${SECRET}\n`);
+    await writeFile(
+      configFile,
+      JSON.stringify({
+        SERVER_URL: `${backend.url}/`,
+        SECRET_FILE: secretFile,
+        TRACE_RUNS: true,
+        CACHE_TTL_MS: 0
+      })
+    );
+
+    const client = await connectServer(backend, dataDir, {
+      SECRET: undefined,
+      SERVER_URL: undefined,
+      KENDOAI_CONFIG: configFile
+    });
+    try {
+      const result = await client.callTool({
+        name: 'planner_tool',
+        arguments: { query: `Page that must not leak ${SECRET}` }
+      });
+      assert.equal(result.isError, undefined);
+
+      const request = backend.requests.at(-1)!;
+      assert.equal(request.authorization, `Bearer ${SECRET}`);
+      assert.equal(request.body.secret, undefined);
+
+      const trace = await readFile(
+        path.join(dataDir, 'traces', `${sessionIdOf(result)}.jsonl`),
+        'utf8'
+      );
+      assert.match(trace, /Page that must not leak \[REDACTED\]/);
+      assert.equal(trace.includes(SECRET), false);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('removes the least recently updated sessions beyond SESSION_MAX_COUNT', async () => {
+    const client = await connectServer(backend, dataDir, {
+      KENDOAI_DATA_DIR: await mkdtemp(path.join(dataDir, 'sessions-')),
+      SESSION_MAX_COUNT: '2',
+      CACHE_TTL_MS: '0'
+    });
+    try {
+      const ids: string[] = [];
+      for (const query of ['Users page', 'Orders page', 'Invoices page']) {
+        const result = await client.callTool({
+          name: 'planner_tool',
+          arguments: { query }
+        });
+        ids.push(sessionIdOf(result));
+      }
+
+      const { resources } = await client.listResources();
+      const sessions = resources
+        .map((resource) => resource.uri)
+        .filter((uri) => /^kendoai:\/\/sessions\/[^/]+$/.test(uri));
+      assert.deepEqual(
+        sessions.sort(),
+        ids
+          .slice(1)
+          .map((id) => `kendoai://sessions/${id}`)
+          .sort()
+      );
+
+      const result = await client.callTool({
+        name: 'structure_tool',
+        arguments: { query: 'Users page', sessionId: ids[0] }
+      });
+      assert.equal(result.isError, true);
+      assert.match(textOf(result), /Unknown session/);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('sends the secret in the body only when SECRET_TRANSPORT opts in', async () => {
+    const client = await connectServer(backend, dataDir, {
+      SECRET_TRANSPORT: 'body',
+      CACHE_TTL_MS: '0'
+    });
+    try {
+      const result = await client.callTool({
+        name: 'planner_tool',
+        arguments: { query: 'User management page' }
+      });
+      assert.equal(result.isError, undefined);
+
+      const request = backend.requests.at(-1)!;
+      assert.equal(request.body.secret, SECRET);
+      assert.equal(request.authorization, undefined);
+    } finally {
+      await client.close();
+    }
+  });
+});